@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import CitationList from './CitationList';
+import { ChatMessage, SemanticSearchResult } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
+
+interface ChatMessageBubbleProps {
+  message: ChatMessage;
+  onCitationPress?: (citation: SemanticSearchResult) => void;
+}
+
+const STATUS_LABELS: Partial<Record<NonNullable<ChatMessage['status']>, string>> = {
+  stopped: 'Respuesta detenida',
+  error: 'No se pudo completar la respuesta',
+};
+
+const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message, onCitationPress }) => {
+  const isUser = message.role === 'user';
+  const statusLabel = message.status ? STATUS_LABELS[message.status] : undefined;
+  const isWaiting = message.status === 'streaming' && !message.content;
+
+  return (
+    <View style={[styles.row, isUser ? styles.rowUser : styles.rowAssistant]}>
+      <View style={[styles.bubble, isUser ? styles.bubbleUser : styles.bubbleAssistant]}>
+        {isWaiting ? (
+          <ActivityIndicator size="small" color={COLORS.primary} />
+        ) : (
+          <Text style={[styles.content, isUser && styles.contentUser]} selectable>
+            {message.content}
+            {message.status === 'streaming' ? '▍' : ''}
+          </Text>
+        )}
+        {statusLabel && <Text style={styles.status}>{statusLabel}</Text>}
+        {!isUser && message.citations && onCitationPress && (
+          <CitationList citations={message.citations} onPress={onCitationPress} />
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    marginBottom: SPACING.sm,
+  },
+  rowUser: {
+    justifyContent: 'flex-end',
+  },
+  rowAssistant: {
+    justifyContent: 'flex-start',
+  },
+  bubble: {
+    maxWidth: '85%',
+    borderRadius: BORDER_RADIUS.lg,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  bubbleUser: {
+    backgroundColor: COLORS.primary,
+    borderBottomRightRadius: BORDER_RADIUS.sm,
+  },
+  bubbleAssistant: {
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderBottomLeftRadius: BORDER_RADIUS.sm,
+  },
+  content: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    lineHeight: 20,
+  },
+  contentUser: {
+    color: COLORS.background,
+  },
+  status: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+});
+
+export default ChatMessageBubble;
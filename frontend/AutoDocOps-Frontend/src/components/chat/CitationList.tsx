@@ -0,0 +1,103 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SemanticSearchResult } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
+import { formatScore, getDisplayMetadata, getResultTitle } from '../../utils/searchResults';
+
+interface CitationListProps {
+  citations: SemanticSearchResult[];
+  onPress: (citation: SemanticSearchResult) => void;
+}
+
+const CitationList: React.FC<CitationListProps> = ({ citations, onPress }) => {
+  if (citations.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Fuentes</Text>
+      {citations.map((citation, index) => (
+        <TouchableOpacity
+          key={citation.id}
+          style={styles.citation}
+          onPress={() => onPress(citation)}
+          accessibilityRole="link"
+        >
+          <View style={styles.header}>
+            <Text style={styles.index}>[{index + 1}]</Text>
+            <Ionicons
+              name={citation.type === 'api' ? 'code-outline' : 'server-outline'}
+              size={14}
+              color={COLORS.primary}
+              style={styles.icon}
+            />
+            <Text style={styles.title} numberOfLines={1}>
+              {getResultTitle(citation)}
+            </Text>
+            <Text style={styles.score}>{formatScore(citation.score)}</Text>
+          </View>
+          {getDisplayMetadata(citation).map(([key, value]) => (
+            <Text key={key} style={styles.metadata} numberOfLines={1}>
+              {key}: {value}
+            </Text>
+          ))}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: SPACING.sm,
+    paddingTop: SPACING.sm,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  heading: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.xs,
+  },
+  citation: {
+    backgroundColor: COLORS.background,
+    borderRadius: BORDER_RADIUS.sm,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  index: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginRight: SPACING.xs,
+  },
+  icon: {
+    marginRight: SPACING.xs,
+  },
+  title: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  score: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginLeft: SPACING.xs,
+  },
+  metadata: {
+    fontSize: TYPOGRAPHY.small,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+});
+
+export default CitationList;
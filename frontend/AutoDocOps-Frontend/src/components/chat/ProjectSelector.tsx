@@ -0,0 +1,82 @@
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Project } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
+
+interface ProjectSelectorProps {
+  projects: Pick<Project, 'id' | 'name'>[];
+  selectedId: string | null;
+  onSelect: (projectId: string | null) => void;
+  // When set, a leading chip selects no project (e.g. "all projects")
+  allLabel?: string;
+  disabled?: boolean;
+}
+
+const ProjectSelector: React.FC<ProjectSelectorProps> = ({
+  projects,
+  selectedId,
+  onSelect,
+  allLabel,
+  disabled = false,
+}) => {
+  const renderChip = (id: string | null, label: string): React.ReactElement => {
+    const isSelected = id === selectedId;
+    return (
+      <TouchableOpacity
+        key={id ?? 'all'}
+        style={[styles.chip, isSelected && styles.chipSelected, disabled && styles.disabled]}
+        onPress={() => onSelect(id)}
+        disabled={disabled}
+      >
+        <Text style={[styles.chipText, isSelected && styles.chipTextSelected]} numberOfLines={1}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {allLabel !== undefined && renderChip(null, allLabel)}
+      {projects.map(project => renderChip(project.id, project.name))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.full,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs + 2,
+    marginRight: SPACING.sm,
+    backgroundColor: COLORS.surface,
+    maxWidth: 200,
+  },
+  chipSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+  },
+  chipTextSelected: {
+    color: COLORS.background,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+});
+
+export default ProjectSelector;
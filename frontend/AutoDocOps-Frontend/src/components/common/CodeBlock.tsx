@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { ScrollView, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS, SYNTAX_COLORS } from '../../constants';
+import { CodeLanguage, tokenize } from '../../utils/syntaxHighlight';
+
+interface CodeBlockProps {
+  code: string;
+  // Plain text when the language isn't highlighted
+  language?: CodeLanguage | undefined;
+  style?: StyleProp<ViewStyle>;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, style }) => {
+  const tokens = useMemo(() => {
+    const trimmed = code.replace(/\s+$/, '');
+    return language ? tokenize(trimmed, language) : [{ type: 'plain' as const, text: trimmed }];
+  }, [code, language]);
+
+  return (
+    <ScrollView
+      horizontal
+      style={[styles.container, style]}
+      contentContainerStyle={styles.content}
+      showsHorizontalScrollIndicator={false}
+    >
+      <Text style={styles.code} selectable>
+        {tokens.map((token, index) =>
+          token.type === 'plain' ? (
+            token.text
+          ) : (
+            <Text
+              key={index}
+              style={[
+                { color: SYNTAX_COLORS[token.type] },
+                token.type === 'keyword' && styles.bold,
+              ]}
+            >
+              {token.text}
+            </Text>
+          ),
+        )}
+      </Text>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: BORDER_RADIUS.sm,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  content: {
+    padding: SPACING.sm,
+  },
+  code: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: SYNTAX_COLORS.plain,
+    lineHeight: 18,
+  },
+  bold: {
+    fontWeight: '600',
+  },
+});
+
+export default CodeBlock;
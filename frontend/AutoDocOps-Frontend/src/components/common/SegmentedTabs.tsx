@@ -0,0 +1,98 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
+
+export interface SegmentedTab<T extends string> {
+  key: T;
+  label: string;
+  count?: number;
+}
+
+interface SegmentedTabsProps<T extends string> {
+  tabs: SegmentedTab<T>[];
+  selectedKey: T;
+  onSelect: (key: T) => void;
+}
+
+const MAX_FIXED_TABS = 4;
+
+const SegmentedTabs = <T extends string>({
+  tabs,
+  selectedKey,
+  onSelect,
+}: SegmentedTabsProps<T>): React.ReactElement => {
+  // Past this many tabs the labels no longer fit side by side
+  const isScrollable = tabs.length > MAX_FIXED_TABS;
+  const items = tabs.map(tab => {
+    const isSelected = tab.key === selectedKey;
+    return (
+      <TouchableOpacity
+        key={tab.key}
+        style={[styles.tab, isScrollable && styles.tabScrollable, isSelected && styles.tabSelected]}
+        onPress={() => onSelect(tab.key)}
+        accessibilityRole="tab"
+        accessibilityState={{ selected: isSelected }}
+      >
+        <Text style={[styles.label, isSelected && styles.labelSelected]} numberOfLines={1}>
+          {tab.label}
+          {tab.count !== undefined ? ` (${tab.count})` : ''}
+        </Text>
+      </TouchableOpacity>
+    );
+  });
+
+  return isScrollable ? (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.scroll}
+      contentContainerStyle={styles.container}
+    >
+      {items}
+    </ScrollView>
+  ) : (
+    <View style={styles.container}>{items}</View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    margin: SPACING.md,
+    marginBottom: SPACING.sm,
+    padding: 2,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.surface,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.xs + 2,
+    borderRadius: BORDER_RADIUS.md - 2,
+  },
+  tabScrollable: {
+    flex: 0,
+    paddingHorizontal: SPACING.md,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  tabSelected: {
+    backgroundColor: COLORS.background,
+    shadowColor: COLORS.text,
+    shadowOpacity: 0.08,
+    shadowRadius: 2,
+    shadowOffset: { width: 0, height: 1 },
+    elevation: 1,
+  },
+  label: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+  },
+  labelSelected: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+});
+
+export default SegmentedTabs;
@@ -0,0 +1,447 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  ScrollView,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DatabaseSchema, DataDictionaryColumn, DataDictionaryTable } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import {
+  DataDictionaryParseError,
+  filterDataDictionary,
+  findTable,
+  getTableKey,
+  parseDataDictionary,
+} from '../../utils/dataDictionary';
+
+type SchemaStats = Pick<
+  DatabaseSchema,
+  'tableCount' | 'viewCount' | 'storedProcedureCount' | 'functionCount'
+>;
+
+interface DataDictionaryBrowserProps {
+  source: string;
+  stats: SchemaStats;
+  // Table to show on load ("dbo.Users")
+  initialTarget?: string;
+}
+
+const STAT_LABELS: { key: keyof SchemaStats; label: string }[] = [
+  { key: 'tableCount', label: 'Tablas' },
+  { key: 'viewCount', label: 'Vistas' },
+  { key: 'storedProcedureCount', label: 'Procedimientos' },
+  { key: 'functionCount', label: 'Funciones' },
+];
+
+const DataDictionaryBrowser: React.FC<DataDictionaryBrowserProps> = ({
+  source,
+  stats,
+  initialTarget,
+}) => {
+  const [schema, setSchema] = useState<string | null>(null);
+  const [columnQuery, setColumnQuery] = useState('');
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const listRef = useRef<FlatList<DataDictionaryTable>>(null);
+
+  const { tables, error } = useMemo(() => {
+    try {
+      return { tables: parseDataDictionary(source), error: null };
+    } catch (parseError) {
+      return {
+        tables: [],
+        error:
+          parseError instanceof DataDictionaryParseError
+            ? parseError.message
+            : 'No se pudo interpretar el diccionario de datos.',
+      };
+    }
+  }, [source]);
+
+  const schemas = useMemo(() => Array.from(new Set(tables.map(table => table.schema))), [tables]);
+
+  const visibleTables = useMemo(
+    () => filterDataDictionary(tables, schema, columnQuery),
+    [tables, schema, columnQuery],
+  );
+
+  const jumpTo = (table: DataDictionaryTable): void => {
+    const key = getTableKey(table);
+    // Clear the filters that would hide the referenced table
+    if (!visibleTables.some(visible => getTableKey(visible) === key)) {
+      setSchema(null);
+      setColumnQuery('');
+    }
+    setHighlighted(key);
+  };
+
+  useEffect(() => {
+    const table = initialTarget ? findTable(tables, initialTarget) : undefined;
+    setHighlighted(table ? getTableKey(table) : null);
+  }, [tables, initialTarget]);
+
+  // Scroll once the highlighted table is part of the rendered list
+  useEffect(() => {
+    const index = visibleTables.findIndex(table => getTableKey(table) === highlighted);
+    if (index >= 0) {
+      listRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0 });
+    }
+  }, [highlighted, visibleTables]);
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="alert-circle-outline" size={48} color={COLORS.textSecondary} />
+        <Text style={styles.emptyText}>{error}</Text>
+      </View>
+    );
+  }
+
+  const renderColumn = (table: DataDictionaryTable, column: DataDictionaryColumn) => {
+    const { references } = column;
+    const referencedTable = references
+      ? findTable(tables, references.table, references.schema ?? table.schema)
+      : undefined;
+
+    return (
+      <View key={column.name} style={styles.column}>
+        <View style={styles.columnHeader}>
+          <Text style={styles.columnName} selectable>
+            {column.name}
+          </Text>
+          {column.isPrimaryKey && (
+            <View style={[styles.keyBadge, styles.primaryKeyBadge]}>
+              <Text style={[styles.keyText, styles.primaryKeyText]}>PK</Text>
+            </View>
+          )}
+          {column.isForeignKey && (
+            <View style={styles.keyBadge}>
+              <Text style={styles.keyText}>FK</Text>
+            </View>
+          )}
+          <Text style={styles.columnType}>{column.dataType}</Text>
+          <Text style={[styles.nullability, !column.isNullable && styles.notNull]}>
+            {column.isNullable ? 'NULL' : 'NOT NULL'}
+          </Text>
+        </View>
+        {column.description && <Text style={styles.columnDescription}>{column.description}</Text>}
+        {column.defaultValue && (
+          <Text style={styles.columnMeta}>Por defecto: {column.defaultValue}</Text>
+        )}
+        {references && (
+          <TouchableOpacity
+            style={styles.reference}
+            onPress={() => referencedTable && jumpTo(referencedTable)}
+            disabled={!referencedTable}
+            accessibilityLabel={`Ir a la tabla ${references.table}`}
+          >
+            <Ionicons
+              name="return-down-forward-outline"
+              size={14}
+              color={referencedTable ? COLORS.primary : COLORS.textSecondary}
+            />
+            <Text style={[styles.referenceText, !referencedTable && styles.referenceMissing]}>
+              {referencedTable ? getTableKey(referencedTable) : references.table}
+              {references.column ? `.${references.column}` : ''}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderTable = ({ item }: { item: DataDictionaryTable }) => {
+    const key = getTableKey(item);
+    return (
+      <View style={[styles.table, key === highlighted && styles.tableHighlighted]}>
+        <View style={styles.tableHeader}>
+          <Ionicons
+            name={item.objectType === 'View' ? 'eye-outline' : 'grid-outline'}
+            size={16}
+            color={COLORS.primary}
+          />
+          <Text style={styles.tableName} selectable>
+            {key}
+          </Text>
+          <Text style={styles.columnCount}>{item.columns.length} col.</Text>
+        </View>
+        {item.description && <Text style={styles.tableDescription}>{item.description}</Text>}
+        {item.columns.map(column => renderColumn(item, column))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.stats}>
+        {STAT_LABELS.map(({ key, label }) => (
+          <View key={key} style={styles.stat}>
+            <Text style={styles.statValue}>{stats[key]}</Text>
+            <Text style={styles.statLabel}>{label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color={COLORS.textSecondary} />
+        <TextInput
+          style={styles.input}
+          placeholder="Filtrar por nombre de columna"
+          placeholderTextColor={COLORS.textSecondary}
+          value={columnQuery}
+          onChangeText={setColumnQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {columnQuery.length > 0 && (
+          <TouchableOpacity onPress={() => setColumnQuery('')} accessibilityLabel="Limpiar filtro">
+            <Ionicons name="close-circle" size={18} color={COLORS.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {schemas.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.schemaBar}
+          contentContainerStyle={styles.schemaList}
+        >
+          {[null, ...schemas].map(option => (
+            <TouchableOpacity
+              key={option ?? 'all'}
+              style={[styles.schemaChip, option === schema && styles.schemaChipSelected]}
+              onPress={() => setSchema(option)}
+            >
+              <Text style={[styles.schemaText, option === schema && styles.schemaTextSelected]}>
+                {option ?? 'Todos'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <FlatList
+        ref={listRef}
+        data={visibleTables}
+        keyExtractor={getTableKey}
+        renderItem={renderTable}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        onScrollToIndexFailed={({ index, averageItemLength }) => {
+          // Rows have variable height: get close first, then retry once they are measured
+          listRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+          setTimeout(() => listRef.current?.scrollToIndex({ index, animated: true }), 100);
+        }}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>Ninguna columna coincide con el filtro.</Text>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.xl,
+  },
+  stats: {
+    flexDirection: 'row',
+    marginHorizontal: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: TYPOGRAPHY.h4,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  statLabel: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: SPACING.md,
+    marginBottom: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.surface,
+  },
+  input: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    paddingVertical: SPACING.sm,
+    marginHorizontal: SPACING.sm,
+  },
+  schemaBar: {
+    flexGrow: 0,
+  },
+  schemaList: {
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.sm,
+  },
+  schemaChip: {
+    paddingHorizontal: SPACING.sm + 2,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginRight: SPACING.xs,
+  },
+  schemaChipSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+  schemaText: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.text,
+  },
+  schemaTextSelected: {
+    color: COLORS.background,
+    fontWeight: '600',
+  },
+  list: {
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.xl,
+  },
+  table: {
+    marginBottom: SPACING.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    overflow: 'hidden',
+  },
+  tableHighlighted: {
+    borderColor: COLORS.primary,
+    borderWidth: 2,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: SPACING.sm,
+    backgroundColor: COLORS.surface,
+  },
+  tableName: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    marginLeft: SPACING.xs,
+  },
+  columnCount: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+  },
+  tableDescription: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    paddingHorizontal: SPACING.sm,
+    paddingTop: SPACING.xs,
+  },
+  column: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs + 2,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
+  columnName: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    marginRight: SPACING.xs,
+  },
+  keyBadge: {
+    paddingHorizontal: SPACING.xs,
+    borderRadius: BORDER_RADIUS.sm,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginRight: SPACING.xs,
+  },
+  primaryKeyBadge: {
+    backgroundColor: COLORS.highlight,
+    borderColor: COLORS.warning,
+  },
+  keyText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: COLORS.textSecondary,
+  },
+  primaryKeyText: {
+    color: COLORS.warningDark,
+  },
+  columnType: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.primary,
+  },
+  nullability: {
+    fontSize: 10,
+    color: COLORS.textSecondary,
+  },
+  notNull: {
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  columnDescription: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  columnMeta: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  reference: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: SPACING.xs,
+  },
+  referenceText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.primary,
+    marginLeft: SPACING.xs,
+  },
+  referenceMissing: {
+    color: COLORS.textSecondary,
+  },
+  emptyText: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.lg,
+  },
+});
+
+export default DataDictionaryBrowser;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import SegmentedTabs, { SegmentedTab } from '../common/SegmentedTabs';
+import MarkdownView from '../markdown/MarkdownView';
+import DataDictionaryBrowser from './DataDictionaryBrowser';
+import ErDiagramView from './ErDiagramView';
+import RoutinesBrowser from './RoutinesBrowser';
+import SampleQueriesBrowser from './SampleQueriesBrowser';
+import { DatabaseSchema, RoutineKind } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING } from '../../constants';
+
+type DatabaseSection = 'diagram' | 'dictionary' | 'routines' | 'queries' | 'guides';
+
+interface DatabaseDocumentationViewProps {
+  schema: DatabaseSchema;
+  // Table to show on load ("dbo.Users"), forwarded to every section
+  target?: string;
+  collapsibleCode?: boolean;
+}
+
+/**
+ * Tabs over the generated sections of a DatabaseSchema. Sections the generator left empty
+ * are not offered.
+ */
+const DatabaseDocumentationView: React.FC<DatabaseDocumentationViewProps> = ({
+  schema,
+  target,
+  collapsibleCode = false,
+}) => {
+  const tabs = useMemo(() => {
+    const available: SegmentedTab<DatabaseSection>[] = [];
+    if (schema.erDiagram) {
+      available.push({ key: 'diagram', label: 'Diagrama ER' });
+    }
+    if (schema.dataDictionary) {
+      available.push({ key: 'dictionary', label: 'Diccionario' });
+    }
+    if ([schema.storedProceduresDoc, schema.functionsDoc, schema.triggersDoc].some(Boolean)) {
+      available.push({ key: 'routines', label: 'Rutinas' });
+    }
+    if (schema.sampleQueries) {
+      available.push({ key: 'queries', label: 'Consultas' });
+    }
+    if (schema.usageGuides) {
+      available.push({ key: 'guides', label: 'Guías' });
+    }
+    return available;
+  }, [schema]);
+
+  const routineDocs = useMemo(
+    (): Partial<Record<RoutineKind, string>> => ({
+      ...(schema.storedProceduresDoc ? { procedure: schema.storedProceduresDoc } : {}),
+      ...(schema.functionsDoc ? { function: schema.functionsDoc } : {}),
+      ...(schema.triggersDoc ? { trigger: schema.triggersDoc } : {}),
+    }),
+    [schema],
+  );
+
+  const [selected, setSelected] = useState<DatabaseSection | null>(null);
+  const section = tabs.find(tab => tab.key === selected)?.key ?? tabs[0]?.key;
+
+  if (!section) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="server-outline" size={48} color={COLORS.textSecondary} />
+        <Text style={styles.title}>{schema.databaseName}</Text>
+        <Text style={styles.message}>{schema.description}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {tabs.length > 1 && (
+        <SegmentedTabs tabs={tabs} selectedKey={section} onSelect={setSelected} />
+      )}
+      {section === 'diagram' && schema.erDiagram && (
+        <ErDiagramView source={schema.erDiagram} {...(target ? { initialFocus: target } : {})} />
+      )}
+      {section === 'dictionary' && schema.dataDictionary && (
+        <DataDictionaryBrowser
+          source={schema.dataDictionary}
+          stats={schema}
+          {...(target ? { initialTarget: target } : {})}
+        />
+      )}
+      {section === 'routines' && (
+        <RoutinesBrowser docs={routineDocs} {...(target ? { initialTarget: target } : {})} />
+      )}
+      {section === 'queries' && schema.sampleQueries && (
+        <SampleQueriesBrowser schemaId={schema.id} source={schema.sampleQueries} />
+      )}
+      {section === 'guides' && schema.usageGuides && (
+        <MarkdownView markdown={schema.usageGuides} collapsibleCode={collapsibleCode} />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.background,
+    padding: SPACING.xl,
+  },
+  title: {
+    fontSize: TYPOGRAPHY.h4,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginTop: SPACING.md,
+  },
+  message: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
+});
+
+export default DatabaseDocumentationView;
@@ -0,0 +1,522 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  LayoutChangeEvent,
+} from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Svg, { G, Rect, Path, Text as SvgText } from 'react-native-svg';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import {
+  CARDINALITY_LABELS,
+  ErDiagram,
+  ErDiagramParseError,
+  findEntity,
+  parseErDiagram,
+} from '../../utils/erDiagram';
+import {
+  ER_LAYOUT,
+  EntityBox,
+  Point,
+  RelationshipLine,
+  layoutErDiagram,
+} from '../../utils/erLayout';
+
+interface ErDiagramViewProps {
+  source: string;
+  // Table to focus on load ("dbo.Users")
+  initialFocus?: string;
+}
+
+interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 3;
+const MAX_SUGGESTIONS = 5;
+
+const clampScale = (scale: number): number => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// Point at `distance` from `from` along the segment towards `to`
+const along = (from: Point, to: Point, distance: number): Point => {
+  const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+  return {
+    x: from.x + ((to.x - from.x) / length) * distance,
+    y: from.y + ((to.y - from.y) / length) * distance,
+  };
+};
+
+const linePath = ({ relationship, start, end }: RelationshipLine): string =>
+  relationship.from === relationship.to
+    ? `M ${start.x} ${start.y} C ${start.x + 40} ${start.y} ${end.x + 40} ${end.y} ${end.x} ${end.y}`
+    : `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
+
+const parseDiagram = (source: string): { diagram: ErDiagram | null; error: string | null } => {
+  try {
+    return { diagram: parseErDiagram(source), error: null };
+  } catch (parseError) {
+    return {
+      diagram: null,
+      error:
+        parseError instanceof ErDiagramParseError
+          ? parseError.message
+          : 'No se pudo interpretar el diagrama ER.',
+    };
+  }
+};
+
+// A relationship line with its cardinalities at both ends and its label in the middle
+const RelationshipShape: React.FC<{ line: RelationshipLine; highlighted: boolean }> = ({
+  line,
+  highlighted,
+}) => {
+  const stroke = highlighted ? COLORS.primary : COLORS.textSecondary;
+  const fromLabel = along(line.start, line.end, 14);
+  const toLabel = along(line.end, line.start, 14);
+  const middle = {
+    x: (line.start.x + line.end.x) / 2,
+    y: (line.start.y + line.end.y) / 2,
+  };
+  const isSelf = line.relationship.from === line.relationship.to;
+  return (
+    <G>
+      <Path
+        d={linePath(line)}
+        stroke={stroke}
+        strokeWidth={highlighted ? 2 : 1}
+        {...(line.relationship.identifying ? {} : { strokeDasharray: '6 4' })}
+        fill="none"
+      />
+      <SvgText x={fromLabel.x} y={fromLabel.y - 4} fontSize={10} fill={stroke}>
+        {CARDINALITY_LABELS[line.relationship.fromCardinality]}
+      </SvgText>
+      <SvgText x={toLabel.x} y={toLabel.y - 4} fontSize={10} fill={stroke}>
+        {CARDINALITY_LABELS[line.relationship.toCardinality]}
+      </SvgText>
+      {line.relationship.label ? (
+        <SvgText
+          x={isSelf ? middle.x + 34 : middle.x}
+          y={middle.y - 4}
+          fontSize={10}
+          fontStyle="italic"
+          fill={stroke}
+          textAnchor={isSelf ? 'start' : 'middle'}
+        >
+          {line.relationship.label}
+        </SvgText>
+      ) : null}
+    </G>
+  );
+};
+
+// A table box: header with its name, then one row per attribute
+const EntityShape: React.FC<{ box: EntityBox; isFocused: boolean }> = ({ box, isFocused }) => (
+  <G>
+    <Rect
+      x={box.x}
+      y={box.y}
+      width={box.width}
+      height={box.height}
+      rx={BORDER_RADIUS.sm}
+      fill={COLORS.background}
+      stroke={isFocused ? COLORS.warning : COLORS.border}
+      strokeWidth={isFocused ? 3 : 1}
+    />
+    <Rect
+      x={box.x}
+      y={box.y}
+      width={box.width}
+      height={ER_LAYOUT.HEADER_HEIGHT}
+      rx={BORDER_RADIUS.sm}
+      fill={isFocused ? COLORS.primaryDark : COLORS.primary}
+    />
+    <SvgText
+      x={box.x + box.width / 2}
+      y={box.y + 18}
+      fontSize={12}
+      fontWeight="bold"
+      fill={COLORS.background}
+      textAnchor="middle"
+    >
+      {box.entity.label ?? box.entity.name}
+    </SvgText>
+    {box.entity.attributes.map((attribute, index) => {
+      const rowY = box.y + ER_LAYOUT.HEADER_HEIGHT + (index + 1) * ER_LAYOUT.ROW_HEIGHT - 4;
+      return (
+        <G key={`${attribute.name}-${index}`}>
+          <SvgText
+            x={box.x + ER_LAYOUT.PADDING}
+            y={rowY}
+            fontSize={11}
+            fontFamily={FONTS.mono}
+            fontWeight={attribute.keys.includes('PK') ? 'bold' : 'normal'}
+            fill={COLORS.text}
+          >
+            {attribute.name}
+          </SvgText>
+          <SvgText
+            x={box.x + box.width - ER_LAYOUT.PADDING}
+            y={rowY}
+            fontSize={10}
+            fontFamily={FONTS.mono}
+            fill={attribute.keys.length ? COLORS.primary : COLORS.textSecondary}
+            textAnchor="end"
+          >
+            {[attribute.type, ...attribute.keys].join(' ')}
+          </SvgText>
+        </G>
+      );
+    })}
+  </G>
+);
+
+interface TableSearchProps {
+  tableCount: number;
+  search: string;
+  suggestions: EntityBox[];
+  onSearchChange: (search: string) => void;
+  onSelect: (box: EntityBox) => void;
+}
+
+// Table name search, with the matching tables listed below it
+const TableSearch: React.FC<TableSearchProps> = ({
+  tableCount,
+  search,
+  suggestions,
+  onSearchChange,
+  onSelect,
+}) => (
+  <>
+    <View style={styles.searchBar}>
+      <Ionicons name="search" size={18} color={COLORS.textSecondary} />
+      <TextInput
+        style={styles.searchInput}
+        placeholder={`Buscar tabla (${tableCount})`}
+        placeholderTextColor={COLORS.textSecondary}
+        value={search}
+        onChangeText={onSearchChange}
+        onSubmitEditing={() => suggestions[0] && onSelect(suggestions[0])}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="search"
+      />
+    </View>
+    {suggestions.length > 0 && (
+      <View style={styles.suggestions}>
+        {suggestions.map(box => (
+          <TouchableOpacity
+            key={box.entity.name}
+            style={styles.suggestion}
+            onPress={() => onSelect(box)}
+          >
+            <Text style={styles.suggestionText}>{box.entity.label ?? box.entity.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    )}
+  </>
+);
+
+// Tables whose name or label contains the search term
+const findSuggestions = (boxes: EntityBox[], search: string): EntityBox[] => {
+  const term = search.trim().toLowerCase();
+  if (!term) {
+    return [];
+  }
+  return boxes
+    .filter(box =>
+      [box.entity.name, box.entity.label ?? ''].some(name => name.toLowerCase().includes(term)),
+    )
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+interface ViewportControls {
+  viewport: Viewport;
+  setViewport: React.Dispatch<React.SetStateAction<Viewport>>;
+  // Zooms around the center of the canvas
+  zoomBy: (factor: number) => void;
+  gesture: ReturnType<typeof Gesture.Simultaneous>;
+}
+
+// Pan and pinch gestures and button zoom, applied to the canvas viewport
+const useViewport = (size: { width: number; height: number }): ViewportControls => {
+  const [viewport, setViewport] = useState<Viewport>({ scale: 1, x: 0, y: 0 });
+  const gestureStart = useRef<Viewport>(viewport);
+
+  const zoomBy = (factor: number): void => {
+    setViewport(current => {
+      const scale = clampScale(current.scale * factor);
+      const centerX = size.width / 2;
+      const centerY = size.height / 2;
+      return {
+        scale,
+        x: centerX - (centerX - current.x) * (scale / current.scale),
+        y: centerY - (centerY - current.y) * (scale / current.scale),
+      };
+    });
+  };
+
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .maxPointers(1)
+    .onStart(() => {
+      gestureStart.current = viewport;
+    })
+    .onUpdate(event => {
+      setViewport(current => ({
+        ...current,
+        x: gestureStart.current.x + event.translationX,
+        y: gestureStart.current.y + event.translationY,
+      }));
+    });
+
+  // Zooms around the pinch focal point so the content under the fingers stays in place
+  const pinch = Gesture.Pinch()
+    .runOnJS(true)
+    .onStart(() => {
+      gestureStart.current = viewport;
+    })
+    .onUpdate(event => {
+      const start = gestureStart.current;
+      const scale = clampScale(start.scale * event.scale);
+      setViewport({
+        scale,
+        x: event.focalX - (event.focalX - start.x) * (scale / start.scale),
+        y: event.focalY - (event.focalY - start.y) * (scale / start.scale),
+      });
+    });
+
+  return { viewport, setViewport, zoomBy, gesture: Gesture.Simultaneous(pan, pinch) };
+};
+
+interface ZoomControlsProps {
+  onZoom: (factor: number) => void;
+  onFit: () => void;
+}
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({ onZoom, onFit }) => (
+  <View style={styles.controls}>
+    <TouchableOpacity style={styles.controlButton} onPress={() => onZoom(1.25)}>
+      <Ionicons name="add" size={20} color={COLORS.text} />
+    </TouchableOpacity>
+    <TouchableOpacity style={styles.controlButton} onPress={() => onZoom(0.8)}>
+      <Ionicons name="remove" size={20} color={COLORS.text} />
+    </TouchableOpacity>
+    <TouchableOpacity style={styles.controlButton} onPress={onFit}>
+      <Ionicons name="scan-outline" size={20} color={COLORS.text} />
+    </TouchableOpacity>
+  </View>
+);
+
+const ErDiagramView: React.FC<ErDiagramViewProps> = ({ source, initialFocus }) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const { viewport, setViewport, zoomBy, gesture } = useViewport(size);
+  const [focused, setFocused] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  const { diagram, error } = useMemo(() => parseDiagram(source), [source]);
+
+  const layout = useMemo(() => (diagram ? layoutErDiagram(diagram) : null), [diagram]);
+
+  const fitToScreen = useCallback((): void => {
+    if (!layout || size.width === 0) {
+      return;
+    }
+    const scale = clampScale(Math.min(size.width / layout.width, size.height / layout.height, 1));
+    setViewport({
+      scale,
+      x: (size.width - layout.width * scale) / 2,
+      y: Math.max(0, (size.height - layout.height * scale) / 2),
+    });
+  }, [layout, size, setViewport]);
+
+  const focusBox = useCallback(
+    (box: EntityBox): void => {
+      setFocused(box.entity.name);
+      setViewport(current => {
+        const scale = Math.max(current.scale, 1);
+        return {
+          scale,
+          x: size.width / 2 - (box.x + box.width / 2) * scale,
+          y: size.height / 2 - (box.y + box.height / 2) * scale,
+        };
+      });
+    },
+    [size, setViewport],
+  );
+
+  // First layout: focus the requested table or show the whole diagram
+  const hasPositioned = useRef(false);
+  useEffect(() => {
+    if (!layout || !diagram || size.width === 0 || hasPositioned.current) {
+      return;
+    }
+    hasPositioned.current = true;
+    const entity = initialFocus ? findEntity(diagram, initialFocus) : undefined;
+    const box = entity && layout.boxes.find(candidate => candidate.entity === entity);
+    if (box) {
+      focusBox(box);
+    } else {
+      fitToScreen();
+    }
+  }, [layout, diagram, size, initialFocus, focusBox, fitToScreen]);
+
+  const suggestions = useMemo(
+    () => (layout ? findSuggestions(layout.boxes, search) : []),
+    [layout, search],
+  );
+
+  const selectSuggestion = (box: EntityBox): void => {
+    setSearch('');
+    focusBox(box);
+  };
+
+  const onLayout = (event: LayoutChangeEvent): void => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  if (!diagram || !layout) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="warning-outline" size={48} color={COLORS.error} />
+        <Text style={styles.errorText}>{error}</Text>
+      </View>
+    );
+  }
+
+  const isRelated = (line: RelationshipLine): boolean =>
+    focused !== null && (line.relationship.from === focused || line.relationship.to === focused);
+
+  return (
+    <View style={styles.container}>
+      <TableSearch
+        tableCount={layout.boxes.length}
+        search={search}
+        suggestions={suggestions}
+        onSearchChange={setSearch}
+        onSelect={selectSuggestion}
+      />
+
+      <GestureDetector gesture={gesture}>
+        <View style={styles.canvas} onLayout={onLayout} collapsable={false}>
+          {size.width > 0 && (
+            <Svg width={size.width} height={size.height}>
+              <G transform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.scale})`}>
+                {layout.lines.map((line, index) => (
+                  <RelationshipShape
+                    key={`line-${index}`}
+                    line={line}
+                    highlighted={isRelated(line)}
+                  />
+                ))}
+                {layout.boxes.map(box => (
+                  <EntityShape
+                    key={box.entity.name}
+                    box={box}
+                    isFocused={box.entity.name === focused}
+                  />
+                ))}
+              </G>
+            </Svg>
+          )}
+        </View>
+      </GestureDetector>
+
+      <ZoomControls
+        onZoom={zoomBy}
+        onFit={() => {
+          setFocused(null);
+          fitToScreen();
+        }}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.surface,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.xl,
+  },
+  errorText: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.error,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.background,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    paddingVertical: SPACING.sm,
+    marginLeft: SPACING.xs,
+  },
+  suggestions: {
+    position: 'absolute',
+    top: 52,
+    left: SPACING.sm,
+    right: SPACING.sm,
+    zIndex: 1,
+    backgroundColor: COLORS.background,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  suggestion: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  suggestionText: {
+    fontSize: TYPOGRAPHY.body,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+  },
+  canvas: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+  controls: {
+    position: 'absolute',
+    right: SPACING.md,
+    bottom: SPACING.md,
+  },
+  controlButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BORDER_RADIUS.full,
+    backgroundColor: COLORS.background,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+  },
+});
+
+export default ErDiagramView;
@@ -0,0 +1,183 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import CodeBlock from '../common/CodeBlock';
+import HighlightedText from '../search/HighlightedText';
+import { DatabaseRoutine } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import { highlightTerms } from '../../utils/highlight';
+import { getRoutineKey } from '../../utils/routines';
+
+interface RoutineCardProps {
+  routine: DatabaseRoutine;
+  query: string;
+  isExpanded: boolean;
+  onToggle: (routine: DatabaseRoutine) => void;
+}
+
+const getSignature = (routine: DatabaseRoutine): string | undefined => {
+  if (routine.kind === 'trigger') {
+    return [routine.table && `ON ${routine.table}`, routine.events?.join(', ')]
+      .filter(Boolean)
+      .join(' · ');
+  }
+  return routine.returnType ? `RETURNS ${routine.returnType}` : undefined;
+};
+
+const RoutineCard: React.FC<RoutineCardProps> = ({ routine, query, isExpanded, onToggle }) => {
+  const signature = getSignature(routine);
+
+  return (
+    <View style={styles.card}>
+      <TouchableOpacity style={styles.header} onPress={() => onToggle(routine)}>
+        <View style={styles.headerText}>
+          <HighlightedText
+            segments={highlightTerms(getRoutineKey(routine), query)}
+            style={styles.name}
+          />
+          {signature ? <Text style={styles.signature}>{signature}</Text> : null}
+          {!isExpanded && routine.description && (
+            <Text style={styles.summary} numberOfLines={1}>
+              {routine.description}
+            </Text>
+          )}
+        </View>
+        <Ionicons
+          name={isExpanded ? 'chevron-up' : 'chevron-down'}
+          size={18}
+          color={COLORS.textSecondary}
+        />
+      </TouchableOpacity>
+
+      {isExpanded && (
+        <View style={styles.body}>
+          {routine.description && <Text style={styles.description}>{routine.description}</Text>}
+
+          {routine.kind !== 'trigger' && (
+            <>
+              <Text style={styles.sectionTitle}>Parámetros</Text>
+              {routine.parameters.length === 0 && <Text style={styles.empty}>Sin parámetros</Text>}
+              {routine.parameters.map(parameter => (
+                <View key={parameter.name} style={styles.parameter}>
+                  <Text style={styles.parameterHeader}>
+                    <Text style={styles.parameterName}>{parameter.name}</Text>{' '}
+                    <Text style={styles.parameterType}>{parameter.dataType}</Text>
+                    {parameter.direction !== 'IN' && (
+                      <Text style={styles.direction}> {parameter.direction}</Text>
+                    )}
+                    {parameter.defaultValue && (
+                      <Text style={styles.defaultValue}> = {parameter.defaultValue}</Text>
+                    )}
+                  </Text>
+                  {parameter.description && (
+                    <Text style={styles.parameterDescription}>{parameter.description}</Text>
+                  )}
+                </View>
+              ))}
+            </>
+          )}
+
+          {routine.definition && (
+            <>
+              <Text style={styles.sectionTitle}>Definición</Text>
+              <CodeBlock code={routine.definition} language="sql" />
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: SPACING.sm,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: SPACING.sm + 2,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: SPACING.sm,
+  },
+  name: {
+    fontSize: TYPOGRAPHY.body,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+  },
+  signature: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.primary,
+    marginTop: 2,
+  },
+  summary: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  body: {
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    backgroundColor: COLORS.background,
+  },
+  description: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    lineHeight: 20,
+    marginTop: SPACING.sm,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    marginTop: SPACING.md,
+    marginBottom: SPACING.xs,
+  },
+  empty: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+  },
+  parameter: {
+    paddingVertical: SPACING.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  parameterHeader: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.text,
+  },
+  parameterName: {
+    fontFamily: FONTS.mono,
+    fontWeight: '600',
+  },
+  parameterType: {
+    fontFamily: FONTS.mono,
+    color: COLORS.primary,
+  },
+  direction: {
+    fontWeight: '600',
+    color: COLORS.warningDark,
+  },
+  defaultValue: {
+    fontFamily: FONTS.mono,
+    color: COLORS.textSecondary,
+  },
+  parameterDescription: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+});
+
+export default RoutineCard;
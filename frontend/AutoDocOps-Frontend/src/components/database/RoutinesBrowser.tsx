@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, FlatList, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import SegmentedTabs from '../common/SegmentedTabs';
+import RoutineCard from './RoutineCard';
+import { DatabaseRoutine, RoutineKind } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
+import {
+  getRoutineKey,
+  matchesRoutine,
+  parseRoutineDoc,
+  ROUTINE_KIND_LABELS,
+} from '../../utils/routines';
+
+interface RoutinesBrowserProps {
+  // Raw docs by kind; kinds without a doc get no tab
+  docs: Partial<Record<RoutineKind, string>>;
+  // Routine to open on load ("dbo.usp_GetUser")
+  initialTarget?: string;
+}
+
+const KINDS: RoutineKind[] = ['procedure', 'function', 'trigger'];
+
+const RoutinesBrowser: React.FC<RoutinesBrowserProps> = ({ docs, initialTarget }) => {
+  const routinesByKind = useMemo(
+    () =>
+      KINDS.flatMap(kind => {
+        const doc = docs[kind];
+        return doc ? [{ kind, routines: parseRoutineDoc(doc, kind) }] : [];
+      }),
+    [docs],
+  );
+
+  const [selectedKind, setSelectedKind] = useState<RoutineKind | null>(null);
+  const [query, setQuery] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const normalized = initialTarget?.toLowerCase();
+    if (!normalized) {
+      return;
+    }
+    const match = routinesByKind
+      .flatMap(({ routines }) => routines)
+      .find(
+        routine =>
+          getRoutineKey(routine).toLowerCase() === normalized ||
+          routine.name.toLowerCase() === normalized,
+      );
+    if (match) {
+      setSelectedKind(match.kind);
+      setExpanded(new Set([getRoutineKey(match)]));
+    }
+  }, [routinesByKind, initialTarget]);
+
+  const current = routinesByKind.find(entry => entry.kind === selectedKind) ?? routinesByKind[0];
+  const visibleRoutines = useMemo(
+    () => current?.routines.filter(routine => matchesRoutine(routine, query)) ?? [],
+    [current, query],
+  );
+
+  const toggleRoutine = (routine: DatabaseRoutine): void => {
+    const key = getRoutineKey(routine);
+    setExpanded(previous => {
+      const next = new Set(previous);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  if (!current) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {routinesByKind.length > 1 && (
+        <SegmentedTabs
+          tabs={routinesByKind.map(({ kind, routines }) => ({
+            key: kind,
+            label: ROUTINE_KIND_LABELS[kind],
+            count: routines.length,
+          }))}
+          selectedKey={current.kind}
+          onSelect={setSelectedKind}
+        />
+      )}
+
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color={COLORS.textSecondary} />
+        <TextInput
+          style={styles.input}
+          placeholder="Buscar por nombre, parámetro o descripción"
+          placeholderTextColor={COLORS.textSecondary}
+          value={query}
+          onChangeText={setQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {query.length > 0 && (
+          <TouchableOpacity onPress={() => setQuery('')} accessibilityLabel="Limpiar búsqueda">
+            <Ionicons name="close-circle" size={18} color={COLORS.textSecondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <FlatList
+        data={visibleRoutines}
+        keyExtractor={getRoutineKey}
+        renderItem={({ item }) => (
+          <RoutineCard
+            routine={item}
+            query={query}
+            isExpanded={expanded.has(getRoutineKey(item))}
+            onToggle={toggleRoutine}
+          />
+        )}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {current.routines.length === 0
+              ? 'No se encontraron rutinas en la documentación.'
+              : 'Ninguna rutina coincide con la búsqueda.'}
+          </Text>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: SPACING.md,
+    marginTop: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.surface,
+  },
+  input: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    paddingVertical: SPACING.sm,
+    marginHorizontal: SPACING.sm,
+  },
+  list: {
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.xl,
+  },
+  emptyText: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.lg,
+  },
+});
+
+export default RoutinesBrowser;
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, FlatList, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import SampleQueryCard from './SampleQueryCard';
+import { useQueryFavorites } from '../../hooks/useQueryFavorites';
+import { SampleQuery } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
+import { parseSampleQueries } from '../../utils/sampleQueries';
+
+interface SampleQueriesBrowserProps {
+  // DatabaseSchema id, favourites are kept per schema
+  schemaId: string;
+  source: string;
+}
+
+const SampleQueriesBrowser: React.FC<SampleQueriesBrowserProps> = ({ schemaId, source }) => {
+  const queries = useMemo(() => parseSampleQueries(source), [source]);
+  const { favorites, isFavorite, toggleFavorite } = useQueryFavorites(schemaId);
+  const [search, setSearch] = useState('');
+  const [onlyFavorites, setOnlyFavorites] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // Favourites first, each group keeps the order of the doc
+  const visibleQueries = useMemo(() => {
+    const normalized = search.trim().toLowerCase();
+    const matching = queries.filter(
+      query =>
+        (!onlyFavorites || favorites.includes(query.name)) &&
+        (!normalized ||
+          query.name.toLowerCase().includes(normalized) ||
+          query.description?.toLowerCase().includes(normalized)),
+    );
+    return [
+      ...matching.filter(query => favorites.includes(query.name)),
+      ...matching.filter(query => !favorites.includes(query.name)),
+    ];
+  }, [queries, favorites, search, onlyFavorites]);
+
+  const toggleQuery = (query: SampleQuery): void =>
+    setExpanded(previous => (previous === query.name ? null : query.name));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <View style={styles.searchBar}>
+          <Ionicons name="search" size={18} color={COLORS.textSecondary} />
+          <TextInput
+            style={styles.input}
+            placeholder="Buscar consultas"
+            placeholderTextColor={COLORS.textSecondary}
+            value={search}
+            onChangeText={setSearch}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.favoritesChip, onlyFavorites && styles.favoritesChipSelected]}
+          onPress={() => setOnlyFavorites(previous => !previous)}
+          accessibilityLabel="Mostrar solo favoritas"
+        >
+          <Ionicons
+            name={onlyFavorites ? 'star' : 'star-outline'}
+            size={18}
+            color={onlyFavorites ? COLORS.background : COLORS.warning}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={visibleQueries}
+        keyExtractor={query => query.name}
+        renderItem={({ item }) => (
+          <SampleQueryCard
+            query={item}
+            isExpanded={expanded === item.name}
+            isFavorite={isFavorite(item.name)}
+            onToggle={toggleQuery}
+            onToggleFavorite={query => toggleFavorite(query.name)}
+          />
+        )}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {queries.length === 0
+              ? 'No se encontraron consultas en la documentación.'
+              : onlyFavorites && favorites.length === 0
+                ? 'Marca consultas con la estrella para verlas aquí.'
+                : 'Ninguna consulta coincide con la búsqueda.'}
+          </Text>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: SPACING.md,
+    marginTop: SPACING.sm,
+  },
+  searchBar: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.sm,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.surface,
+  },
+  input: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    paddingVertical: SPACING.sm,
+    marginHorizontal: SPACING.sm,
+  },
+  favoritesChip: {
+    marginLeft: SPACING.sm,
+    padding: SPACING.sm,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  favoritesChipSelected: {
+    backgroundColor: COLORS.warning,
+    borderColor: COLORS.warning,
+  },
+  list: {
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.xl,
+  },
+  emptyText: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.lg,
+  },
+});
+
+export default SampleQueriesBrowser;
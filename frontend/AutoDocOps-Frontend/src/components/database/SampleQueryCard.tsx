@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Share } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import CodeBlock from '../common/CodeBlock';
+import { useCopyToClipboard } from '../../hooks/useCopyToClipboard';
+import { SampleQuery } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import { ParameterValues, QueryRenderError, renderSampleQuery } from '../../utils/sampleQueries';
+
+interface SampleQueryCardProps {
+  query: SampleQuery;
+  isExpanded: boolean;
+  isFavorite: boolean;
+  onToggle: (query: SampleQuery) => void;
+  onToggleFavorite: (query: SampleQuery) => void;
+}
+
+const SampleQueryCard: React.FC<SampleQueryCardProps> = ({
+  query,
+  isExpanded,
+  isFavorite,
+  onToggle,
+  onToggleFavorite,
+}) => {
+  const [values, setValues] = useState<ParameterValues>(() =>
+    Object.fromEntries(
+      query.parameters.map(parameter => [parameter.name, parameter.defaultValue ?? '']),
+    ),
+  );
+  const { copied, copy } = useCopyToClipboard();
+
+  const rendered = useMemo(() => {
+    try {
+      return { sql: renderSampleQuery(query, values), error: null };
+    } catch (renderError) {
+      return {
+        sql: null,
+        error:
+          renderError instanceof QueryRenderError
+            ? renderError.message
+            : 'No se pudo generar la consulta.',
+      };
+    }
+  }, [query, values]);
+
+  const share = async (): Promise<void> => {
+    if (rendered.sql) {
+      await Share.share({ title: query.name, message: rendered.sql });
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <TouchableOpacity style={styles.header} onPress={() => onToggle(query)}>
+        <TouchableOpacity
+          onPress={() => onToggleFavorite(query)}
+          hitSlop={8}
+          accessibilityLabel={isFavorite ? 'Quitar de favoritas' : 'Añadir a favoritas'}
+        >
+          <Ionicons
+            name={isFavorite ? 'star' : 'star-outline'}
+            size={18}
+            color={isFavorite ? COLORS.warning : COLORS.textSecondary}
+          />
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.name}>{query.name}</Text>
+          {!isExpanded && query.description && (
+            <Text style={styles.summary} numberOfLines={1}>
+              {query.description}
+            </Text>
+          )}
+        </View>
+        <Ionicons
+          name={isExpanded ? 'chevron-up' : 'chevron-down'}
+          size={18}
+          color={COLORS.textSecondary}
+        />
+      </TouchableOpacity>
+
+      {isExpanded && (
+        <View style={styles.body}>
+          {query.description && <Text style={styles.description}>{query.description}</Text>}
+
+          {query.parameters.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Parámetros</Text>
+              {query.parameters.map(parameter => (
+                <View key={parameter.name} style={styles.parameter}>
+                  <Text style={styles.parameterLabel}>
+                    <Text style={styles.parameterName}>@{parameter.name}</Text>
+                    {parameter.dataType && (
+                      <Text style={styles.parameterType}> {parameter.dataType}</Text>
+                    )}
+                  </Text>
+                  {parameter.description && (
+                    <Text style={styles.parameterDescription}>{parameter.description}</Text>
+                  )}
+                  <TextInput
+                    style={styles.input}
+                    value={values[parameter.name] ?? ''}
+                    onChangeText={value =>
+                      setValues(previous => ({ ...previous, [parameter.name]: value }))
+                    }
+                    placeholder="NULL"
+                    placeholderTextColor={COLORS.textSecondary}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                </View>
+              ))}
+            </>
+          )}
+
+          <Text style={styles.sectionTitle}>SQL</Text>
+          {rendered.sql !== null ? (
+            <CodeBlock code={rendered.sql} language="sql" />
+          ) : (
+            <Text style={styles.errorText}>{rendered.error}</Text>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => rendered.sql && copy(rendered.sql)}
+              disabled={rendered.sql === null}
+            >
+              <Ionicons
+                name={copied ? 'checkmark' : 'copy-outline'}
+                size={16}
+                color={COLORS.primary}
+              />
+              <Text style={styles.actionText}>{copied ? 'Copiado' : 'Copiar'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={share}
+              disabled={rendered.sql === null}
+            >
+              <Ionicons name="share-outline" size={16} color={COLORS.primary} />
+              <Text style={styles.actionText}>Compartir</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: SPACING.sm,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: SPACING.sm + 2,
+  },
+  headerText: {
+    flex: 1,
+    marginHorizontal: SPACING.sm,
+  },
+  name: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  summary: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  body: {
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    backgroundColor: COLORS.background,
+  },
+  description: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    lineHeight: 20,
+    marginTop: SPACING.sm,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    marginTop: SPACING.md,
+    marginBottom: SPACING.xs,
+  },
+  parameter: {
+    marginBottom: SPACING.sm,
+  },
+  parameterLabel: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.text,
+  },
+  parameterName: {
+    fontFamily: FONTS.mono,
+    fontWeight: '600',
+  },
+  parameterType: {
+    fontFamily: FONTS.mono,
+    color: COLORS.primary,
+  },
+  parameterDescription: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  input: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs + 2,
+    marginTop: SPACING.xs,
+  },
+  errorText: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.error,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: SPACING.md,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs + 2,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  actionText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginLeft: SPACING.xs,
+  },
+});
+
+export default SampleQueryCard;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Control, FieldPath, FieldValues, useController } from 'react-hook-form';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
+
+export interface SelectorOption<V extends string | number> {
+  value: V;
+  label: string;
+  description?: string;
+}
+
+interface FormOptionSelectorProps<T extends FieldValues, V extends string | number> {
+  control: Control<T>;
+  name: FieldPath<T>;
+  label: string;
+  options: readonly SelectorOption<V>[];
+  onValueChange?: (value: V) => void;
+}
+
+const FormOptionSelector = <T extends FieldValues, V extends string | number>({
+  control,
+  name,
+  label,
+  options,
+  onValueChange,
+}: FormOptionSelectorProps<T, V>): React.ReactElement => {
+  const {
+    field: { value, onChange },
+    fieldState: { error },
+  } = useController({ control, name });
+
+  const handleSelect = (option: SelectorOption<V>): void => {
+    onChange(option.value);
+    onValueChange?.(option.value);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      {options.map(option => {
+        const isSelected = option.value === value;
+        return (
+          <TouchableOpacity
+            key={String(option.value)}
+            style={[styles.option, isSelected && styles.optionSelected]}
+            onPress={() => handleSelect(option)}
+            accessibilityRole="radio"
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text style={[styles.optionLabel, isSelected && styles.optionLabelSelected]}>
+              {option.label}
+            </Text>
+            {option.description && (
+              <Text style={styles.optionDescription}>{option.description}</Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+      {error?.message && <Text style={styles.errorText}>{error.message}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: SPACING.md,
+  },
+  label: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.surface,
+    padding: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  optionSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.gray[100],
+  },
+  optionLabel: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  optionLabelSelected: {
+    color: COLORS.primary,
+  },
+  optionDescription: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  errorText: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+});
+
+export default FormOptionSelector;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { View, Text, Switch, StyleSheet } from 'react-native';
+import { Control, FieldPath, FieldValues, useController } from 'react-hook-form';
+import { COLORS, TYPOGRAPHY, SPACING } from '../../constants';
+
+interface FormSwitchProps<T extends FieldValues> {
+  control: Control<T>;
+  name: FieldPath<T>;
+  label: string;
+  description?: string;
+}
+
+const FormSwitch = <T extends FieldValues>({
+  control,
+  name,
+  label,
+  description,
+}: FormSwitchProps<T>): React.ReactElement => {
+  const {
+    field: { value, onChange },
+  } = useController({ control, name });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.textContainer}>
+        <Text style={styles.label}>{label}</Text>
+        {description && <Text style={styles.description}>{description}</Text>}
+      </View>
+      <Switch
+        value={Boolean(value)}
+        onValueChange={onChange}
+        trackColor={{ false: COLORS.gray[300], true: COLORS.primaryLight }}
+        thumbColor={value ? COLORS.primary : COLORS.gray[50]}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  textContainer: {
+    flex: 1,
+    marginRight: SPACING.md,
+  },
+  label: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  description: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+});
+
+export default FormSwitch;
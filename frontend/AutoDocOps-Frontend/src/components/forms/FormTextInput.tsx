@@ -0,0 +1,94 @@
+import React from 'react';
+import { View, Text, TextInput, TextInputProps, StyleSheet } from 'react-native';
+import { Control, FieldPath, FieldValues, useController } from 'react-hook-form';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
+
+interface FormTextInputProps<T extends FieldValues> extends Omit<
+  TextInputProps,
+  'value' | 'onChangeText' | 'onBlur'
+> {
+  control: Control<T>;
+  name: FieldPath<T>;
+  label: string;
+  hint?: string;
+}
+
+const FormTextInput = <T extends FieldValues>({
+  control,
+  name,
+  label,
+  hint,
+  style,
+  ...inputProps
+}: FormTextInputProps<T>): React.ReactElement => {
+  const {
+    field: { value, onChange, onBlur },
+    fieldState: { error },
+  } = useController({ control, name });
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[
+          styles.input,
+          inputProps.multiline && styles.multiline,
+          error && styles.inputError,
+          style,
+        ]}
+        placeholderTextColor={COLORS.textSecondary}
+        value={value ?? ''}
+        onChangeText={onChange}
+        onBlur={onBlur}
+        {...inputProps}
+      />
+      {error?.message ? (
+        <Text style={styles.errorText}>{error.message}</Text>
+      ) : (
+        hint && <Text style={styles.hintText}>{hint}</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: SPACING.md,
+  },
+  label: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.surface,
+    paddingHorizontal: SPACING.md,
+    minHeight: 44,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+  },
+  multiline: {
+    minHeight: 96,
+    paddingTop: SPACING.sm,
+    textAlignVertical: 'top',
+  },
+  inputError: {
+    borderColor: COLORS.error,
+  },
+  errorText: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+  hintText: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+});
+
+export default FormTextInput;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import CodeBlock from '../common/CodeBlock';
+import { useCopyToClipboard } from '../../hooks/useCopyToClipboard';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import { resolveLanguage } from '../../utils/syntaxHighlight';
+
+interface MarkdownCodeBlockProps {
+  code: string;
+  // Fence info string ("ts", "csharp"...)
+  language?: string | undefined;
+  // Collapsible blocks start closed, showing only the header
+  collapsible?: boolean;
+}
+
+const CopyCodeButton: React.FC<{ code: string }> = ({ code }) => {
+  const { copied, copy } = useCopyToClipboard();
+
+  return (
+    <TouchableOpacity
+      style={styles.copyButton}
+      onPress={() => copy(code)}
+      accessibilityLabel="Copiar código"
+    >
+      <Ionicons
+        name={copied ? 'checkmark' : 'copy-outline'}
+        size={14}
+        color={copied ? COLORS.success : COLORS.textSecondary}
+      />
+      <Text style={[styles.copyText, copied && styles.copiedText]}>
+        {copied ? 'Copiado' : 'Copiar'}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+const MarkdownCodeBlock: React.FC<MarkdownCodeBlockProps> = ({
+  code,
+  language,
+  collapsible = false,
+}) => {
+  const [isCollapsed, setIsCollapsed] = useState(collapsible);
+  const lineCount = code.replace(/\s+$/, '').split('\n').length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.title}
+          onPress={() => setIsCollapsed(previous => !previous)}
+          disabled={!collapsible}
+        >
+          {collapsible && (
+            <Ionicons
+              name={isCollapsed ? 'chevron-forward' : 'chevron-down'}
+              size={14}
+              color={COLORS.textSecondary}
+            />
+          )}
+          <Text style={styles.language}>{language ? language : 'código'}</Text>
+          {isCollapsed && (
+            <Text style={styles.lines}>
+              {lineCount} {lineCount === 1 ? 'línea' : 'líneas'}
+            </Text>
+          )}
+        </TouchableOpacity>
+        <CopyCodeButton code={code} />
+      </View>
+      {!isCollapsed && (
+        <CodeBlock code={code} language={resolveLanguage(language)} style={styles.code} />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.sm,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    backgroundColor: COLORS.gray[100],
+  },
+  title: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  language: {
+    fontSize: TYPOGRAPHY.small,
+    fontFamily: FONTS.mono,
+    color: COLORS.textSecondary,
+    marginLeft: SPACING.xs,
+  },
+  lines: {
+    fontSize: TYPOGRAPHY.small,
+    color: COLORS.textSecondary,
+    marginLeft: SPACING.sm,
+  },
+  copyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  copyText: {
+    fontSize: TYPOGRAPHY.small,
+    color: COLORS.textSecondary,
+    marginLeft: SPACING.xs,
+  },
+  copiedText: {
+    color: COLORS.success,
+  },
+  code: {
+    borderWidth: 0,
+    borderRadius: 0,
+  },
+});
+
+export default MarkdownCodeBlock;
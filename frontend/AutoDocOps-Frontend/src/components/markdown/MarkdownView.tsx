@@ -0,0 +1,369 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Linking,
+  TextStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import MarkdownCodeBlock from './MarkdownCodeBlock';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import {
+  MarkdownBlock,
+  MarkdownInline,
+  TocEntry,
+  parseMarkdown,
+  slugify,
+} from '../../utils/markdown';
+
+interface MarkdownViewProps {
+  markdown: string;
+  // Code blocks start collapsed and can be toggled (projects with includeCodeExamples)
+  collapsibleCode?: boolean;
+}
+
+const HEADING_SIZES: Record<number, number> = {
+  1: TYPOGRAPHY.h3,
+  2: TYPOGRAPHY.h4,
+  3: TYPOGRAPHY.h5,
+  4: TYPOGRAPHY.h6,
+  5: TYPOGRAPHY.body,
+  6: TYPOGRAPHY.body,
+};
+
+// What rendering a block needs from the view around it
+interface RenderContext {
+  openLink: (href: string) => void;
+  // Records where a top-level heading sits, so its anchor can be scrolled to
+  setAnchor: (id: string, offset: number) => void;
+  collapsibleCode: boolean;
+}
+
+type BlockOf<T extends MarkdownBlock['type']> = Extract<MarkdownBlock, { type: T }>;
+
+const renderInline = (
+  nodes: MarkdownInline[],
+  context: RenderContext,
+  keyPrefix = '',
+): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    const key = `${keyPrefix}${index}`;
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return '\n';
+      case 'code':
+        return (
+          <Text key={key} style={styles.inlineCode}>
+            {node.text}
+          </Text>
+        );
+      case 'link':
+        return (
+          <Text key={key} style={styles.link} onPress={() => context.openLink(node.href)}>
+            {renderInline(node.children, context, `${key}.`)}
+          </Text>
+        );
+      default:
+        return (
+          <Text key={key} style={INLINE_STYLES[node.type]}>
+            {renderInline(node.children, context, `${key}.`)}
+          </Text>
+        );
+    }
+  });
+
+const renderBlocks = (
+  blocks: MarkdownBlock[],
+  context: RenderContext,
+  keyPrefix: string,
+): React.ReactNode[] =>
+  blocks.map((block, index) => renderBlock(block, context, `${keyPrefix}.${index}`, false));
+
+const renderHeading = (
+  block: BlockOf<'heading'>,
+  context: RenderContext,
+  key: string,
+  isTopLevel: boolean,
+): React.ReactNode => (
+  <View
+    key={key}
+    {...(isTopLevel
+      ? { onLayout: event => context.setAnchor(block.id, event.nativeEvent.layout.y) }
+      : {})}
+  >
+    <Text
+      style={[
+        styles.heading,
+        { fontSize: HEADING_SIZES[block.level] ?? TYPOGRAPHY.body },
+        block.level <= 2 && styles.headingRule,
+      ]}
+      accessibilityRole="header"
+    >
+      {renderInline(block.children, context)}
+    </Text>
+  </View>
+);
+
+const renderList = (
+  block: BlockOf<'list'>,
+  context: RenderContext,
+  key: string,
+): React.ReactNode => (
+  <View key={key} style={styles.list}>
+    {block.items.map((item, index) => (
+      <View key={index} style={styles.listItem}>
+        <Text style={styles.bullet}>{block.ordered ? `${block.start + index}.` : '•'}</Text>
+        <View style={styles.listContent}>{renderBlocks(item, context, `${key}.${index}`)}</View>
+      </View>
+    ))}
+  </View>
+);
+
+const renderTable = (
+  block: BlockOf<'table'>,
+  context: RenderContext,
+  key: string,
+): React.ReactNode => (
+  <ScrollView key={key} horizontal style={styles.table}>
+    <View>
+      {[block.header, ...block.rows].map((row, rowIndex) => (
+        <View key={rowIndex} style={[styles.tableRow, rowIndex === 0 && styles.tableHeader]}>
+          {row.map((cell, cellIndex) => (
+            <Text
+              key={cellIndex}
+              style={[styles.tableCell, rowIndex === 0 && styles.tableHeaderText]}
+            >
+              {renderInline(cell, context)}
+            </Text>
+          ))}
+        </View>
+      ))}
+    </View>
+  </ScrollView>
+);
+
+const renderBlock = (
+  block: MarkdownBlock,
+  context: RenderContext,
+  key: string,
+  isTopLevel: boolean,
+): React.ReactNode => {
+  switch (block.type) {
+    case 'heading':
+      return renderHeading(block, context, key, isTopLevel);
+    case 'paragraph':
+      return (
+        <Text key={key} style={styles.paragraph}>
+          {renderInline(block.children, context)}
+        </Text>
+      );
+    case 'code':
+      return (
+        <MarkdownCodeBlock
+          key={key}
+          code={block.code}
+          language={block.language}
+          collapsible={context.collapsibleCode}
+        />
+      );
+    case 'list':
+      return renderList(block, context, key);
+    case 'blockquote':
+      return (
+        <View key={key} style={styles.blockquote}>
+          {renderBlocks(block.children, context, key)}
+        </View>
+      );
+    case 'table':
+      return renderTable(block, context, key);
+    case 'rule':
+      return <View key={key} style={styles.rule} />;
+  }
+};
+
+const TableOfContents: React.FC<{ toc: TocEntry[]; onSelect: (id: string) => void }> = ({
+  toc,
+  onSelect,
+}) => {
+  const [isOpen, setIsOpen] = useState(true);
+
+  return (
+    <View style={styles.toc}>
+      <TouchableOpacity style={styles.tocHeader} onPress={() => setIsOpen(open => !open)}>
+        <Text style={styles.tocTitle}>Contenido</Text>
+        <Ionicons
+          name={isOpen ? 'chevron-up' : 'chevron-down'}
+          size={16}
+          color={COLORS.textSecondary}
+        />
+      </TouchableOpacity>
+      {isOpen &&
+        toc.map(entry => (
+          <TouchableOpacity key={entry.id} onPress={() => onSelect(entry.id)}>
+            <Text
+              style={[styles.tocEntry, { paddingLeft: (entry.level - 1) * SPACING.md }]}
+              numberOfLines={1}
+            >
+              {entry.text}
+            </Text>
+          </TouchableOpacity>
+        ))}
+    </View>
+  );
+};
+
+const MarkdownView: React.FC<MarkdownViewProps> = ({ markdown, collapsibleCode = false }) => {
+  const document = useMemo(() => parseMarkdown(markdown), [markdown]);
+  const scrollRef = useRef<ScrollView>(null);
+  // Offsets of the top-level headings inside the scroll content, by anchor id
+  const anchors = useRef(new Map<string, number>());
+
+  const scrollToAnchor = (id: string): void => {
+    const offset = anchors.current.get(id) ?? anchors.current.get(slugify(id));
+    if (offset !== undefined) {
+      scrollRef.current?.scrollTo({ y: Math.max(0, offset - SPACING.sm), animated: true });
+    }
+  };
+
+  const context: RenderContext = {
+    openLink: href => {
+      if (href.startsWith('#')) {
+        scrollToAnchor(decodeURIComponent(href.slice(1)));
+        return;
+      }
+      Linking.openURL(href).catch(() => undefined);
+    },
+    setAnchor: (id, offset) => anchors.current.set(id, offset),
+    collapsibleCode,
+  };
+
+  return (
+    <ScrollView ref={scrollRef} style={styles.container} contentContainerStyle={styles.content}>
+      {document.toc.length > 1 && <TableOfContents toc={document.toc} onSelect={scrollToAnchor} />}
+      {document.blocks.map((block, index) => renderBlock(block, context, String(index), true))}
+    </ScrollView>
+  );
+};
+
+const INLINE_STYLES: Record<'strong' | 'emphasis' | 'strikethrough', TextStyle> = {
+  strong: { fontWeight: 'bold' },
+  emphasis: { fontStyle: 'italic' },
+  strikethrough: { textDecorationLine: 'line-through' },
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+    paddingBottom: SPACING.xxl,
+  },
+  toc: {
+    padding: SPACING.sm,
+    marginBottom: SPACING.md,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  tocHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  tocTitle: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+  },
+  tocEntry: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.primary,
+    paddingVertical: SPACING.xs,
+  },
+  heading: {
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginTop: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  headingRule: {
+    paddingBottom: SPACING.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  paragraph: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    lineHeight: 22,
+    marginBottom: SPACING.sm,
+  },
+  inlineCode: {
+    fontFamily: FONTS.mono,
+    fontSize: TYPOGRAPHY.caption,
+    backgroundColor: COLORS.surface,
+    color: COLORS.text,
+  },
+  link: {
+    color: COLORS.primary,
+    textDecorationLine: 'underline',
+  },
+  list: {
+    marginBottom: SPACING.sm,
+  },
+  listItem: {
+    flexDirection: 'row',
+    marginBottom: SPACING.xs,
+  },
+  bullet: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    lineHeight: 22,
+    minWidth: SPACING.lg,
+  },
+  listContent: {
+    flex: 1,
+  },
+  blockquote: {
+    paddingLeft: SPACING.md,
+    marginBottom: SPACING.sm,
+    borderLeftWidth: 3,
+    borderLeftColor: COLORS.border,
+  },
+  table: {
+    marginBottom: SPACING.sm,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  tableHeader: {
+    backgroundColor: COLORS.surface,
+  },
+  tableCell: {
+    minWidth: 100,
+    maxWidth: 240,
+    padding: SPACING.xs + 2,
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.text,
+  },
+  tableHeaderText: {
+    fontWeight: '600',
+  },
+  rule: {
+    height: 1,
+    backgroundColor: COLORS.border,
+    marginVertical: SPACING.md,
+  },
+});
+
+export default MarkdownView;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ApiChange } from '../../types/openApi';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import { CHANGE_KIND_LABELS } from '../../utils/openApiDiff';
+
+interface ApiChangeRowProps {
+  change: ApiChange;
+}
+
+const KIND_COLORS: Record<ApiChange['kind'], string> = {
+  added: COLORS.success,
+  removed: COLORS.error,
+  changed: COLORS.warning,
+};
+
+const ApiChangeRow: React.FC<ApiChangeRowProps> = ({ change }) => (
+  <View style={[styles.row, change.breaking && styles.breakingRow]}>
+    <View style={styles.badges}>
+      <Text style={[styles.badge, { backgroundColor: KIND_COLORS[change.kind] }]}>
+        {CHANGE_KIND_LABELS[change.kind]}
+      </Text>
+      {change.breaking && <Text style={styles.breaking}>Incompatible</Text>}
+    </View>
+    <Text style={styles.location} selectable>
+      {change.location}
+      {change.subject && <Text style={styles.subject}> · {change.subject}</Text>}
+    </Text>
+    <Text style={styles.description}>{change.description}</Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  row: {
+    padding: SPACING.sm + 2,
+    marginBottom: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  breakingRow: {
+    borderLeftWidth: 3,
+    borderLeftColor: COLORS.error,
+  },
+  badges: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.xs,
+  },
+  badge: {
+    fontSize: TYPOGRAPHY.small,
+    fontWeight: 'bold',
+    color: COLORS.background,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: SPACING.xs,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  breaking: {
+    fontSize: TYPOGRAPHY.small,
+    fontWeight: '600',
+    color: COLORS.error,
+    marginLeft: SPACING.sm,
+  },
+  location: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  subject: {
+    fontWeight: 'normal',
+    color: COLORS.primary,
+  },
+  description: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    marginTop: 2,
+  },
+});
+
+export default ApiChangeRow;
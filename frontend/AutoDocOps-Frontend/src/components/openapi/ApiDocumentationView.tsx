@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import SegmentedTabs, { SegmentedTab } from '../common/SegmentedTabs';
+import MarkdownView from '../markdown/MarkdownView';
+import OpenApiExplorer from './OpenApiExplorer';
+import PostmanCollectionBrowser from '../postman/PostmanCollectionBrowser';
+import SdkBrowser from '../sdk/SdkBrowser';
+import { ApiDocumentation } from '../../types';
+import { ParsedOperation } from '../../types/openApi';
+import { COLORS } from '../../constants';
+
+type ApiSection = 'endpoints' | 'guides' | 'sdk' | 'postman';
+
+interface ApiDocumentationViewProps {
+  documentation: ApiDocumentation;
+  // Operation to show on load ("GET /users/{id}")
+  target?: string;
+  collapsibleCode?: boolean;
+  // Project connection auth type, used for the exported Postman environment
+  authenticationType?: string | undefined;
+  renderOperationFooter?: (operation: ParsedOperation) => React.ReactNode;
+}
+
+/**
+ * Tabs over the generated sections of an ApiDocumentation. The explorer is always there,
+ * the other sections only when the generator produced them.
+ */
+const ApiDocumentationView: React.FC<ApiDocumentationViewProps> = ({
+  documentation,
+  target,
+  collapsibleCode = false,
+  authenticationType,
+  renderOperationFooter,
+}) => {
+  const tabs = useMemo(() => {
+    const available: SegmentedTab<ApiSection>[] = [{ key: 'endpoints', label: 'Endpoints' }];
+    if (documentation.usageGuides) {
+      available.push({ key: 'guides', label: 'Guías' });
+    }
+    if ([documentation.typeScriptSDK, documentation.cSharpSDK].some(Boolean)) {
+      available.push({ key: 'sdk', label: 'SDK' });
+    }
+    if (documentation.postmanCollection) {
+      available.push({ key: 'postman', label: 'Postman' });
+    }
+    return available;
+  }, [documentation]);
+
+  const sdkSources = useMemo(
+    () => ({
+      ...(documentation.typeScriptSDK ? { typescript: documentation.typeScriptSDK } : {}),
+      ...(documentation.cSharpSDK ? { csharp: documentation.cSharpSDK } : {}),
+    }),
+    [documentation],
+  );
+
+  const [selected, setSelected] = useState<ApiSection>('endpoints');
+  const section = tabs.find(tab => tab.key === selected)?.key ?? 'endpoints';
+
+  return (
+    <View style={styles.container}>
+      {tabs.length > 1 && (
+        <SegmentedTabs tabs={tabs} selectedKey={section} onSelect={setSelected} />
+      )}
+      {section === 'endpoints' && (
+        <OpenApiExplorer
+          spec={documentation.openApiSpec}
+          {...(target ? { initialTarget: target } : {})}
+          {...(renderOperationFooter ? { renderOperationFooter } : {})}
+        />
+      )}
+      {section === 'guides' && documentation.usageGuides && (
+        <MarkdownView markdown={documentation.usageGuides} collapsibleCode={collapsibleCode} />
+      )}
+      {section === 'sdk' && <SdkBrowser apiName={documentation.apiName} sources={sdkSources} />}
+      {section === 'postman' && documentation.postmanCollection && (
+        <PostmanCollectionBrowser
+          source={documentation.postmanCollection}
+          apiName={documentation.apiName}
+          baseUrl={documentation.baseUrl}
+          authenticationType={authenticationType}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+});
+
+export default ApiDocumentationView;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { OpenApiParameter } from '../../types/openApi';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import { ParameterValues } from '../../utils/requestConsole';
+
+interface KeyValueEditorProps {
+  title: string;
+  parameters: OpenApiParameter[];
+  values: ParameterValues;
+  onChange: (name: string, value: string) => void;
+}
+
+const KeyValueEditor: React.FC<KeyValueEditorProps> = ({ title, parameters, values, onChange }) => {
+  if (parameters.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      {parameters.map(parameter => (
+        <View key={parameter.name} style={styles.row}>
+          <Text style={styles.name} numberOfLines={1}>
+            {parameter.name}
+            {parameter.required && <Text style={styles.required}> *</Text>}
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={values[parameter.name] ?? ''}
+            onChangeText={value => onChange(parameter.name, value)}
+            placeholder={parameter.description ?? ''}
+            placeholderTextColor={COLORS.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: SPACING.md,
+  },
+  title: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: SPACING.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.xs,
+  },
+  name: {
+    width: '35%',
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    marginRight: SPACING.sm,
+  },
+  required: {
+    color: COLORS.error,
+  },
+  input: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs + 2,
+    backgroundColor: COLORS.background,
+  },
+});
+
+export default KeyValueEditor;
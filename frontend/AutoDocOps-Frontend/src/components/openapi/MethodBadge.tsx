@@ -0,0 +1,37 @@
+import React from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { HttpMethod } from '../../types/openApi';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, HTTP_METHOD_COLORS } from '../../constants';
+
+interface MethodBadgeProps {
+  method: HttpMethod;
+}
+
+const MethodBadge: React.FC<MethodBadgeProps> = ({ method }) => {
+  return (
+    <Text
+      style={[
+        styles.badge,
+        { backgroundColor: HTTP_METHOD_COLORS[method] ?? COLORS.textSecondary },
+      ]}
+    >
+      {method.toUpperCase()}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    minWidth: 56,
+    textAlign: 'center',
+    fontSize: TYPOGRAPHY.small,
+    fontWeight: 'bold',
+    color: COLORS.background,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: SPACING.xs,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+});
+
+export default MethodBadge;
@@ -0,0 +1,355 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, TextInput, SectionList, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import OperationCard from './OperationCard';
+import SchemaTree from './SchemaTree';
+import { ParsedOpenApi, ParsedOperation } from '../../types/openApi';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import { OpenApiParseError, parseOpenApiSpec } from '../../utils/openApi';
+
+interface OpenApiExplorerProps {
+  spec: string;
+  // Operation key ("GET /users/{id}") to open and scroll to on load
+  initialTarget?: string;
+  renderOperationFooter?: (operation: ParsedOperation, parsed: ParsedOpenApi) => React.ReactNode;
+}
+
+interface TagSection {
+  title: string;
+  description?: string | undefined;
+  total: number;
+}
+
+type ParsedSpec = { parsed: ParsedOpenApi; error: null } | { parsed: null; error: string };
+
+const matchesFilter = (operation: ParsedOperation, filter: string): boolean =>
+  [operation.path, operation.method, operation.summary, operation.operationId]
+    .filter(Boolean)
+    .some(value => (value as string).toLowerCase().includes(filter));
+
+const parseSpec = (spec: string): ParsedSpec => {
+  try {
+    return { parsed: parseOpenApiSpec(spec), error: null };
+  } catch (parseError) {
+    return {
+      parsed: null,
+      error:
+        parseError instanceof OpenApiParseError
+          ? parseError.message
+          : 'No se pudo interpretar la especificación OpenAPI.',
+    };
+  }
+};
+
+// One section per tag; collapsed tags keep their header, filtering hides tags left empty
+const buildSections = (
+  parsed: ParsedOpenApi,
+  filter: string,
+  collapsedTags: Set<string>,
+): (TagSection & { data: ParsedOperation[] })[] => {
+  const normalizedFilter = filter.trim().toLowerCase();
+  return parsed.tags
+    .map(tag => ({
+      title: tag.name,
+      description: tag.description,
+      total: tag.operations.length,
+      data: collapsedTags.has(tag.name)
+        ? []
+        : tag.operations.filter(
+            operation => !normalizedFilter || matchesFilter(operation, normalizedFilter),
+          ),
+    }))
+    .filter(section => !normalizedFilter || section.data.length > 0);
+};
+
+// A copy of the set with the value added, or removed if it was there
+const toggleInSet = (set: Set<string>, value: string): Set<string> => {
+  const next = new Set(set);
+  if (next.has(value)) {
+    next.delete(value);
+  } else {
+    next.add(value);
+  }
+  return next;
+};
+
+interface ExplorerHeaderProps {
+  parsed: ParsedOpenApi;
+  filter: string;
+  onFilterChange: (filter: string) => void;
+}
+
+// API title, description and servers, above the operation filter
+const ExplorerHeader: React.FC<ExplorerHeaderProps> = ({ parsed, filter, onFilterChange }) => (
+  <View style={styles.header}>
+    <Text style={styles.title}>
+      {parsed.info.title} <Text style={styles.version}>v{parsed.info.version}</Text>
+    </Text>
+    {parsed.info.description ? (
+      <Text style={styles.description}>{parsed.info.description}</Text>
+    ) : null}
+    {parsed.servers.map(server => (
+      <Text key={server.url} style={styles.server} selectable>
+        {server.url}
+        {server.description ? ` · ${server.description}` : ''}
+      </Text>
+    ))}
+    <View style={styles.filterBar}>
+      <Ionicons name="filter" size={16} color={COLORS.textSecondary} />
+      <TextInput
+        style={styles.filterInput}
+        placeholder="Filtrar por ruta, método u operación"
+        placeholderTextColor={COLORS.textSecondary}
+        value={filter}
+        onChangeText={onFilterChange}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+    </View>
+  </View>
+);
+
+interface TagHeaderProps {
+  section: TagSection;
+  isCollapsed: boolean;
+  onToggle: (tagName: string) => void;
+}
+
+const TagHeader: React.FC<TagHeaderProps> = ({ section, isCollapsed, onToggle }) => (
+  <TouchableOpacity style={styles.tagHeader} onPress={() => onToggle(section.title)}>
+    <View style={styles.tagText}>
+      <Text style={styles.tagTitle}>
+        {section.title} ({section.total})
+      </Text>
+      {section.description ? (
+        <Text style={styles.tagDescription} numberOfLines={2}>
+          {section.description}
+        </Text>
+      ) : null}
+    </View>
+    <Ionicons
+      name={isCollapsed ? 'chevron-down' : 'chevron-up'}
+      size={18}
+      color={COLORS.textSecondary}
+    />
+  </TouchableOpacity>
+);
+
+// Collapsible list of the component schemas, below the operations
+const ExplorerModels: React.FC<{ parsed: ParsedOpenApi }> = ({ parsed }) => {
+  const [showModels, setShowModels] = useState(false);
+
+  if (parsed.schemaNames.length === 0) {
+    return null;
+  }
+  return (
+    <View style={styles.models}>
+      <TouchableOpacity style={styles.tagHeader} onPress={() => setShowModels(show => !show)}>
+        <Text style={styles.tagTitle}>Modelos ({parsed.schemaNames.length})</Text>
+        <Ionicons
+          name={showModels ? 'chevron-up' : 'chevron-down'}
+          size={18}
+          color={COLORS.textSecondary}
+        />
+      </TouchableOpacity>
+      {showModels &&
+        parsed.schemaNames.map(name => (
+          <SchemaTree
+            key={name}
+            document={parsed.document}
+            schema={{ $ref: `#/components/schemas/${name}` }}
+          />
+        ))}
+    </View>
+  );
+};
+
+const OpenApiExplorer: React.FC<OpenApiExplorerProps> = ({
+  spec,
+  initialTarget,
+  renderOperationFooter,
+}) => {
+  const listRef = useRef<SectionList<ParsedOperation, TagSection>>(null);
+  const [filter, setFilter] = useState('');
+  const [collapsedTags, setCollapsedTags] = useState<Set<string>>(new Set());
+  const [expandedOperations, setExpandedOperations] = useState<Set<string>>(
+    new Set(initialTarget ? [initialTarget] : []),
+  );
+
+  const { parsed, error } = useMemo(() => parseSpec(spec), [spec]);
+
+  const sections = useMemo(
+    () => (parsed ? buildSections(parsed, filter, collapsedTags) : []),
+    [parsed, filter, collapsedTags],
+  );
+
+  // Read by the scroll effect, which must not run again on every filter or collapse change
+  const sectionsRef = useRef(sections);
+  sectionsRef.current = sections;
+
+  // Scroll to the operation a search result or citation pointed at, once per loaded spec
+  useEffect(() => {
+    const visibleSections = sectionsRef.current;
+    if (!initialTarget || visibleSections.length === 0) {
+      return;
+    }
+    const sectionIndex = visibleSections.findIndex(section =>
+      section.data.some(operation => operation.key === initialTarget),
+    );
+    const section = visibleSections[sectionIndex];
+    if (!section) {
+      return;
+    }
+    const itemIndex = section.data.findIndex(operation => operation.key === initialTarget);
+    const timer = setTimeout(
+      () => listRef.current?.scrollToLocation({ sectionIndex, itemIndex, viewPosition: 0 }),
+      300,
+    );
+    return () => clearTimeout(timer);
+  }, [initialTarget, parsed]);
+
+  const toggleTag = (tagName: string): void => {
+    setCollapsedTags(previous => toggleInSet(previous, tagName));
+  };
+
+  const toggleOperation = (operation: ParsedOperation): void => {
+    setExpandedOperations(previous => toggleInSet(previous, operation.key));
+  };
+
+  if (!parsed) {
+    return (
+      <View style={styles.errorContainer}>
+        <Ionicons name="warning-outline" size={48} color={COLORS.error} />
+        <Text style={styles.errorText}>{error}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SectionList
+      ref={listRef}
+      sections={sections}
+      keyExtractor={(operation, index) => `${operation.key}-${index}`}
+      renderSectionHeader={({ section }) => (
+        <TagHeader
+          section={section}
+          isCollapsed={collapsedTags.has(section.title)}
+          onToggle={toggleTag}
+        />
+      )}
+      renderItem={({ item }) => (
+        <OperationCard
+          operation={item}
+          document={parsed.document}
+          isExpanded={expandedOperations.has(item.key)}
+          onToggle={toggleOperation}
+          footer={renderOperationFooter?.(item, parsed)}
+        />
+      )}
+      ListHeaderComponent={
+        <ExplorerHeader parsed={parsed} filter={filter} onFilterChange={setFilter} />
+      }
+      ListFooterComponent={<ExplorerModels parsed={parsed} />}
+      ListEmptyComponent={
+        <Text style={styles.empty}>Ninguna operación coincide con el filtro.</Text>
+      }
+      onScrollToIndexFailed={() => undefined}
+      contentContainerStyle={styles.content}
+      stickySectionHeadersEnabled={false}
+      keyboardShouldPersistTaps="handled"
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    padding: SPACING.md,
+  },
+  header: {
+    marginBottom: SPACING.md,
+  },
+  title: {
+    fontSize: TYPOGRAPHY.h5,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  version: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: 'normal',
+    color: COLORS.textSecondary,
+  },
+  description: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    lineHeight: 20,
+    marginTop: SPACING.xs,
+  },
+  server: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.primary,
+    marginTop: SPACING.xs,
+  },
+  filterBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: SPACING.md,
+    paddingHorizontal: SPACING.sm,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.surface,
+  },
+  filterInput: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    paddingVertical: SPACING.sm,
+    marginLeft: SPACING.xs,
+  },
+  tagHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  tagText: {
+    flex: 1,
+  },
+  tagTitle: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.h6,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  tagDescription: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  models: {
+    marginTop: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  empty: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.lg,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.xl,
+  },
+  errorText: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.error,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
+});
+
+export default OpenApiExplorer;
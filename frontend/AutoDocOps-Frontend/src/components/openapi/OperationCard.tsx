@@ -0,0 +1,307 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import MethodBadge from './MethodBadge';
+import SchemaTree from './SchemaTree';
+import { OpenApiDocument, ParsedMediaType, ParsedOperation } from '../../types/openApi';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import { getSchemaTypeLabel } from '../../utils/openApi';
+
+interface OperationCardProps {
+  operation: ParsedOperation;
+  document: OpenApiDocument;
+  isExpanded: boolean;
+  onToggle: (operation: ParsedOperation) => void;
+  // Extra actions shown at the bottom of the expanded card
+  footer?: React.ReactNode;
+}
+
+const getStatusColor = (status: string): string => {
+  if (status.startsWith('2')) {
+    return COLORS.success;
+  }
+  if (status.startsWith('3')) {
+    return COLORS.info;
+  }
+  if (status.startsWith('4')) {
+    return COLORS.warning;
+  }
+  if (status.startsWith('5')) {
+    return COLORS.error;
+  }
+  return COLORS.textSecondary;
+};
+
+const formatExample = (example: unknown): string =>
+  typeof example === 'string' ? example : JSON.stringify(example, null, 2);
+
+interface MediaContentProps {
+  document: OpenApiDocument;
+  content: ParsedMediaType[];
+  defaultExpanded: boolean;
+}
+
+// Schema and example of each media type of a request body or response
+const MediaContent: React.FC<MediaContentProps> = ({ document, content, defaultExpanded }) => (
+  <>
+    {content.map(media => (
+      <View key={media.mediaType} style={styles.media}>
+        <Text style={styles.mediaType}>{media.mediaType}</Text>
+        {media.schema && (
+          <SchemaTree document={document} schema={media.schema} defaultExpanded={defaultExpanded} />
+        )}
+        {media.example !== undefined && (
+          <Text style={styles.code} selectable>
+            {formatExample(media.example)}
+          </Text>
+        )}
+      </View>
+    ))}
+  </>
+);
+
+interface OperationSectionProps {
+  operation: ParsedOperation;
+  document: OpenApiDocument;
+}
+
+const OperationParameters: React.FC<OperationSectionProps> = ({ operation, document }) => (
+  <>
+    <Text style={styles.sectionTitle}>Parámetros</Text>
+    {operation.parameters.map(parameter => (
+      <View key={`${parameter.in}:${parameter.name}`} style={styles.parameter}>
+        <Text style={styles.parameterHeader}>
+          <Text style={styles.parameterName}>{parameter.name}</Text>
+          {parameter.required && <Text style={styles.required}> *</Text>}
+          <Text style={styles.parameterIn}> ({parameter.in}) </Text>
+          <Text style={styles.parameterType}>{getSchemaTypeLabel(document, parameter.schema)}</Text>
+        </Text>
+        {parameter.description && (
+          <Text style={styles.parameterDescription}>{parameter.description}</Text>
+        )}
+      </View>
+    ))}
+  </>
+);
+
+const OperationResponses: React.FC<OperationSectionProps> = ({ operation, document }) => (
+  <>
+    <Text style={styles.sectionTitle}>Respuestas</Text>
+    {operation.responses.map(response => (
+      <View key={response.status} style={styles.response}>
+        <Text style={styles.responseHeader}>
+          <Text style={[styles.status, { color: getStatusColor(response.status) }]}>
+            {response.status}
+          </Text>
+          {response.description ? `  ${response.description}` : ''}
+        </Text>
+        <MediaContent document={document} content={response.content} defaultExpanded={false} />
+      </View>
+    ))}
+  </>
+);
+
+// Everything shown once the card is expanded, above the footer
+const OperationDetails: React.FC<OperationSectionProps> = ({ operation, document }) => (
+  <>
+    {operation.deprecated && <Text style={styles.warning}>Operación obsoleta</Text>}
+    {operation.description && <Text style={styles.description}>{operation.description}</Text>}
+    {operation.operationId && <Text style={styles.meta}>operationId: {operation.operationId}</Text>}
+    {operation.security.length > 0 && (
+      <Text style={styles.meta}>
+        Seguridad: {operation.security.flatMap(entry => Object.keys(entry)).join(', ')}
+      </Text>
+    )}
+
+    {operation.parameters.length > 0 && (
+      <OperationParameters operation={operation} document={document} />
+    )}
+
+    {operation.requestBody && (
+      <>
+        <Text style={styles.sectionTitle}>
+          Cuerpo de la petición{operation.requestBody.required ? ' *' : ''}
+        </Text>
+        {operation.requestBody.description && (
+          <Text style={styles.description}>{operation.requestBody.description}</Text>
+        )}
+        <MediaContent
+          document={document}
+          content={operation.requestBody.content}
+          defaultExpanded={true}
+        />
+      </>
+    )}
+
+    {operation.responses.length > 0 && (
+      <OperationResponses operation={operation} document={document} />
+    )}
+  </>
+);
+
+const OperationCard: React.FC<OperationCardProps> = ({
+  operation,
+  document,
+  isExpanded,
+  onToggle,
+  footer,
+}) => (
+  <View style={[styles.card, operation.deprecated && styles.cardDeprecated]}>
+    <TouchableOpacity style={styles.header} onPress={() => onToggle(operation)}>
+      <MethodBadge method={operation.method} />
+      <View style={styles.headerText}>
+        <Text
+          style={[styles.path, operation.deprecated && styles.deprecated]}
+          numberOfLines={isExpanded ? 0 : 1}
+        >
+          {operation.path}
+        </Text>
+        {operation.summary && (
+          <Text style={styles.summary} numberOfLines={isExpanded ? 0 : 1}>
+            {operation.summary}
+          </Text>
+        )}
+      </View>
+      <Ionicons
+        name={isExpanded ? 'chevron-up' : 'chevron-down'}
+        size={18}
+        color={COLORS.textSecondary}
+      />
+    </TouchableOpacity>
+
+    {isExpanded && (
+      <View style={styles.body}>
+        <OperationDetails operation={operation} document={document} />
+        {footer}
+      </View>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: SPACING.sm,
+    overflow: 'hidden',
+  },
+  cardDeprecated: {
+    opacity: 0.7,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: SPACING.sm + 2,
+  },
+  headerText: {
+    flex: 1,
+    marginHorizontal: SPACING.sm,
+  },
+  path: {
+    fontSize: TYPOGRAPHY.body,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+  },
+  deprecated: {
+    textDecorationLine: 'line-through',
+  },
+  summary: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  body: {
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    backgroundColor: COLORS.background,
+  },
+  warning: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.warning,
+    fontWeight: '600',
+    marginTop: SPACING.sm,
+  },
+  description: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    lineHeight: 20,
+    marginTop: SPACING.sm,
+  },
+  meta: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    fontFamily: FONTS.mono,
+    marginTop: SPACING.xs,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    marginTop: SPACING.md,
+    marginBottom: SPACING.xs,
+  },
+  parameter: {
+    paddingVertical: SPACING.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  parameterHeader: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.text,
+  },
+  parameterName: {
+    fontFamily: FONTS.mono,
+    fontWeight: '600',
+  },
+  required: {
+    color: COLORS.error,
+    fontWeight: '600',
+  },
+  parameterIn: {
+    color: COLORS.textSecondary,
+  },
+  parameterType: {
+    fontFamily: FONTS.mono,
+    color: COLORS.primary,
+  },
+  parameterDescription: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  media: {
+    marginTop: SPACING.xs,
+  },
+  mediaType: {
+    fontSize: TYPOGRAPHY.small,
+    color: COLORS.textSecondary,
+    fontFamily: FONTS.mono,
+  },
+  code: {
+    fontSize: TYPOGRAPHY.small,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.sm,
+    padding: SPACING.sm,
+    marginTop: SPACING.xs,
+  },
+  response: {
+    paddingVertical: SPACING.xs,
+  },
+  responseHeader: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.text,
+  },
+  status: {
+    fontFamily: FONTS.mono,
+    fontWeight: 'bold',
+  },
+});
+
+export default OperationCard;
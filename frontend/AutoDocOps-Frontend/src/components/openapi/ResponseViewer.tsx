@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ConsoleResponse } from '../../services/requestConsoleService';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import { formatResponseBody } from '../../utils/requestConsole';
+
+interface ResponseViewerProps {
+  response: ConsoleResponse;
+}
+
+const getStatusColor = (status: number): string => {
+  if (status >= 500) {
+    return COLORS.error;
+  }
+  if (status >= 400) {
+    return COLORS.warning;
+  }
+  if (status >= 300) {
+    return COLORS.info;
+  }
+  return COLORS.success;
+};
+
+const formatSize = (body: string): string => {
+  const bytes = body.length;
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+};
+
+const ResponseViewer: React.FC<ResponseViewerProps> = ({ response }) => {
+  const [showHeaders, setShowHeaders] = useState(false);
+  const headers = Object.entries(response.headers);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Text style={[styles.status, { color: getStatusColor(response.status) }]}>
+          {response.status} {response.statusText}
+        </Text>
+        <Text style={styles.meta}>
+          {response.durationMs} ms · {formatSize(response.body)}
+        </Text>
+      </View>
+
+      {headers.length > 0 && (
+        <TouchableOpacity style={styles.toggle} onPress={() => setShowHeaders(show => !show)}>
+          <Text style={styles.toggleText}>Cabeceras ({headers.length})</Text>
+          <Ionicons
+            name={showHeaders ? 'chevron-up' : 'chevron-down'}
+            size={16}
+            color={COLORS.textSecondary}
+          />
+        </TouchableOpacity>
+      )}
+      {showHeaders &&
+        headers.map(([name, value]) => (
+          <Text key={name} style={styles.header} selectable>
+            <Text style={styles.headerName}>{name}:</Text> {value}
+          </Text>
+        ))}
+
+      <ScrollView horizontal style={styles.body}>
+        <Text style={styles.code} selectable>
+          {response.body ? formatResponseBody(response.body) : '(sin contenido)'}
+        </Text>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: SPACING.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    backgroundColor: COLORS.surface,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  status: {
+    fontSize: TYPOGRAPHY.h6,
+    fontWeight: 'bold',
+    fontFamily: FONTS.mono,
+  },
+  meta: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+  },
+  toggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: SPACING.sm,
+    paddingVertical: SPACING.xs,
+  },
+  toggleText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  header: {
+    fontSize: TYPOGRAPHY.small,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    marginTop: 2,
+  },
+  headerName: {
+    fontWeight: 'bold',
+  },
+  body: {
+    marginTop: SPACING.sm,
+    backgroundColor: COLORS.background,
+    borderRadius: BORDER_RADIUS.sm,
+  },
+  code: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    padding: SPACING.sm,
+  },
+});
+
+export default ResponseViewer;
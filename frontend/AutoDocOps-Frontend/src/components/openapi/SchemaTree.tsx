@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MaybeRef, OpenApiDocument, OpenApiSchema } from '../../types/openApi';
+import { COLORS, TYPOGRAPHY, SPACING, FONTS } from '../../constants';
+import { deref, getRefName, getSchemaTypeLabel, isReference } from '../../utils/openApi';
+
+interface SchemaTreeProps {
+  document: OpenApiDocument;
+  schema: MaybeRef<OpenApiSchema> | undefined;
+  name?: string;
+  required?: boolean;
+  defaultExpanded?: boolean;
+  // Model names already open above this node, used to stop on recursive schemas
+  ancestors?: string[];
+}
+
+interface SchemaChild {
+  key: string;
+  name: string;
+  schema: MaybeRef<OpenApiSchema>;
+  required: boolean;
+}
+
+// allOf members are merged into one property list, oneOf/anyOf members are listed as options
+const getChildren = (document: OpenApiDocument, schema: OpenApiSchema): SchemaChild[] => {
+  const members = (schema.allOf ?? [])
+    .map(member => deref(document, member))
+    .filter((member): member is OpenApiSchema => member !== undefined);
+  const objects = [schema, ...members];
+  const required = new Set(objects.flatMap(object => object.required ?? []));
+
+  const children: SchemaChild[] = objects.flatMap(object =>
+    Object.entries(object.properties ?? {}).map(([name, property]) => ({
+      key: name,
+      name,
+      schema: property,
+      required: required.has(name),
+    })),
+  );
+
+  if (schema.items) {
+    children.push({ key: '[]', name: '[ ]', schema: schema.items, required: false });
+  }
+  if (typeof schema.additionalProperties === 'object') {
+    children.push({
+      key: '{}',
+      name: '[clave]',
+      schema: schema.additionalProperties,
+      required: false,
+    });
+  }
+  [...(schema.oneOf ?? []), ...(schema.anyOf ?? [])].forEach((option, index) =>
+    children.push({
+      key: `option-${index}`,
+      name: `opción ${index + 1}`,
+      schema: option,
+      required: false,
+    }),
+  );
+
+  return children;
+};
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+interface SchemaHeaderProps {
+  document: OpenApiDocument;
+  schema: MaybeRef<OpenApiSchema> | undefined;
+  resolved: OpenApiSchema | undefined;
+  name: string | undefined;
+  required: boolean;
+  isRecursive: boolean;
+}
+
+// Name, type and flags of a node
+const SchemaHeader: React.FC<SchemaHeaderProps> = ({
+  document,
+  schema,
+  resolved,
+  name,
+  required,
+  isRecursive,
+}) => (
+  <Text style={styles.header}>
+    {name !== undefined && (
+      <Text style={[styles.name, resolved?.deprecated && styles.deprecated]}>{name}</Text>
+    )}
+    {required && <Text style={styles.required}> *</Text>}
+    {name !== undefined && '  '}
+    <Text style={styles.type}>{getSchemaTypeLabel(document, schema)}</Text>
+    {resolved?.nullable && <Text style={styles.flag}> nullable</Text>}
+    {resolved?.readOnly && <Text style={styles.flag}> solo lectura</Text>}
+    {resolved?.writeOnly && <Text style={styles.flag}> solo escritura</Text>}
+    {isRecursive && <Text style={styles.flag}> ↻ recursivo</Text>}
+  </Text>
+);
+
+// Description, allowed values, default and example of a node
+const SchemaDetails: React.FC<{ schema: OpenApiSchema }> = ({ schema }) => (
+  <>
+    {schema.description ? <Text style={styles.description}>{schema.description}</Text> : null}
+    {schema.enum && (
+      <Text style={styles.detail}>Valores: {schema.enum.map(formatValue).join(', ')}</Text>
+    )}
+    {schema.default !== undefined && (
+      <Text style={styles.detail}>Por defecto: {formatValue(schema.default)}</Text>
+    )}
+    {schema.example !== undefined && (
+      <Text style={styles.detail}>Ejemplo: {formatValue(schema.example)}</Text>
+    )}
+  </>
+);
+
+const SchemaTree: React.FC<SchemaTreeProps> = ({
+  document,
+  schema,
+  name,
+  required = false,
+  defaultExpanded = false,
+  ancestors = [],
+}) => {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+  const refName = isReference(schema) ? getRefName(schema.$ref) : undefined;
+  const isRecursive = refName !== undefined && ancestors.includes(refName);
+  const resolved = deref(document, schema);
+  const children = resolved && !isRecursive ? getChildren(document, resolved) : [];
+  const canExpand = children.length > 0;
+  const childAncestors = refName ? [...ancestors, refName] : ancestors;
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => setIsExpanded(expanded => !expanded)}
+        disabled={!canExpand}
+      >
+        <Ionicons
+          name={isExpanded ? 'chevron-down' : 'chevron-forward'}
+          size={14}
+          color={canExpand ? COLORS.textSecondary : 'transparent'}
+          style={styles.chevron}
+        />
+        <View style={styles.content}>
+          <SchemaHeader
+            document={document}
+            schema={schema}
+            resolved={resolved}
+            name={name}
+            required={required}
+            isRecursive={isRecursive}
+          />
+          {resolved && <SchemaDetails schema={resolved} />}
+        </View>
+      </TouchableOpacity>
+
+      {isExpanded && canExpand && (
+        <View style={styles.children}>
+          {children.map(child => (
+            <SchemaTree
+              key={child.key}
+              document={document}
+              schema={child.schema}
+              name={child.name}
+              required={child.required}
+              ancestors={childAncestors}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: SPACING.xs,
+  },
+  chevron: {
+    marginTop: 2,
+    marginRight: SPACING.xs,
+  },
+  content: {
+    flex: 1,
+  },
+  header: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.text,
+  },
+  name: {
+    fontFamily: FONTS.mono,
+    fontWeight: '600',
+  },
+  deprecated: {
+    textDecorationLine: 'line-through',
+  },
+  required: {
+    color: COLORS.error,
+    fontWeight: '600',
+  },
+  type: {
+    fontFamily: FONTS.mono,
+    color: COLORS.primary,
+  },
+  flag: {
+    color: COLORS.textSecondary,
+    fontStyle: 'italic',
+  },
+  description: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  detail: {
+    fontSize: TYPOGRAPHY.small,
+    color: COLORS.textSecondary,
+    fontFamily: FONTS.mono,
+    marginTop: 2,
+  },
+  children: {
+    marginLeft: SPACING.md,
+    paddingLeft: SPACING.xs,
+    borderLeftWidth: 1,
+    borderLeftColor: COLORS.border,
+  },
+});
+
+export default SchemaTree;
@@ -0,0 +1,349 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import PostmanRequestCard from './PostmanRequestCard';
+import fileExportService from '../../services/fileExportService';
+import {
+  ParsedPostmanCollection,
+  ParsedPostmanNode,
+  ParsedPostmanRequest,
+} from '../../types/postman';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import {
+  PostmanParseError,
+  buildPostmanEnvironment,
+  getPostmanFileNames,
+  parsePostmanCollection,
+} from '../../utils/postman';
+
+interface PostmanCollectionBrowserProps {
+  source: string;
+  apiName: string;
+  baseUrl: string;
+  // Project connection auth type, used for the exported environment
+  authenticationType?: string | undefined;
+}
+
+type ExportKind = 'collection' | 'environment';
+
+interface VisibleNode {
+  node: ParsedPostmanNode;
+  depth: number;
+}
+
+const EXPORT_ACTIONS = [
+  { kind: 'collection', label: 'Colección', icon: 'download-outline' },
+  { kind: 'environment', label: 'Entorno', icon: 'globe-outline' },
+] as const;
+
+type ParseResult =
+  { collection: ParsedPostmanCollection; error: null } | { collection: null; error: string };
+
+const parseSource = (source: string): ParseResult => {
+  try {
+    return { collection: parsePostmanCollection(source), error: null };
+  } catch (parseError) {
+    return {
+      collection: null,
+      error:
+        parseError instanceof PostmanParseError
+          ? parseError.message
+          : 'No se pudo leer la colección de Postman.',
+    };
+  }
+};
+
+// Rows of the tree in display order, leaving out the contents of collapsed folders
+const flattenNodes = (
+  nodes: ParsedPostmanNode[],
+  collapsed: Set<string>,
+  depth = 0,
+): VisibleNode[] =>
+  nodes.flatMap(node => [
+    { node, depth },
+    ...(node.type === 'folder' && !collapsed.has(node.id)
+      ? flattenNodes(node.items, collapsed, depth + 1)
+      : []),
+  ]);
+
+const toggleId = (ids: Set<string>, id: string): Set<string> => {
+  const next = new Set(ids);
+  if (next.has(id)) {
+    next.delete(id);
+  } else {
+    next.add(id);
+  }
+  return next;
+};
+
+type ExportOptions = Omit<PostmanCollectionBrowserProps, 'source'> & {
+  collection: ParsedPostmanCollection;
+};
+
+// Saves the collection as is, or an environment for it built from the project settings
+const ExportActions: React.FC<ExportOptions> = ({
+  collection,
+  apiName,
+  baseUrl,
+  authenticationType,
+}) => {
+  const [exporting, setExporting] = useState<ExportKind | null>(null);
+
+  const exportFile = async (kind: ExportKind): Promise<void> => {
+    const fileNames = getPostmanFileNames(apiName);
+    setExporting(kind);
+    try {
+      if (kind === 'collection') {
+        await fileExportService.exportJson(collection.collection, fileNames.collection);
+      } else {
+        const environment = buildPostmanEnvironment(collection, {
+          name: apiName,
+          baseUrl,
+          ...(authenticationType ? { authenticationType } : {}),
+        });
+        await fileExportService.exportJson(environment, fileNames.environment);
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo exportar.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <View style={styles.actions}>
+      {EXPORT_ACTIONS.map(action => (
+        <TouchableOpacity
+          key={action.kind}
+          style={styles.actionButton}
+          onPress={() => exportFile(action.kind)}
+          disabled={exporting !== null}
+        >
+          {exporting === action.kind ? (
+            <ActivityIndicator size="small" color={COLORS.primary} />
+          ) : (
+            <Ionicons name={action.icon} size={16} color={COLORS.primary} />
+          )}
+          <Text style={styles.actionText}>{action.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const CollectionSummary: React.FC<ExportOptions> = props => {
+  const { collection } = props;
+
+  return (
+    <View style={styles.summary}>
+      <Text style={styles.title}>{collection.name}</Text>
+      {collection.description && <Text style={styles.description}>{collection.description}</Text>}
+      <Text style={styles.count}>
+        {collection.requestCount} {collection.requestCount === 1 ? 'petición' : 'peticiones'}
+      </Text>
+
+      {collection.variables.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Variables de la colección</Text>
+          {collection.variables.map(variable => (
+            <Text key={variable.key} style={styles.variable} numberOfLines={1}>
+              <Text style={styles.variableKey}>{variable.key}</Text>
+              {variable.value !== undefined && variable.value !== ''
+                ? ` = ${String(variable.value)}`
+                : ''}
+            </Text>
+          ))}
+        </>
+      )}
+
+      <ExportActions {...props} />
+    </View>
+  );
+};
+
+const FolderRow: React.FC<{
+  name: string;
+  depth: number;
+  isCollapsed: boolean;
+  onPress: () => void;
+}> = ({ name, depth, isCollapsed, onPress }) => (
+  <TouchableOpacity style={[styles.folder, { marginLeft: depth * SPACING.md }]} onPress={onPress}>
+    <Ionicons
+      name={isCollapsed ? 'folder-outline' : 'folder-open-outline'}
+      size={18}
+      color={COLORS.warning}
+    />
+    <Text style={styles.folderName} numberOfLines={1}>
+      {name}
+    </Text>
+  </TouchableOpacity>
+);
+
+const PostmanCollectionBrowser: React.FC<PostmanCollectionBrowserProps> = ({
+  source,
+  apiName,
+  baseUrl,
+  authenticationType,
+}) => {
+  const result = useMemo(() => parseSource(source), [source]);
+
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const visibleNodes = useMemo(
+    () => flattenNodes(result.collection?.items ?? [], collapsed),
+    [result, collapsed],
+  );
+
+  if (!result.collection) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="alert-circle-outline" size={40} color={COLORS.textSecondary} />
+        <Text style={styles.message}>{result.error}</Text>
+      </View>
+    );
+  }
+
+  const { collection } = result;
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={visibleNodes}
+      keyExtractor={({ node }) => node.id}
+      contentContainerStyle={styles.list}
+      ListHeaderComponent={
+        <CollectionSummary
+          collection={collection}
+          apiName={apiName}
+          baseUrl={baseUrl}
+          authenticationType={authenticationType}
+        />
+      }
+      renderItem={({ item: { node, depth } }) =>
+        node.type === 'folder' ? (
+          <FolderRow
+            name={node.name}
+            depth={depth}
+            isCollapsed={collapsed.has(node.id)}
+            onPress={() => setCollapsed(previous => toggleId(previous, node.id))}
+          />
+        ) : (
+          <PostmanRequestCard
+            request={node}
+            depth={depth}
+            isExpanded={expanded.has(node.id)}
+            onToggle={(request: ParsedPostmanRequest) =>
+              setExpanded(previous => toggleId(previous, request.id))
+            }
+          />
+        )
+      }
+      ListEmptyComponent={<Text style={styles.message}>La colección no contiene peticiones.</Text>}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.xl,
+    backgroundColor: COLORS.background,
+  },
+  message: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
+  list: {
+    padding: SPACING.md,
+    paddingBottom: SPACING.xl,
+  },
+  summary: {
+    marginBottom: SPACING.md,
+  },
+  title: {
+    fontSize: TYPOGRAPHY.h5,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  description: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    lineHeight: 20,
+    marginTop: SPACING.xs,
+  },
+  count: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    marginTop: SPACING.md,
+    marginBottom: SPACING.xs,
+  },
+  variable: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    marginBottom: 2,
+  },
+  variableKey: {
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: SPACING.md,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs + 2,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  actionText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginLeft: SPACING.xs,
+  },
+  folder: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  folderName: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginLeft: SPACING.sm,
+  },
+});
+
+export default PostmanCollectionBrowser;
@@ -0,0 +1,211 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import CodeBlock from '../common/CodeBlock';
+import { ParsedPostmanRequest } from '../../types/postman';
+import {
+  COLORS,
+  TYPOGRAPHY,
+  SPACING,
+  BORDER_RADIUS,
+  FONTS,
+  HTTP_METHOD_COLORS,
+} from '../../constants';
+import { resolveLanguage } from '../../utils/syntaxHighlight';
+
+interface PostmanRequestCardProps {
+  request: ParsedPostmanRequest;
+  depth: number;
+  isExpanded: boolean;
+  onToggle: (request: ParsedPostmanRequest) => void;
+}
+
+// Postman auth types as shown to the user
+const AUTH_LABELS: Record<string, string> = {
+  noauth: 'Sin autenticación',
+  bearer: 'Bearer',
+  apikey: 'API Key',
+  basic: 'Basic',
+  oauth2: 'OAuth 2.0',
+};
+
+const PostmanRequestCard: React.FC<PostmanRequestCardProps> = ({
+  request,
+  depth,
+  isExpanded,
+  onToggle,
+}) => (
+  <View style={[styles.card, { marginLeft: depth * SPACING.md }]}>
+    <TouchableOpacity style={styles.header} onPress={() => onToggle(request)}>
+      <Text
+        style={[
+          styles.method,
+          { color: HTTP_METHOD_COLORS[request.method.toLowerCase()] ?? COLORS.textSecondary },
+        ]}
+      >
+        {request.method}
+      </Text>
+      <View style={styles.headerText}>
+        <Text style={styles.name} numberOfLines={isExpanded ? undefined : 1}>
+          {request.name}
+        </Text>
+        {!isExpanded && (
+          <Text style={styles.url} numberOfLines={1}>
+            {request.url}
+          </Text>
+        )}
+      </View>
+      <Ionicons
+        name={isExpanded ? 'chevron-up' : 'chevron-down'}
+        size={18}
+        color={COLORS.textSecondary}
+      />
+    </TouchableOpacity>
+
+    {isExpanded && (
+      <View style={styles.body}>
+        <Text style={styles.fullUrl} selectable>
+          {request.url}
+        </Text>
+        {request.description && <Text style={styles.description}>{request.description}</Text>}
+
+        {request.authType && (
+          <>
+            <Text style={styles.sectionTitle}>Autenticación</Text>
+            <Text style={styles.value}>{AUTH_LABELS[request.authType] ?? request.authType}</Text>
+          </>
+        )}
+
+        {request.headers.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Cabeceras</Text>
+            {request.headers.map((header, index) => (
+              <Text key={`${header.key}-${index}`} style={styles.headerLine} selectable>
+                <Text style={styles.headerKey}>{header.key}: </Text>
+                <Text style={styles.value}>{header.value}</Text>
+              </Text>
+            ))}
+          </>
+        )}
+
+        {request.body && (
+          <>
+            <Text style={styles.sectionTitle}>Cuerpo</Text>
+            <CodeBlock code={request.body} language={resolveLanguage(request.bodyLanguage)} />
+          </>
+        )}
+
+        {request.variables.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Variables</Text>
+            <View style={styles.chips}>
+              {request.variables.map(variable => (
+                <Text key={variable} style={styles.chip}>
+                  {`{{${variable}}}`}
+                </Text>
+              ))}
+            </View>
+          </>
+        )}
+      </View>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginBottom: SPACING.sm,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: SPACING.sm + 2,
+  },
+  method: {
+    minWidth: 56,
+    fontSize: TYPOGRAPHY.small,
+    fontFamily: FONTS.mono,
+    fontWeight: 'bold',
+  },
+  headerText: {
+    flex: 1,
+    marginHorizontal: SPACING.sm,
+  },
+  name: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  url: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  body: {
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    backgroundColor: COLORS.background,
+  },
+  fullUrl: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    marginTop: SPACING.sm,
+  },
+  description: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    lineHeight: 20,
+    marginTop: SPACING.sm,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    marginTop: SPACING.md,
+    marginBottom: SPACING.xs,
+  },
+  headerLine: {
+    marginBottom: 2,
+  },
+  headerKey: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  value: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    fontSize: TYPOGRAPHY.small,
+    fontFamily: FONTS.mono,
+    color: COLORS.primary,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.full,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    marginRight: SPACING.xs,
+    marginBottom: SPACING.xs,
+    overflow: 'hidden',
+  },
+});
+
+export default PostmanRequestCard;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
+
+interface StatusProgressProps {
+  progress?: number | undefined;
+  message?: string | undefined;
+}
+
+const StatusProgress: React.FC<StatusProgressProps> = ({ progress, message }) => {
+  const percent = Math.max(0, Math.min(100, Math.round(progress ?? 0)));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${percent}%` }]} />
+      </View>
+      <Text style={styles.label} numberOfLines={1}>
+        {progress !== undefined ? `${percent}%` : 'En curso'}
+        {message ? ` · ${message}` : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: SPACING.sm,
+  },
+  track: {
+    height: 6,
+    borderRadius: BORDER_RADIUS.full,
+    backgroundColor: COLORS.gray[200],
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    backgroundColor: COLORS.warning,
+  },
+  label: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+});
+
+export default StatusProgress;
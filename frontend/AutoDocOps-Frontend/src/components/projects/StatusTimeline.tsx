@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ProjectStatusTransition } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING } from '../../constants';
+import { getProjectStatusInfo } from '../../utils/projectStatus';
+
+interface StatusTimelineProps {
+  transitions: ProjectStatusTransition[];
+}
+
+const StatusTimeline: React.FC<StatusTimelineProps> = ({ transitions }) => {
+  if (transitions.length === 0) {
+    return <Text style={styles.emptyText}>Sin cambios de estado registrados</Text>;
+  }
+
+  // Most recent first
+  const ordered = [...transitions].reverse();
+
+  return (
+    <View>
+      {ordered.map((transition, index) => {
+        const statusInfo = getProjectStatusInfo(transition.status);
+        const isLast = index === ordered.length - 1;
+        return (
+          <View key={`${transition.status}-${transition.changedAt}`} style={styles.item}>
+            <View style={styles.markerColumn}>
+              <View style={[styles.dot, { backgroundColor: statusInfo.color }]} />
+              {!isLast && <View style={styles.line} />}
+            </View>
+            <View style={styles.content}>
+              <Text style={styles.statusLabel}>{statusInfo.label}</Text>
+              <Text style={styles.meta}>
+                {new Date(transition.changedAt).toLocaleString()}
+                {transition.changedBy ? ` · ${transition.changedBy}` : ''}
+              </Text>
+              {transition.message && <Text style={styles.message}>{transition.message}</Text>}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  item: {
+    flexDirection: 'row',
+  },
+  markerColumn: {
+    width: 20,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 4,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: COLORS.border,
+    marginVertical: 2,
+  },
+  content: {
+    flex: 1,
+    paddingLeft: SPACING.sm,
+    paddingBottom: SPACING.md,
+  },
+  statusLabel: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  meta: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  message: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.text,
+    marginTop: SPACING.xs,
+  },
+  emptyText: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+  },
+});
+
+export default StatusTimeline;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { View } from 'react-native';
+import { Control } from 'react-hook-form';
+import FormTextInput from '../../forms/FormTextInput';
+import FormOptionSelector from '../../forms/FormOptionSelector';
+import { LANGUAGES, PROJECT_TYPES } from '../../../constants';
+import { ProjectFormValues } from '../../../utils/projectForm';
+
+interface BasicsStepProps {
+  control: Control<ProjectFormValues>;
+}
+
+const BasicsStep: React.FC<BasicsStepProps> = ({ control }) => {
+  return (
+    <View>
+      <FormTextInput
+        control={control}
+        name="name"
+        label="Nombre del proyecto"
+        placeholder="Mi API"
+      />
+      <FormTextInput
+        control={control}
+        name="description"
+        label="Descripción"
+        placeholder="¿Qué documenta este proyecto?"
+        multiline
+      />
+      <FormOptionSelector
+        control={control}
+        name="type"
+        label="Tipo de proyecto"
+        options={PROJECT_TYPES}
+      />
+      <FormOptionSelector
+        control={control}
+        name="preferredLanguage"
+        label="Idioma de la documentación"
+        options={LANGUAGES}
+      />
+      <FormTextInput
+        control={control}
+        name="repositoryUrl"
+        label="URL del repositorio (opcional)"
+        placeholder="https://github.com/empresa/proyecto"
+        keyboardType="url"
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      <FormTextInput
+        control={control}
+        name="branch"
+        label="Rama (opcional)"
+        placeholder="main"
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+    </View>
+  );
+};
+
+export default BasicsStep;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { View } from 'react-native';
+import { Control, useWatch } from 'react-hook-form';
+import FormTextInput from '../../forms/FormTextInput';
+import FormOptionSelector from '../../forms/FormOptionSelector';
+import { AUTH_TYPES } from '../../../constants';
+import { ProjectType } from '../../../types';
+import { ProjectFormValues } from '../../../utils/projectForm';
+
+interface ConnectionStepProps {
+  control: Control<ProjectFormValues>;
+}
+
+const ConnectionStep: React.FC<ConnectionStepProps> = ({ control }) => {
+  const [type, authenticationType] = useWatch({
+    control,
+    name: ['type', 'authenticationType'],
+  });
+
+  const isDatabase = type === ProjectType.SqlServerDatabase;
+  const needsToken = authenticationType === 'Bearer' || authenticationType === 'ApiKey';
+  const needsUsername = authenticationType === 'SqlServer' || authenticationType === 'Windows';
+
+  return (
+    <View>
+      <FormTextInput
+        control={control}
+        name="connectionString"
+        label={isDatabase ? 'Cadena de conexión' : 'URL base o cadena de conexión'}
+        placeholder={isDatabase ? 'Server=localhost;Database=MiBase;' : 'https://api.miempresa.com'}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      <FormOptionSelector
+        control={control}
+        name="authenticationType"
+        label="Autenticación"
+        options={AUTH_TYPES}
+      />
+      {needsUsername && (
+        <FormTextInput
+          control={control}
+          name="username"
+          label="Usuario"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      )}
+      {needsToken && (
+        <FormTextInput
+          control={control}
+          name="accessToken"
+          label={authenticationType === 'ApiKey' ? 'API Key' : 'Token de acceso'}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      )}
+    </View>
+  );
+};
+
+export default ConnectionStep;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Control, useWatch } from 'react-hook-form';
+import FormSwitch from '../../forms/FormSwitch';
+import { COLORS, TYPOGRAPHY, SPACING } from '../../../constants';
+import { getAvailableOutputs, ProjectFormValues } from '../../../utils/projectForm';
+
+interface OutputsStepProps {
+  control: Control<ProjectFormValues>;
+  errorMessage?: string | undefined;
+}
+
+const OutputsStep: React.FC<OutputsStepProps> = ({ control, errorMessage }) => {
+  const type = useWatch({ control, name: 'type' });
+
+  return (
+    <View>
+      <Text style={styles.intro}>
+        Elige qué documentación generar. Solo se muestran las salidas compatibles con el tipo de
+        proyecto.
+      </Text>
+      {getAvailableOutputs(type).map(output => (
+        <FormSwitch
+          key={output.key}
+          control={control}
+          name={output.key}
+          label={output.label}
+          description={output.description}
+        />
+      ))}
+      {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  intro: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  errorText: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.error,
+    marginTop: SPACING.md,
+  },
+});
+
+export default OutputsStep;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Control, useWatch } from 'react-hook-form';
+import {
+  AUTH_TYPES,
+  BORDER_RADIUS,
+  COLORS,
+  LANGUAGES,
+  PROJECT_TYPES,
+  SPACING,
+  TYPOGRAPHY,
+} from '../../../constants';
+import { getAvailableOutputs, ProjectFormValues } from '../../../utils/projectForm';
+
+interface ReviewStepProps {
+  control: Control<ProjectFormValues>;
+}
+
+const ReviewRow: React.FC<{ label: string; value?: string | undefined }> = ({ label, value }) => (
+  <View style={styles.row}>
+    <Text style={styles.rowLabel}>{label}</Text>
+    <Text style={styles.rowValue}>{value ? value : '—'}</Text>
+  </View>
+);
+
+const ReviewStep: React.FC<ReviewStepProps> = ({ control }) => {
+  const values = useWatch({ control });
+  const type = values.type ?? PROJECT_TYPES[0].value;
+  const outputs = getAvailableOutputs(type).filter(output => values[output.key]);
+
+  return (
+    <View>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Datos básicos</Text>
+        <ReviewRow label="Nombre" value={values.name} />
+        <ReviewRow label="Descripción" value={values.description} />
+        <ReviewRow label="Tipo" value={PROJECT_TYPES.find(t => t.value === type)?.label} />
+        <ReviewRow
+          label="Idioma"
+          value={LANGUAGES.find(l => l.value === values.preferredLanguage)?.label}
+        />
+        <ReviewRow label="Repositorio" value={values.repositoryUrl} />
+        <ReviewRow label="Rama" value={values.branch} />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Conexión</Text>
+        <ReviewRow label="Conexión" value={values.connectionString} />
+        <ReviewRow
+          label="Autenticación"
+          value={AUTH_TYPES.find(a => a.value === values.authenticationType)?.label}
+        />
+        {values.username ? <ReviewRow label="Usuario" value={values.username} /> : null}
+        {values.accessToken ? <ReviewRow label="Token" value="••••••••" /> : null}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Documentación</Text>
+        {outputs.map(output => (
+          <Text key={output.key} style={styles.outputItem}>
+            • {output.label}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.h6,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: SPACING.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.xs,
+  },
+  rowLabel: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    marginRight: SPACING.md,
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    textAlign: 'right',
+  },
+  outputItem: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    paddingVertical: 2,
+  },
+});
+
+export default ReviewStep;
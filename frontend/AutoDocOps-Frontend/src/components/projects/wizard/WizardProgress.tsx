@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../../constants';
+
+interface WizardProgressProps {
+  steps: readonly { key: string; label: string }[];
+  currentIndex: number;
+}
+
+const WizardProgress: React.FC<WizardProgressProps> = ({ steps, currentIndex }) => {
+  return (
+    <View style={styles.container}>
+      {steps.map((step, index) => {
+        const isDone = index < currentIndex;
+        const isCurrent = index === currentIndex;
+        return (
+          <View key={step.key} style={styles.step}>
+            <View
+              style={[
+                styles.bullet,
+                isDone && styles.bulletDone,
+                isCurrent && styles.bulletCurrent,
+              ]}
+            >
+              <Text style={[styles.bulletText, (isDone || isCurrent) && styles.bulletTextActive]}>
+                {index + 1}
+              </Text>
+            </View>
+            <Text
+              style={[styles.stepLabel, isCurrent && styles.stepLabelCurrent]}
+              numberOfLines={1}
+            >
+              {step.label}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.md,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  step: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  bullet: {
+    width: 28,
+    height: 28,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: SPACING.xs,
+  },
+  bulletDone: {
+    backgroundColor: COLORS.success,
+    borderColor: COLORS.success,
+  },
+  bulletCurrent: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  bulletText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  bulletTextActive: {
+    color: COLORS.background,
+  },
+  stepLabel: {
+    fontSize: TYPOGRAPHY.small,
+    color: COLORS.textSecondary,
+  },
+  stepLabelCurrent: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+});
+
+export default WizardProgress;
@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, StyleSheet, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import SegmentedTabs from '../common/SegmentedTabs';
+import SdkFileTree from './SdkFileTree';
+import SdkCodeViewer from './SdkCodeViewer';
+import fileExportService from '../../services/fileExportService';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS } from '../../constants';
+import {
+  SdkFile,
+  SdkLanguage,
+  buildSdkTree,
+  getSdkArchiveName,
+  splitSdkFiles,
+} from '../../utils/sdkFiles';
+
+interface SdkBrowserProps {
+  apiName: string;
+  // Generated source by language; languages without a SDK get no tab
+  sources: Partial<Record<SdkLanguage, string>>;
+}
+
+const LANGUAGES: { key: SdkLanguage; label: string }[] = [
+  { key: 'typescript', label: 'TypeScript' },
+  { key: 'csharp', label: 'C#' },
+];
+
+const SdkBrowser: React.FC<SdkBrowserProps> = ({ apiName, sources }) => {
+  const sdks = useMemo(
+    () =>
+      LANGUAGES.flatMap(({ key, label }) => {
+        const source = sources[key];
+        if (!source) {
+          return [];
+        }
+        const files = splitSdkFiles(source, key);
+        return [{ language: key, label, files, tree: buildSdkTree(files) }];
+      }),
+    [sources],
+  );
+
+  const [selectedLanguage, setSelectedLanguage] = useState<SdkLanguage | null>(null);
+  const [selectedFile, setSelectedFile] = useState<SdkFile | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const current = sdks.find(sdk => sdk.language === selectedLanguage) ?? sdks[0];
+
+  const selectLanguage = (language: SdkLanguage): void => {
+    setSelectedLanguage(language);
+    setSelectedFile(null);
+  };
+
+  const exportArchive = async (): Promise<void> => {
+    if (!current) {
+      return;
+    }
+    setIsExporting(true);
+    try {
+      await fileExportService.exportArchive(
+        current.files,
+        getSdkArchiveName(apiName, current.language),
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'No se pudo exportar el SDK.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!current) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {sdks.length > 1 && (
+        <SegmentedTabs
+          tabs={sdks.map(({ language, label }) => ({ key: language, label }))}
+          selectedKey={current.language}
+          onSelect={selectLanguage}
+        />
+      )}
+
+      <View style={styles.toolbar}>
+        {selectedFile ? (
+          <TouchableOpacity
+            style={styles.breadcrumb}
+            onPress={() => setSelectedFile(null)}
+            accessibilityLabel="Volver a los archivos"
+          >
+            <Ionicons name="chevron-back" size={18} color={COLORS.primary} />
+            <Text style={styles.path} numberOfLines={1}>
+              {selectedFile.path}
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.summary}>
+            {current.files.length} {current.files.length === 1 ? 'archivo' : 'archivos'}
+          </Text>
+        )}
+        <TouchableOpacity
+          style={styles.exportButton}
+          onPress={exportArchive}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <ActivityIndicator size="small" color={COLORS.primary} />
+          ) : (
+            <Ionicons name="download-outline" size={16} color={COLORS.primary} />
+          )}
+          <Text style={styles.exportText}>Exportar .zip</Text>
+        </TouchableOpacity>
+      </View>
+
+      {selectedFile ? (
+        <SdkCodeViewer key={selectedFile.path} file={selectedFile} />
+      ) : (
+        <SdkFileTree nodes={current.tree} onSelect={setSelectedFile} />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  breadcrumb: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: SPACING.sm,
+  },
+  path: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    marginLeft: SPACING.xs,
+  },
+  summary: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs + 2,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  exportText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginLeft: SPACING.xs,
+  },
+});
+
+export default SdkBrowser;
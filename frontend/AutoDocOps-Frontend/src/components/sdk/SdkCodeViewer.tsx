@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  ScrollView,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS, SYNTAX_COLORS } from '../../constants';
+import { SdkFile, findMatchingLines } from '../../utils/sdkFiles';
+import {
+  SyntaxToken,
+  resolveLanguage,
+  splitTokensByLine,
+  tokenize,
+} from '../../utils/syntaxHighlight';
+
+interface SdkCodeViewerProps {
+  file: SdkFile;
+}
+
+const LINE_HEIGHT = 18;
+
+interface FileSearchBarProps {
+  query: string;
+  onChangeQuery: (query: string) => void;
+  matchIndex: number;
+  matchCount: number;
+  onStep: (step: number) => void;
+}
+
+const FileSearchBar: React.FC<FileSearchBarProps> = ({
+  query,
+  onChangeQuery,
+  matchIndex,
+  matchCount,
+  onStep,
+}) => (
+  <View style={styles.searchBar}>
+    <Ionicons name="search" size={18} color={COLORS.textSecondary} />
+    <TextInput
+      style={styles.input}
+      placeholder="Buscar en el archivo"
+      placeholderTextColor={COLORS.textSecondary}
+      value={query}
+      onChangeText={onChangeQuery}
+      onSubmitEditing={() => onStep(1)}
+      autoCapitalize="none"
+      autoCorrect={false}
+    />
+    {query.trim().length > 0 && (
+      <>
+        <Text style={styles.matchCount}>
+          {matchCount > 0 ? `${matchIndex + 1} de ${matchCount}` : 'Sin resultados'}
+        </Text>
+        <TouchableOpacity
+          onPress={() => onStep(-1)}
+          disabled={matchCount === 0}
+          accessibilityLabel="Coincidencia anterior"
+        >
+          <Ionicons name="chevron-up" size={20} color={COLORS.textSecondary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => onStep(1)}
+          disabled={matchCount === 0}
+          accessibilityLabel="Coincidencia siguiente"
+        >
+          <Ionicons name="chevron-down" size={20} color={COLORS.textSecondary} />
+        </TouchableOpacity>
+      </>
+    )}
+  </View>
+);
+
+interface CodeLineProps {
+  index: number;
+  tokens: SyntaxToken[];
+  gutterWidth: number;
+  isMatch: boolean;
+  isCurrent: boolean;
+}
+
+const CodeLine: React.FC<CodeLineProps> = ({ index, tokens, gutterWidth, isMatch, isCurrent }) => (
+  <View style={[styles.line, isMatch && styles.matchLine, isCurrent && styles.currentLine]}>
+    <Text style={[styles.lineNumber, { width: gutterWidth }]}>{index + 1}</Text>
+    <Text style={styles.lineText}>
+      {tokens.map((token, tokenIndex) =>
+        token.type === 'plain' ? (
+          token.text
+        ) : (
+          <Text
+            key={tokenIndex}
+            style={[{ color: SYNTAX_COLORS[token.type] }, token.type === 'keyword' && styles.bold]}
+          >
+            {token.text}
+          </Text>
+        ),
+      )}
+    </Text>
+  </View>
+);
+
+// Lines of the file with their highlighted tokens, trailing blank lines dropped
+const highlightFile = (file: SdkFile): { lines: string[]; tokenLines: SyntaxToken[][] } => {
+  const content = file.content.replace(/\s+$/, '');
+  const language = resolveLanguage(file.path.split('.').pop());
+  return {
+    lines: content.split('\n'),
+    tokenLines: splitTokensByLine(
+      language ? tokenize(content, language) : [{ type: 'plain', text: content }],
+    ),
+  };
+};
+
+interface LineSearch {
+  query: string;
+  setQuery: (query: string) => void;
+  matches: number[];
+  matchSet: Set<number>;
+  matchIndex: number;
+  // Index of the line the search is on, if anything matches
+  currentLine: number | undefined;
+  stepMatch: (step: number) => void;
+}
+
+// In-file search: the matching lines and the one currently stepped to
+const useLineSearch = (lines: string[]): LineSearch => {
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+  const matches = useMemo(() => findMatchingLines(lines, query), [lines, query]);
+  const matchSet = useMemo(() => new Set(matches), [matches]);
+
+  useEffect(() => {
+    setMatchIndex(0);
+  }, [matches]);
+
+  const stepMatch = (step: number): void => {
+    if (matches.length > 0) {
+      setMatchIndex(previous => (previous + step + matches.length) % matches.length);
+    }
+  };
+
+  return {
+    query,
+    setQuery,
+    matches,
+    matchSet,
+    matchIndex,
+    currentLine: matches[matchIndex],
+    stepMatch,
+  };
+};
+
+/**
+ * Highlighted source of one SDK file with a line-number gutter and an in-file search that
+ * steps through the matching lines.
+ */
+const SdkCodeViewer: React.FC<SdkCodeViewerProps> = ({ file }) => {
+  const listRef = useRef<FlatList<number>>(null);
+  const { lines, tokenLines } = useMemo(() => highlightFile(file), [file]);
+  const lineIndexes = useMemo(() => lines.map((_, index) => index), [lines]);
+  const { query, setQuery, matches, matchSet, matchIndex, currentLine, stepMatch } =
+    useLineSearch(lines);
+  const gutterWidth = String(lines.length).length * 8 + SPACING.md;
+
+  useEffect(() => {
+    if (currentLine !== undefined) {
+      listRef.current?.scrollToIndex({ index: currentLine, viewPosition: 0.3, animated: true });
+    }
+  }, [currentLine]);
+
+  return (
+    <View style={styles.container}>
+      <FileSearchBar
+        query={query}
+        onChangeQuery={setQuery}
+        matchIndex={matchIndex}
+        matchCount={matches.length}
+        onStep={stepMatch}
+      />
+
+      <ScrollView horizontal style={styles.code} contentContainerStyle={styles.codeContent}>
+        <FlatList
+          ref={listRef}
+          data={lineIndexes}
+          keyExtractor={index => String(index)}
+          getItemLayout={(_, index) => ({
+            length: LINE_HEIGHT,
+            offset: LINE_HEIGHT * index,
+            index,
+          })}
+          initialNumToRender={60}
+          renderItem={({ item: index }) => (
+            <CodeLine
+              index={index}
+              tokens={tokenLines[index] ?? []}
+              gutterWidth={gutterWidth}
+              isMatch={matchSet.has(index)}
+              isCurrent={index === currentLine}
+            />
+          )}
+        />
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: SPACING.md,
+    marginTop: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.surface,
+  },
+  input: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    paddingVertical: SPACING.sm,
+    marginHorizontal: SPACING.sm,
+  },
+  matchCount: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginRight: SPACING.xs,
+  },
+  code: {
+    flex: 1,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  codeContent: {
+    paddingVertical: SPACING.sm,
+  },
+  line: {
+    flexDirection: 'row',
+    height: LINE_HEIGHT,
+    paddingRight: SPACING.md,
+  },
+  matchLine: {
+    backgroundColor: COLORS.gray[100],
+  },
+  currentLine: {
+    backgroundColor: COLORS.gray[200],
+  },
+  lineNumber: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    lineHeight: LINE_HEIGHT,
+    color: COLORS.textSecondary,
+    textAlign: 'right',
+    paddingRight: SPACING.sm,
+  },
+  lineText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    lineHeight: LINE_HEIGHT,
+    color: SYNTAX_COLORS.plain,
+  },
+  bold: {
+    fontWeight: '600',
+  },
+});
+
+export default SdkCodeViewer;
@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from 'react';
+import { Text, TouchableOpacity, FlatList, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, TYPOGRAPHY, SPACING, FONTS } from '../../constants';
+import { SdkFile, SdkTreeNode } from '../../utils/sdkFiles';
+
+interface SdkFileTreeProps {
+  nodes: SdkTreeNode[];
+  onSelect: (file: SdkFile) => void;
+}
+
+interface VisibleNode {
+  node: SdkTreeNode;
+  depth: number;
+}
+
+const SdkFileTree: React.FC<SdkFileTreeProps> = ({ nodes, onSelect }) => {
+  // Folders start open: generated SDKs only have a handful of files
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const visibleNodes = useMemo(() => {
+    const flatten = (children: SdkTreeNode[], depth: number): VisibleNode[] =>
+      children.flatMap(node => [
+        { node, depth },
+        ...(node.type === 'folder' && !collapsed.has(node.path)
+          ? flatten(node.children, depth + 1)
+          : []),
+      ]);
+    return flatten(nodes, 0);
+  }, [nodes, collapsed]);
+
+  const toggleFolder = (path: string): void => {
+    setCollapsed(previous => {
+      const next = new Set(previous);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <FlatList
+      data={visibleNodes}
+      keyExtractor={({ node }) => `${node.type}:${node.path}`}
+      renderItem={({ item: { node, depth } }) => (
+        <TouchableOpacity
+          style={[styles.row, { paddingLeft: SPACING.md + depth * SPACING.md }]}
+          onPress={() => (node.type === 'folder' ? toggleFolder(node.path) : onSelect(node.file))}
+        >
+          <Ionicons
+            name={
+              node.type === 'file'
+                ? 'document-text-outline'
+                : collapsed.has(node.path)
+                  ? 'folder-outline'
+                  : 'folder-open-outline'
+            }
+            size={18}
+            color={node.type === 'folder' ? COLORS.warning : COLORS.textSecondary}
+          />
+          <Text
+            style={[styles.name, node.type === 'folder' && styles.folderName]}
+            numberOfLines={1}
+          >
+            {node.name}
+          </Text>
+          {node.type === 'file' && (
+            <Text style={styles.lines}>{node.file.content.split('\n').length - 1} líneas</Text>
+          )}
+        </TouchableOpacity>
+      )}
+      contentContainerStyle={styles.list}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    paddingBottom: SPACING.xl,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    paddingRight: SPACING.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: COLORS.border,
+  },
+  name: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    marginLeft: SPACING.sm,
+  },
+  folderName: {
+    fontWeight: '600',
+  },
+  lines: {
+    fontSize: TYPOGRAPHY.small,
+    color: COLORS.textSecondary,
+  },
+});
+
+export default SdkFileTree;
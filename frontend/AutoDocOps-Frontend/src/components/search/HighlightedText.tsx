@@ -0,0 +1,36 @@
+import React from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { HighlightSegment } from '../../utils/highlight';
+import { COLORS } from '../../constants';
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ segments, style, numberOfLines }) => {
+  return (
+    <Text style={style} {...(numberOfLines ? { numberOfLines } : {})}>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <Text key={index} style={styles.highlight}>
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        ),
+      )}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: COLORS.highlight,
+    color: COLORS.text,
+    fontWeight: '600',
+  },
+});
+
+export default HighlightedText;
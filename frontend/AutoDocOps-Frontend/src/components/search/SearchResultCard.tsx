@@ -0,0 +1,122 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import HighlightedText from './HighlightedText';
+import { SemanticSearchResult } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, SEARCH } from '../../constants';
+import { buildSnippet } from '../../utils/highlight';
+import { formatScore, getResultSubtitle, getResultTitle } from '../../utils/searchResults';
+
+interface SearchResultCardProps {
+  result: SemanticSearchResult;
+  query: string;
+  projectName?: string;
+  onPress: (result: SemanticSearchResult) => void;
+}
+
+const getScoreColor = (score: number): string => {
+  if (score >= 0.75) {
+    return COLORS.success;
+  }
+  if (score >= 0.5) {
+    return COLORS.warning;
+  }
+  return COLORS.textSecondary;
+};
+
+const SearchResultCard: React.FC<SearchResultCardProps> = ({
+  result,
+  query,
+  projectName,
+  onPress,
+}) => {
+  const subtitle = [projectName, getResultSubtitle(result)].filter(Boolean).join(' · ');
+  const scoreColor = getScoreColor(result.score);
+  const scoreWidth = `${Math.round(Math.max(0, Math.min(1, result.score)) * 100)}%` as const;
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={() => onPress(result)} accessibilityRole="link">
+      <View style={styles.header}>
+        <Ionicons
+          name={result.type === 'api' ? 'code-outline' : 'server-outline'}
+          size={16}
+          color={COLORS.primary}
+          style={styles.icon}
+        />
+        <Text style={styles.title} numberOfLines={1}>
+          {getResultTitle(result)}
+        </Text>
+        <Text style={[styles.score, { color: scoreColor }]}>{formatScore(result.score)}</Text>
+      </View>
+
+      <View style={styles.scoreTrack}>
+        <View style={[styles.scoreFill, { width: scoreWidth, backgroundColor: scoreColor }]} />
+      </View>
+
+      {subtitle ? (
+        <Text style={styles.subtitle} numberOfLines={1}>
+          {subtitle}
+        </Text>
+      ) : null}
+
+      <HighlightedText
+        segments={buildSnippet(result.content, query, SEARCH.SNIPPET_LENGTH)}
+        style={styles.snippet}
+        numberOfLines={4}
+      />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  icon: {
+    marginRight: SPACING.xs,
+  },
+  title: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  score: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    marginLeft: SPACING.sm,
+  },
+  scoreTrack: {
+    height: 4,
+    borderRadius: BORDER_RADIUS.full,
+    backgroundColor: COLORS.border,
+    marginTop: SPACING.xs,
+    overflow: 'hidden',
+  },
+  scoreFill: {
+    height: '100%',
+    borderRadius: BORDER_RADIUS.full,
+  },
+  subtitle: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  snippet: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    lineHeight: 18,
+    marginTop: SPACING.sm,
+  },
+});
+
+export default SearchResultCard;
@@ -1,3 +1,4 @@
+import { Platform } from 'react-native';
 import Constants from 'expo-constants';
 
 // API Configuration
@@ -9,6 +10,43 @@ export const API_CONFIG = {
   RETRY_ATTEMPTS: 3,
 };
 
+// Session tokens
+export const AUTH_CONFIG = {
+  // Silent refresh runs this long before the JWT exp
+  TOKEN_REFRESH_MARGIN: 60 * 1000,
+} as const;
+
+// Deep links, e.g. autodocops://projects/:projectId (must match "scheme" in app.json)
+export const DEEP_LINKING = {
+  SCHEME: 'autodocops',
+  // Host of the web app; https links to it open the native app (universal / app links)
+  WEB_HOST: 'autodocops-frontend.pages.dev',
+} as const;
+
+// Live project status updates
+export const STATUS_UPDATES = {
+  POLL_MIN_INTERVAL: 2000,
+  POLL_MAX_INTERVAL: 30000,
+  POLL_BACKOFF_FACTOR: 1.5,
+} as const;
+
+// Query cache for server data (see services/queryClient)
+export const QUERY_CACHE = {
+  // Cached data younger than this is served without a request
+  STALE_TIME: 30 * 1000,
+  // Entries nobody has used for this long are dropped
+  GC_TIME: 5 * 60 * 1000,
+} as const;
+
+// Semantic search
+export const SEARCH = {
+  DEBOUNCE_MS: 350,
+  MIN_QUERY_LENGTH: 2,
+  LIMIT_OPTIONS: [5, 10, 20, 50],
+  DEFAULT_LIMIT: 10,
+  SNIPPET_LENGTH: 180,
+} as const;
+
 // Storage Keys
 export const STORAGE_KEYS = {
   AUTH_TOKEN: 'auth_token',
@@ -16,6 +54,8 @@ export const STORAGE_KEYS = {
   THEME_PREFERENCE: 'theme_preference',
   LANGUAGE_PREFERENCE: 'language_preference',
   ONBOARDING_COMPLETED: 'onboarding_completed',
+  // Suffixed with the DatabaseSchema id
+  QUERY_FAVORITES: 'query_favorites',
 } as const;
 
 // App Configuration
@@ -57,6 +97,7 @@ export const COLORS = {
   successDark: '#059669',
   info: '#3B82F6',
   infoDark: '#2563EB',
+  highlight: '#FEF3C7',
   
   gray: {
     50: '#F8FAFC',
@@ -95,6 +136,11 @@ export const TYPOGRAPHY = {
   small: 10,
 } as const;
 
+// Font families (monospace for code, SQL and schema names)
+export const FONTS = {
+  mono: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+} as const;
+
 // Border Radius
 export const BORDER_RADIUS = {
   sm: 4,
@@ -136,6 +182,84 @@ export const AUTH_TYPES = [
   { value: 'SqlServer', label: 'SQL Server Authentication' },
 ] as const;
 
+// Documentation Outputs (projectTypes lists the ProjectType values each output applies to)
+export const DOCUMENTATION_OUTPUTS = [
+  {
+    key: 'generateOpenApi',
+    label: 'Especificación OpenAPI',
+    description: 'Especificación OpenAPI 3.1 de los endpoints',
+    projectTypes: [1, 3],
+  },
+  {
+    key: 'generateSwaggerUI',
+    label: 'Swagger UI',
+    description: 'Interfaz interactiva para probar la API',
+    projectTypes: [1, 3],
+  },
+  {
+    key: 'generatePostmanCollection',
+    label: 'Colección Postman',
+    description: 'Colección Postman v2.1 lista para importar',
+    projectTypes: [1, 3],
+  },
+  {
+    key: 'generateTypeScriptSDK',
+    label: 'SDK TypeScript',
+    description: 'Cliente TypeScript generado a partir de la especificación',
+    projectTypes: [1, 3],
+  },
+  {
+    key: 'generateCSharpSDK',
+    label: 'SDK C#',
+    description: 'Cliente C# generado a partir de la especificación',
+    projectTypes: [1, 3],
+  },
+  {
+    key: 'generateERDiagrams',
+    label: 'Diagramas ER',
+    description: 'Diagramas entidad-relación del esquema',
+    projectTypes: [2, 3],
+  },
+  {
+    key: 'generateDataDictionary',
+    label: 'Diccionario de Datos',
+    description: 'Tablas, columnas, tipos y relaciones documentadas',
+    projectTypes: [2, 3],
+  },
+  {
+    key: 'generateUsageGuides',
+    label: 'Guías de Uso',
+    description: 'Guías paso a paso con ejemplos',
+    projectTypes: [1, 2, 3],
+  },
+  {
+    key: 'enableSemanticChat',
+    label: 'Chat Semántico',
+    description: 'Preguntas en lenguaje natural sobre la documentación',
+    projectTypes: [1, 2, 3],
+  },
+] as const;
+
+// HTTP method badge colors (OpenAPI explorer)
+export const HTTP_METHOD_COLORS: Record<string, string> = {
+  get: '#2563EB',
+  post: '#10B981',
+  put: '#F59E0B',
+  patch: '#8B5CF6',
+  delete: '#EF4444',
+};
+
+// Syntax highlighting token colors (code blocks)
+export const SYNTAX_COLORS = {
+  keyword: '#7C3AED',
+  string: '#059669',
+  number: '#D97706',
+  comment: '#94A3B8',
+  variable: '#2563EB',
+  type: '#0891B2',
+  plain: '#0F172A',
+} as const;
+
 // Diagram Formats
 export const DIAGRAM_FORMATS = [
   { value: 'PNG', label: 'PNG' },
@@ -171,6 +295,7 @@ export const ERROR_MESSAGES = {
   VALIDATION_ERROR: 'Los datos proporcionados no son válidos.',
   TIMEOUT_ERROR: 'La solicitud ha tardado demasiado. Intenta nuevamente.',
   UNKNOWN_ERROR: 'Ha ocurrido un error inesperado.',
+  INVALID_RESPONSE: 'El servidor devolvió una respuesta inesperada.',
 } as const;
 
 // Success Messages
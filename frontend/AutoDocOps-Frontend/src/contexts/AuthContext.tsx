@@ -1,8 +1,27 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useReducer, useEffect, ReactNode } from 'react';
+import { AppState } from 'react-native';
 import * as SecureStore from 'expo-secure-store';
 import { AuthState, User, LoginForm, RegisterForm } from '../types';
-import { STORAGE_KEYS } from '../constants';
+import { AUTH_CONFIG, STORAGE_KEYS } from '../constants';
 import apiService from '../services/api';
+import queryClient from '../services/queryClient';
+import deepLinkService from '../services/deepLinkService';
+import navigationService from '../services/navigationService';
+import { authResponseSchema, userSchema } from '../schemas';
+import { getTokenExpiry, isTokenExpired } from '../utils/jwt';
+
+// setTimeout overflows past this and fires immediately
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// User saved by an older build or corrupted in storage comes back as null
+const parseStoredUser = (userData: string): User | null => {
+  try {
+    const result = userSchema.safeParse(JSON.parse(userData));
+    return result.success ? result.data : null;
+  } catch (error) {
+    return null;
+  }
+};
 
 // Action types
 type AuthAction =
@@ -10,6 +29,7 @@ type AuthAction =
   | { type: 'LOGIN_SUCCESS'; payload: { user: User; token: string } }
   | { type: 'LOGOUT' }
   | { type: 'UPDATE_USER'; payload: User }
+  | { type: 'TOKEN_REFRESHED'; payload: string }
   | { type: 'RESTORE_SESSION'; payload: { user: User; token: string } };
 
 // Initial state
@@ -49,6 +69,11 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         ...state,
         user: action.payload,
       };
+    case 'TOKEN_REFRESHED':
+      return {
+        ...state,
+        token: action.payload,
+      };
     case 'RESTORE_SESSION':
       return {
         ...state,
@@ -84,31 +109,55 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
-  // Restore session on app start
-  useEffect(() => {
-    restoreSession();
+  const clearStoredSession = useCallback(async (): Promise<void> => {
+    try {
+      await SecureStore.deleteItemAsync(STORAGE_KEYS.AUTH_TOKEN);
+      await SecureStore.deleteItemAsync(STORAGE_KEYS.USER_DATA);
+      await apiService.clearAuthToken();
+    } catch (error) {
+      // Error clearing stored session - operation failed silently
+    }
   }, []);
 
-  const restoreSession = async (): Promise<void> => {
+  const endSession = useCallback(async (): Promise<void> => {
+    await clearStoredSession();
+    // Cached projects and documentation, a link kept for after login and navigation queued
+    // before the navigator was ready belong to this user
+    queryClient.clear();
+    deepLinkService.clearPendingLink();
+    navigationService.clear();
+    dispatch({ type: 'LOGOUT' });
+  }, [clearStoredSession]);
+
+  const restoreSession = useCallback(async (): Promise<void> => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
 
       const token = await SecureStore.getItemAsync(STORAGE_KEYS.AUTH_TOKEN);
       const userData = await SecureStore.getItemAsync(STORAGE_KEYS.USER_DATA);
+      const user = userData ? parseStoredUser(userData) : null;
 
-      if (token && userData) {
-        const user = JSON.parse(userData);
+      if (token && userData && !user) {
+        // Without a usable user the session can't be restored
+        await clearStoredSession();
+        dispatch({ type: 'SET_LOADING', payload: false });
+      } else if (token && user && isTokenExpired(token)) {
+        // No point asking /auth/verify about a token past its exp, but the session may still renew
+        await apiService.setAuthToken(token);
+        try {
+          const refreshedToken = await apiService.refreshAuthToken();
+          dispatch({ type: 'RESTORE_SESSION', payload: { user, token: refreshedToken } });
+        } catch (error) {
+          await clearStoredSession();
+          dispatch({ type: 'SET_LOADING', payload: false });
+        }
+      } else if (token && user) {
         await apiService.setAuthToken(token);
         
-        // Verify token is still valid
+        // Verify token is still valid; a rejected token makes the request throw
         try {
-          const response = await apiService.get('/auth/verify');
-          if (response.success) {
-            dispatch({ type: 'RESTORE_SESSION', payload: { user, token } });
-          } else {
-            await clearStoredSession();
-            dispatch({ type: 'SET_LOADING', payload: false });
-          }
+          await apiService.get('/auth/verify');
+          dispatch({ type: 'RESTORE_SESSION', payload: { user, token } });
         } catch (error) {
           await clearStoredSession();
           dispatch({ type: 'SET_LOADING', payload: false });
@@ -120,28 +169,89 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Error restoring session - user will need to login again
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  };
+  }, [clearStoredSession]);
+
+  // Restore session on app start
+  useEffect(() => {
+    restoreSession();
+  }, [restoreSession]);
+
+  // ApiService calls this when a 401 can't be fixed by refreshing the token. Dropping to the
+  // logged out state makes the navigator switch to the Auth stack, where the user logs in again.
+  useEffect(() => {
+    apiService.setSessionExpiredHandler(() => {
+      endSession().then(() => navigationService.navigate('Auth', { screen: 'Login' }));
+    });
+    return () => apiService.setSessionExpiredHandler(null);
+  }, [endSession]);
+
+  // Refresh silently shortly before the JWT expires. Timers don't run while the app is
+  // suspended, so the expiry is checked again whenever it comes back to the foreground.
+  useEffect(() => {
+    const expiry = state.token ? getTokenExpiry(state.token) : null;
+    if (expiry === null) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const refreshIfExpiring = (): void => {
+      const token = apiService.getAuthToken();
+      if (!token) {
+        return;
+      }
+      if (isTokenExpired(token, AUTH_CONFIG.TOKEN_REFRESH_MARGIN)) {
+        refreshToken();
+      } else if (token !== state.token) {
+        // The interceptor already refreshed it; reschedule from the new expiry
+        dispatch({ type: 'TOKEN_REFRESHED', payload: token });
+      } else {
+        // Woke up early: the delay was clamped, or the app came back to the foreground
+        scheduleCheck();
+      }
+    };
+
+    const scheduleCheck = (): void => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      const delay = expiry - AUTH_CONFIG.TOKEN_REFRESH_MARGIN - Date.now();
+      timer = setTimeout(refreshIfExpiring, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY));
+    };
+
+    scheduleCheck();
+    const subscription = AppState.addEventListener('change', appState => {
+      if (appState === 'active') {
+        refreshIfExpiring();
+      }
+    });
+
+    return () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      subscription.remove();
+    };
+  }, [state.token]);
 
   const login = async (credentials: LoginForm): Promise<void> => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
 
-      const response = await apiService.post('/auth/login', credentials);
+      const response = await apiService.post('/auth/login', credentials, {
+        schema: authResponseSchema,
+      });
       
-      if (response.success && response.data) {
-        const { user, token } = response.data;
-        
-        // Store credentials securely
-        await SecureStore.setItemAsync(STORAGE_KEYS.AUTH_TOKEN, token);
-        await SecureStore.setItemAsync(STORAGE_KEYS.USER_DATA, JSON.stringify(user));
-        
-        // Set token in API service
-        await apiService.setAuthToken(token);
-        
-        dispatch({ type: 'LOGIN_SUCCESS', payload: { user, token } });
-      } else {
-        throw new Error(response.message || 'Login failed');
-      }
+      const { user, token } = response.data;
+
+      // Store credentials securely
+      await SecureStore.setItemAsync(STORAGE_KEYS.AUTH_TOKEN, token);
+      await SecureStore.setItemAsync(STORAGE_KEYS.USER_DATA, JSON.stringify(user));
+
+      // Set token in API service
+      await apiService.setAuthToken(token);
+
+      dispatch({ type: 'LOGIN_SUCCESS', payload: { user, token } });
     } catch (error) {
       dispatch({ type: 'SET_LOADING', payload: false });
       throw error;
@@ -152,22 +262,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
 
-      const response = await apiService.post('/auth/register', userData);
+      const response = await apiService.post('/auth/register', userData, {
+        schema: authResponseSchema,
+      });
       
-      if (response.success && response.data) {
-        const { user, token } = response.data;
-        
-        // Store credentials securely
-        await SecureStore.setItemAsync(STORAGE_KEYS.AUTH_TOKEN, token);
-        await SecureStore.setItemAsync(STORAGE_KEYS.USER_DATA, JSON.stringify(user));
-        
-        // Set token in API service
-        await apiService.setAuthToken(token);
-        
-        dispatch({ type: 'LOGIN_SUCCESS', payload: { user, token } });
-      } else {
-        throw new Error(response.message || 'Registration failed');
-      }
+      const { user, token } = response.data;
+
+      // Store credentials securely
+      await SecureStore.setItemAsync(STORAGE_KEYS.AUTH_TOKEN, token);
+      await SecureStore.setItemAsync(STORAGE_KEYS.USER_DATA, JSON.stringify(user));
+
+      // Set token in API service
+      await apiService.setAuthToken(token);
+
+      dispatch({ type: 'LOGIN_SUCCESS', payload: { user, token } });
     } catch (error) {
       dispatch({ type: 'SET_LOADING', payload: false });
       throw error;
@@ -181,8 +289,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } catch (error) {
       // Error calling logout endpoint - will clear session anyway
     } finally {
-      await clearStoredSession();
-      dispatch({ type: 'LOGOUT' });
+      await endSession();
     }
   };
 
@@ -194,26 +301,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const refreshToken = async (): Promise<void> => {
     try {
-      const response = await apiService.post('/auth/refresh');
-      
-      if (response.success && response.data) {
-        const { token } = response.data;
-        await apiService.setAuthToken(token);
-        await SecureStore.setItemAsync(STORAGE_KEYS.AUTH_TOKEN, token);
-      }
+      // Shares the refresh with any the interceptor already has in flight
+      const token = await apiService.refreshAuthToken();
+      dispatch({ type: 'TOKEN_REFRESHED', payload: token });
     } catch (error) {
-      // Error refreshing token - logout user
-      await logout();
-    }
-  };
-
-  const clearStoredSession = async (): Promise<void> => {
-    try {
-      await SecureStore.deleteItemAsync(STORAGE_KEYS.AUTH_TOKEN);
-      await SecureStore.deleteItemAsync(STORAGE_KEYS.USER_DATA);
-      await apiService.clearAuthToken();
-    } catch (error) {
-      // Error clearing stored session - operation failed silently
+      // Error refreshing token - the session expired handler already logged the user out
     }
   };
 
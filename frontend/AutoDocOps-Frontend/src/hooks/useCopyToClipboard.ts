@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as Clipboard from 'expo-clipboard';
+
+const COPIED_FEEDBACK_MS = 2000;
+
+// Copies text and keeps `copied` true for a moment so buttons can confirm it
+export const useCopyToClipboard = (): { copied: boolean; copy: (text: string) => Promise<void> } => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) {
+      return;
+    }
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = useCallback(async (text: string) => {
+    await Clipboard.setStringAsync(text);
+    setCopied(true);
+  }, []);
+
+  return { copied, copy };
+};
+
+export default useCopyToClipboard;
@@ -0,0 +1,76 @@
+import documentationService from '../services/documentationService';
+import queryClient from '../services/queryClient';
+import { ApiDocumentation, DatabaseSchema, DocumentationVersion } from '../types';
+import { projectKeys } from './useProjects';
+import { UseMutationResult, UseQueryResult, useMutation, useQuery } from './useQuery';
+
+export type DocumentationType = 'api' | 'database';
+
+export type DocumentationData<K extends DocumentationType> = K extends 'api'
+  ? ApiDocumentation
+  : DatabaseSchema;
+
+export const documentationKeys = {
+  all: ['documentation'] as const,
+  project: (projectId: string) => [...documentationKeys.all, projectId] as const,
+  type: (projectId: string, type: DocumentationType) =>
+    [...documentationKeys.project(projectId), type] as const,
+  // Without versionId, the current documentation
+  detail: (projectId: string, type: DocumentationType, versionId?: string) =>
+    [...documentationKeys.type(projectId, type), 'version', versionId ?? 'current'] as const,
+  versions: (projectId: string, type: DocumentationType) =>
+    [...documentationKeys.type(projectId, type), 'versions'] as const,
+};
+
+// Current documentation of the given type, or the snapshot of a past version
+export const useDocumentation = <K extends DocumentationType>(
+  projectId: string,
+  type: K,
+  versionId?: string,
+): UseQueryResult<DocumentationData<K>> =>
+  useQuery(documentationKeys.detail(projectId, type, versionId), async () => {
+    if (type === 'api') {
+      const response = versionId
+        ? await documentationService.getApiDocumentationVersion(projectId, versionId)
+        : await documentationService.getApiDocumentation(projectId);
+      return response.data as DocumentationData<K>;
+    }
+    const response = versionId
+      ? await documentationService.getDatabaseSchemaVersion(projectId, versionId)
+      : await documentationService.getDatabaseSchema(projectId);
+    return response.data as DocumentationData<K>;
+  });
+
+export const useDocumentationVersions = (
+  projectId: string,
+  type: DocumentationType,
+): UseQueryResult<DocumentationVersion[]> =>
+  useQuery(documentationKeys.versions(projectId, type), async () => {
+    const response =
+      type === 'api'
+        ? await documentationService.getApiDocumentationVersions(projectId)
+        : await documentationService.getDatabaseSchemaVersions(projectId);
+    return response.data;
+  });
+
+// Makes a past version current; the viewer and history of that documentation refetch
+export const useRestoreDocumentationVersion = (
+  projectId: string,
+  type: DocumentationType,
+): UseMutationResult<ApiDocumentation | DatabaseSchema, string> =>
+  useMutation(
+    async versionId => {
+      const response =
+        type === 'api'
+          ? await documentationService.restoreApiDocumentationVersion(projectId, versionId)
+          : await documentationService.restoreDatabaseSchemaVersion(projectId, versionId);
+      return response.data;
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(documentationKeys.type(projectId, type));
+        // The project reports the version of its current documentation
+        queryClient.invalidateQueries(projectKeys.detail(projectId));
+      },
+    },
+  );
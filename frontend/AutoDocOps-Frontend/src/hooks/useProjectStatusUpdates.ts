@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import projectStatusService from '../services/projectStatusService';
+import { ProjectStatusUpdate } from '../types';
+
+/**
+ * Follows live status changes for the given project ids. Subscriptions are opened and
+ * closed as ids enter or leave the list, and each one ends by itself on a terminal status.
+ * Returns the latest update received per project.
+ */
+export const useProjectStatusUpdates = (
+  projectIds: string[],
+  onUpdate?: (update: ProjectStatusUpdate) => void,
+): Record<string, ProjectStatusUpdate> => {
+  const [updates, setUpdates] = useState<Record<string, ProjectStatusUpdate>>({});
+  const subscriptions = useRef(new Map<string, () => void>());
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  const idsKey = [...projectIds].sort().join(',');
+
+  useEffect(() => {
+    const wanted = new Set(idsKey ? idsKey.split(',') : []);
+    const active = subscriptions.current;
+
+    active.forEach((unsubscribe, projectId) => {
+      if (!wanted.has(projectId)) {
+        unsubscribe();
+        active.delete(projectId);
+      }
+    });
+
+    wanted.forEach(projectId => {
+      if (active.has(projectId)) {
+        return;
+      }
+      const unsubscribe = projectStatusService.subscribe(projectId, update => {
+        setUpdates(previous => ({ ...previous, [update.projectId]: update }));
+        onUpdateRef.current?.(update);
+      });
+      active.set(projectId, unsubscribe);
+    });
+  }, [idsKey]);
+
+  // Close everything on unmount
+  useEffect(() => {
+    const active = subscriptions.current;
+    return () => {
+      active.forEach(unsubscribe => unsubscribe());
+      active.clear();
+    };
+  }, []);
+
+  return updates;
+};
+
+export default useProjectStatusUpdates;
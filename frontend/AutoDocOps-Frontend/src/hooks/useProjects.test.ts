@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UseMutationOptions, UseMutationResult } from './useQuery';
+import projectService from '../services/projectService';
+import queryClient from '../services/queryClient';
+import { projectKeys, useDeleteProject } from './useProjects';
+
+// The real constants module pulls in react-native
+vi.mock('../constants', () => ({
+  QUERY_CACHE: { STALE_TIME: 1000, GC_TIME: 60 * 1000 },
+}));
+
+vi.mock('../services/projectService', () => ({
+  default: { deleteProject: vi.fn(() => Promise.resolve({ success: true })) },
+}));
+
+// Runs mutations outside React: the callbacks are what these tests check
+vi.mock('./useQuery', () => ({
+  useQuery: vi.fn(),
+  useMutation: <TData, TVariables>(
+    mutationFn: (variables: TVariables) => Promise<TData>,
+    { onSuccess }: UseMutationOptions<TData, TVariables> = {},
+  ): UseMutationResult<TData, TVariables> => ({
+    mutate: async (variables: TVariables): Promise<TData> => {
+      const data = await mutationFn(variables);
+      onSuccess?.(data, variables);
+      return data;
+    },
+    isPending: false,
+  }),
+}));
+
+describe('useDeleteProject', () => {
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('invalidates the project lists and the deleted project only', async () => {
+    const keys = [projectKeys.list({}), projectKeys.detail('1'), projectKeys.detail('2')];
+    await Promise.all(keys.map(key => queryClient.fetchQuery(key, () => Promise.resolve({}))));
+
+    await useDeleteProject().mutate('1');
+
+    expect(projectService.deleteProject).toHaveBeenCalledWith('1');
+    expect(keys.map(key => queryClient.getState(key).isInvalidated)).toEqual([true, true, false]);
+  });
+});
@@ -0,0 +1,91 @@
+import projectService, { ProjectListParams } from '../services/projectService';
+import queryClient from '../services/queryClient';
+import {
+  CreateProjectRequest,
+  GenerateDocumentationRequest,
+  PaginatedResponse,
+  Project,
+  UpdateProjectRequest,
+} from '../types';
+import {
+  UseMutationResult,
+  UseQueryOptions,
+  UseQueryResult,
+  useMutation,
+  useQuery,
+} from './useQuery';
+
+export const projectKeys = {
+  all: ['projects'] as const,
+  lists: () => [...projectKeys.all, 'list'] as const,
+  list: (params: ProjectListParams) => [...projectKeys.lists(), params] as const,
+  detail: (projectId: string) => [...projectKeys.all, 'detail', projectId] as const,
+};
+
+// Puts a project returned by the server in the cache and refreshes the lists it appears in
+const storeProject = (project: Project): void => {
+  queryClient.setQueryData(projectKeys.detail(project.id), project);
+  queryClient.invalidateQueries(projectKeys.lists());
+};
+
+// Patches a cached project everywhere it is shown, e.g. with a live status update
+export const updateCachedProject = (projectId: string, patch: Partial<Project>): void => {
+  const apply = (project: Project): Project =>
+    project.id === projectId ? { ...project, ...patch } : project;
+  queryClient.updateQueriesData<Project>(projectKeys.detail(projectId), apply);
+  queryClient.updateQueriesData<PaginatedResponse<Project>>(projectKeys.lists(), page => ({
+    ...page,
+    data: page.data.map(apply),
+  }));
+};
+
+export const useProjects = (
+  params: ProjectListParams = {},
+  options?: UseQueryOptions,
+): UseQueryResult<PaginatedResponse<Project>> =>
+  useQuery(
+    projectKeys.list(params),
+    async () => (await projectService.getProjects(params)).data,
+    options,
+  );
+
+export const useProject = (projectId: string, options?: UseQueryOptions): UseQueryResult<Project> =>
+  useQuery(
+    projectKeys.detail(projectId),
+    async () => (await projectService.getProject(projectId)).data,
+    options,
+  );
+
+export const useCreateProject = (): UseMutationResult<Project, CreateProjectRequest> =>
+  useMutation(async request => (await projectService.createProject(request)).data, {
+    onSuccess: storeProject,
+  });
+
+export const useUpdateProject = (
+  projectId: string,
+): UseMutationResult<Project, UpdateProjectRequest> =>
+  useMutation(async request => (await projectService.updateProject(projectId, request)).data, {
+    onSuccess: storeProject,
+  });
+
+export const useGenerateDocumentation = (): UseMutationResult<
+  Project,
+  GenerateDocumentationRequest
+> =>
+  useMutation(async request => (await projectService.generateDocumentation(request)).data, {
+    onSuccess: storeProject,
+  });
+
+// The deleted project drops out of the lists, and a screen still showing it finds out it is gone
+export const useDeleteProject = (): UseMutationResult<void, string> =>
+  useMutation(
+    async projectId => {
+      await projectService.deleteProject(projectId);
+    },
+    {
+      onSuccess: (_, projectId) => {
+        queryClient.invalidateQueries(projectKeys.lists());
+        queryClient.invalidateQueries(projectKeys.detail(projectId));
+      },
+    },
+  );
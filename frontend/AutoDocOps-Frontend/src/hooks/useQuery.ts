@@ -0,0 +1,121 @@
+import { useCallback, useRef, useState, useSyncExternalStore } from 'react';
+import { AppState } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import queryClient, { QueryKey, hashQueryKey } from '../services/queryClient';
+
+export interface UseQueryOptions {
+  // Nothing is fetched while false, e.g. until a required id is known
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  // No data to show yet
+  isLoading: boolean;
+  // A request is in flight, including background refetches of cached data
+  isFetching: boolean;
+  // Fetches again even if the cached data is fresh, e.g. for pull to refresh
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Reads a query from the shared cache. Cached data is returned right away and refetched in the
+ * background once stale, whenever the screen gains focus or the app comes back to the foreground.
+ * Must be used inside a navigator screen.
+ */
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime }: UseQueryOptions = {},
+): UseQueryResult<T> => {
+  // Callers build the key and fetcher inline; the key is only replaced when its hash changes
+  const hash = hashQueryKey(key);
+  const keyRef = useRef({ hash, key });
+  if (keyRef.current.hash !== hash) {
+    keyRef.current = { hash, key };
+  }
+  const stableKey = keyRef.current.key;
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryClient.subscribe(stableKey, listener),
+    [stableKey],
+  );
+  const state = useSyncExternalStore(subscribe, () => queryClient.getState<T>(stableKey));
+
+  const fetchQuery = useCallback(
+    (force: boolean) =>
+      queryClient
+        .fetchQuery(stableKey, () => fetcherRef.current(), {
+          force,
+          ...(staleTime !== undefined ? { staleTime } : {}),
+        })
+        .then(() => undefined)
+        // The error is kept in the cache entry and returned by the hook
+        .catch(() => undefined),
+    [stableKey, staleTime],
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!enabled) {
+        return;
+      }
+      fetchQuery(false);
+      const subscription = AppState.addEventListener('change', nextState => {
+        if (nextState === 'active') {
+          fetchQuery(false);
+        }
+      });
+      return () => subscription.remove();
+    }, [enabled, fetchQuery]),
+  );
+
+  const refetch = useCallback(() => fetchQuery(true), [fetchQuery]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: enabled && state.data === undefined && (state.isFetching || !state.error),
+    isFetching: state.isFetching,
+    refetch,
+  };
+};
+
+export interface UseMutationOptions<TData, TVariables> {
+  // Runs after a successful mutation, before the promise resolves; update or invalidate queries here
+  onSuccess?: (data: TData, variables: TVariables) => void;
+}
+
+export interface UseMutationResult<TData, TVariables> {
+  // Rejects with the error of the mutation, so screens can report it
+  mutate: (variables: TVariables) => Promise<TData>;
+  isPending: boolean;
+}
+
+export const useMutation = <TData, TVariables = void>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  { onSuccess }: UseMutationOptions<TData, TVariables> = {},
+): UseMutationResult<TData, TVariables> => {
+  const [pendingCount, setPendingCount] = useState(0);
+  const mutationFnRef = useRef(mutationFn);
+  mutationFnRef.current = mutationFn;
+  const onSuccessRef = useRef(onSuccess);
+  onSuccessRef.current = onSuccess;
+
+  const mutate = useCallback(async (variables: TVariables): Promise<TData> => {
+    setPendingCount(count => count + 1);
+    try {
+      const data = await mutationFnRef.current(variables);
+      onSuccessRef.current?.(data, variables);
+      return data;
+    } finally {
+      setPendingCount(count => count - 1);
+    }
+  }, []);
+
+  return { mutate, isPending: pendingCount > 0 };
+};
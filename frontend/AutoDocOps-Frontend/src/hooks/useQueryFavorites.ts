@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+import queryFavoritesService from '../services/queryFavoritesService';
+
+interface UseQueryFavoritesResult {
+  favorites: string[];
+  isFavorite: (name: string) => boolean;
+  toggleFavorite: (name: string) => void;
+}
+
+// Favourite sample query names of a DatabaseSchema, persisted on every change
+export const useQueryFavorites = (schemaId: string): UseQueryFavoritesResult => {
+  const [favorites, setFavorites] = useState<string[]>([]);
+
+  useEffect(() => {
+    let isActive = true;
+    queryFavoritesService.getFavorites(schemaId).then(stored => {
+      if (isActive) {
+        setFavorites(stored);
+      }
+    });
+    return () => {
+      isActive = false;
+    };
+  }, [schemaId]);
+
+  const isFavorite = useCallback((name: string) => favorites.includes(name), [favorites]);
+
+  const toggleFavorite = useCallback(
+    (name: string) => {
+      setFavorites(previous => {
+        const next = previous.includes(name)
+          ? previous.filter(favorite => favorite !== name)
+          : [...previous, name];
+        queryFavoritesService.setFavorites(schemaId, next);
+        return next;
+      });
+    },
+    [schemaId],
+  );
+
+  return { favorites, isFavorite, toggleFavorite };
+};
+
+export default useQueryFavorites;
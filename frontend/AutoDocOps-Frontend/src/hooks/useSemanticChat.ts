@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import chatService from '../services/chatService';
+import { ApiError, ChatMessage } from '../types';
+import { ERROR_MESSAGES } from '../constants';
+
+interface UseSemanticChatResult {
+  messages: ChatMessage[];
+  isStreaming: boolean;
+  error: string | null;
+  canRetry: boolean;
+  send: (question: string) => void;
+  stop: () => void;
+  retry: () => void;
+}
+
+const createMessageId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Only finished exchanges are sent back as conversation context
+const toHistory = (messages: ChatMessage[]): Pick<ChatMessage, 'role' | 'content'>[] =>
+  messages
+    .filter(message => message.role === 'user' || message.status === 'complete')
+    .map(({ role, content }) => ({ role, content }));
+
+/**
+ * Conversation state for the semantic chat of one project. Switching project starts a new
+ * conversation and cancels any answer still streaming.
+ */
+export const useSemanticChat = (projectId: string | null): UseSemanticChatResult => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortController = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    abortController.current?.abort();
+    setMessages([]);
+    setError(null);
+  }, [projectId]);
+
+  useEffect(() => () => abortController.current?.abort(), []);
+
+  const updateMessage = useCallback(
+    (id: string, update: (message: ChatMessage) => Partial<ChatMessage>): void => {
+      setMessages(previous =>
+        previous.map(message => (message.id === id ? { ...message, ...update(message) } : message)),
+      );
+    },
+    [],
+  );
+
+  const ask = useCallback(
+    async (question: string, history: Pick<ChatMessage, 'role' | 'content'>[]): Promise<void> => {
+      if (!projectId) {
+        return;
+      }
+
+      const assistantId = createMessageId();
+      const controller = new AbortController();
+      abortController.current = controller;
+      setError(null);
+      setIsStreaming(true);
+      setMessages(previous => [
+        ...previous,
+        {
+          id: assistantId,
+          role: 'assistant',
+          content: '',
+          timestamp: new Date().toISOString(),
+          projectId,
+          status: 'streaming',
+        },
+      ]);
+
+      try {
+        await chatService.streamAnswer(
+          { projectId, question, history },
+          {
+            signal: controller.signal,
+            onToken: token =>
+              updateMessage(assistantId, message => ({
+                content: message.content + token,
+              })),
+            onCitations: citations => updateMessage(assistantId, () => ({ citations })),
+          },
+        );
+        updateMessage(assistantId, () => ({ status: 'complete' }));
+      } catch (streamError) {
+        if (controller.signal.aborted) {
+          updateMessage(assistantId, () => ({ status: 'stopped' }));
+        } else {
+          updateMessage(assistantId, () => ({ status: 'error' }));
+          setError((streamError as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR);
+        }
+      } finally {
+        if (abortController.current === controller) {
+          abortController.current = null;
+          setIsStreaming(false);
+        }
+      }
+    },
+    [projectId, updateMessage],
+  );
+
+  const send = (question: string): void => {
+    const trimmed = question.trim();
+    if (!trimmed || !projectId || isStreaming) {
+      return;
+    }
+
+    const history = toHistory(messages);
+    setMessages(previous => [
+      ...previous,
+      {
+        id: createMessageId(),
+        role: 'user',
+        content: trimmed,
+        timestamp: new Date().toISOString(),
+        projectId,
+      },
+    ]);
+    ask(trimmed, history);
+  };
+
+  const stop = (): void => {
+    abortController.current?.abort();
+  };
+
+  const lastMessage = messages[messages.length - 1];
+  const canRetry =
+    !isStreaming &&
+    lastMessage?.role === 'assistant' &&
+    (lastMessage.status === 'error' || lastMessage.status === 'stopped');
+
+  // Drops the failed/stopped answer and asks the last question again
+  const retry = (): void => {
+    if (!canRetry) {
+      return;
+    }
+    const remaining = messages.slice(0, -1);
+    const lastQuestion = remaining[remaining.length - 1];
+    if (lastQuestion?.role !== 'user') {
+      return;
+    }
+    setMessages(remaining);
+    ask(lastQuestion.content, toHistory(remaining.slice(0, -1)));
+  };
+
+  return { messages, isStreaming, error, canRetry, send, stop, retry };
+};
+
+export default useSemanticChat;
@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from 'react';
+import searchService from '../services/searchService';
+import { ApiError, SemanticSearchRequest, SemanticSearchResult } from '../types';
+import { ERROR_MESSAGES, SEARCH } from '../constants';
+
+interface UseSemanticSearchResult {
+  results: SemanticSearchResult[];
+  isSearching: boolean;
+  error: string | null;
+}
+
+/**
+ * Runs a semantic search whenever the request changes. Queries shorter than
+ * SEARCH.MIN_QUERY_LENGTH clear the results, and responses to outdated requests are dropped.
+ * Debouncing the query is left to the caller.
+ */
+export const useSemanticSearch = ({
+  query,
+  projectId,
+  limit,
+}: SemanticSearchRequest): UseSemanticSearchResult => {
+  const [results, setResults] = useState<SemanticSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    const requestId = ++latestRequest.current;
+
+    if (trimmed.length < SEARCH.MIN_QUERY_LENGTH) {
+      setResults([]);
+      setError(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const runSearch = async (): Promise<void> => {
+      setIsSearching(true);
+      setError(null);
+      try {
+        const response = await searchService.search({
+          query: trimmed,
+          ...(projectId ? { projectId } : {}),
+          ...(limit ? { limit } : {}),
+        });
+        if (requestId === latestRequest.current) {
+          setResults([...response.data].sort((a, b) => b.score - a.score));
+        }
+      } catch (searchError) {
+        if (requestId === latestRequest.current) {
+          setResults([]);
+          setError((searchError as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR);
+        }
+      } finally {
+        if (requestId === latestRequest.current) {
+          setIsSearching(false);
+        }
+      }
+    };
+
+    runSearch();
+  }, [query, projectId, limit]);
+
+  return { results, isSearching, error };
+};
+
+export default useSemanticSearch;
@@ -1,11 +1,19 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
 import { NavigationContainer } from '@react-navigation/native';
-import { createStackNavigator } from '@react-navigation/stack';
+import { StackNavigationOptions, createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../contexts/AuthContext';
-import { RootStackParamList, MainTabParamList } from '../types';
-import { COLORS } from '../constants';
+import deepLinkService from '../services/deepLinkService';
+import navigationService, { navigationRef } from '../services/navigationService';
+import {
+  AuthStackParamList,
+  MainTabParamList,
+  ProjectsStackParamList,
+  RootStackParamList,
+} from '../types';
+import { COLORS, SPACING } from '../constants';
 
 // Import screens (we'll create these next)
 import LoadingScreen from '../screens/LoadingScreen';
@@ -13,14 +21,75 @@ import LoginScreen from '../screens/auth/LoginScreen';
 import RegisterScreen from '../screens/auth/RegisterScreen';
 import ProjectsListScreen from '../screens/projects/ProjectsListScreen';
 import CreateProjectScreen from '../screens/projects/CreateProjectScreen';
+import EditProjectScreen from '../screens/projects/EditProjectScreen';
 import ProjectDetailScreen from '../screens/projects/ProjectDetailScreen';
 import DocumentationScreen from '../screens/documentation/DocumentationScreen';
+import DocumentationViewerScreen from '../screens/documentation/DocumentationViewerScreen';
+import RequestConsoleScreen from '../screens/documentation/RequestConsoleScreen';
+import ApiDiffScreen from '../screens/documentation/ApiDiffScreen';
+import DocumentationHistoryScreen from '../screens/documentation/DocumentationHistoryScreen';
 import ChatScreen from '../screens/chat/ChatScreen';
 import ProfileScreen from '../screens/profile/ProfileScreen';
 import SettingsScreen from '../screens/settings/SettingsScreen';
+import SemanticSearchScreen from '../screens/search/SemanticSearchScreen';
 
 const RootStack = createStackNavigator<RootStackParamList>();
+const AuthStack = createStackNavigator<AuthStackParamList>();
 const MainTab = createBottomTabNavigator<MainTabParamList>();
+const ProjectsStack = createStackNavigator<ProjectsStackParamList>();
+
+// Header shared by every stack screen that shows one
+const HEADER_OPTIONS: StackNavigationOptions = {
+  headerShown: true,
+  headerStyle: {
+    backgroundColor: COLORS.primary,
+  },
+  headerTintColor: COLORS.background,
+  headerTitleStyle: {
+    fontWeight: 'bold',
+  },
+};
+
+// Projects tab: list, creation, detail and editing share one stack
+const ProjectsStackNavigator: React.FC = () => {
+  return (
+    <ProjectsStack.Navigator screenOptions={HEADER_OPTIONS}>
+      <ProjectsStack.Screen
+        name="ProjectsList"
+        component={ProjectsListScreen}
+        options={{ title: 'Mis Proyectos' }}
+      />
+      <ProjectsStack.Screen
+        name="CreateProject"
+        component={CreateProjectScreen}
+        options={{ title: 'Crear Proyecto' }}
+      />
+      <ProjectsStack.Screen
+        name="ProjectDetail"
+        component={ProjectDetailScreen}
+        options={({ navigation, route }) => ({
+          title: 'Detalle del Proyecto',
+          headerRight: () => (
+            <TouchableOpacity
+              onPress={() =>
+                navigation.navigate('EditProject', { projectId: route.params.projectId })
+              }
+              style={styles.headerButton}
+              accessibilityLabel="Editar proyecto"
+            >
+              <Ionicons name="create-outline" size={22} color={COLORS.background} />
+            </TouchableOpacity>
+          ),
+        })}
+      />
+      <ProjectsStack.Screen
+        name="EditProject"
+        component={EditProjectScreen}
+        options={{ title: 'Editar Proyecto' }}
+      />
+    </ProjectsStack.Navigator>
+  );
+};
 
 // Main Tab Navigator
 const MainTabNavigator: React.FC = () => {
@@ -69,19 +138,29 @@ const MainTabNavigator: React.FC = () => {
     >
       <MainTab.Screen
         name="Projects"
-        component={ProjectsListScreen}
+        component={ProjectsStackNavigator}
         options={{
           title: 'Proyectos',
-          headerTitle: 'Mis Proyectos',
+          // The nested stack shows its own headers
+          headerShown: false,
         }}
       />
       <MainTab.Screen
         name="Documentation"
         component={DocumentationScreen}
-        options={{
+        options={({ navigation }) => ({
           title: 'Documentación',
           headerTitle: 'Documentación',
-        }}
+          headerRight: () => (
+            <TouchableOpacity
+              onPress={() => navigation.getParent()?.navigate('SemanticSearch')}
+              style={styles.headerButton}
+              accessibilityLabel="Buscar en la documentación"
+            >
+              <Ionicons name="search" size={22} color={COLORS.background} />
+            </TouchableOpacity>
+          ),
+        })}
       />
       <MainTab.Screen
         name="Chat"
@@ -106,47 +185,55 @@ const MainTabNavigator: React.FC = () => {
 // Auth Stack Navigator
 const AuthStackNavigator: React.FC = () => {
   return (
-    <RootStack.Navigator
-      screenOptions={{
-        headerStyle: {
-          backgroundColor: COLORS.primary,
-        },
-        headerTintColor: COLORS.background,
-        headerTitleStyle: {
-          fontWeight: 'bold',
-        },
-      }}
-    >
-      <RootStack.Screen
+    <AuthStack.Navigator screenOptions={{ headerShown: false }}>
+      <AuthStack.Screen
         name="Login"
         component={LoginScreen}
-        options={{
-          title: 'Iniciar Sesión',
-          headerShown: false,
-        }}
+        options={{ title: 'Iniciar Sesión' }}
       />
-      <RootStack.Screen
+      <AuthStack.Screen
         name="Register"
         component={RegisterScreen}
-        options={{
-          title: 'Crear Cuenta',
-          headerShown: false,
-        }}
+        options={{ title: 'Crear Cuenta' }}
       />
-    </RootStack.Navigator>
+    </AuthStack.Navigator>
   );
 };
 
 // Main App Navigator
 const AppNavigator: React.FC = () => {
   const { state } = useAuth();
+  // Read by the linking handlers, which outlive the render they were created in
+  const isAuthenticatedRef = useRef(state.isAuthenticated);
+  isAuthenticatedRef.current = state.isAuthenticated;
+  const linking = useMemo(
+    () => deepLinkService.getLinkingOptions(() => isAuthenticatedRef.current),
+    [],
+  );
+
+  // Links that arrived while logged out are opened as soon as the session starts
+  useEffect(() => {
+    if (state.isLoading) {
+      return;
+    }
+    if (state.isAuthenticated) {
+      deepLinkService.openPendingLink();
+    } else {
+      deepLinkService.holdBrowserLocation();
+    }
+  }, [state.isLoading, state.isAuthenticated]);
 
   if (state.isLoading) {
     return <LoadingScreen />;
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer
+      ref={navigationRef}
+      linking={linking}
+      onReady={() => navigationService.flushPendingActions()}
+      onStateChange={() => navigationService.flushPendingActions()}
+    >
       <RootStack.Navigator
         screenOptions={{
           headerShown: false,
@@ -156,49 +243,34 @@ const AppNavigator: React.FC = () => {
           <>
             <RootStack.Screen name="Main" component={MainTabNavigator} />
             <RootStack.Screen
-              name="CreateProject"
-              component={CreateProjectScreen}
-              options={{
-                headerShown: true,
-                title: 'Crear Proyecto',
-                headerStyle: {
-                  backgroundColor: COLORS.primary,
-                },
-                headerTintColor: COLORS.background,
-                headerTitleStyle: {
-                  fontWeight: 'bold',
-                },
-              }}
+              name="DocumentationViewer"
+              component={DocumentationViewerScreen}
+              options={{ ...HEADER_OPTIONS, title: 'Documentación' }}
+            />
+            <RootStack.Screen
+              name="RequestConsole"
+              component={RequestConsoleScreen}
+              options={{ ...HEADER_OPTIONS, title: 'Probar endpoint' }}
+            />
+            <RootStack.Screen
+              name="DocumentationHistory"
+              component={DocumentationHistoryScreen}
+              options={{ ...HEADER_OPTIONS, title: 'Historial de versiones' }}
+            />
+            <RootStack.Screen
+              name="ApiDiff"
+              component={ApiDiffScreen}
+              options={{ ...HEADER_OPTIONS, title: 'Cambios entre versiones' }}
             />
             <RootStack.Screen
-              name="ProjectDetail"
-              component={ProjectDetailScreen}
-              options={{
-                headerShown: true,
-                title: 'Detalle del Proyecto',
-                headerStyle: {
-                  backgroundColor: COLORS.primary,
-                },
-                headerTintColor: COLORS.background,
-                headerTitleStyle: {
-                  fontWeight: 'bold',
-                },
-              }}
+              name="SemanticSearch"
+              component={SemanticSearchScreen}
+              options={{ ...HEADER_OPTIONS, title: 'Buscar en la documentación' }}
             />
             <RootStack.Screen
               name="Settings"
               component={SettingsScreen}
-              options={{
-                headerShown: true,
-                title: 'Configuración',
-                headerStyle: {
-                  backgroundColor: COLORS.primary,
-                },
-                headerTintColor: COLORS.background,
-                headerTitleStyle: {
-                  fontWeight: 'bold',
-                },
-              }}
+              options={{ ...HEADER_OPTIONS, title: 'Configuración' }}
             />
           </>
         ) : (
@@ -209,5 +281,10 @@ const AppNavigator: React.FC = () => {
   );
 };
 
-export default AppNavigator;
+const styles = StyleSheet.create({
+  headerButton: {
+    marginRight: SPACING.md,
+  },
+});
 
+export default AppNavigator;
@@ -0,0 +1,177 @@
+// Esquemas de las respuestas de la API; los tipos de src/types se derivan de ellos
+import { z } from 'zod';
+import { Language, ProjectStatus, ProjectType } from '../types';
+
+// The backend sends null for missing values; the app works with undefined
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform(value => value ?? undefined);
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  avatar: optional(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const connectionConfigSchema = z.object({
+  connectionString: z.string(),
+  authenticationType: z.string(),
+  username: optional(z.string()),
+  accessToken: optional(z.string()),
+  additionalSettings: optional(z.string()),
+  isEnabled: z.boolean(),
+  timeoutSeconds: z.number(),
+});
+
+export const documentationConfigSchema = z.object({
+  generateOpenApi: z.boolean(),
+  generateSwaggerUI: z.boolean(),
+  generatePostmanCollection: z.boolean(),
+  generateTypeScriptSDK: z.boolean(),
+  generateCSharpSDK: z.boolean(),
+  generateERDiagrams: z.boolean(),
+  generateDataDictionary: z.boolean(),
+  generateUsageGuides: z.boolean(),
+  enableSemanticChat: z.boolean(),
+  diagramFormat: z.string(),
+  theme: z.string(),
+  customSettings: optional(z.string()),
+  includeCodeExamples: z.boolean(),
+  includeVersioning: z.boolean(),
+});
+
+export const projectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  type: z.nativeEnum(ProjectType),
+  status: z.nativeEnum(ProjectStatus),
+  connectionConfig: connectionConfigSchema,
+  repositoryUrl: optional(z.string()),
+  branch: optional(z.string()),
+  preferredLanguage: z.nativeEnum(Language),
+  documentationConfig: documentationConfigSchema,
+  lastAnalyzedAt: optional(z.string()),
+  version: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  createdBy: z.string(),
+  updatedBy: z.string(),
+  isActive: z.boolean(),
+});
+
+export const projectStatusTransitionSchema = z.object({
+  status: z.nativeEnum(ProjectStatus),
+  changedAt: z.string(),
+  changedBy: optional(z.string()),
+  message: optional(z.string()),
+});
+
+export const projectStatusUpdateSchema = z.object({
+  projectId: z.string(),
+  status: z.nativeEnum(ProjectStatus),
+  progress: optional(z.number().min(0).max(100)),
+  message: optional(z.string()),
+  timestamp: z.string(),
+});
+
+export const apiDocumentationSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  apiName: z.string(),
+  version: z.string(),
+  baseUrl: z.string(),
+  description: z.string(),
+  openApiSpec: z.string(),
+  postmanCollection: optional(z.string()),
+  typeScriptSDK: optional(z.string()),
+  cSharpSDK: optional(z.string()),
+  usageGuides: optional(z.string()),
+  language: z.nativeEnum(Language),
+  lastGeneratedAt: optional(z.string()),
+  metadata: optional(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const databaseSchemaSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  databaseName: z.string(),
+  schemaName: z.string(),
+  version: z.string(),
+  description: z.string(),
+  schemaDefinition: z.string(),
+  erDiagram: optional(z.string()),
+  dataDictionary: optional(z.string()),
+  sampleQueries: optional(z.string()),
+  storedProceduresDoc: optional(z.string()),
+  functionsDoc: optional(z.string()),
+  triggersDoc: optional(z.string()),
+  usageGuides: optional(z.string()),
+  language: z.nativeEnum(Language),
+  lastGeneratedAt: optional(z.string()),
+  metadata: optional(z.string()),
+  tableCount: z.number(),
+  viewCount: z.number(),
+  storedProcedureCount: z.number(),
+  functionCount: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const documentationVersionSchema = z.object({
+  // Snapshot id, used to fetch or restore that generation
+  id: z.string(),
+  version: z.string(),
+  generatedAt: z.string(),
+  updatedBy: optional(z.string()),
+});
+
+export const semanticSearchResultSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  score: z.number(),
+  type: z.enum(['api', 'database']),
+  metadata: optional(z.record(z.unknown())),
+});
+
+// Sources the chat stream cites for an answer
+export const chatCitationsSchema = z.array(semanticSearchResultSchema);
+
+// /auth/login and /auth/register
+export const authResponseSchema = z.object({
+  user: userSchema,
+  token: z.string().min(1),
+});
+
+// /auth/refresh
+export const tokenResponseSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const paginatedResponseSchema = <T extends z.ZodTypeAny>(item: T) =>
+  z.object({
+    data: z.array(item),
+    total: z.number(),
+    page: z.number(),
+    pageSize: z.number(),
+    totalPages: z.number(),
+  });
+
+// Envelope every endpoint answers with; a failed request may send no data, or null
+export const apiResponseSchema = <T extends z.ZodTypeAny>(data: T) =>
+  z.discriminatedUnion('success', [
+    z.object({
+      data,
+      message: optional(z.string()),
+      success: z.literal(true),
+    }),
+    z.object({
+      data: optional(z.null()),
+      message: optional(z.string()),
+      success: z.literal(false),
+    }),
+  ]);
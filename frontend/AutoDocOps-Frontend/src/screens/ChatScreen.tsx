@@ -1,35 +1 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { COLORS, TYPOGRAPHY } from '../../constants';
-
-const ChatScreen: React.FC = () => {
-  return (
-    <View style={styles.container}>
-      <Text style={styles.title}>Chat</Text>
-      <Text style={styles.subtitle}>Próximamente disponible</Text>
-    </View>
-  );
-};
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: COLORS.background,
-    padding: 20,
-  },
-  title: {
-    fontSize: TYPOGRAPHY.h2,
-    fontWeight: 'bold',
-    color: COLORS.text,
-    marginBottom: 10,
-  },
-  subtitle: {
-    fontSize: TYPOGRAPHY.body,
-    color: COLORS.textSecondary,
-    textAlign: 'center',
-  },
-});
-
-export default ChatScreen;
+export { default } from './chat/ChatScreen';
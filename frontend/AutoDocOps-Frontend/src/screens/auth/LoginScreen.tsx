@@ -13,12 +13,10 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext';
-import { LoginForm } from '../../types';
+import { AuthStackScreenProps, LoginForm } from '../../types';
 import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, APP_CONFIG, VALIDATION } from '../../constants';
 
-interface LoginScreenProps {
-  navigation: any;
-}
+type LoginScreenProps = AuthStackScreenProps<'Login'>;
 
 const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const { login, state } = useAuth();
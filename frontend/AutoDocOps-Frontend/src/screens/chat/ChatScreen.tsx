@@ -1,36 +1,274 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { COLORS, TYPOGRAPHY } from '../../constants';
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import ChatMessageBubble from '../../components/chat/ChatMessageBubble';
+import ProjectSelector from '../../components/chat/ProjectSelector';
+import { useProjects } from '../../hooks/useProjects';
+import { useSemanticChat } from '../../hooks/useSemanticChat';
+import { ChatMessage, MainTabScreenProps, Project, SemanticSearchResult } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, PAGINATION } from '../../constants';
+import { getResultTarget } from '../../utils/searchResults';
+
+type ChatScreenProps = MainTabScreenProps<'Chat'>;
+
+interface ChatProjects {
+  projects: Project[];
+  isLoading: boolean;
+  selectedProjectId: string | null;
+  selectProject: (projectId: string | null) => void;
+}
+
+// Projects with semantic chat, which is opt-in per project, and the one being asked about
+const useChatProjects = (): ChatProjects => {
+  // Shares the cache with the projects tab, so enabling the chat there shows up here
+  const { data, isLoading } = useProjects({ pageSize: PAGINATION.MAX_PAGE_SIZE });
+  const projects = useMemo(
+    () => (data?.data ?? []).filter(project => project.documentationConfig.enableSemanticChat),
+    [data],
+  );
+  const [chosenProjectId, setChosenProjectId] = useState<string | null>(null);
+  // Falls back to the first project, also when the chosen one has since turned its chat off
+  const selectedProjectId = projects.some(project => project.id === chosenProjectId)
+    ? chosenProjectId
+    : (projects[0]?.id ?? null);
+
+  return { projects, isLoading, selectedProjectId, selectProject: setChosenProjectId };
+};
+
+const ChatScreen: React.FC<ChatScreenProps> = ({ navigation }) => {
+  const {
+    projects,
+    isLoading: isLoadingProjects,
+    selectedProjectId,
+    selectProject,
+  } = useChatProjects();
+  const [input, setInput] = useState('');
+  const listRef = useRef<FlatList<ChatMessage>>(null);
+  const { messages, isStreaming, error, canRetry, send, stop, retry } =
+    useSemanticChat(selectedProjectId);
+
+  const handleSend = (): void => {
+    if (!input.trim()) {
+      return;
+    }
+    send(input);
+    setInput('');
+  };
+
+  // Opens the endpoint or table the answer was taken from
+  const handleCitationPress = (citation: SemanticSearchResult): void => {
+    if (!selectedProjectId) {
+      return;
+    }
+    const target = getResultTarget(citation);
+    navigation.navigate('DocumentationViewer', {
+      projectId: selectedProjectId,
+      type: citation.type,
+      ...(target ? { target } : {}),
+    });
+  };
+
+  if (isLoadingProjects) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  if (projects.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="chatbubbles-outline" size={64} color={COLORS.textSecondary} />
+        <Text style={styles.emptyTitle}>Chat no disponible</Text>
+        <Text style={styles.emptyDescription}>
+          Activa el chat semántico en la configuración de documentación de un proyecto para hacer
+          preguntas sobre él.
+        </Text>
+      </View>
+    );
+  }
 
-const ChatScreen: React.FC = () => {
   return (
-    <View style={styles.container}>
-      <Text style={styles.title}>Chat Semántico</Text>
-      <Text style={styles.subtitle}>Próximamente disponible</Text>
-    </View>
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <View style={styles.selector}>
+        <ProjectSelector
+          projects={projects}
+          selectedId={selectedProjectId}
+          onSelect={selectProject}
+          disabled={isStreaming}
+        />
+      </View>
+
+      <FlatList
+        ref={listRef}
+        data={messages}
+        keyExtractor={item => item.id}
+        renderItem={({ item }) => (
+          <ChatMessageBubble message={item} onCitationPress={handleCitationPress} />
+        )}
+        contentContainerStyle={[styles.messages, messages.length === 0 && styles.messagesEmpty]}
+        onContentSizeChange={() => listRef.current?.scrollToEnd({ animated: true })}
+        ListEmptyComponent={
+          <Text style={styles.emptyDescription}>
+            Pregunta lo que necesites sobre los endpoints o el esquema de este proyecto.
+          </Text>
+        }
+      />
+
+      {(error !== null || canRetry) && (
+        <View style={styles.retryBar}>
+          <Text style={styles.errorText} numberOfLines={2}>
+            {error ?? 'Respuesta detenida'}
+          </Text>
+          {canRetry && (
+            <TouchableOpacity style={styles.retryButton} onPress={retry}>
+              <Ionicons name="refresh" size={16} color={COLORS.primary} />
+              <Text style={styles.retryText}>Reintentar</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <View style={styles.inputBar}>
+        <TextInput
+          style={styles.input}
+          placeholder="Escribe tu pregunta..."
+          placeholderTextColor={COLORS.textSecondary}
+          value={input}
+          onChangeText={setInput}
+          onSubmitEditing={handleSend}
+          editable={!isStreaming}
+          multiline
+        />
+        {isStreaming ? (
+          <TouchableOpacity style={[styles.sendButton, styles.stopButton]} onPress={stop}>
+            <Ionicons name="stop" size={20} color={COLORS.background} />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.sendButton, !input.trim() && styles.sendButtonDisabled]}
+            onPress={handleSend}
+            disabled={!input.trim()}
+          >
+            <Ionicons name="send" size={18} color={COLORS.background} />
+          </TouchableOpacity>
+        )}
+      </View>
+    </KeyboardAvoidingView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  centered: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
     backgroundColor: COLORS.background,
-    padding: 20,
+    padding: SPACING.xl,
   },
-  title: {
-    fontSize: TYPOGRAPHY.h2,
+  emptyTitle: {
+    fontSize: TYPOGRAPHY.h3,
     fontWeight: 'bold',
     color: COLORS.text,
-    marginBottom: 10,
+    marginTop: SPACING.lg,
+    marginBottom: SPACING.sm,
   },
-  subtitle: {
+  emptyDescription: {
     fontSize: TYPOGRAPHY.body,
     color: COLORS.textSecondary,
     textAlign: 'center',
+    lineHeight: 22,
+  },
+  selector: {
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  messages: {
+    padding: SPACING.md,
+  },
+  messagesEmpty: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  retryBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    backgroundColor: COLORS.surface,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.error,
+    marginRight: SPACING.sm,
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  retryText: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginLeft: SPACING.xs,
+  },
+  inputBar: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: SPACING.sm,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    minHeight: 40,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.lg,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    backgroundColor: COLORS.surface,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginLeft: SPACING.sm,
+    backgroundColor: COLORS.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stopButton: {
+    backgroundColor: COLORS.error,
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
   },
 });
 
 export default ChatScreen;
-
@@ -0,0 +1,445 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import ApiChangeRow from '../../components/openapi/ApiChangeRow';
+import documentationService from '../../services/documentationService';
+import fileExportService from '../../services/fileExportService';
+import {
+  ApiDocumentation,
+  ApiError,
+  DocumentationVersion,
+  RootStackScreenProps,
+} from '../../types';
+import { ApiDiff, ParsedOpenApi } from '../../types/openApi';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, ERROR_MESSAGES } from '../../constants';
+import { toFileSlug } from '../../utils/fileNames';
+import { parseOpenApiSpec } from '../../utils/openApi';
+import { buildChangelogMarkdown, diffOpenApi } from '../../utils/openApiDiff';
+
+type ApiDiffScreenProps = RootStackScreenProps<'ApiDiff'>;
+
+interface LoadedVersion {
+  documentation: ApiDocumentation;
+  parsed: ParsedOpenApi;
+}
+
+interface ComparisonResult {
+  apiName: string;
+  fromVersion: string;
+  toVersion: string;
+  diff: ApiDiff;
+}
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error
+    ? error.message
+    : ((error as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR);
+
+const VersionChips: React.FC<{
+  label: string;
+  versions: DocumentationVersion[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}> = ({ label, versions, selectedId, onSelect }) => (
+  <View style={styles.picker}>
+    <Text style={styles.pickerLabel}>{label}</Text>
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {versions.map(version => (
+        <TouchableOpacity
+          key={version.id}
+          style={[styles.chip, version.id === selectedId && styles.chipSelected]}
+          onPress={() => onSelect(version.id)}
+        >
+          <Text style={[styles.chipText, version.id === selectedId && styles.chipTextSelected]}>
+            v{version.version}
+          </Text>
+          <Text style={[styles.chipDate, version.id === selectedId && styles.chipTextSelected]}>
+            {new Date(version.generatedAt).toLocaleDateString()}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  </View>
+);
+
+const getChangelogFileName = (result: ComparisonResult): string =>
+  `${toFileSlug(result.apiName) || 'api'}-changelog-${result.fromVersion}-${result.toVersion}.md`;
+
+const loadVersion = async (
+  projectId: string,
+  versionId: string,
+  cache: Map<string, LoadedVersion>,
+): Promise<LoadedVersion> => {
+  const cached = cache.get(versionId);
+  if (cached) {
+    return cached;
+  }
+  const response = await documentationService.getApiDocumentationVersion(projectId, versionId);
+  const loaded = {
+    documentation: response.data,
+    parsed: parseOpenApiSpec(response.data.openApiSpec),
+  };
+  cache.set(versionId, loaded);
+  return loaded;
+};
+
+const compareVersions = async (
+  projectId: string,
+  fromId: string,
+  toId: string,
+  cache: Map<string, LoadedVersion>,
+): Promise<ComparisonResult> => {
+  const [from, to] = await Promise.all([
+    loadVersion(projectId, fromId, cache),
+    loadVersion(projectId, toId, cache),
+  ]);
+  return {
+    apiName: to.documentation.apiName,
+    fromVersion: from.documentation.version,
+    toVersion: to.documentation.version,
+    diff: diffOpenApi(from.parsed, to.parsed),
+  };
+};
+
+interface Comparison {
+  result: ComparisonResult | null;
+  isComparing: boolean;
+  error: string | null;
+}
+
+// Diff between two versions of the project's spec, redone whenever either side changes
+const useComparison = (
+  projectId: string,
+  fromId: string | null,
+  toId: string | null,
+): Comparison => {
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Parsed specs by version id, so switching back and forth doesn't refetch them
+  const loadedVersions = useRef(new Map<string, LoadedVersion>());
+
+  useEffect(() => {
+    if (!fromId || !toId) {
+      return;
+    }
+    let isCurrent = true;
+
+    const compare = async (): Promise<void> => {
+      setIsComparing(true);
+      setError(null);
+      try {
+        const comparison = await compareVersions(projectId, fromId, toId, loadedVersions.current);
+        if (isCurrent) {
+          setResult(comparison);
+        }
+      } catch (compareError) {
+        if (isCurrent) {
+          setResult(null);
+          setError(getErrorMessage(compareError));
+        }
+      } finally {
+        if (isCurrent) {
+          setIsComparing(false);
+        }
+      }
+    };
+
+    compare();
+    return () => {
+      isCurrent = false;
+    };
+  }, [projectId, fromId, toId]);
+
+  return { result, isComparing, error };
+};
+
+const ComparisonSummary: React.FC<{
+  result: ComparisonResult;
+  onlyBreaking: boolean;
+  onChangeOnlyBreaking: (value: boolean) => void;
+}> = ({ result, onlyBreaking, onChangeOnlyBreaking }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const { breakingCount } = result.diff;
+
+  const exportChangelog = async (): Promise<void> => {
+    setIsExporting(true);
+    try {
+      await fileExportService.exportMarkdown(
+        buildChangelogMarkdown(result.diff, result),
+        getChangelogFileName(result),
+      );
+    } catch (exportError) {
+      Alert.alert('Error', getErrorMessage(exportError));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <View style={styles.summary}>
+        <View style={styles.summaryText}>
+          <Text style={styles.summaryTitle}>{result.diff.changes.length} cambios</Text>
+          <Text style={[styles.summaryBreaking, breakingCount === 0 && styles.safe]}>
+            {breakingCount === 0 ? 'Sin cambios incompatibles' : `${breakingCount} incompatibles`}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.exportButton}
+          onPress={exportChangelog}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <ActivityIndicator size="small" color={COLORS.primary} />
+          ) : (
+            <Ionicons name="download-outline" size={16} color={COLORS.primary} />
+          )}
+          <Text style={styles.exportText}>Changelog</Text>
+        </TouchableOpacity>
+      </View>
+
+      {breakingCount > 0 && (
+        <View style={styles.filter}>
+          <Text style={styles.filterLabel}>Solo cambios incompatibles</Text>
+          <Switch value={onlyBreaking} onValueChange={onChangeOnlyBreaking} />
+        </View>
+      )}
+    </>
+  );
+};
+
+const useVersionList = (
+  projectId: string,
+): { versions: DocumentationVersion[] | null; error: string | null } => {
+  const [versions, setVersions] = useState<DocumentationVersion[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    documentationService
+      .getApiDocumentationVersions(projectId)
+      .then(response => setVersions(response.data))
+      .catch(loadError => setError(getErrorMessage(loadError)));
+  }, [projectId]);
+
+  return { versions, error };
+};
+
+// Versions come newest first
+const getVersionId = (versions: DocumentationVersion[] | null, index: number): string | null =>
+  versions?.[index]?.id ?? null;
+
+const EmptyComparison: React.FC<{
+  isComparing: boolean;
+  error: string | null;
+  isSameVersion: boolean;
+}> = ({ isComparing, error, isSameVersion }) => {
+  if (isComparing) {
+    return <ActivityIndicator style={styles.loader} color={COLORS.primary} />;
+  }
+  const message = isSameVersion
+    ? 'Selecciona dos versiones distintas.'
+    : 'No hay cambios entre estas versiones.';
+  return <Text style={styles.message}>{error ?? message}</Text>;
+};
+
+// Shown while the versions load, when they fail to, or when there aren't two to compare
+const VersionsPlaceholder: React.FC<{
+  versions: DocumentationVersion[] | null;
+  error: string | null;
+}> = ({ versions, error }) => {
+  if (versions) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="git-compare-outline" size={48} color={COLORS.textSecondary} />
+        <Text style={styles.message}>
+          Se necesitan al menos dos versiones generadas para comparar.
+        </Text>
+      </View>
+    );
+  }
+  return (
+    <View style={styles.centered}>
+      {error ? (
+        <Text style={styles.message}>{error}</Text>
+      ) : (
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      )}
+    </View>
+  );
+};
+
+const ApiDiffScreen: React.FC<ApiDiffScreenProps> = ({ route }) => {
+  const { projectId, fromVersionId, toVersionId } = route.params;
+  const { versions, error: loadError } = useVersionList(projectId);
+  const [selectedFromId, setFromId] = useState<string | null>(fromVersionId ?? null);
+  const [selectedToId, setToId] = useState<string | null>(toVersionId ?? null);
+  // Latest version against the one before it, unless the route or the user picked others
+  const fromId = selectedFromId ?? getVersionId(versions, 1);
+  const toId = selectedToId ?? getVersionId(versions, 0);
+  const [onlyBreaking, setOnlyBreaking] = useState(false);
+  const { result, isComparing, error } = useComparison(projectId, fromId, toId);
+
+  const visibleChanges = useMemo(
+    () => result?.diff.changes.filter(change => !onlyBreaking || change.breaking) ?? [],
+    [result, onlyBreaking],
+  );
+
+  if (!versions || versions.length < 2) {
+    return <VersionsPlaceholder versions={versions} error={loadError} />;
+  }
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={isComparing ? [] : visibleChanges}
+      keyExtractor={(change, index) =>
+        `${change.location}|${change.subject ?? ''}|${change.description}|${index}`
+      }
+      renderItem={({ item }) => <ApiChangeRow change={item} />}
+      ListHeaderComponent={
+        <View>
+          <VersionChips
+            label="Desde"
+            versions={versions}
+            selectedId={fromId}
+            onSelect={setFromId}
+          />
+          <VersionChips label="Hasta" versions={versions} selectedId={toId} onSelect={setToId} />
+          {result && !isComparing && (
+            <ComparisonSummary
+              result={result}
+              onlyBreaking={onlyBreaking}
+              onChangeOnlyBreaking={setOnlyBreaking}
+            />
+          )}
+        </View>
+      }
+      ListEmptyComponent={
+        <EmptyComparison isComparing={isComparing} error={error} isSameVersion={fromId === toId} />
+      }
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+    paddingBottom: SPACING.xl,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.background,
+    padding: SPACING.xl,
+  },
+  message: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
+  loader: {
+    marginTop: SPACING.lg,
+  },
+  picker: {
+    marginBottom: SPACING.sm,
+  },
+  pickerLabel: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: SPACING.xs,
+  },
+  chip: {
+    paddingHorizontal: SPACING.sm + 2,
+    paddingVertical: SPACING.xs,
+    marginRight: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  chipSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  chipDate: {
+    fontSize: TYPOGRAPHY.small,
+    color: COLORS.textSecondary,
+  },
+  chipTextSelected: {
+    color: COLORS.background,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+    marginBottom: SPACING.md,
+  },
+  summaryText: {
+    flex: 1,
+  },
+  summaryTitle: {
+    fontSize: TYPOGRAPHY.h6,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  summaryBreaking: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.error,
+  },
+  safe: {
+    color: COLORS.success,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs + 2,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  exportText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginLeft: SPACING.xs,
+  },
+  filter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.sm,
+  },
+  filterLabel: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+  },
+});
+
+export default ApiDiffScreen;
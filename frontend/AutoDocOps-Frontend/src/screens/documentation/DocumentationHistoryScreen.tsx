@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  useDocumentationVersions,
+  useRestoreDocumentationVersion,
+} from '../../hooks/useDocumentation';
+import { ApiError, DocumentationVersion, RootStackScreenProps } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, ERROR_MESSAGES } from '../../constants';
+
+type DocumentationHistoryScreenProps = RootStackScreenProps<'DocumentationHistory'>;
+
+const DocumentationHistoryScreen: React.FC<DocumentationHistoryScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { projectId, type } = route.params;
+  const { data, error, isLoading, refetch } = useDocumentationVersions(projectId, type);
+  const versions = data ?? [];
+  const errorMessage = error
+    ? ((error as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR)
+    : null;
+  const { mutate: restoreVersion } = useRestoreDocumentationVersion(projectId, type);
+  const [refreshing, setRefreshing] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const onRefresh = async (): Promise<void> => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const openVersion = (version: DocumentationVersion, isCurrent: boolean): void => {
+    navigation.navigate('DocumentationViewer', {
+      projectId,
+      type,
+      ...(isCurrent ? {} : { versionId: version.id }),
+    });
+  };
+
+  const restore = async (version: DocumentationVersion): Promise<void> => {
+    try {
+      setRestoringId(version.id);
+      await restoreVersion(version.id);
+      Alert.alert('Versión restaurada', `La versión v${version.version} es ahora la actual.`);
+      // Back to the viewer, which is already refetching the restored documentation
+      navigation.popTo('DocumentationViewer', { projectId, type });
+    } catch (restoreError) {
+      Alert.alert(
+        'Error',
+        (restoreError as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR,
+      );
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const confirmRestore = (version: DocumentationVersion): void => {
+    Alert.alert(
+      'Restaurar versión',
+      `La documentación actual se reemplazará por la versión v${version.version}.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Restaurar', style: 'destructive', onPress: () => restore(version) },
+      ],
+    );
+  };
+
+  const renderVersion = ({ item, index }: { item: DocumentationVersion; index: number }) => {
+    // The list comes newest first, so the first entry is what the viewer shows
+    const isCurrent = index === 0;
+    const latest = versions[0];
+
+    return (
+      <TouchableOpacity style={styles.card} onPress={() => openVersion(item, isCurrent)}>
+        <View style={styles.header}>
+          <Text style={styles.version}>v{item.version}</Text>
+          {isCurrent && <Text style={styles.currentBadge}>Actual</Text>}
+          <Ionicons name="chevron-forward" size={18} color={COLORS.textSecondary} />
+        </View>
+        <Text style={styles.meta}>
+          {new Date(item.generatedAt).toLocaleString()}
+          {item.updatedBy ? ` · ${item.updatedBy}` : ''}
+        </Text>
+
+        {!isCurrent && (
+          <View style={styles.actions}>
+            {type === 'api' && latest && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() =>
+                  navigation.navigate('ApiDiff', {
+                    projectId,
+                    fromVersionId: item.id,
+                    toVersionId: latest.id,
+                  })
+                }
+              >
+                <Ionicons name="git-compare-outline" size={16} color={COLORS.primary} />
+                <Text style={styles.actionText}>Comparar con la actual</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => confirmRestore(item)}
+              disabled={restoringId !== null}
+            >
+              {restoringId === item.id ? (
+                <ActivityIndicator size="small" color={COLORS.primary} />
+              ) : (
+                <Ionicons name="arrow-undo-outline" size={16} color={COLORS.primary} />
+              )}
+              <Text style={styles.actionText}>Restaurar</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={COLORS.primary} />;
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="time-outline" size={64} color={COLORS.textSecondary} />
+        <Text style={styles.emptyStateTitle}>
+          {errorMessage ? 'No se pudo cargar el historial' : 'Sin versiones anteriores'}
+        </Text>
+        <Text style={styles.emptyStateDescription}>
+          {errorMessage ?? 'Cada generación de la documentación aparecerá aquí.'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={versions}
+        renderItem={renderVersion}
+        keyExtractor={item => item.id}
+        contentContainerStyle={[styles.list, versions.length === 0 && styles.emptyContainer]}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={[COLORS.primary]}
+            tintColor={COLORS.primary}
+          />
+        }
+        ListEmptyComponent={renderEmptyState}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  list: {
+    padding: SPACING.md,
+  },
+  emptyContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  card: {
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+    borderRadius: BORDER_RADIUS.lg,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  version: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.h6,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  currentBadge: {
+    fontSize: TYPOGRAPHY.small,
+    fontWeight: 'bold',
+    color: COLORS.background,
+    backgroundColor: COLORS.success,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: SPACING.xs,
+    paddingVertical: 2,
+    marginRight: SPACING.sm,
+    overflow: 'hidden',
+  },
+  meta: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: SPACING.sm,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: SPACING.sm,
+    marginTop: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs + 2,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  actionText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginLeft: SPACING.xs,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingHorizontal: SPACING.xl,
+  },
+  emptyStateTitle: {
+    fontSize: TYPOGRAPHY.h5,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginTop: SPACING.md,
+    marginBottom: SPACING.sm,
+  },
+  emptyStateDescription: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+});
+
+export default DocumentationHistoryScreen;
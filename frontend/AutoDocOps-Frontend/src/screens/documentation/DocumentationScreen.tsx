@@ -1,36 +1,207 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { COLORS, TYPOGRAPHY } from '../../constants';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DocumentationType } from '../../hooks/useDocumentation';
+import { useProjects } from '../../hooks/useProjects';
+import { ApiError, MainTabScreenProps, Project, ProjectStatus, ProjectType } from '../../types';
+import {
+  COLORS,
+  TYPOGRAPHY,
+  SPACING,
+  BORDER_RADIUS,
+  ERROR_MESSAGES,
+  PAGINATION,
+} from '../../constants';
+
+type DocumentationScreenProps = MainTabScreenProps<'Documentation'>;
+
+const DOCUMENTATION_LINKS: Record<
+  DocumentationType,
+  { label: string; icon: keyof typeof Ionicons.glyphMap }
+> = {
+  api: { label: 'API', icon: 'code-outline' },
+  database: { label: 'Base de datos', icon: 'server-outline' },
+};
+
+const getDocumentationTypes = (type: ProjectType): DocumentationType[] => {
+  switch (type) {
+    case ProjectType.DotNetApi:
+      return ['api'];
+    case ProjectType.SqlServerDatabase:
+      return ['database'];
+    default:
+      return ['api', 'database'];
+  }
+};
+
+const DocumentationScreen: React.FC<DocumentationScreenProps> = ({ navigation }) => {
+  // Shares the cache with the projects tab, so a generation finished there shows up here
+  const { data, error, isLoading, refetch } = useProjects({
+    status: ProjectStatus.DocumentationGenerated,
+    pageSize: PAGINATION.MAX_PAGE_SIZE,
+  });
+  const projects = data?.data ?? [];
+  const errorMessage = error
+    ? ((error as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR)
+    : null;
+  const [refreshing, setRefreshing] = useState(false);
+
+  const onRefresh = async (): Promise<void> => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const openViewer = (projectId: string, type: DocumentationType): void => {
+    navigation.navigate('DocumentationViewer', { projectId, type });
+  };
+
+  const renderProject = ({ item }: { item: Project }) => (
+    <View style={styles.card}>
+      <Text style={styles.projectName}>{item.name}</Text>
+      {item.description ? (
+        <Text style={styles.projectDescription} numberOfLines={2}>
+          {item.description}
+        </Text>
+      ) : null}
+      <View style={styles.links}>
+        {getDocumentationTypes(item.type).map(type => (
+          <TouchableOpacity
+            key={type}
+            style={styles.linkButton}
+            onPress={() => openViewer(item.id, type)}
+          >
+            <Ionicons name={DOCUMENTATION_LINKS[type].icon} size={16} color={COLORS.primary} />
+            <Text style={styles.linkText}>{DOCUMENTATION_LINKS[type].label}</Text>
+          </TouchableOpacity>
+        ))}
+        {item.version ? <Text style={styles.version}>v{item.version}</Text> : null}
+      </View>
+    </View>
+  );
+
+  const renderEmptyState = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={COLORS.primary} />;
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="document-text-outline" size={64} color={COLORS.textSecondary} />
+        <Text style={styles.emptyStateTitle}>
+          {errorMessage ? 'No se pudo cargar la documentación' : 'Sin documentación generada'}
+        </Text>
+        <Text style={styles.emptyStateDescription}>
+          {errorMessage ?? 'Genera la documentación de un proyecto para consultarla aquí.'}
+        </Text>
+      </View>
+    );
+  };
 
-const DocumentationScreen: React.FC = () => {
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Documentación</Text>
-      <Text style={styles.subtitle}>Próximamente disponible</Text>
+      <FlatList
+        data={projects}
+        renderItem={renderProject}
+        keyExtractor={item => item.id}
+        contentContainerStyle={[styles.list, projects.length === 0 && styles.emptyContainer]}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            colors={[COLORS.primary]}
+            tintColor={COLORS.primary}
+          />
+        }
+        ListEmptyComponent={renderEmptyState}
+        showsVerticalScrollIndicator={false}
+      />
     </View>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  list: {
+    padding: SPACING.md,
+  },
+  emptyContainer: {
     flex: 1,
     justifyContent: 'center',
+  },
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  projectName: {
+    fontSize: TYPOGRAPHY.h6,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  projectDescription: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  links: {
+    flexDirection: 'row',
     alignItems: 'center',
-    backgroundColor: COLORS.background,
-    padding: 20,
+    marginTop: SPACING.md,
   },
-  title: {
-    fontSize: TYPOGRAPHY.h2,
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.full,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs + 2,
+    marginRight: SPACING.sm,
+  },
+  linkText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginLeft: SPACING.xs,
+  },
+  version: {
+    marginLeft: 'auto',
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: SPACING.xl,
+  },
+  emptyStateTitle: {
+    fontSize: TYPOGRAPHY.h4,
     fontWeight: 'bold',
     color: COLORS.text,
-    marginBottom: 10,
+    marginTop: SPACING.lg,
+    marginBottom: SPACING.sm,
+    textAlign: 'center',
   },
-  subtitle: {
+  emptyStateDescription: {
     fontSize: TYPOGRAPHY.body,
     color: COLORS.textSecondary,
     textAlign: 'center',
+    lineHeight: 22,
   },
 });
 
 export default DocumentationScreen;
-
@@ -0,0 +1,210 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DatabaseDocumentationView from '../../components/database/DatabaseDocumentationView';
+import ApiDocumentationView from '../../components/openapi/ApiDocumentationView';
+import { useDocumentation } from '../../hooks/useDocumentation';
+import { useProject } from '../../hooks/useProjects';
+import { ApiDocumentation, ApiError, DatabaseSchema, RootStackScreenProps } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, ERROR_MESSAGES } from '../../constants';
+
+type DocumentationViewerScreenProps = RootStackScreenProps<'DocumentationViewer'>;
+
+const DocumentationViewerScreen: React.FC<DocumentationViewerScreenProps> = ({
+  navigation,
+  route,
+}) => {
+  const { projectId, type, target, versionId } = route.params;
+  // Refetched by itself after a rollback, since restoring invalidates this documentation
+  const {
+    data: documentation,
+    error,
+    isLoading,
+    refetch,
+  } = useDocumentation(projectId, type, versionId);
+  // Only used for presentation and export settings, so the viewer works without it
+  const { data: project } = useProject(projectId);
+
+  const apiDocumentation =
+    type === 'api' ? (documentation as ApiDocumentation | undefined) : undefined;
+  const databaseSchema =
+    type === 'database' ? (documentation as DatabaseSchema | undefined) : undefined;
+  const title = apiDocumentation?.apiName ?? databaseSchema?.databaseName;
+
+  useEffect(() => {
+    if (title) {
+      navigation.setOptions({ title });
+    }
+  }, [navigation, title]);
+
+  const includeCodeExamples = project?.documentationConfig.includeCodeExamples ?? false;
+  const includeVersioning = project?.documentationConfig.includeVersioning ?? false;
+
+  // Versioned projects keep past generations, listed in the history screen
+  useEffect(() => {
+    if (versionId !== undefined || !includeVersioning) {
+      return;
+    }
+    navigation.setOptions({
+      headerRight: () => (
+        <TouchableOpacity
+          onPress={() => navigation.navigate('DocumentationHistory', { projectId, type })}
+          style={styles.headerButton}
+          accessibilityLabel="Historial de versiones"
+        >
+          <Ionicons name="time-outline" size={22} color={COLORS.background} />
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, projectId, type, versionId, includeVersioning]);
+
+  const snapshotVersion = versionId
+    ? (apiDocumentation?.version ?? databaseSchema?.version)
+    : undefined;
+  const snapshotBanner = snapshotVersion ? (
+    <View style={styles.snapshotBanner}>
+      <Ionicons name="lock-closed-outline" size={14} color={COLORS.warning} />
+      <Text style={styles.snapshotText}>Versión v{snapshotVersion} · solo lectura</Text>
+    </View>
+  ) : null;
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  // Cached documentation stays on screen if a background refetch fails
+  if (error && !documentation) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="cloud-offline-outline" size={48} color={COLORS.textSecondary} />
+        <Text style={styles.message}>
+          {(error as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR}
+        </Text>
+        <TouchableOpacity style={styles.retryButton} onPress={refetch}>
+          <Text style={styles.retryText}>Reintentar</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (type === 'api' && apiDocumentation) {
+    return (
+      <View style={styles.container}>
+        {snapshotBanner}
+        <ApiDocumentationView
+          documentation={apiDocumentation}
+          {...(target ? { target } : {})}
+          collapsibleCode={includeCodeExamples}
+          authenticationType={project?.connectionConfig.authenticationType}
+          // The request console works against the current spec, so snapshots can't use it
+          {...(versionId
+            ? {}
+            : {
+                renderOperationFooter: operation => (
+                  <TouchableOpacity
+                    style={styles.tryButton}
+                    onPress={() =>
+                      navigation.navigate('RequestConsole', {
+                        projectId,
+                        operationKey: operation.key,
+                      })
+                    }
+                  >
+                    <Ionicons name="play-outline" size={16} color={COLORS.primary} />
+                    <Text style={styles.tryText}>Probar</Text>
+                  </TouchableOpacity>
+                ),
+              })}
+        />
+      </View>
+    );
+  }
+
+  if (databaseSchema) {
+    return (
+      <View style={styles.container}>
+        {snapshotBanner}
+        <DatabaseDocumentationView
+          schema={databaseSchema}
+          {...(target ? { target } : {})}
+          collapsibleCode={includeCodeExamples}
+        />
+      </View>
+    );
+  }
+
+  return null;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  headerButton: {
+    marginRight: SPACING.md,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.background,
+    padding: SPACING.xl,
+  },
+  message: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
+  snapshotBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    backgroundColor: COLORS.gray[100],
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  snapshotText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginLeft: SPACING.xs,
+  },
+  tryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: SPACING.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs + 2,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.full,
+  },
+  tryText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.primary,
+    marginLeft: SPACING.xs,
+  },
+  retryButton: {
+    marginTop: SPACING.lg,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.primary,
+  },
+  retryText: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.background,
+  },
+});
+
+export default DocumentationViewerScreen;
@@ -0,0 +1,361 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import KeyValueEditor from '../../components/openapi/KeyValueEditor';
+import MethodBadge from '../../components/openapi/MethodBadge';
+import ResponseViewer from '../../components/openapi/ResponseViewer';
+import documentationService from '../../services/documentationService';
+import projectService from '../../services/projectService';
+import requestConsoleService, { ConsoleResponse } from '../../services/requestConsoleService';
+import { ApiError, ConnectionConfig, RootStackScreenProps } from '../../types';
+import { ParsedOpenApi, ParsedOperation } from '../../types/openApi';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, FONTS, ERROR_MESSAGES } from '../../constants';
+import { maskSecret } from '../../utils/masking';
+import { parseOpenApiSpec } from '../../utils/openApi';
+import {
+  buildRequestUrl,
+  createRequestDraft,
+  getConnectionAuth,
+  getMissingPathParameters,
+  ParameterValues,
+  RequestDraft,
+} from '../../utils/requestConsole';
+
+type RequestConsoleScreenProps = RootStackScreenProps<'RequestConsole'>;
+
+interface ConsoleContext {
+  parsed: ParsedOpenApi;
+  operation: ParsedOperation;
+  connection: ConnectionConfig;
+}
+
+const RequestConsoleScreen: React.FC<RequestConsoleScreenProps> = ({ route }) => {
+  const { projectId, operationKey } = route.params;
+  const [context, setContext] = useState<ConsoleContext | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [baseUrl, setBaseUrl] = useState('');
+  const [draft, setDraft] = useState<RequestDraft>({ path: {}, query: {}, headers: {}, body: '' });
+  const [useProjectAuth, setUseProjectAuth] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [response, setResponse] = useState<ConsoleResponse | null>(null);
+
+  useEffect(() => {
+    const loadContext = async (): Promise<void> => {
+      try {
+        const [documentation, project] = await Promise.all([
+          documentationService.getApiDocumentation(projectId),
+          projectService.getProject(projectId),
+        ]);
+        const parsed = parseOpenApiSpec(documentation.data.openApiSpec);
+        const operation = parsed.operations.find(entry => entry.key === operationKey);
+        if (!operation) {
+          setLoadError('La operación ya no existe en la especificación.');
+          return;
+        }
+        setContext({ parsed, operation, connection: project.data.connectionConfig });
+        setBaseUrl(documentation.data.baseUrl || (parsed.servers[0]?.url ?? ''));
+        setDraft(createRequestDraft(parsed.document, operation));
+      } catch (error) {
+        setLoadError(
+          error instanceof Error
+            ? error.message
+            : ((error as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR),
+        );
+      }
+    };
+
+    loadContext();
+  }, [projectId, operationKey]);
+
+  const auth = useMemo(
+    () =>
+      context && useProjectAuth
+        ? getConnectionAuth(context.connection, context.parsed.document)
+        : { headers: {}, query: {} },
+    [context, useProjectAuth],
+  );
+
+  const updateValue =
+    (group: 'path' | 'query' | 'headers') =>
+    (name: string, value: string): void =>
+      setDraft(previous => ({ ...previous, [group]: { ...previous[group], [name]: value } }));
+
+  const send = async (): Promise<void> => {
+    if (!context) {
+      return;
+    }
+    const { operation } = context;
+    const missing = getMissingPathParameters(operation.path, draft.path);
+    if (missing.length > 0) {
+      setRequestError(`Faltan parámetros de ruta: ${missing.join(', ')}`);
+      return;
+    }
+    if (draft.body && draft.contentType?.includes('json')) {
+      try {
+        JSON.parse(draft.body);
+      } catch (error) {
+        setRequestError('El cuerpo no es un JSON válido.');
+        return;
+      }
+    }
+
+    const headers: ParameterValues = {
+      Accept: 'application/json, */*',
+      ...(draft.body && draft.contentType ? { 'Content-Type': draft.contentType } : {}),
+      ...Object.fromEntries(Object.entries(draft.headers).filter(([, value]) => value !== '')),
+      ...auth.headers,
+    };
+
+    setIsSending(true);
+    setRequestError(null);
+    try {
+      const result = await requestConsoleService.execute({
+        method: operation.method,
+        url: buildRequestUrl(baseUrl, operation.path, draft.path, {
+          ...draft.query,
+          ...auth.query,
+        }),
+        headers,
+        ...(draft.body ? { body: draft.body } : {}),
+      });
+      setResponse(result);
+    } catch (error) {
+      setResponse(null);
+      setRequestError((error as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText}>{loadError}</Text>
+      </View>
+    );
+  }
+
+  if (!context) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  const { operation, connection } = context;
+  const parametersIn = (location: string) =>
+    operation.parameters.filter(parameter => parameter.in === location);
+  const authEntries = [...Object.keys(auth.headers), ...Object.keys(auth.query)];
+  const hasProjectAuth =
+    Boolean(connection.accessToken) && ['Bearer', 'ApiKey'].includes(connection.authenticationType);
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.operation}>
+          <MethodBadge method={operation.method} />
+          <Text style={styles.path} selectable>
+            {operation.path}
+          </Text>
+        </View>
+        {operation.summary && <Text style={styles.summary}>{operation.summary}</Text>}
+
+        <Text style={styles.label}>URL base</Text>
+        <TextInput
+          style={styles.input}
+          value={baseUrl}
+          onChangeText={setBaseUrl}
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+        />
+
+        {hasProjectAuth && (
+          <View style={styles.authRow}>
+            <View style={styles.authText}>
+              <Text style={styles.authTitle}>Credenciales del proyecto</Text>
+              <Text style={styles.authDetail}>
+                {connection.authenticationType} ·{' '}
+                {authEntries.length > 0
+                  ? `${authEntries.join(', ')}: ${maskSecret(connection.accessToken)}`
+                  : 'sin enviar'}
+              </Text>
+            </View>
+            <Switch
+              value={useProjectAuth}
+              onValueChange={setUseProjectAuth}
+              trackColor={{ false: COLORS.border, true: COLORS.primary }}
+            />
+          </View>
+        )}
+
+        <KeyValueEditor
+          title="Parámetros de ruta"
+          parameters={parametersIn('path')}
+          values={draft.path}
+          onChange={updateValue('path')}
+        />
+        <KeyValueEditor
+          title="Query"
+          parameters={parametersIn('query')}
+          values={draft.query}
+          onChange={updateValue('query')}
+        />
+        <KeyValueEditor
+          title="Cabeceras"
+          parameters={parametersIn('header')}
+          values={draft.headers}
+          onChange={updateValue('headers')}
+        />
+
+        {operation.requestBody && (
+          <>
+            <Text style={styles.label}>
+              Cuerpo{draft.contentType ? ` (${draft.contentType})` : ''}
+            </Text>
+            <TextInput
+              style={[styles.input, styles.bodyInput]}
+              value={draft.body}
+              onChangeText={body => setDraft(previous => ({ ...previous, body }))}
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+              textAlignVertical="top"
+            />
+          </>
+        )}
+
+        {requestError && <Text style={styles.errorText}>{requestError}</Text>}
+
+        <TouchableOpacity
+          style={[styles.sendButton, isSending && styles.sendButtonDisabled]}
+          onPress={send}
+          disabled={isSending || !baseUrl}
+        >
+          {isSending ? (
+            <ActivityIndicator size="small" color={COLORS.background} />
+          ) : (
+            <Text style={styles.sendText}>Enviar petición</Text>
+          )}
+        </TouchableOpacity>
+
+        {response && <ResponseViewer response={response} />}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+    paddingBottom: SPACING.xxl,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.background,
+    padding: SPACING.xl,
+  },
+  operation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  path: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    marginLeft: SPACING.sm,
+  },
+  summary: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
+  },
+  label: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    marginTop: SPACING.md,
+    marginBottom: SPACING.xs,
+  },
+  input: {
+    fontSize: TYPOGRAPHY.caption,
+    fontFamily: FONTS.mono,
+    color: COLORS.text,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    backgroundColor: COLORS.background,
+  },
+  bodyInput: {
+    minHeight: 160,
+  },
+  authRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: SPACING.md,
+    padding: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.surface,
+  },
+  authText: {
+    flex: 1,
+  },
+  authTitle: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  authDetail: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.error,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
+  sendButton: {
+    marginTop: SPACING.lg,
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.sm + 4,
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.6,
+  },
+  sendText: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: '600',
+    color: COLORS.background,
+  },
+});
+
+export default RequestConsoleScreen;
@@ -1,36 +1,216 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { COLORS, TYPOGRAPHY } from '../../constants';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { FieldErrors, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import WizardProgress from '../../components/projects/wizard/WizardProgress';
+import BasicsStep from '../../components/projects/wizard/BasicsStep';
+import ConnectionStep from '../../components/projects/wizard/ConnectionStep';
+import OutputsStep from '../../components/projects/wizard/OutputsStep';
+import ReviewStep from '../../components/projects/wizard/ReviewStep';
+import { useCreateProject } from '../../hooks/useProjects';
+import { ApiError, ProjectsStackScreenProps } from '../../types';
+import {
+  COLORS,
+  TYPOGRAPHY,
+  SPACING,
+  BORDER_RADIUS,
+  ERROR_MESSAGES,
+  SUCCESS_MESSAGES,
+} from '../../constants';
+import {
+  DEFAULT_PROJECT_FORM_VALUES,
+  PROJECT_WIZARD_STEPS,
+  PROJECT_WIZARD_STEP_SCHEMAS,
+  ProjectFormValues,
+  mapProjectFormToRequest,
+  projectFormSchema,
+} from '../../utils/projectForm';
+
+type CreateProjectScreenProps = ProjectsStackScreenProps<'CreateProject'>;
+
+const isFormField = (field: unknown): field is keyof ProjectFormValues =>
+  typeof field === 'string' && field in DEFAULT_PROJECT_FORM_VALUES;
+
+// Fields shown on each step, used to send the user back to the first invalid one on submit
+const STEP_FIELDS: Record<number, readonly (keyof ProjectFormValues)[]> = {
+  0: ['name', 'description', 'type', 'preferredLanguage', 'repositoryUrl', 'branch'],
+  1: ['connectionString', 'authenticationType', 'username', 'accessToken'],
+};
+
+const CreateProjectScreen: React.FC<CreateProjectScreenProps> = ({ navigation }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const { mutate: createProject, isPending: isSubmitting } = useCreateProject();
+  const { control, getValues, setError, clearErrors, handleSubmit, formState } =
+    useForm<ProjectFormValues>({
+      resolver: zodResolver(projectFormSchema),
+      defaultValues: DEFAULT_PROJECT_FORM_VALUES,
+      mode: 'onTouched',
+    });
+
+  const currentStep = PROJECT_WIZARD_STEPS[stepIndex] ?? PROJECT_WIZARD_STEPS[0];
+  const isLastStep = stepIndex === PROJECT_WIZARD_STEPS.length - 1;
+
+  const validateCurrentStep = (): boolean => {
+    const result = PROJECT_WIZARD_STEP_SCHEMAS[currentStep.key].safeParse(getValues());
+    clearErrors();
+
+    if (result.success) {
+      return true;
+    }
+
+    result.error.issues.forEach(issue => {
+      const [field] = issue.path;
+      if (isFormField(field)) {
+        setError(field, { type: 'zod', message: issue.message });
+      } else {
+        setError('root', { type: 'zod', message: issue.message });
+      }
+    });
+    return false;
+  };
+
+  const goNext = (): void => {
+    if (validateCurrentStep()) {
+      setStepIndex(index => Math.min(index + 1, PROJECT_WIZARD_STEPS.length - 1));
+    }
+  };
+
+  const goBack = (): void => {
+    clearErrors();
+    setStepIndex(index => Math.max(index - 1, 0));
+  };
+
+  const onSubmit = async (values: ProjectFormValues): Promise<void> => {
+    try {
+      const project = await createProject(mapProjectFormToRequest(values));
+      Alert.alert('Éxito', SUCCESS_MESSAGES.PROJECT_CREATED);
+      navigation.replace('ProjectDetail', { projectId: project.id });
+    } catch (error) {
+      Alert.alert('Error', (error as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR);
+    }
+  };
+
+  const onInvalid = (errors: FieldErrors<ProjectFormValues>): void => {
+    const invalidStep = Object.entries(STEP_FIELDS).find(([, fields]) =>
+      fields.some(field => errors[field]),
+    );
+    setStepIndex(invalidStep ? Number(invalidStep[0]) : 2);
+  };
+
+  const renderStep = () => {
+    switch (currentStep.key) {
+      case 'basics':
+        return <BasicsStep control={control} />;
+      case 'connection':
+        return <ConnectionStep control={control} />;
+      case 'outputs':
+        return <OutputsStep control={control} errorMessage={formState.errors.root?.message} />;
+      case 'review':
+        return <ReviewStep control={control} />;
+      default:
+        return null;
+    }
+  };
 
-const CreateProjectScreen: React.FC = () => {
   return (
-    <View style={styles.container}>
-      <Text style={styles.title}>Crear Proyecto</Text>
-      <Text style={styles.subtitle}>Próximamente disponible</Text>
-    </View>
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <WizardProgress steps={PROJECT_WIZARD_STEPS} currentIndex={stepIndex} />
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.stepTitle}>{currentStep.label}</Text>
+        {renderStep()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.secondaryButton, stepIndex === 0 && styles.buttonDisabled]}
+          onPress={goBack}
+          disabled={stepIndex === 0 || isSubmitting}
+        >
+          <Text style={styles.secondaryButtonText}>Anterior</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, isSubmitting && styles.buttonDisabled]}
+          onPress={isLastStep ? handleSubmit(onSubmit, onInvalid) : goNext}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color={COLORS.background} />
+          ) : (
+            <Text style={styles.primaryButtonText}>
+              {isLastStep ? 'Crear Proyecto' : 'Siguiente'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
     backgroundColor: COLORS.background,
-    padding: 20,
   },
-  title: {
-    fontSize: TYPOGRAPHY.h2,
+  content: {
+    padding: SPACING.md,
+  },
+  stepTitle: {
+    fontSize: TYPOGRAPHY.h4,
     fontWeight: 'bold',
     color: COLORS.text,
-    marginBottom: 10,
+    marginBottom: SPACING.md,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    backgroundColor: COLORS.background,
+  },
+  primaryButton: {
+    flex: 1,
+    marginLeft: SPACING.sm,
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
   },
-  subtitle: {
+  primaryButtonText: {
     fontSize: TYPOGRAPHY.body,
-    color: COLORS.textSecondary,
-    textAlign: 'center',
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+  secondaryButton: {
+    flex: 1,
+    marginRight: SPACING.sm,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
   },
 });
 
 export default CreateProjectScreen;
-
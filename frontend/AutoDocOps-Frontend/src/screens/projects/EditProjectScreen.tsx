@@ -0,0 +1,192 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Ionicons } from '@expo/vector-icons';
+import FormTextInput from '../../components/forms/FormTextInput';
+import ConnectionStep from '../../components/projects/wizard/ConnectionStep';
+import OutputsStep from '../../components/projects/wizard/OutputsStep';
+import { useProject, useUpdateProject } from '../../hooks/useProjects';
+import { ApiError, ProjectsStackScreenProps } from '../../types';
+import {
+  COLORS,
+  TYPOGRAPHY,
+  SPACING,
+  BORDER_RADIUS,
+  ERROR_MESSAGES,
+  SUCCESS_MESSAGES,
+} from '../../constants';
+import {
+  DEFAULT_PROJECT_FORM_VALUES,
+  ProjectFormValues,
+  mapProjectFormToUpdateRequest,
+  mapProjectToForm,
+  projectFormSchema,
+} from '../../utils/projectForm';
+
+type EditProjectScreenProps = ProjectsStackScreenProps<'EditProject'>;
+
+const EditProjectScreen: React.FC<EditProjectScreenProps> = ({ navigation, route }) => {
+  const { projectId } = route.params;
+  const { data: project, error } = useProject(projectId);
+  const { mutate: updateProject, isPending: isSubmitting } = useUpdateProject(projectId);
+  // The form is filled once; later refetches must not wipe what the user typed
+  const isFormFilled = useRef(false);
+  const { control, reset, handleSubmit, formState } = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectFormSchema),
+    defaultValues: DEFAULT_PROJECT_FORM_VALUES,
+    mode: 'onTouched',
+  });
+
+  useEffect(() => {
+    if (project && !isFormFilled.current) {
+      isFormFilled.current = true;
+      reset(mapProjectToForm(project));
+    }
+  }, [project, reset]);
+
+  const onSubmit = async (values: ProjectFormValues): Promise<void> => {
+    if (!project) {
+      return;
+    }
+    try {
+      await updateProject(mapProjectFormToUpdateRequest(values, project));
+      Alert.alert('Éxito', SUCCESS_MESSAGES.PROJECT_UPDATED);
+      navigation.goBack();
+    } catch (submitError) {
+      Alert.alert(
+        'Error',
+        (submitError as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR,
+      );
+    }
+  };
+
+  if (!project) {
+    return (
+      <View style={styles.centered}>
+        {error ? (
+          <>
+            <Ionicons name="alert-circle-outline" size={48} color={COLORS.textSecondary} />
+            <Text style={styles.message}>
+              {(error as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR}
+            </Text>
+          </>
+        ) : (
+          <ActivityIndicator size="large" color={COLORS.primary} />
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.sectionTitle}>Datos básicos</Text>
+        <FormTextInput control={control} name="name" label="Nombre del proyecto" />
+        <FormTextInput control={control} name="description" label="Descripción" multiline />
+        <FormTextInput
+          control={control}
+          name="repositoryUrl"
+          label="URL del repositorio (opcional)"
+          placeholder="https://github.com/empresa/proyecto"
+          keyboardType="url"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <FormTextInput
+          control={control}
+          name="branch"
+          label="Rama (opcional)"
+          placeholder="main"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <Text style={styles.sectionTitle}>Conexión</Text>
+        <ConnectionStep control={control} />
+
+        <Text style={styles.sectionTitle}>Documentación</Text>
+        <OutputsStep control={control} errorMessage={formState.errors.root?.message} />
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.primaryButton, isSubmitting && styles.buttonDisabled]}
+          onPress={handleSubmit(onSubmit)}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color={COLORS.background} />
+          ) : (
+            <Text style={styles.primaryButtonText}>Guardar cambios</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.background,
+    padding: SPACING.xl,
+  },
+  message: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
+  content: {
+    padding: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.h5,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginTop: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  footer: {
+    padding: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    backgroundColor: COLORS.background,
+  },
+  primaryButton: {
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default EditProjectScreen;
@@ -1,36 +1,410 @@
-import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
-import { COLORS, TYPOGRAPHY } from '../../constants';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import StatusProgress from '../../components/projects/StatusProgress';
+import StatusTimeline from '../../components/projects/StatusTimeline';
+import { documentationKeys } from '../../hooks/useDocumentation';
+import {
+  projectKeys,
+  updateCachedProject,
+  useGenerateDocumentation,
+  useProject,
+} from '../../hooks/useProjects';
+import { useProjectStatusUpdates } from '../../hooks/useProjectStatusUpdates';
+import projectService from '../../services/projectService';
+import queryClient from '../../services/queryClient';
+import {
+  ApiError,
+  Project,
+  ProjectStatusTransition,
+  ProjectStatusUpdate,
+  ProjectsStackScreenProps,
+} from '../../types';
+import {
+  COLORS,
+  TYPOGRAPHY,
+  SPACING,
+  BORDER_RADIUS,
+  DOCUMENTATION_OUTPUTS,
+  ERROR_MESSAGES,
+} from '../../constants';
+import { maskConnectionString, maskSecret } from '../../utils/masking';
+import {
+  buildFallbackTimeline,
+  getGenerationAvailability,
+  getProjectStatusInfo,
+  isStatusInProgress,
+  isTerminalStatus,
+} from '../../utils/projectStatus';
+
+type ProjectDetailScreenProps = ProjectsStackScreenProps<'ProjectDetail'>;
+
+const DetailRow: React.FC<{ label: string; value?: string | undefined }> = ({ label, value }) => (
+  <View style={styles.row}>
+    <Text style={styles.rowLabel}>{label}</Text>
+    <Text style={styles.rowValue} selectable>
+      {value ? value : '—'}
+    </Text>
+  </View>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <View style={styles.section}>
+    <Text style={styles.sectionTitle}>{title}</Text>
+    {children}
+  </View>
+);
+
+const ProjectDetailScreen: React.FC<ProjectDetailScreenProps> = ({ route }) => {
+  const { projectId } = route.params;
+  const { data: project, error, isLoading, refetch } = useProject(projectId);
+  const { mutate: generateDocumentation, isPending: isGenerating } = useGenerateDocumentation();
+  const [timeline, setTimeline] = useState<ProjectStatusTransition[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  // Set once generation is requested so we follow the project even before it reaches Analyzing
+  const [isFollowing, setIsFollowing] = useState(false);
+
+  const loadTimeline = useCallback(
+    async (current: Project): Promise<void> => {
+      try {
+        const response = await projectService.getStatusHistory(projectId);
+        setTimeline(response.data.length > 0 ? response.data : buildFallbackTimeline(current));
+      } catch (error) {
+        // History not available - show what the project itself tells us
+        setTimeline(buildFallbackTimeline(current));
+      }
+    },
+    [projectId],
+  );
+
+  const projectRef = useRef(project);
+  projectRef.current = project;
+  // Every new version of the project (refetch, edit, finished generation) may add timeline
+  // entries. Live status updates only patch the status and are appended locally instead.
+  const updatedAt = project?.updatedAt;
+  useEffect(() => {
+    if (projectRef.current) {
+      loadTimeline(projectRef.current);
+    }
+  }, [updatedAt, loadTimeline]);
+
+  useEffect(() => {
+    if (error) {
+      Alert.alert('Error', 'No se pudo cargar el proyecto');
+    }
+  }, [error]);
+
+  const handleStatusUpdate = (update: ProjectStatusUpdate): void => {
+    updateCachedProject(projectId, { status: update.status });
+    setTimeline(previous =>
+      previous[previous.length - 1]?.status === update.status
+        ? previous
+        : [
+            ...previous,
+            {
+              status: update.status,
+              changedAt: update.timestamp,
+              ...(update.message ? { message: update.message } : {}),
+            },
+          ],
+    );
+    if (isTerminalStatus(update.status)) {
+      setIsFollowing(false);
+      // Pick up the new version, lastAnalyzedAt and the freshly generated documentation
+      queryClient.invalidateQueries(projectKeys.detail(projectId));
+      queryClient.invalidateQueries(projectKeys.lists());
+      queryClient.invalidateQueries(documentationKeys.project(projectId));
+    }
+  };
+
+  const shouldFollow = isFollowing || (project ? isStatusInProgress(project.status) : false);
+  const liveUpdates = useProjectStatusUpdates(shouldFollow ? [projectId] : [], handleStatusUpdate);
+  const liveUpdate = liveUpdates[projectId];
+
+  const onRefresh = async (): Promise<void> => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  };
+
+  const generate = async (forceRegenerate: boolean): Promise<void> => {
+    try {
+      await generateDocumentation({ projectId, forceRegenerate });
+      setIsFollowing(true);
+      Alert.alert('Generación iniciada', 'La documentación se está generando.');
+    } catch (generateError) {
+      Alert.alert(
+        'Error',
+        (generateError as Partial<ApiError>)?.message ?? ERROR_MESSAGES.UNKNOWN_ERROR,
+      );
+    }
+  };
+
+  const confirmRegenerate = (): void => {
+    Alert.alert(
+      'Regenerar documentación',
+      'Se volverá a analizar el proyecto y se reemplazará la documentación actual.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Regenerar', style: 'destructive', onPress: () => generate(true) },
+      ],
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  if (!project) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="alert-circle-outline" size={48} color={COLORS.textSecondary} />
+        <Text style={styles.emptyText}>{ERROR_MESSAGES.NOT_FOUND}</Text>
+      </View>
+    );
+  }
+
+  const statusInfo = getProjectStatusInfo(project.status);
+  const availability = getGenerationAvailability(project.status);
+  const { connectionConfig, documentationConfig } = project;
 
-const ProjectDetailScreen: React.FC = () => {
   return (
-    <View style={styles.container}>
-      <Text style={styles.title}>Detalle del Proyecto</Text>
-      <Text style={styles.subtitle}>Próximamente disponible</Text>
-    </View>
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[COLORS.primary]} />
+      }
+    >
+      <View style={styles.header}>
+        <View style={styles.headerText}>
+          <Text style={styles.title}>{project.name}</Text>
+          <Text style={styles.description}>{project.description}</Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: statusInfo.color }]}>
+          <Text style={styles.statusText}>{statusInfo.label}</Text>
+        </View>
+      </View>
+
+      <Section title="Generación">
+        <DetailRow label="Versión" value={`v${project.version}`} />
+        <DetailRow
+          label="Último análisis"
+          value={
+            project.lastAnalyzedAt ? new Date(project.lastAnalyzedAt).toLocaleString() : undefined
+          }
+        />
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              (!availability.canGenerate || isGenerating) && styles.buttonDisabled,
+            ]}
+            onPress={() => generate(false)}
+            disabled={!availability.canGenerate || isGenerating}
+          >
+            <Text style={styles.primaryButtonText}>Generar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.secondaryButton,
+              (!availability.canRegenerate || isGenerating) && styles.buttonDisabled,
+            ]}
+            onPress={confirmRegenerate}
+            disabled={!availability.canRegenerate || isGenerating}
+          >
+            <Text style={styles.secondaryButtonText}>Regenerar</Text>
+          </TouchableOpacity>
+        </View>
+        {shouldFollow && !isTerminalStatus(project.status) && (
+          <StatusProgress progress={liveUpdate?.progress} message={liveUpdate?.message} />
+        )}
+        {availability.reason && <Text style={styles.hint}>{availability.reason}</Text>}
+        {isGenerating && <ActivityIndicator style={styles.hint} color={COLORS.primary} />}
+      </Section>
+
+      <Section title="Conexión">
+        <DetailRow
+          label="Conexión"
+          value={maskConnectionString(connectionConfig.connectionString)}
+        />
+        <DetailRow label="Autenticación" value={connectionConfig.authenticationType} />
+        <DetailRow label="Usuario" value={connectionConfig.username} />
+        {connectionConfig.accessToken && (
+          <DetailRow label="Token" value={maskSecret(connectionConfig.accessToken)} />
+        )}
+        <DetailRow label="Tiempo de espera" value={`${connectionConfig.timeoutSeconds} s`} />
+        <DetailRow label="Habilitada" value={connectionConfig.isEnabled ? 'Sí' : 'No'} />
+        <DetailRow label="Repositorio" value={project.repositoryUrl} />
+        <DetailRow label="Rama" value={project.branch} />
+      </Section>
+
+      <Section title="Documentación">
+        {DOCUMENTATION_OUTPUTS.map(output => (
+          <View key={output.key} style={styles.toggleRow}>
+            <Text style={styles.toggleLabel}>{output.label}</Text>
+            <Switch value={documentationConfig[output.key]} disabled />
+          </View>
+        ))}
+        <View style={styles.toggleRow}>
+          <Text style={styles.toggleLabel}>Ejemplos de código</Text>
+          <Switch value={documentationConfig.includeCodeExamples} disabled />
+        </View>
+        <View style={styles.toggleRow}>
+          <Text style={styles.toggleLabel}>Versionado</Text>
+          <Switch value={documentationConfig.includeVersioning} disabled />
+        </View>
+      </Section>
+
+      <Section title="Historial de estados">
+        <StatusTimeline transitions={timeline} />
+      </Section>
+    </ScrollView>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+  },
+  centered: {
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
     backgroundColor: COLORS.background,
-    padding: 20,
+  },
+  emptyText: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: SPACING.md,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: SPACING.sm,
   },
   title: {
-    fontSize: TYPOGRAPHY.h2,
+    fontSize: TYPOGRAPHY.h3,
+    fontWeight: 'bold',
+    color: COLORS.text,
+  },
+  description: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  statusBadge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.sm,
+  },
+  statusText: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.background,
+  },
+  section: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.h6,
     fontWeight: 'bold',
     color: COLORS.text,
-    marginBottom: 10,
+    marginBottom: SPACING.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.xs,
   },
-  subtitle: {
+  rowLabel: {
     fontSize: TYPOGRAPHY.body,
     color: COLORS.textSecondary,
-    textAlign: 'center',
+    marginRight: SPACING.md,
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    textAlign: 'right',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  toggleLabel: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: SPACING.md,
+  },
+  primaryButton: {
+    flex: 1,
+    marginRight: SPACING.sm,
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.sm + SPACING.xs,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: 'bold',
+    color: COLORS.background,
+  },
+  secondaryButton: {
+    flex: 1,
+    marginLeft: SPACING.sm,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.sm + SPACING.xs,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: TYPOGRAPHY.body,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  hint: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
   },
 });
 
 export default ProjectDetailScreen;
-
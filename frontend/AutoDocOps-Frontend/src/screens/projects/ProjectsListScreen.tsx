@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -7,127 +7,44 @@ import {
   StyleSheet,
   RefreshControl,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Project, ProjectStatus, ProjectType } from '../../types';
-import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, PROJECT_STATUS } from '../../constants';
+import { Project, ProjectStatusUpdate, ProjectType, ProjectsStackScreenProps } from '../../types';
+import StatusProgress from '../../components/projects/StatusProgress';
+import { updateCachedProject, useProjects } from '../../hooks/useProjects';
+import { useProjectStatusUpdates } from '../../hooks/useProjectStatusUpdates';
+import { getProjectStatusInfo, isStatusInProgress } from '../../utils/projectStatus';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS } from '../../constants';
 
-interface ProjectsListScreenProps {
-  navigation: any;
-}
+type ProjectsListScreenProps = ProjectsStackScreenProps<'ProjectsList'>;
 
 const ProjectsListScreen: React.FC<ProjectsListScreenProps> = ({ navigation }) => {
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { data, error, isLoading, refetch } = useProjects();
+  const projects = data?.data ?? [];
   const [refreshing, setRefreshing] = useState(false);
 
-  useEffect(() => {
-    loadProjects();
-  }, []);
+  const applyStatusUpdate = (update: ProjectStatusUpdate): void => {
+    updateCachedProject(update.projectId, { status: update.status });
+  };
 
-  const loadProjects = async (): Promise<void> => {
-    try {
-      setIsLoading(true);
-      // TODO: Implement API call to load projects
-      // const response = await projectService.getProjects();
-      // setProjects(response.data);
-      
-      // Mock data for now
-      const mockProjects: Project[] = [
-        {
-          id: '1',
-          name: 'API E-Commerce',
-          description: 'API para sistema de comercio electrónico',
-          type: ProjectType.DotNetApi,
-          status: ProjectStatus.DocumentationGenerated,
-          connectionConfig: {
-            connectionString: 'https://api.ecommerce.com',
-            authenticationType: 'Bearer',
-            isEnabled: true,
-            timeoutSeconds: 30,
-          },
-          repositoryUrl: 'https://github.com/company/ecommerce-api',
-          branch: 'main',
-          preferredLanguage: 1,
-          documentationConfig: {
-            generateOpenApi: true,
-            generateSwaggerUI: true,
-            generatePostmanCollection: true,
-            generateTypeScriptSDK: true,
-            generateCSharpSDK: false,
-            generateERDiagrams: false,
-            generateDataDictionary: false,
-            generateUsageGuides: true,
-            enableSemanticChat: true,
-            diagramFormat: 'PNG',
-            theme: 'Default',
-            includeCodeExamples: true,
-            includeVersioning: true,
-          },
-          lastAnalyzedAt: '2024-08-01T10:30:00Z',
-          version: '1.2.0',
-          createdAt: '2024-07-15T09:00:00Z',
-          updatedAt: '2024-08-01T10:30:00Z',
-          createdBy: 'user1',
-          updatedBy: 'user1',
-          isActive: true,
-        },
-        {
-          id: '2',
-          name: 'Base de Datos Inventario',
-          description: 'Esquema de base de datos para gestión de inventario',
-          type: ProjectType.SqlServerDatabase,
-          status: ProjectStatus.Analyzing,
-          connectionConfig: {
-            connectionString: 'Server=localhost;Database=Inventory;',
-            authenticationType: 'SqlServer',
-            username: 'sa',
-            isEnabled: true,
-            timeoutSeconds: 30,
-          },
-          preferredLanguage: 1,
-          documentationConfig: {
-            generateOpenApi: false,
-            generateSwaggerUI: false,
-            generatePostmanCollection: false,
-            generateTypeScriptSDK: false,
-            generateCSharpSDK: false,
-            generateERDiagrams: true,
-            generateDataDictionary: true,
-            generateUsageGuides: true,
-            enableSemanticChat: true,
-            diagramFormat: 'SVG',
-            theme: 'Default',
-            includeCodeExamples: true,
-            includeVersioning: false,
-          },
-          version: '1.0.0',
-          createdAt: '2024-07-20T14:00:00Z',
-          updatedAt: '2024-08-02T08:15:00Z',
-          createdBy: 'user1',
-          updatedBy: 'user1',
-          isActive: true,
-        },
-      ];
-      
-      setProjects(mockProjects);
-    } catch (error) {
+  const liveUpdates = useProjectStatusUpdates(
+    projects.filter(project => isStatusInProgress(project.status)).map(project => project.id),
+    applyStatusUpdate,
+  );
+
+  useEffect(() => {
+    if (error) {
       Alert.alert('Error', 'No se pudieron cargar los proyectos');
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [error]);
 
   const onRefresh = async (): Promise<void> => {
     setRefreshing(true);
-    await loadProjects();
+    await refetch();
     setRefreshing(false);
   };
 
-  const getStatusInfo = (status: ProjectStatus) => {
-    return PROJECT_STATUS.find(s => s.value === status) || PROJECT_STATUS[0];
-  };
-
   const getProjectTypeIcon = (type: ProjectType): keyof typeof Ionicons.glyphMap => {
     switch (type) {
       case ProjectType.DotNetApi:
@@ -142,8 +59,9 @@ const ProjectsListScreen: React.FC<ProjectsListScreenProps> = ({ navigation }) =
   };
 
   const renderProjectItem = ({ item }: { item: Project }) => {
-    const statusInfo = getStatusInfo(item.status);
-    
+    const statusInfo = getProjectStatusInfo(item.status);
+    const liveUpdate = liveUpdates[item.id];
+
     return (
       <TouchableOpacity
         style={styles.projectCard}
@@ -168,7 +86,11 @@ const ProjectsListScreen: React.FC<ProjectsListScreenProps> = ({ navigation }) =
             <Text style={styles.statusText}>{statusInfo.label}</Text>
           </View>
         </View>
-        
+
+        {isStatusInProgress(item.status) && (
+          <StatusProgress progress={liveUpdate?.progress} message={liveUpdate?.message} />
+        )}
+
         <View style={styles.projectFooter}>
           <Text style={styles.projectVersion}>v{item.version}</Text>
           <Text style={styles.projectDate}>
@@ -179,21 +101,27 @@ const ProjectsListScreen: React.FC<ProjectsListScreenProps> = ({ navigation }) =
     );
   };
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyState}>
-      <Ionicons name="folder-open-outline" size={64} color={COLORS.textSecondary} />
-      <Text style={styles.emptyStateTitle}>No hay proyectos</Text>
-      <Text style={styles.emptyStateDescription}>
-        Crea tu primer proyecto para comenzar a generar documentación automática
-      </Text>
-      <TouchableOpacity
-        style={styles.createButton}
-        onPress={() => navigation.navigate('CreateProject')}
-      >
-        <Text style={styles.createButtonText}>Crear Proyecto</Text>
-      </TouchableOpacity>
-    </View>
-  );
+  const renderEmptyState = () => {
+    if (isLoading) {
+      return <ActivityIndicator size="large" color={COLORS.primary} />;
+    }
+
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="folder-open-outline" size={64} color={COLORS.textSecondary} />
+        <Text style={styles.emptyStateTitle}>No hay proyectos</Text>
+        <Text style={styles.emptyStateDescription}>
+          Crea tu primer proyecto para comenzar a generar documentación automática
+        </Text>
+        <TouchableOpacity
+          style={styles.createButton}
+          onPress={() => navigation.navigate('CreateProject')}
+        >
+          <Text style={styles.createButtonText}>Crear Proyecto</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
 
   return (
     <View style={styles.container}>
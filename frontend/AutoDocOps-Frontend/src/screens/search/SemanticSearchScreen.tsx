@@ -0,0 +1,263 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import ProjectSelector from '../../components/chat/ProjectSelector';
+import SearchResultCard from '../../components/search/SearchResultCard';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import { useProjects } from '../../hooks/useProjects';
+import { useSemanticSearch } from '../../hooks/useSemanticSearch';
+import { RootStackScreenProps, SemanticSearchResult } from '../../types';
+import { COLORS, TYPOGRAPHY, SPACING, BORDER_RADIUS, PAGINATION, SEARCH } from '../../constants';
+import { getResultProjectId, getResultTarget } from '../../utils/searchResults';
+
+type SemanticSearchScreenProps = RootStackScreenProps<'SemanticSearch'>;
+
+const SECTION_TITLES: Record<SemanticSearchResult['type'], string> = {
+  api: 'Endpoints',
+  database: 'Base de datos',
+};
+
+const SemanticSearchScreen: React.FC<SemanticSearchScreenProps> = ({ navigation, route }) => {
+  // Scope chips are optional: while they load, or if they fail, searching all projects still works
+  const { data } = useProjects({ pageSize: PAGINATION.MAX_PAGE_SIZE });
+  const projects = useMemo(() => data?.data ?? [], [data]);
+  const [projectId, setProjectId] = useState<string | null>(route.params?.projectId ?? null);
+  const [query, setQuery] = useState('');
+  const [limit, setLimit] = useState<number>(SEARCH.DEFAULT_LIMIT);
+  const debouncedQuery = useDebouncedValue(query, SEARCH.DEBOUNCE_MS);
+  const { results, isSearching, error } = useSemanticSearch({
+    query: debouncedQuery,
+    limit,
+    ...(projectId ? { projectId } : {}),
+  });
+
+  const projectNames = useMemo(
+    () => new Map(projects.map(project => [project.id, project.name])),
+    [projects],
+  );
+
+  // Results are already sorted by score, grouping keeps that order inside each section
+  const sections = useMemo(
+    () =>
+      (['api', 'database'] as const)
+        .map(type => ({
+          type,
+          title: SECTION_TITLES[type],
+          data: results.filter(result => result.type === type),
+        }))
+        .filter(section => section.data.length > 0),
+    [results],
+  );
+
+  const handleResultPress = (result: SemanticSearchResult): void => {
+    const resultProjectId = projectId ?? getResultProjectId(result);
+    if (!resultProjectId) {
+      Alert.alert('Error', 'No se pudo determinar el proyecto de este resultado.');
+      return;
+    }
+    const target = getResultTarget(result);
+    navigation.navigate('DocumentationViewer', {
+      projectId: resultProjectId,
+      type: result.type,
+      ...(target ? { target } : {}),
+    });
+  };
+
+  const isQueryTooShort = debouncedQuery.trim().length < SEARCH.MIN_QUERY_LENGTH;
+
+  const renderEmptyState = (): React.ReactElement | null => {
+    if (isSearching) {
+      return null;
+    }
+    if (error) {
+      return <Text style={styles.errorText}>{error}</Text>;
+    }
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="search-outline" size={48} color={COLORS.textSecondary} />
+        <Text style={styles.emptyDescription}>
+          {isQueryTooShort
+            ? 'Busca endpoints, tablas o columnas describiendo lo que necesitas.'
+            : 'No se encontraron resultados para esta búsqueda.'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={20} color={COLORS.textSecondary} />
+        <TextInput
+          style={styles.input}
+          placeholder="¿Qué estás buscando?"
+          placeholderTextColor={COLORS.textSecondary}
+          value={query}
+          onChangeText={setQuery}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+          autoFocus
+        />
+        {isSearching ? (
+          <ActivityIndicator size="small" color={COLORS.primary} />
+        ) : (
+          query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')} accessibilityLabel="Limpiar búsqueda">
+              <Ionicons name="close-circle" size={20} color={COLORS.textSecondary} />
+            </TouchableOpacity>
+          )
+        )}
+      </View>
+
+      <ProjectSelector
+        projects={projects}
+        selectedId={projectId}
+        onSelect={setProjectId}
+        allLabel="Todos los proyectos"
+      />
+
+      <View style={styles.limitRow}>
+        <Text style={styles.limitLabel}>Resultados</Text>
+        {SEARCH.LIMIT_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.limitChip, option === limit && styles.limitChipSelected]}
+            onPress={() => setLimit(option)}
+          >
+            <Text style={[styles.limitText, option === limit && styles.limitTextSelected]}>
+              {option}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={item => item.id}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>
+            {section.title} ({section.data.length})
+          </Text>
+        )}
+        renderItem={({ item }) => {
+          const resultProjectId = getResultProjectId(item);
+          const projectName =
+            !projectId && resultProjectId ? projectNames.get(resultProjectId) : undefined;
+          return (
+            <SearchResultCard
+              result={item}
+              query={debouncedQuery}
+              onPress={handleResultPress}
+              {...(projectName ? { projectName } : {})}
+            />
+          );
+        }}
+        contentContainerStyle={styles.results}
+        stickySectionHeadersEnabled={false}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={renderEmptyState}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: SPACING.md,
+    marginBottom: 0,
+    paddingHorizontal: SPACING.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.lg,
+    backgroundColor: COLORS.surface,
+  },
+  input: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.text,
+    paddingVertical: SPACING.sm + 2,
+    marginHorizontal: SPACING.sm,
+  },
+  limitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.md,
+    paddingBottom: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  limitLabel: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.textSecondary,
+    marginRight: SPACING.sm,
+  },
+  limitChip: {
+    paddingHorizontal: SPACING.sm + 2,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.full,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginRight: SPACING.xs,
+  },
+  limitChipSelected: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.primary,
+  },
+  limitText: {
+    fontSize: TYPOGRAPHY.caption,
+    color: COLORS.text,
+  },
+  limitTextSelected: {
+    color: COLORS.background,
+    fontWeight: '600',
+  },
+  results: {
+    padding: SPACING.md,
+    flexGrow: 1,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.caption,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.xl,
+  },
+  emptyDescription: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+    marginTop: SPACING.md,
+  },
+  errorText: {
+    fontSize: TYPOGRAPHY.body,
+    color: COLORS.error,
+    textAlign: 'center',
+    marginTop: SPACING.xl,
+  },
+});
+
+export default SemanticSearchScreen;
@@ -0,0 +1,149 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The real constants module pulls in react-native
+vi.mock('../constants', () => ({
+  API_CONFIG: { BASE_URL: 'https://api.test', TIMEOUT: 1000, RETRY_ATTEMPTS: 1 },
+  STORAGE_KEYS: { AUTH_TOKEN: 'auth_token' },
+  ERROR_MESSAGES: {
+    NETWORK_ERROR: 'network',
+    UNKNOWN_ERROR: 'unknown',
+    UNAUTHORIZED: 'unauthorized',
+    INVALID_RESPONSE: 'invalid',
+  },
+}));
+
+vi.mock('expo-secure-store', () => ({
+  getItemAsync: vi.fn(() => Promise.resolve(null)),
+  setItemAsync: vi.fn(() => Promise.resolve()),
+  deleteItemAsync: vi.fn(() => Promise.resolve()),
+}));
+
+type Handler = (config: InternalAxiosRequestConfig) => Promise<AxiosResponse>;
+
+const getAuthorization = (config: InternalAxiosRequestConfig): string =>
+  String(config.headers.Authorization ?? '');
+
+// Every request of the service goes through this adapter; each test routes it with `answer`.
+// Replays reuse the request config, so what was sent is recorded as it goes out
+let handle: Handler = () => Promise.reject(new Error('No handler'));
+let sent: { url: string; authorization: string }[] = [];
+const adapter: Handler = config => {
+  sent.push({ url: config.url ?? '', authorization: getAuthorization(config) });
+  return handle(config);
+};
+axios.defaults.adapter = adapter;
+
+const answer = (handler: Handler): void => {
+  handle = handler;
+};
+
+// The client is created when the module loads, so the adapter has to be in place first
+const { apiService } = await import('./api');
+
+const respond = (
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown,
+): Promise<AxiosResponse> => {
+  const response = { data, status, statusText: String(status), headers: {}, config };
+  return status < 400
+    ? Promise.resolve(response)
+    : Promise.reject(new AxiosError('Request failed', 'ERR_BAD_REQUEST', config, {}, response));
+};
+
+// Authorization header of each request sent to the url, in order
+const getSentTokens = (url: string): string[] =>
+  sent.filter(request => request.url === url).map(request => request.authorization);
+
+describe('apiService token refresh', () => {
+  beforeEach(async () => {
+    await apiService.setAuthToken('old');
+  });
+
+  afterEach(() => {
+    apiService.setSessionExpiredHandler(null);
+    sent = [];
+  });
+
+  it('refreshes once for concurrent 401s and replays each request with the new token', async () => {
+    answer(config => {
+      if (config.url === '/auth/refresh') {
+        return respond(config, 200, { success: true, data: { token: 'new' } });
+      }
+      return getAuthorization(config) === 'Bearer new'
+        ? respond(config, 200, { success: true, data: config.url })
+        : respond(config, 401, { message: 'Expired' });
+    });
+
+    const results = await Promise.all([apiService.get('/projects'), apiService.get('/users/me')]);
+
+    expect(results.map(result => result.data)).toEqual(['/projects', '/users/me']);
+    expect(getSentTokens('/auth/refresh')).toHaveLength(1);
+    expect(getSentTokens('/projects')).toEqual(['Bearer old', 'Bearer new']);
+    expect(apiService.getAuthToken()).toBe('new');
+  });
+
+  it('replays without a refresh when the token changed while the request was out', async () => {
+    answer(config => {
+      if (getAuthorization(config) === 'Bearer old') {
+        // Another request renewed the session before this 401 arrived
+        return apiService.setAuthToken('renewed').then(() => respond(config, 401, {}));
+      }
+      return respond(config, 200, { success: true, data: 'ok' });
+    });
+
+    const result = await apiService.get('/projects');
+
+    expect(result.data).toBe('ok');
+    expect(getSentTokens('/auth/refresh')).toHaveLength(0);
+    expect(getSentTokens('/projects')).toEqual(['Bearer old', 'Bearer renewed']);
+  });
+
+  it('clears the token and reports the expired session once when the refresh fails', async () => {
+    const onSessionExpired = vi.fn();
+    apiService.setSessionExpiredHandler(onSessionExpired);
+    answer(config => respond(config, 401, { message: 'Expired' }));
+
+    const results = await Promise.allSettled([
+      apiService.get('/projects'),
+      apiService.get('/users/me'),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(results[0]).toMatchObject({ reason: { statusCode: 401, message: 'Expired' } });
+    expect(getSentTokens('/auth/refresh')).toHaveLength(1);
+    expect(apiService.getAuthToken()).toBeNull();
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not refresh when the credentials themselves are rejected', async () => {
+    answer(config => respond(config, 401, { message: 'Wrong password' }));
+
+    await expect(apiService.post('/auth/login', {})).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Wrong password',
+    });
+    expect(getSentTokens('/auth/refresh')).toHaveLength(0);
+    expect(apiService.getAuthToken()).toBe('old');
+  });
+});
+
+describe('apiService response envelope', () => {
+  it('checks the envelope even when the caller gives no schema for the data', async () => {
+    answer(config =>
+      config.url === '/legacy'
+        ? respond(config, 200, ['not', 'an', 'envelope'])
+        : respond(config, 200, { success: false, message: 'Not allowed' }),
+    );
+
+    await expect(apiService.get('/legacy')).rejects.toMatchObject({
+      statusCode: 200,
+      message: 'invalid',
+    });
+    await expect(apiService.delete('/projects/1')).rejects.toMatchObject({
+      message: 'Not allowed',
+      path: '/projects/1',
+    });
+  });
+});
@@ -1,11 +1,30 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import * as SecureStore from 'expo-secure-store';
+import { z } from 'zod';
 import { API_CONFIG, STORAGE_KEYS, ERROR_MESSAGES } from '../constants';
 import { ApiError, ApiResponse } from '../types';
+import { apiResponseSchema, tokenResponseSchema } from '../schemas';
+
+const REFRESH_URL = '/auth/refresh';
+
+// Endpoints where a 401 means bad credentials rather than an expired session
+const UNAUTHENTICATED_URLS = ['/auth/login', '/auth/register', REFRESH_URL];
+
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
+export interface ApiRequestConfig<T> extends AxiosRequestConfig {
+  // Schema for the `data` of the response envelope; a response that doesn't match is rejected
+  schema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
 
 class ApiService {
   private client: AxiosInstance;
   private authToken: string | null = null;
+  // Refresh in flight, shared by every request that gets a 401 meanwhile
+  private refreshPromise: Promise<string> | null = null;
+  private sessionExpiredHandler: (() => void) | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -40,13 +59,29 @@ class ApiService {
         return response;
       },
       async (error) => {
-        const originalRequest = error.config;
+        const originalRequest: RetriableRequestConfig | undefined = error.config;
 
-        if (error.response?.status === 401 && !originalRequest._retry) {
+        if (
+          error.response?.status === 401 &&
+          originalRequest &&
+          !originalRequest._retry &&
+          !UNAUTHENTICATED_URLS.includes(originalRequest.url ?? '') &&
+          this.authToken
+        ) {
           originalRequest._retry = true;
-          await this.clearAuthToken();
-          // Redirect to login screen
-          // NavigationService.navigate('Auth');
+          try {
+            // A refresh finished while this request was in flight: just replay it
+            const sentToken = String(originalRequest.headers.Authorization ?? '').replace(
+              'Bearer ',
+              '',
+            );
+            const token =
+              sentToken === this.authToken ? await this.refreshAuthToken() : this.authToken;
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.client(originalRequest);
+          } catch {
+            // The session can't be renewed; the original 401 is what callers see
+          }
         }
 
         return Promise.reject(this.handleError(error));
@@ -54,6 +89,39 @@ class ApiService {
     );
   }
 
+  /**
+   * Gets a new token from /auth/refresh. Concurrent callers share the same request, so a burst
+   * of 401s triggers a single refresh. If it fails, the stored token is cleared and the session
+   * expired handler runs.
+   */
+  public refreshAuthToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.client
+        .post(REFRESH_URL)
+        .then(async (response) => {
+          // A success: false answer rejects here, like any invalid response
+          const { token } = this.parseResponse(response, tokenResponseSchema).data;
+          await this.setAuthToken(token);
+          return token;
+        })
+        .catch(async (error) => {
+          await this.clearAuthToken();
+          // Logs out and redirects to the login screen through the navigation service
+          this.sessionExpiredHandler?.();
+          throw error;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  // Called when the session can't be refreshed, so the app can log out
+  public setSessionExpiredHandler(handler: (() => void) | null): void {
+    this.sessionExpiredHandler = handler;
+  }
+
   private async loadAuthToken(): Promise<void> {
     try {
       const token = await SecureStore.getItemAsync(STORAGE_KEYS.AUTH_TOKEN);
@@ -83,6 +151,10 @@ class ApiService {
     }
   }
 
+  public getAuthToken(): string | null {
+    return this.authToken;
+  }
+
   private handleError(error: any): ApiError {
     if (error.response) {
       // Server responded with error status
@@ -114,6 +186,46 @@ class ApiService {
     }
   }
 
+  /**
+   * Checks the response envelope, and its data against the schema when one is given. An
+   * envelope with success: false is rejected with the server's message, so a returned response
+   * is always a successful one.
+   */
+  private parseResponse<T>(
+    response: AxiosResponse,
+    schema?: z.ZodType<T, z.ZodTypeDef, unknown>,
+  ): ApiResponse<T> {
+    const result = apiResponseSchema(schema ?? z.unknown()).safeParse(response.data);
+    if (result.success) {
+      const body = result.data;
+      if (!body.success) {
+        const error: ApiError = {
+          statusCode: response.status,
+          message: body.message ?? this.getErrorMessage(response.status),
+          timestamp: new Date().toISOString(),
+          ...(response.config.url ? { path: response.config.url } : {}),
+          correlationId: '',
+        };
+        throw error;
+      }
+      // zod's inferred union over a generic T doesn't narrow on success
+      return body as ApiResponse<T>;
+    }
+
+    const [issue] = result.error.issues;
+    const field = issue?.path.join('.') ?? '';
+    const error: ApiError = {
+      statusCode: response.status,
+      message: ERROR_MESSAGES.INVALID_RESPONSE,
+      details: issue ? `${field || '(root)'}: ${issue.message}` : result.error.message,
+      timestamp: new Date().toISOString(),
+      ...(response.config.url ? { path: response.config.url } : {}),
+      correlationId: '',
+      field,
+    };
+    throw error;
+  }
+
   private getErrorMessage(statusCode: number): string {
     switch (statusCode) {
       case 400:
@@ -137,29 +249,34 @@ class ApiService {
   }
 
   // Generic HTTP methods
-  public async get<T>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    const response = await this.client.get<ApiResponse<T>>(url, config);
-    return response.data;
+  public async get<T>(url: string, config?: ApiRequestConfig<T>): Promise<ApiResponse<T>> {
+    const { schema, ...axiosConfig } = config ?? {};
+    const response = await this.client.get<ApiResponse<T>>(url, axiosConfig);
+    return this.parseResponse(response, schema);
   }
 
-  public async post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    const response = await this.client.post<ApiResponse<T>>(url, data, config);
-    return response.data;
+  public async post<T>(url: string, data?: any, config?: ApiRequestConfig<T>): Promise<ApiResponse<T>> {
+    const { schema, ...axiosConfig } = config ?? {};
+    const response = await this.client.post<ApiResponse<T>>(url, data, axiosConfig);
+    return this.parseResponse(response, schema);
   }
 
-  public async put<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    const response = await this.client.put<ApiResponse<T>>(url, data, config);
-    return response.data;
+  public async put<T>(url: string, data?: any, config?: ApiRequestConfig<T>): Promise<ApiResponse<T>> {
+    const { schema, ...axiosConfig } = config ?? {};
+    const response = await this.client.put<ApiResponse<T>>(url, data, axiosConfig);
+    return this.parseResponse(response, schema);
   }
 
-  public async patch<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    const response = await this.client.patch<ApiResponse<T>>(url, data, config);
-    return response.data;
+  public async patch<T>(url: string, data?: any, config?: ApiRequestConfig<T>): Promise<ApiResponse<T>> {
+    const { schema, ...axiosConfig } = config ?? {};
+    const response = await this.client.patch<ApiResponse<T>>(url, data, axiosConfig);
+    return this.parseResponse(response, schema);
   }
 
-  public async delete<T>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    const response = await this.client.delete<ApiResponse<T>>(url, config);
-    return response.data;
+  public async delete<T>(url: string, config?: ApiRequestConfig<T>): Promise<ApiResponse<T>> {
+    const { schema, ...axiosConfig } = config ?? {};
+    const response = await this.client.delete<ApiResponse<T>>(url, axiosConfig);
+    return this.parseResponse(response, schema);
   }
 
   // Retry mechanism for failed requests
@@ -210,7 +327,7 @@ class ApiService {
     };
 
     const response = await this.client.post<ApiResponse<T>>(url, formData, config);
-    return response.data;
+    return this.parseResponse<T>(response);
   }
 
   // Download file
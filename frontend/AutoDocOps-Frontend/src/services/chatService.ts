@@ -0,0 +1,142 @@
+import { fetch } from 'expo/fetch';
+import apiService from './api';
+import { chatCitationsSchema } from '../schemas';
+import { API_CONFIG, ERROR_MESSAGES } from '../constants';
+import { ApiError, ChatRequest, SemanticSearchResult } from '../types';
+
+export interface ChatStreamHandlers {
+  onToken: (token: string) => void;
+  onCitations?: (citations: SemanticSearchResult[]) => void;
+  signal?: AbortSignal;
+}
+
+// One line of an application/x-ndjson answer stream
+interface ChatStreamEvent {
+  type: 'token' | 'citations' | 'done' | 'error';
+  content?: string;
+  // Checked against chatCitationsSchema before it reaches the handlers
+  citations?: unknown;
+  message?: string;
+}
+
+const createStreamError = (statusCode: number, message: string, details?: string): ApiError => ({
+  statusCode,
+  message,
+  ...(details ? { details } : {}),
+  timestamp: new Date().toISOString(),
+  path: '/chat/stream',
+  correlationId: '',
+});
+
+// A line that isn't JSON fails the answer with a readable message, not the parser's
+const parseStreamEvent = (line: string): ChatStreamEvent => {
+  try {
+    return JSON.parse(line) as ChatStreamEvent;
+  } catch {
+    throw createStreamError(0, ERROR_MESSAGES.INVALID_RESPONSE);
+  }
+};
+
+class ChatService {
+  private postStream(
+    request: ChatRequest,
+    token: string | null,
+    signal?: AbortSignal,
+  ): ReturnType<typeof fetch> {
+    return fetch(`${API_CONFIG.BASE_URL}/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/x-ndjson, text/plain',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(request),
+      ...(signal ? { signal } : {}),
+    });
+  }
+
+  /**
+   * Asks a question about a project and streams the assistant answer token by token.
+   * Accepts either NDJSON events or a plain chunked text body. Resolves with the full answer.
+   */
+  public async streamAnswer(request: ChatRequest, handlers: ChatStreamHandlers): Promise<string> {
+    const sentToken = apiService.getAuthToken();
+    let response = await this.postStream(request, sentToken, handlers.signal);
+
+    // Renews an expired session and retries once, like the api client interceptor does
+    if (response.status === 401 && sentToken) {
+      try {
+        const currentToken = apiService.getAuthToken();
+        const token =
+          currentToken === sentToken ? await apiService.refreshAuthToken() : currentToken;
+        response = await this.postStream(request, token, handlers.signal);
+      } catch {
+        // The session can't be renewed; the original 401 is what callers see
+      }
+    }
+
+    if (!response.ok || !response.body) {
+      throw createStreamError(
+        response.status,
+        response.status === 401 ? ERROR_MESSAGES.UNAUTHORIZED : ERROR_MESSAGES.SERVER_ERROR,
+      );
+    }
+
+    const isNdjson = (response.headers.get('content-type') ?? '').includes('ndjson');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let answer = '';
+    let buffer = '';
+
+    const emit = (text: string): void => {
+      answer += text;
+      handlers.onToken(text);
+    };
+
+    const handleLine = (line: string): void => {
+      if (!line.trim()) {
+        return;
+      }
+      const event = parseStreamEvent(line);
+      if (event.type === 'token' && event.content) {
+        emit(event.content);
+      } else if (event.type === 'citations') {
+        const citations = chatCitationsSchema.safeParse(event.citations);
+        // Malformed citations are dropped; the answer itself is still good
+        if (citations.success) {
+          handlers.onCitations?.(citations.data);
+        }
+      } else if (event.type === 'error') {
+        throw createStreamError(0, ERROR_MESSAGES.SERVER_ERROR, event.message);
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      const chunk = decoder.decode(value, { stream: true });
+
+      if (!isNdjson) {
+        emit(chunk);
+        continue;
+      }
+
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+
+    if (isNdjson) {
+      handleLine(buffer);
+    }
+
+    return answer;
+  }
+}
+
+// Create singleton instance
+export const chatService = new ChatService();
+export default chatService;
@@ -0,0 +1,156 @@
+import { Linking, Platform } from 'react-native';
+import { LinkingOptions, getStateFromPath } from '@react-navigation/native';
+import { DEEP_LINKING } from '../constants';
+import { RootStackParamList } from '../types';
+import navigationService from './navigationService';
+
+// The app scheme, and universal / app links to the web app's host
+const LINKING_PREFIXES = [`${DEEP_LINKING.SCHEME}://`, `https://${DEEP_LINKING.WEB_HOST}`];
+
+const LINKING_CONFIG: NonNullable<LinkingOptions<RootStackParamList>['config']> = {
+  // Linked screens open on top of the tabs, so back leads somewhere useful
+  initialRouteName: 'Main',
+  screens: {
+    Auth: {
+      screens: {
+        Login: 'login',
+        Register: 'register',
+      },
+    },
+    Main: {
+      screens: {
+        Projects: {
+          screens: {
+            ProjectsList: 'projects',
+            CreateProject: 'projects/new',
+            ProjectDetail: 'projects/:projectId',
+            EditProject: 'projects/:projectId/edit',
+          },
+        },
+        Documentation: 'docs',
+        Chat: 'chat',
+        Profile: 'profile',
+      },
+    },
+    DocumentationViewer: 'projects/:projectId/docs/:type',
+  },
+};
+
+// Paths that can be opened without a session; every other link waits for login
+const PUBLIC_PATHS = ['', 'login', 'register'];
+
+// Values the DocumentationViewer :type segment may take
+const DOCUMENTATION_TYPES: readonly string[] = [
+  'api',
+  'database',
+] satisfies RootStackParamList['DocumentationViewer']['type'][];
+
+type LinkState = NonNullable<ReturnType<typeof getStateFromPath>>;
+
+const hasKnownDocumentationTypes = (routes: LinkState['routes']): boolean =>
+  routes.every(
+    route =>
+      (route.name !== 'DocumentationViewer' ||
+        DOCUMENTATION_TYPES.includes(String((route.params as { type?: unknown })?.type))) &&
+      (!route.state || hasKnownDocumentationTypes(route.state.routes)),
+  );
+
+// getStateFromPath, except that a link to an unknown documentation type opens nothing
+const getLinkState = (
+  path: string,
+  options: Parameters<typeof getStateFromPath>[1],
+): LinkState | undefined => {
+  const state = getStateFromPath(path, options);
+  return state && hasKnownDocumentationTypes(state.routes) ? state : undefined;
+};
+
+// Path of an app URL: "autodocops://projects/1" and "https://host/projects/1" give "projects/1"
+const getPath = (url: string): string => {
+  const prefix = LINKING_PREFIXES.find(candidate => url.startsWith(candidate));
+  const path = prefix ? url.slice(prefix.length) : url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '');
+  return path.replace(/^\/+/, '');
+};
+
+const isPublicPath = (path: string): boolean =>
+  PUBLIC_PATHS.includes(path.split(/[?#]/)[0]?.replace(/\/+$/, '') ?? '');
+
+/**
+ * Deep links (autodocops://projects/:projectId, https://<web host>/projects/:projectId, and
+ * /projects/:projectId/docs/:type on web) for the NavigationContainer. The authenticated screens
+ * only exist once the user is logged in, so a link that arrives before that is kept and opened
+ * right after login.
+ */
+class DeepLinkService {
+  private pendingUrl: string | null = null;
+  private initialUrlHandled = false;
+  private browserLocationHeld = false;
+
+  // Returns the URL if it can be opened now, otherwise keeps it for after login
+  private filterUrl(url: string | null, isAuthenticated: boolean): string | null {
+    if (!url || isAuthenticated || isPublicPath(getPath(url))) {
+      return url;
+    }
+    this.pendingUrl = url;
+    return null;
+  }
+
+  public getLinkingOptions(getIsAuthenticated: () => boolean): LinkingOptions<RootStackParamList> {
+    return {
+      prefixes: LINKING_PREFIXES,
+      config: LINKING_CONFIG,
+      getStateFromPath: getLinkState,
+      // Native only; on web the container reads the browser location itself
+      getInitialURL: async () => {
+        // The container remounts around login, but the launch URL must only be opened once
+        if (this.initialUrlHandled) {
+          return null;
+        }
+        this.initialUrlHandled = true;
+        return this.filterUrl(await Linking.getInitialURL(), getIsAuthenticated());
+      },
+      subscribe: listener => {
+        const subscription = Linking.addEventListener('url', ({ url }) => {
+          const allowedUrl = this.filterUrl(url, getIsAuthenticated());
+          if (allowedUrl) {
+            listener(allowedUrl);
+          }
+        });
+        return () => subscription.remove();
+      },
+    };
+  }
+
+  // The web app starts on whatever path the browser asked for, so that one is kept too. Only
+  // the launch location counts: after a logout the browser still shows the last screen.
+  public holdBrowserLocation(): void {
+    if (this.browserLocationHeld) {
+      return;
+    }
+    this.browserLocationHeld = true;
+    if (Platform.OS === 'web' && typeof window !== 'undefined') {
+      this.filterUrl(window.location.href, false);
+    }
+  }
+
+  // Forgets the link kept for after login, so it isn't opened for the next user
+  public clearPendingLink(): void {
+    this.pendingUrl = null;
+  }
+
+  // Opens the link kept while logged out, if any. Call once the session is authenticated.
+  public openPendingLink(): void {
+    const url = this.pendingUrl;
+    this.pendingUrl = null;
+    if (!url) {
+      return;
+    }
+    const state = getLinkState(getPath(url), LINKING_CONFIG);
+    if (state) {
+      navigationService.resetRoot(state);
+    }
+  }
+}
+
+// Create singleton instance
+export const deepLinkService = new DeepLinkService();
+export default deepLinkService;
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import apiService from './api';
+import { ApiDocumentation, ApiResponse, DatabaseSchema, DocumentationVersion } from '../types';
+import {
+  apiDocumentationSchema,
+  databaseSchemaSchema,
+  documentationVersionSchema,
+} from '../schemas';
+
+class DocumentationService {
+  private documentationPath(projectId: string): string {
+    return `/projects/${projectId}/documentation`;
+  }
+
+  // Latest generated API documentation (OpenAPI spec, SDKs, Postman collection...)
+  public async getApiDocumentation(projectId: string): Promise<ApiResponse<ApiDocumentation>> {
+    return apiService.get(`${this.documentationPath(projectId)}/api`, {
+      schema: apiDocumentationSchema,
+    });
+  }
+
+  // Past generations of the API documentation, newest first
+  public async getApiDocumentationVersions(
+    projectId: string,
+  ): Promise<ApiResponse<DocumentationVersion[]>> {
+    return apiService.get(`${this.documentationPath(projectId)}/api/versions`, {
+      schema: z.array(documentationVersionSchema),
+    });
+  }
+
+  // API documentation as it was generated in a past version
+  public async getApiDocumentationVersion(
+    projectId: string,
+    versionId: string,
+  ): Promise<ApiResponse<ApiDocumentation>> {
+    return apiService.get(`${this.documentationPath(projectId)}/api/versions/${versionId}`, {
+      schema: apiDocumentationSchema,
+    });
+  }
+
+  // Makes a past version the current API documentation again; the server records it as a new version
+  public async restoreApiDocumentationVersion(
+    projectId: string,
+    versionId: string,
+  ): Promise<ApiResponse<ApiDocumentation>> {
+    return apiService.post(
+      `${this.documentationPath(projectId)}/api/versions/${versionId}/restore`,
+      undefined,
+      {
+        schema: apiDocumentationSchema,
+      },
+    );
+  }
+
+  // Latest generated database documentation (ER diagram, data dictionary, routines...)
+  public async getDatabaseSchema(projectId: string): Promise<ApiResponse<DatabaseSchema>> {
+    return apiService.get(`${this.documentationPath(projectId)}/database`, {
+      schema: databaseSchemaSchema,
+    });
+  }
+
+  // Past generations of the database documentation, newest first
+  public async getDatabaseSchemaVersions(
+    projectId: string,
+  ): Promise<ApiResponse<DocumentationVersion[]>> {
+    return apiService.get(`${this.documentationPath(projectId)}/database/versions`, {
+      schema: z.array(documentationVersionSchema),
+    });
+  }
+
+  // Database documentation as it was generated in a past version
+  public async getDatabaseSchemaVersion(
+    projectId: string,
+    versionId: string,
+  ): Promise<ApiResponse<DatabaseSchema>> {
+    return apiService.get(`${this.documentationPath(projectId)}/database/versions/${versionId}`, {
+      schema: databaseSchemaSchema,
+    });
+  }
+
+  // Makes a past version the current database documentation again
+  public async restoreDatabaseSchemaVersion(
+    projectId: string,
+    versionId: string,
+  ): Promise<ApiResponse<DatabaseSchema>> {
+    return apiService.post(
+      `${this.documentationPath(projectId)}/database/versions/${versionId}/restore`,
+      undefined,
+      {
+        schema: databaseSchemaSchema,
+      },
+    );
+  }
+}
+
+// Create singleton instance
+export const documentationService = new DocumentationService();
+export default documentationService;
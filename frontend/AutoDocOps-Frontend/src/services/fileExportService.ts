@@ -0,0 +1,93 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import JSZip from 'jszip';
+
+export interface ExportFile {
+  path: string;
+  content: string;
+}
+
+const ZIP_MIME_TYPE = 'application/zip';
+const JSON_MIME_TYPE = 'application/json';
+const MARKDOWN_MIME_TYPE = 'text/markdown';
+
+// iOS needs the uniform type identifier to offer the right apps in the share sheet
+const UTIS: Record<string, string> = {
+  [ZIP_MIME_TYPE]: 'public.zip-archive',
+  [JSON_MIME_TYPE]: 'public.json',
+  [MARKDOWN_MIME_TYPE]: 'net.daringfireball.markdown',
+};
+
+/**
+ * Saves generated files outside the app. On web they are downloaded through the browser;
+ * on native they are written to the cache directory and handed to the share sheet, so they
+ * can be saved to Files or sent to another app.
+ */
+class FileExportService {
+  private downloadBlob(blob: Blob, fileName: string): void {
+    const downloadUrl = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(downloadUrl);
+  }
+
+  private async shareFile(
+    fileName: string,
+    content: string,
+    encoding: FileSystem.EncodingType,
+    mimeType: string,
+  ): Promise<void> {
+    if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) {
+      throw new Error('No se pueden exportar archivos en este dispositivo.');
+    }
+
+    const uri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(uri, content, { encoding });
+    await Sharing.shareAsync(uri, {
+      mimeType,
+      dialogTitle: fileName,
+      ...(UTIS[mimeType] ? { UTI: UTIS[mimeType] } : {}),
+    });
+  }
+
+  public async exportText(content: string, fileName: string, mimeType: string): Promise<void> {
+    if (Platform.OS === 'web') {
+      this.downloadBlob(new Blob([content], { type: mimeType }), fileName);
+      return;
+    }
+    await this.shareFile(fileName, content, FileSystem.EncodingType.UTF8, mimeType);
+  }
+
+  public async exportJson(value: unknown, fileName: string): Promise<void> {
+    await this.exportText(JSON.stringify(value, null, 2), fileName, JSON_MIME_TYPE);
+  }
+
+  public async exportMarkdown(markdown: string, fileName: string): Promise<void> {
+    await this.exportText(markdown, fileName, MARKDOWN_MIME_TYPE);
+  }
+
+  // Packs the files into a zip, keeping their paths as folders inside the archive
+  public async exportArchive(files: ExportFile[], fileName: string): Promise<void> {
+    const zip = new JSZip();
+    files.forEach(file => zip.file(file.path, file.content));
+
+    if (Platform.OS === 'web') {
+      this.downloadBlob(
+        await zip.generateAsync({ type: 'blob', mimeType: ZIP_MIME_TYPE }),
+        fileName,
+      );
+      return;
+    }
+    const content = await zip.generateAsync({ type: 'base64' });
+    await this.shareFile(fileName, content, FileSystem.EncodingType.Base64, ZIP_MIME_TYPE);
+  }
+}
+
+// Create singleton instance
+export const fileExportService = new FileExportService();
+export default fileExportService;
@@ -0,0 +1,74 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+import { RootStackParamList } from '../types';
+
+// Same argument shape as navigation.navigate: params are optional only for screens that allow it
+type NavigateArgs<RouteName extends keyof RootStackParamList = keyof RootStackParamList> =
+  RouteName extends unknown
+    ? undefined extends RootStackParamList[RouteName]
+      ? [screen: RouteName, params?: RootStackParamList[RouteName]]
+      : [screen: RouteName, params: RootStackParamList[RouteName]]
+    : never;
+
+// Attached to the NavigationContainer in AppNavigator
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+/**
+ * Navigation for code that lives outside React components: services, interceptors and
+ * notification handlers. The container isn't mounted while the session is loading, so calls
+ * made before it is ready are queued and run, in order, once it is. The same goes for screens
+ * of the stack the navigator hasn't switched to yet, like Auth right after a logout.
+ */
+class NavigationService {
+  private pendingActions: (() => void)[] = [];
+
+  private run(action: () => void): void {
+    if (navigationRef.isReady()) {
+      action();
+    } else {
+      this.pendingActions.push(action);
+    }
+  }
+
+  // Passed to the NavigationContainer's onReady and onStateChange
+  public flushPendingActions(): void {
+    const actions = this.pendingActions;
+    this.pendingActions = [];
+    actions.forEach(action => action());
+  }
+
+  // Drops queued calls, which were made for the session that is ending
+  public clear(): void {
+    this.pendingActions = [];
+  }
+
+  public navigate(...args: NavigateArgs): void {
+    const [screen] = args;
+    if (navigationRef.isReady() && navigationRef.getRootState()?.routeNames.includes(screen)) {
+      navigationRef.navigate(...args);
+    } else {
+      // Tried again on the next flush, once the navigator has the screen
+      this.pendingActions.push(() => this.navigate(...args));
+    }
+  }
+
+  // Replaces the whole navigation state, e.g. with one built from a deep link
+  public resetRoot(state: Parameters<typeof navigationRef.resetRoot>[0]): void {
+    this.run(() => navigationRef.resetRoot(state));
+  }
+
+  public goBack(): void {
+    if (navigationRef.isReady() && !navigationRef.canGoBack()) {
+      return;
+    }
+    this.run(() => navigationRef.goBack());
+  }
+
+  // Name of the focused screen, which may belong to a nested navigator
+  public getCurrentRouteName(): string | undefined {
+    return navigationRef.isReady() ? navigationRef.getCurrentRoute()?.name : undefined;
+  }
+}
+
+// Create singleton instance
+export const navigationService = new NavigationService();
+export default navigationService;
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import apiService from './api';
+import { PAGINATION } from '../constants';
+import {
+  ApiResponse,
+  CreateProjectRequest,
+  GenerateDocumentationRequest,
+  PaginatedResponse,
+  Project,
+  ProjectStatus,
+  ProjectStatusTransition,
+  ProjectType,
+  UpdateProjectRequest,
+} from '../types';
+import { paginatedResponseSchema, projectSchema, projectStatusTransitionSchema } from '../schemas';
+
+export interface ProjectListParams {
+  page?: number;
+  pageSize?: number;
+  search?: string;
+  status?: ProjectStatus;
+  type?: ProjectType;
+}
+
+class ProjectService {
+  private readonly basePath = '/projects';
+
+  // List projects (paginated)
+  public async getProjects(
+    params: ProjectListParams = {},
+  ): Promise<ApiResponse<PaginatedResponse<Project>>> {
+    return apiService.get(this.basePath, {
+      schema: paginatedResponseSchema(projectSchema),
+      params: {
+        page: 1,
+        pageSize: PAGINATION.DEFAULT_PAGE_SIZE,
+        ...params,
+      },
+    });
+  }
+
+  public async getProject(projectId: string): Promise<ApiResponse<Project>> {
+    return apiService.get(`${this.basePath}/${projectId}`, { schema: projectSchema });
+  }
+
+  public async createProject(request: CreateProjectRequest): Promise<ApiResponse<Project>> {
+    return apiService.post(this.basePath, request, { schema: projectSchema });
+  }
+
+  public async updateProject(
+    projectId: string,
+    request: UpdateProjectRequest,
+  ): Promise<ApiResponse<Project>> {
+    return apiService.put(`${this.basePath}/${projectId}`, request, { schema: projectSchema });
+  }
+
+  public async deleteProject(projectId: string): Promise<ApiResponse<void>> {
+    return apiService.delete<void>(`${this.basePath}/${projectId}`);
+  }
+
+  // Status transitions, oldest first
+  public async getStatusHistory(
+    projectId: string,
+  ): Promise<ApiResponse<ProjectStatusTransition[]>> {
+    return apiService.get(`${this.basePath}/${projectId}/status-history`, {
+      schema: z.array(projectStatusTransitionSchema),
+    });
+  }
+
+  // Trigger documentation generation for a project
+  public async generateDocumentation(
+    request: GenerateDocumentationRequest,
+  ): Promise<ApiResponse<Project>> {
+    const { projectId, forceRegenerate = false } = request;
+    return apiService.post(
+      `${this.basePath}/${projectId}/generate`,
+      { forceRegenerate },
+      { schema: projectSchema },
+    );
+  }
+}
+
+// Create singleton instance
+export const projectService = new ProjectService();
+export default projectService;
@@ -0,0 +1,209 @@
+import { Platform } from 'react-native';
+import EventSource from 'react-native-sse';
+import apiService from './api';
+import { API_CONFIG, STATUS_UPDATES } from '../constants';
+import { ProjectStatusUpdate } from '../types';
+import { projectStatusUpdateSchema } from '../schemas';
+import { isTerminalStatus } from '../utils/projectStatus';
+
+export type ProjectStatusListener = (update: ProjectStatusUpdate) => void;
+export type StatusTransport = 'sse' | 'websocket' | 'polling';
+
+export interface StatusSubscriptionOptions {
+  // Skip the streaming transports and go straight to polling
+  pollingOnly?: boolean;
+  onTransportChange?: (transport: StatusTransport) => void;
+}
+
+// React Native's WebSocket takes request headers as a third argument, the DOM typings don't know it
+type NativeWebSocketConstructor = new (
+  url: string,
+  protocols: string | string[] | null,
+  options: { headers: Record<string, string> },
+) => WebSocket;
+
+const parseStatusUpdate = (raw: unknown): ProjectStatusUpdate | null => {
+  try {
+    const result = projectStatusUpdateSchema.safeParse(
+      typeof raw === 'string' ? JSON.parse(raw) : raw,
+    );
+    if (result.success) {
+      return result.data;
+    }
+  } catch (error) {
+    // Malformed message - ignored
+  }
+  return null;
+};
+
+// One live subscription for a single project
+class StatusSubscription {
+  private stream: EventSource | WebSocket | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollInterval: number = STATUS_UPDATES.POLL_MIN_INTERVAL;
+  private lastUpdate: ProjectStatusUpdate | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly projectId: string,
+    private readonly listener: ProjectStatusListener,
+    private readonly options: StatusSubscriptionOptions,
+  ) {}
+
+  public start(): void {
+    if (this.options.pollingOnly === true || !this.openStream()) {
+      this.startPolling();
+    }
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    this.closeStream();
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private buildStreamUrl(path: string, protocol: 'http' | 'ws'): string {
+    const baseUrl =
+      protocol === 'ws' ? API_CONFIG.BASE_URL.replace(/^http/, 'ws') : API_CONFIG.BASE_URL;
+    return `${baseUrl}/projects/${this.projectId}/status/${path}`;
+  }
+
+  // The token travels in a header, never in the URL where proxies and server logs would keep it
+  private buildAuthHeaders(): Record<string, string> {
+    const token = apiService.getAuthToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  // SSE on web, WebSocket on native; both send the Authorization header
+  private openStream(): boolean {
+    try {
+      if (Platform.OS === 'web') {
+        // The browser EventSource cannot send headers, this XHR based one can
+        const source = new EventSource(this.buildStreamUrl('stream', 'http'), {
+          headers: this.buildAuthHeaders(),
+          // Reconnecting is left to fallbackToPolling
+          pollingInterval: 0,
+        });
+        source.addEventListener('message', event => this.handleMessage(event.data));
+        source.addEventListener('error', () => this.fallbackToPolling());
+        this.stream = source;
+        this.options.onTransportChange?.('sse');
+        return true;
+      }
+
+      if (typeof WebSocket !== 'undefined') {
+        const NativeWebSocket = WebSocket as unknown as NativeWebSocketConstructor;
+        const socket = new NativeWebSocket(this.buildStreamUrl('ws', 'ws'), null, {
+          headers: this.buildAuthHeaders(),
+        });
+        socket.onmessage = event => this.handleMessage(event.data);
+        socket.onerror = () => this.fallbackToPolling();
+        socket.onclose = () => this.fallbackToPolling();
+        this.stream = socket;
+        this.options.onTransportChange?.('websocket');
+        return true;
+      }
+    } catch (error) {
+      // Streaming not available - polling takes over
+    }
+    return false;
+  }
+
+  private closeStream(): void {
+    if (!this.stream) {
+      return;
+    }
+    const stream = this.stream;
+    this.stream = null;
+    if (stream instanceof EventSource) {
+      stream.removeAllEventListeners();
+    } else {
+      stream.onclose = null;
+      stream.onerror = null;
+    }
+    stream.close();
+  }
+
+  private fallbackToPolling(): void {
+    if (this.stopped || this.pollTimer) {
+      return;
+    }
+    this.closeStream();
+    this.startPolling();
+  }
+
+  private handleMessage(raw: unknown): void {
+    const update = parseStatusUpdate(raw);
+    if (update) {
+      this.emit(update);
+    }
+  }
+
+  private emit(update: ProjectStatusUpdate): void {
+    if (this.stopped) {
+      return;
+    }
+    this.lastUpdate = update;
+    this.listener(update);
+    if (isTerminalStatus(update.status)) {
+      this.stop();
+    }
+  }
+
+  private startPolling(): void {
+    this.options.onTransportChange?.('polling');
+    this.pollInterval = STATUS_UPDATES.POLL_MIN_INTERVAL;
+    this.poll();
+  }
+
+  // Poll faster while the status moves, back off while it stays the same
+  private async poll(): Promise<void> {
+    this.pollTimer = null;
+    let changed = false;
+
+    try {
+      const { data: update } = await apiService.get(`/projects/${this.projectId}/status`, {
+        schema: projectStatusUpdateSchema,
+      });
+      changed =
+        update.status !== this.lastUpdate?.status || update.progress !== this.lastUpdate?.progress;
+      if (changed) {
+        this.emit(update);
+      }
+    } catch (error) {
+      // Transient error - keep polling with backoff
+    }
+
+    if (this.stopped) {
+      return;
+    }
+
+    this.pollInterval = changed
+      ? STATUS_UPDATES.POLL_MIN_INTERVAL
+      : Math.min(
+          this.pollInterval * STATUS_UPDATES.POLL_BACKOFF_FACTOR,
+          STATUS_UPDATES.POLL_MAX_INTERVAL,
+        );
+    this.pollTimer = setTimeout(() => this.poll(), this.pollInterval);
+  }
+}
+
+class ProjectStatusService {
+  // Returns an unsubscribe function; the subscription also ends by itself on a terminal status
+  public subscribe(
+    projectId: string,
+    listener: ProjectStatusListener,
+    options: StatusSubscriptionOptions = {},
+  ): () => void {
+    const subscription = new StatusSubscription(projectId, listener, options);
+    subscription.start();
+    return () => subscription.stop();
+  }
+}
+
+// Create singleton instance
+export const projectStatusService = new ProjectStatusService();
+export default projectStatusService;
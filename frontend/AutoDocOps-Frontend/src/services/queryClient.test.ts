@@ -0,0 +1,99 @@
+import { Mock, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { queryClient } from './queryClient';
+
+// The real constants module pulls in react-native
+vi.mock('../constants', () => ({
+  QUERY_CACHE: { STALE_TIME: 1000, GC_TIME: 60 * 1000 },
+}));
+
+// A fetcher that resolves with the given values in turn and counts its calls
+const createFetcher = <T>(...values: T[]): Mock<[], Promise<T>> => {
+  let calls = 0;
+  return vi.fn(() => Promise.resolve(values[Math.min(calls++, values.length - 1)] as T));
+};
+
+describe('queryClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+    vi.useRealTimers();
+  });
+
+  it('shares one request between concurrent fetches of the same key', async () => {
+    const fetcher = createFetcher('project');
+
+    const results = await Promise.all([
+      queryClient.fetchQuery(['projects', 'detail', '1'], fetcher),
+      queryClient.fetchQuery(['projects', 'detail', '1'], fetcher),
+    ]);
+
+    expect(results).toEqual(['project', 'project']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('matches keys whose objects list the same properties in another order', async () => {
+    const fetcher = createFetcher('page');
+
+    await queryClient.fetchQuery(['projects', 'list', { page: 1, search: 'a' }], fetcher);
+    await queryClient.fetchQuery(['projects', 'list', { search: 'a', page: 1 }], fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves fresh data from the cache and refetches once it is stale', async () => {
+    const fetcher = createFetcher('first', 'second');
+    const key = ['projects', 'detail', '1'];
+
+    await queryClient.fetchQuery(key, fetcher);
+    expect(await queryClient.fetchQuery(key, fetcher)).toBe('first');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1001);
+
+    expect(await queryClient.fetchQuery(key, fetcher)).toBe('second');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(queryClient.getState(key).data).toBe('second');
+  });
+
+  it('refetches invalidated queries right away while they are subscribed', async () => {
+    const fetcher = createFetcher('first', 'second');
+    const key = ['projects', 'detail', '1'];
+    const listener = vi.fn();
+    const unsubscribe = queryClient.subscribe(key, listener);
+    await queryClient.fetchQuery(key, fetcher);
+
+    queryClient.invalidateQueries(['projects']);
+    await vi.waitFor(() => expect(queryClient.getState(key).data).toBe('second'));
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(queryClient.getState(key).isInvalidated).toBe(false);
+    unsubscribe();
+  });
+
+  it('refetches invalidated queries nobody shows on their next use, even if fresh', async () => {
+    const fetcher = createFetcher('first', 'second');
+    const key = ['projects', 'detail', '1'];
+    await queryClient.fetchQuery(key, fetcher);
+
+    queryClient.invalidateQueries(['projects', 'detail']);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(queryClient.getState(key).isInvalidated).toBe(true);
+    expect(await queryClient.fetchQuery(key, fetcher)).toBe('second');
+  });
+
+  it('leaves queries outside the invalidated prefix alone', async () => {
+    const fetcher = createFetcher('docs');
+    const key = ['documentation', '1', 'api'];
+    await queryClient.fetchQuery(key, fetcher);
+
+    queryClient.invalidateQueries(['projects']);
+
+    expect(queryClient.getState(key).isInvalidated).toBe(false);
+    await queryClient.fetchQuery(key, fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
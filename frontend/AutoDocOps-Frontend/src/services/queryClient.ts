@@ -0,0 +1,234 @@
+import { QUERY_CACHE } from '../constants';
+
+// Identifies a cached query, from the broadest part to the most specific: ['projects', 'detail', id]
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  // 0 until the first successful fetch
+  updatedAt: number;
+  isFetching: boolean;
+  // Set by invalidateQueries: the next fetch ignores staleTime
+  isInvalidated: boolean;
+}
+
+export interface FetchQueryOptions {
+  staleTime?: number;
+  // Fetch even if the cached data is fresh or a request is already in flight
+  force?: boolean;
+}
+
+type Listener = () => void;
+
+interface QueryEntry<T> {
+  key: QueryKey;
+  hash: string;
+  state: QueryState<T>;
+  promise: Promise<T> | null;
+  // Last fetcher used, so invalidated queries can be refetched without their screen
+  fetcher: (() => Promise<T>) | null;
+  listeners: Set<Listener>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const INITIAL_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+// JSON with sorted object keys, so { page: 1, search: 'a' } and { search: 'a', page: 1 } match
+const hashValue = (value: unknown): string =>
+  JSON.stringify(value, (_, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item,
+  ) ?? 'undefined';
+
+export const hashQueryKey = (key: QueryKey): string => hashValue(key);
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.length <= key.length &&
+  prefix.every((part, index) => hashValue(part) === hashValue(key[index]));
+
+/**
+ * In-memory cache of server data shared by every screen. Concurrent fetches of the same key
+ * share one request, cached data is served while it is refetched, and mutations invalidate
+ * the keys they affect so screens that show them refetch.
+ */
+class QueryClient {
+  private readonly entries = new Map<string, QueryEntry<unknown>>();
+
+  private getEntry<T>(key: QueryKey): QueryEntry<T> {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash) as QueryEntry<T> | undefined;
+    if (!entry) {
+      entry = {
+        key,
+        hash,
+        state: INITIAL_STATE,
+        promise: null,
+        fetcher: null,
+        listeners: new Set(),
+        gcTimer: null,
+      };
+      this.entries.set(hash, entry as QueryEntry<unknown>);
+      this.scheduleGc(entry);
+    }
+    return entry;
+  }
+
+  private setState<T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>): void {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  private scheduleGc<T>(entry: QueryEntry<T>): void {
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+    }
+    entry.gcTimer = setTimeout(() => {
+      entry.gcTimer = null;
+      if (entry.listeners.size > 0) {
+        return;
+      }
+      if (entry.promise) {
+        // Collected once the request settles
+        entry.promise.finally(() => this.scheduleGc(entry)).catch(() => undefined);
+        return;
+      }
+      if (this.entries.get(entry.hash) === entry) {
+        this.entries.delete(entry.hash);
+      }
+    }, QUERY_CACHE.GC_TIME);
+  }
+
+  private findEntries(prefix: QueryKey): QueryEntry<unknown>[] {
+    return [...this.entries.values()].filter(entry => matchesPrefix(entry.key, prefix));
+  }
+
+  // Same object until the entry changes, as useSyncExternalStore requires
+  public getState<T>(key: QueryKey): QueryState<T> {
+    const entry = this.entries.get(hashQueryKey(key)) as QueryEntry<T> | undefined;
+    return entry?.state ?? INITIAL_STATE;
+  }
+
+  public subscribe(key: QueryKey, listener: Listener): () => void {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        this.scheduleGc(entry);
+      }
+    };
+  }
+
+  /**
+   * Resolves with the cached data while it is fresh, otherwise fetches it. A request already
+   * in flight for the key is reused. Errors are kept in the entry and also rethrown.
+   */
+  public fetchQuery<T>(
+    key: QueryKey,
+    fetcher: () => Promise<T>,
+    { staleTime = QUERY_CACHE.STALE_TIME, force = false }: FetchQueryOptions = {},
+  ): Promise<T> {
+    const entry = this.getEntry<T>(key);
+    entry.fetcher = fetcher;
+
+    if (entry.promise && !force) {
+      return entry.promise;
+    }
+
+    const { data, updatedAt, isInvalidated } = entry.state;
+    if (!force && data !== undefined && !isInvalidated && Date.now() - updatedAt < staleTime) {
+      return Promise.resolve(data);
+    }
+
+    const promise = fetcher().then(
+      result => {
+        // A newer forced fetch owns the entry now
+        if (entry.promise === promise) {
+          entry.promise = null;
+          this.setState(entry, {
+            data: result,
+            error: null,
+            updatedAt: Date.now(),
+            isFetching: false,
+            isInvalidated: false,
+          });
+        }
+        return result;
+      },
+      error => {
+        if (entry.promise === promise) {
+          entry.promise = null;
+          this.setState(entry, { error, isFetching: false });
+        }
+        throw error;
+      },
+    );
+    entry.promise = promise;
+    this.setState(entry, { isFetching: true });
+    return promise;
+  }
+
+  // Replaces the cached data, e.g. with the project a mutation returned
+  public setQueryData<T>(key: QueryKey, data: T): void {
+    this.setState(this.getEntry<T>(key), { data, error: null, updatedAt: Date.now() });
+  }
+
+  // Rewrites the data of every cached query under the prefix, e.g. to patch a project in all lists
+  public updateQueriesData<T>(prefix: QueryKey, updater: (data: T) => T): void {
+    this.findEntries(prefix).forEach(entry => {
+      if (entry.state.data !== undefined) {
+        this.setState(entry, { data: updater(entry.state.data as T) });
+      }
+    });
+  }
+
+  /**
+   * Marks every query under the prefix as stale. Queries a screen is showing are refetched
+   * right away, the rest on their next use.
+   */
+  public invalidateQueries(prefix: QueryKey): void {
+    this.findEntries(prefix).forEach(entry => {
+      this.setState(entry, { isInvalidated: true });
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => undefined);
+      }
+    });
+  }
+
+  public removeQueries(prefix: QueryKey): void {
+    this.findEntries(prefix).forEach(entry => {
+      // A response still in flight must not write the removed data back
+      entry.promise = null;
+      if (entry.listeners.size > 0) {
+        // Still on screen: keep the entry so its subscribers see the reset
+        this.setState(entry, INITIAL_STATE);
+        return;
+      }
+      if (entry.gcTimer) {
+        clearTimeout(entry.gcTimer);
+      }
+      this.entries.delete(entry.hash);
+    });
+  }
+
+  // Drops everything, so nothing cached for one user is shown to the next
+  public clear(): void {
+    this.removeQueries([]);
+  }
+}
+
+// Create singleton instance
+export const queryClient = new QueryClient();
+export default queryClient;
@@ -0,0 +1,37 @@
+import * as SecureStore from 'expo-secure-store';
+import { STORAGE_KEYS } from '../constants';
+
+/**
+ * Favourite sample queries, stored per DatabaseSchema as the list of query names. Storage
+ * failures are not fatal: the list simply starts empty.
+ */
+class QueryFavoritesService {
+  private getKey(schemaId: string): string {
+    // SecureStore keys only allow alphanumerics, ".", "-" and "_"
+    return `${STORAGE_KEYS.QUERY_FAVORITES}_${schemaId.replace(/[^\w.-]/g, '_')}`;
+  }
+
+  public async getFavorites(schemaId: string): Promise<string[]> {
+    try {
+      const stored = await SecureStore.getItemAsync(this.getKey(schemaId));
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed)
+        ? parsed.filter((name): name is string => typeof name === 'string')
+        : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  public async setFavorites(schemaId: string, names: string[]): Promise<void> {
+    try {
+      await SecureStore.setItemAsync(this.getKey(schemaId), JSON.stringify(names));
+    } catch (error) {
+      // Error saving favourites - they will last until the screen is closed
+    }
+  }
+}
+
+// Create singleton instance
+export const queryFavoritesService = new QueryFavoritesService();
+export default queryFavoritesService;
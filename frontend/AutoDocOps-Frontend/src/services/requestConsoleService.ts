@@ -0,0 +1,76 @@
+import axios, { AxiosInstance } from 'axios';
+import { API_CONFIG, ERROR_MESSAGES } from '../constants';
+import { ApiError } from '../types';
+import { HttpMethod } from '../types/openApi';
+
+export interface ConsoleRequest {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface ConsoleResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  durationMs: number;
+}
+
+/**
+ * Calls endpoints of the documented APIs. It has its own axios instance so requests never
+ * carry the AutoDocOps session token nor go through apiService's interceptors.
+ */
+class RequestConsoleService {
+  private readonly client: AxiosInstance;
+
+  constructor() {
+    this.client = axios.create({
+      timeout: API_CONFIG.TIMEOUT,
+      // Every status is a result to show, not an error
+      validateStatus: () => true,
+      // Keep the raw body, the viewer decides how to format it
+      transformResponse: [data => data],
+      responseType: 'text',
+    });
+  }
+
+  public async execute(request: ConsoleRequest): Promise<ConsoleResponse> {
+    const startedAt = Date.now();
+    try {
+      const response = await this.client.request<unknown>({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        ...(request.body ? { data: request.body } : {}),
+      });
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(
+          Object.entries(response.headers ?? {}).map(([name, value]) => [name, String(value)]),
+        ),
+        body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data),
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      const isTimeout = axios.isAxiosError(error) && error.code === 'ECONNABORTED';
+      const details = error instanceof Error ? error.message : undefined;
+      const apiError: ApiError = {
+        statusCode: 0,
+        message: isTimeout ? ERROR_MESSAGES.TIMEOUT_ERROR : ERROR_MESSAGES.NETWORK_ERROR,
+        ...(details ? { details } : {}),
+        timestamp: new Date().toISOString(),
+        path: request.url,
+        correlationId: '',
+      };
+      throw apiError;
+    }
+  }
+}
+
+// Create singleton instance
+export const requestConsoleService = new RequestConsoleService();
+export default requestConsoleService;
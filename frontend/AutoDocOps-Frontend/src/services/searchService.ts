@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import apiService from './api';
+import { ApiResponse, SemanticSearchRequest, SemanticSearchResult } from '../types';
+import { semanticSearchResultSchema } from '../schemas';
+
+class SearchService {
+  private readonly basePath = '/search';
+
+  /**
+   * Semantic search over generated documentation. Without projectId every project
+   * the user can access is searched. Results come sorted by score, best first.
+   */
+  public async search(
+    request: SemanticSearchRequest,
+  ): Promise<ApiResponse<SemanticSearchResult[]>> {
+    return apiService.post(this.basePath, request, {
+      schema: z.array(semanticSearchResultSchema),
+    });
+  }
+}
+
+// Create singleton instance
+export const searchService = new SearchService();
+export default searchService;
@@ -1,13 +1,26 @@
 // Tipos principales para AutoDocOps Frontend
+import { CompositeScreenProps, NavigatorScreenParams } from '@react-navigation/native';
+import { StackScreenProps } from '@react-navigation/stack';
+import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
+import type { z } from 'zod';
+import type {
+  apiDocumentationSchema,
+  apiResponseSchema,
+  connectionConfigSchema,
+  databaseSchemaSchema,
+  documentationConfigSchema,
+  documentationVersionSchema,
+  paginatedResponseSchema,
+  projectSchema,
+  projectStatusTransitionSchema,
+  projectStatusUpdateSchema,
+  semanticSearchResultSchema,
+  userSchema,
+} from '../schemas';
 
-export interface User {
-  id: string;
-  email: string;
-  name: string;
-  avatar?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+// Response types are derived from the zod schemas in src/schemas, which validate them at runtime
+
+export type User = z.infer<typeof userSchema>;
 
 export interface AuthState {
   user: User | null;
@@ -37,112 +50,93 @@ export enum Language {
   English = 2,
 }
 
-export interface ConnectionConfig {
-  connectionString: string;
-  authenticationType: string;
-  username?: string;
-  accessToken?: string;
-  additionalSettings?: string;
-  isEnabled: boolean;
-  timeoutSeconds: number;
-}
+export type ConnectionConfig = z.infer<typeof connectionConfigSchema>;
 
-export interface DocumentationConfig {
-  generateOpenApi: boolean;
-  generateSwaggerUI: boolean;
-  generatePostmanCollection: boolean;
-  generateTypeScriptSDK: boolean;
-  generateCSharpSDK: boolean;
-  generateERDiagrams: boolean;
-  generateDataDictionary: boolean;
-  generateUsageGuides: boolean;
-  enableSemanticChat: boolean;
-  diagramFormat: string;
-  theme: string;
-  customSettings?: string;
-  includeCodeExamples: boolean;
-  includeVersioning: boolean;
+export type DocumentationConfig = z.infer<typeof documentationConfigSchema>;
+
+export type Project = z.infer<typeof projectSchema>;
+
+export type ProjectStatusTransition = z.infer<typeof projectStatusTransitionSchema>;
+
+export type ProjectStatusUpdate = z.infer<typeof projectStatusUpdateSchema>;
+
+export type ApiDocumentation = z.infer<typeof apiDocumentationSchema>;
+
+export type DatabaseSchema = z.infer<typeof databaseSchemaSchema>;
+
+// Parsed content of DatabaseSchema.dataDictionary
+export interface DataDictionaryColumn {
+  name: string;
+  dataType: string;
+  isNullable: boolean;
+  isPrimaryKey: boolean;
+  isForeignKey: boolean;
+  references?: { schema?: string; table: string; column?: string };
+  defaultValue?: string;
+  description?: string;
 }
 
-export interface Project {
-  id: string;
+export interface DataDictionaryTable {
+  schema: string;
   name: string;
-  description: string;
-  type: ProjectType;
-  status: ProjectStatus;
-  connectionConfig: ConnectionConfig;
-  repositoryUrl?: string;
-  branch?: string;
-  preferredLanguage: Language;
-  documentationConfig: DocumentationConfig;
-  lastAnalyzedAt?: string;
-  version: string;
-  createdAt: string;
-  updatedAt: string;
-  createdBy: string;
-  updatedBy: string;
-  isActive: boolean;
+  objectType: 'Table' | 'View';
+  description?: string;
+  columns: DataDictionaryColumn[];
 }
 
-export interface ApiDocumentation {
-  id: string;
-  projectId: string;
-  apiName: string;
-  version: string;
-  baseUrl: string;
-  description: string;
-  openApiSpec: string;
-  postmanCollection?: string;
-  typeScriptSDK?: string;
-  cSharpSDK?: string;
-  usageGuides?: string;
-  language: Language;
-  lastGeneratedAt?: string;
-  metadata?: string;
-  createdAt: string;
-  updatedAt: string;
+// Parsed content of DatabaseSchema.storedProceduresDoc, functionsDoc and triggersDoc
+export type RoutineKind = 'procedure' | 'function' | 'trigger';
+
+export interface RoutineParameter {
+  name: string;
+  dataType: string;
+  direction: 'IN' | 'OUT' | 'INOUT';
+  defaultValue?: string;
+  description?: string;
 }
 
-export interface DatabaseSchema {
-  id: string;
-  projectId: string;
-  databaseName: string;
-  schemaName: string;
-  version: string;
-  description: string;
-  schemaDefinition: string;
-  erDiagram?: string;
-  dataDictionary?: string;
-  sampleQueries?: string;
-  storedProceduresDoc?: string;
-  functionsDoc?: string;
-  triggersDoc?: string;
-  usageGuides?: string;
-  language: Language;
-  lastGeneratedAt?: string;
-  metadata?: string;
-  tableCount: number;
-  viewCount: number;
-  storedProcedureCount: number;
-  functionCount: number;
-  createdAt: string;
-  updatedAt: string;
+export interface DatabaseRoutine {
+  kind: RoutineKind;
+  schema?: string;
+  name: string;
+  parameters: RoutineParameter[];
+  returnType?: string;
+  description?: string;
+  definition?: string;
+  // Triggers only
+  table?: string;
+  events?: string[];
 }
 
-export interface ApiResponse<T> {
-  data: T;
-  message?: string;
-  success: boolean;
+// Parsed content of DatabaseSchema.sampleQueries
+export interface SampleQueryParameter {
+  // Placeholder name without the leading "@"
+  name: string;
+  dataType?: string;
+  defaultValue?: string;
+  description?: string;
 }
 
-export interface PaginatedResponse<T> {
-  data: T[];
-  total: number;
-  page: number;
-  pageSize: number;
-  totalPages: number;
+export interface SampleQuery {
+  name: string;
+  description?: string;
+  sql: string;
+  parameters: SampleQueryParameter[];
 }
 
+// A past generation of a project's API or database documentation, newest first in lists
+export type DocumentationVersion = z.infer<typeof documentationVersionSchema>;
+
+// A successful envelope; ApiService rejects the ones with success: false
+export type ApiResponse<T> = Extract<
+  z.infer<ReturnType<typeof apiResponseSchema<z.ZodType<T>>>>,
+  { success: true }
+>;
+
+export type PaginatedResponse<T> = z.infer<
+  ReturnType<typeof paginatedResponseSchema<z.ZodType<T>>>
+>;
+
 export interface CreateProjectRequest {
   name: string;
   description: string;
@@ -168,12 +162,22 @@ export interface GenerateDocumentationRequest {
   forceRegenerate?: boolean;
 }
 
+export type ChatMessageStatus = 'streaming' | 'complete' | 'stopped' | 'error';
+
 export interface ChatMessage {
   id: string;
   content: string;
   role: 'user' | 'assistant';
   timestamp: string;
   projectId?: string;
+  status?: ChatMessageStatus;
+  citations?: SemanticSearchResult[];
+}
+
+export interface ChatRequest {
+  projectId: string;
+  question: string;
+  history: Pick<ChatMessage, 'role' | 'content'>[];
 }
 
 export interface SemanticSearchRequest {
@@ -182,25 +186,33 @@ export interface SemanticSearchRequest {
   limit?: number;
 }
 
-export interface SemanticSearchResult {
-  id: string;
-  content: string;
-  score: number;
-  type: 'api' | 'database';
-  metadata?: Record<string, any>;
-}
+export type SemanticSearchResult = z.infer<typeof semanticSearchResultSchema>;
 
 // Navigation types
 export type RootStackParamList = {
-  Auth: undefined;
-  Main: undefined;
-  ProjectDetail: { projectId: string };
-  DocumentationViewer: { projectId: string; type: 'api' | 'database' };
+  Auth: NavigatorScreenParams<AuthStackParamList> | undefined;
+  Main: NavigatorScreenParams<MainTabParamList> | undefined;
+  DocumentationViewer: {
+    projectId: string;
+    type: 'api' | 'database';
+    target?: string;
+    // Read-only snapshot of a past version instead of the current documentation
+    versionId?: string;
+  };
+  DocumentationHistory: { projectId: string; type: 'api' | 'database' };
+  RequestConsole: { projectId: string; operationKey: string };
+  ApiDiff: { projectId: string; fromVersionId?: string; toVersionId?: string };
+  SemanticSearch: { projectId?: string } | undefined;
   Settings: undefined;
 };
 
+export type AuthStackParamList = {
+  Login: undefined;
+  Register: undefined;
+};
+
 export type MainTabParamList = {
-  Projects: undefined;
+  Projects: NavigatorScreenParams<ProjectsStackParamList> | undefined;
   Documentation: undefined;
   Chat: undefined;
   Profile: undefined;
@@ -213,6 +225,27 @@ export type ProjectsStackParamList = {
   ProjectDetail: { projectId: string };
 };
 
+// Screen props, composed with the parent navigators so screens can reach their routes too
+export type RootStackScreenProps<T extends keyof RootStackParamList> = StackScreenProps<
+  RootStackParamList,
+  T
+>;
+
+export type AuthStackScreenProps<T extends keyof AuthStackParamList> = CompositeScreenProps<
+  StackScreenProps<AuthStackParamList, T>,
+  RootStackScreenProps<keyof RootStackParamList>
+>;
+
+export type MainTabScreenProps<T extends keyof MainTabParamList> = CompositeScreenProps<
+  BottomTabScreenProps<MainTabParamList, T>,
+  RootStackScreenProps<keyof RootStackParamList>
+>;
+
+export type ProjectsStackScreenProps<T extends keyof ProjectsStackParamList> = CompositeScreenProps<
+  StackScreenProps<ProjectsStackParamList, T>,
+  MainTabScreenProps<keyof MainTabParamList>
+>;
+
 // Form types
 export interface LoginForm {
   email: string;
@@ -256,6 +289,8 @@ export interface ApiError {
   timestamp: string;
   path?: string;
   correlationId: string;
+  // Path of the offending field when a response fails schema validation, e.g. "data.items.0.id"
+  field?: string;
 }
 
 // Theme types
@@ -294,4 +329,3 @@ export interface Theme {
     lg: number;
   };
 }
-
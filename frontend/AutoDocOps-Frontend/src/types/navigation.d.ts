@@ -0,0 +1,8 @@
+import { RootStackParamList } from './index';
+
+// Types useNavigation() and navigation refs against the root stack
+declare global {
+  namespace ReactNavigation {
+    interface RootParamList extends RootStackParamList {}
+  }
+}
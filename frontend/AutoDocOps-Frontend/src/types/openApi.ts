@@ -0,0 +1,201 @@
+// Subset of the OpenAPI 3.x document model used by the documentation explorer
+
+export interface OpenApiReference {
+  $ref: string;
+}
+
+export type MaybeRef<T> = T | OpenApiReference;
+
+export type HttpMethod = 'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace';
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export interface OpenApiServer {
+  url: string;
+  description?: string;
+}
+
+export interface OpenApiTag {
+  name: string;
+  description?: string;
+}
+
+export interface OpenApiSchema {
+  type?: string | string[];
+  format?: string;
+  title?: string;
+  description?: string;
+  nullable?: boolean;
+  deprecated?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  enum?: unknown[];
+  default?: unknown;
+  example?: unknown;
+  required?: string[];
+  properties?: Record<string, MaybeRef<OpenApiSchema>>;
+  additionalProperties?: boolean | MaybeRef<OpenApiSchema>;
+  items?: MaybeRef<OpenApiSchema>;
+  allOf?: MaybeRef<OpenApiSchema>[];
+  oneOf?: MaybeRef<OpenApiSchema>[];
+  anyOf?: MaybeRef<OpenApiSchema>[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+export interface OpenApiExample {
+  summary?: string;
+  value?: unknown;
+}
+
+export interface OpenApiMediaType {
+  schema?: MaybeRef<OpenApiSchema>;
+  example?: unknown;
+  examples?: Record<string, MaybeRef<OpenApiExample>>;
+}
+
+export type ParameterLocation = 'path' | 'query' | 'header' | 'cookie';
+
+export interface OpenApiParameter {
+  name: string;
+  in: ParameterLocation;
+  description?: string;
+  required?: boolean;
+  deprecated?: boolean;
+  schema?: MaybeRef<OpenApiSchema>;
+  example?: unknown;
+}
+
+export interface OpenApiRequestBody {
+  description?: string;
+  required?: boolean;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+  description?: string;
+  headers?: Record<string, MaybeRef<Omit<OpenApiParameter, 'name' | 'in'>>>;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: MaybeRef<OpenApiParameter>[];
+  requestBody?: MaybeRef<OpenApiRequestBody>;
+  responses?: Record<string, MaybeRef<OpenApiResponse>>;
+  security?: Record<string, string[]>[];
+}
+
+export type OpenApiPathItem = Partial<Record<HttpMethod, OpenApiOperation>> & {
+  summary?: string;
+  description?: string;
+  parameters?: MaybeRef<OpenApiParameter>[];
+};
+
+export interface OpenApiSecurityScheme {
+  type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect';
+  name?: string;
+  in?: 'query' | 'header' | 'cookie';
+  scheme?: string;
+  bearerFormat?: string;
+  description?: string;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: OpenApiInfo;
+  servers?: OpenApiServer[];
+  tags?: OpenApiTag[];
+  paths?: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, MaybeRef<OpenApiSchema>>;
+    parameters?: Record<string, MaybeRef<OpenApiParameter>>;
+    requestBodies?: Record<string, MaybeRef<OpenApiRequestBody>>;
+    responses?: Record<string, MaybeRef<OpenApiResponse>>;
+    securitySchemes?: Record<string, MaybeRef<OpenApiSecurityScheme>>;
+  };
+  security?: Record<string, string[]>[];
+}
+
+// Explorer view model: operations with their parameters, body and responses already resolved
+
+export interface ParsedMediaType {
+  mediaType: string;
+  schema?: MaybeRef<OpenApiSchema>;
+  example?: unknown;
+}
+
+export interface ParsedResponse {
+  status: string;
+  description: string;
+  content: ParsedMediaType[];
+}
+
+export interface ParsedOperation {
+  // "GET /users/{id}", same key semantic search results use as target
+  key: string;
+  method: HttpMethod;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags: string[];
+  deprecated: boolean;
+  parameters: OpenApiParameter[];
+  requestBody?: {
+    description?: string;
+    required: boolean;
+    content: ParsedMediaType[];
+  };
+  responses: ParsedResponse[];
+  security: Record<string, string[]>[];
+}
+
+export interface ParsedTag {
+  name: string;
+  description?: string;
+  operations: ParsedOperation[];
+}
+
+export interface ParsedOpenApi {
+  document: OpenApiDocument;
+  info: OpenApiInfo;
+  servers: OpenApiServer[];
+  tags: ParsedTag[];
+  operations: ParsedOperation[];
+  schemaNames: string[];
+}
+
+// Differences between two versions of a spec
+
+export type ApiChangeKind = 'added' | 'removed' | 'changed';
+
+export type ApiChangeScope =
+  'operation' | 'parameter' | 'requestBody' | 'response' | 'schema' | 'property';
+
+export interface ApiChange {
+  kind: ApiChangeKind;
+  scope: ApiChangeScope;
+  breaking: boolean;
+  // Operation key ("GET /users/{id}") or schema name
+  location: string;
+  // Parameter, media type, status code or property path inside the location
+  subject?: string;
+  description: string;
+}
+
+export interface ApiDiff {
+  changes: ApiChange[];
+  breakingCount: number;
+}
@@ -0,0 +1,115 @@
+// Subset of the Postman Collection v2.1 format used by the collection viewer
+
+export interface PostmanVariable {
+  key: string;
+  value?: unknown;
+  type?: string;
+  description?: string;
+  disabled?: boolean;
+}
+
+export interface PostmanAuth {
+  type: string;
+  // v2.1 stores each auth type's settings as a key/value list ("bearer": [{ key: "token" }])
+  [type: string]: string | PostmanVariable[] | undefined;
+}
+
+export interface PostmanUrl {
+  raw?: string;
+  protocol?: string;
+  host?: string | string[];
+  path?: string | string[];
+  query?: PostmanVariable[];
+  variable?: PostmanVariable[];
+}
+
+export interface PostmanHeader {
+  key: string;
+  value: string;
+  description?: string;
+  disabled?: boolean;
+}
+
+export interface PostmanBody {
+  mode?: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql';
+  raw?: string;
+  urlencoded?: PostmanVariable[];
+  formdata?: PostmanVariable[];
+  options?: { raw?: { language?: string } };
+}
+
+export interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: PostmanHeader[];
+  body?: PostmanBody;
+  auth?: PostmanAuth;
+  description?: string;
+}
+
+export interface PostmanItem {
+  name?: string;
+  description?: string;
+  // Folders have items, requests have a request
+  item?: PostmanItem[];
+  request?: string | PostmanRequest;
+  auth?: PostmanAuth;
+  variable?: PostmanVariable[];
+}
+
+export interface PostmanCollection {
+  info: {
+    _postman_id?: string;
+    name: string;
+    description?: string;
+    schema: string;
+  };
+  item: PostmanItem[];
+  auth?: PostmanAuth;
+  variable?: PostmanVariable[];
+}
+
+export interface PostmanEnvironment {
+  id: string;
+  name: string;
+  values: { key: string; value: string; type: 'default' | 'secret'; enabled: boolean }[];
+  _postman_variable_scope: 'environment';
+}
+
+// Viewer model: folders and requests with their URL resolved to a single string
+
+export interface ParsedPostmanRequest {
+  type: 'request';
+  // Position in the tree ("0.2.1"), unique even when names repeat
+  id: string;
+  name: string;
+  description?: string;
+  method: string;
+  url: string;
+  headers: PostmanHeader[];
+  body?: string;
+  bodyLanguage?: string;
+  // Effective auth type after inheriting from folders and collection ("bearer", "noauth")
+  authType?: string;
+  // {{variables}} referenced anywhere in the request
+  variables: string[];
+}
+
+export interface ParsedPostmanFolder {
+  type: 'folder';
+  id: string;
+  name: string;
+  description?: string;
+  items: ParsedPostmanNode[];
+}
+
+export type ParsedPostmanNode = ParsedPostmanFolder | ParsedPostmanRequest;
+
+export interface ParsedPostmanCollection {
+  collection: PostmanCollection;
+  name: string;
+  description?: string;
+  variables: PostmanVariable[];
+  items: ParsedPostmanNode[];
+  requestCount: number;
+}
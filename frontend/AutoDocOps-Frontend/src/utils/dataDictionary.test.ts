@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DataDictionaryParseError,
+  filterDataDictionary,
+  findTable,
+  parseDataDictionary,
+} from './dataDictionary';
+
+describe('parseDataDictionary', () => {
+  it('reads a bare array of tables with aliased column keys', () => {
+    const [table] = parseDataDictionary(
+      JSON.stringify([
+        {
+          tableName: 'Users',
+          schemaName: 'auth',
+          comment: 'Cuentas',
+          fields: [
+            { columnName: 'Id', type: 'int', pk: 'yes', nullable: false },
+            { name: 'Email', dataType: 'nvarchar', maxLength: 256, allowNull: 'no' },
+            { name: 'Bio', dataType: 'nvarchar', length: -1, default: "''" },
+          ],
+        },
+      ]),
+    );
+
+    expect(table).toEqual({
+      schema: 'auth',
+      name: 'Users',
+      objectType: 'Table',
+      description: 'Cuentas',
+      columns: [
+        { name: 'Id', dataType: 'int', isNullable: false, isPrimaryKey: true, isForeignKey: false },
+        {
+          name: 'Email',
+          dataType: 'nvarchar(256)',
+          isNullable: false,
+          isPrimaryKey: false,
+          isForeignKey: false,
+        },
+        {
+          name: 'Bio',
+          dataType: 'nvarchar(max)',
+          isNullable: true,
+          isPrimaryKey: false,
+          isForeignKey: false,
+          defaultValue: "''",
+        },
+      ],
+    });
+  });
+
+  it('takes names from the keys of objects keyed by qualified table name', () => {
+    const tables = parseDataDictionary(
+      JSON.stringify({
+        tables: {
+          'sales.Orders': { type: 'VIEW', columns: { Total: { type: 'decimal(10,2)' } } },
+          Customers: { columns: [] },
+        },
+      }),
+    );
+
+    expect(tables.map(table => [table.schema, table.name, table.objectType])).toEqual([
+      ['dbo', 'Customers', 'Table'],
+      ['sales', 'Orders', 'View'],
+    ]);
+    expect(tables[1]?.columns[0]?.name).toBe('Total');
+  });
+
+  it('reads foreign keys given as strings or objects', () => {
+    const [table] = parseDataDictionary(
+      JSON.stringify([
+        {
+          name: 'Orders',
+          columns: [
+            { name: 'CustomerId', references: '[sales].[Customers]([Id])' },
+            { name: 'RoleId', fk: 'Roles.Id' },
+            { name: 'OwnerId', foreignKey: { tableName: 'Users', referencedColumn: 'Id' } },
+            { name: 'Notes', references: '' },
+          ],
+        },
+      ]),
+    );
+
+    expect(table?.columns.map(column => column.references)).toEqual([
+      { schema: 'sales', table: 'Customers', column: 'Id' },
+      { table: 'Roles', column: 'Id' },
+      { table: 'Users', column: 'Id' },
+      undefined,
+    ]);
+    expect(table?.columns.map(column => column.isForeignKey)).toEqual([true, true, true, false]);
+  });
+
+  it('skips tables and columns without a name or that are not objects', () => {
+    const [table] = parseDataDictionary(
+      JSON.stringify([{ name: 'Logs', columns: [{ type: 'int' }, 'Id', { name: 'Id' }] }, 42, {}]),
+    );
+
+    expect(table?.name).toBe('Logs');
+    expect(table?.columns.map(column => [column.name, column.dataType])).toEqual([['Id', '']]);
+  });
+
+  it('rejects invalid JSON and documents without tables', () => {
+    expect(() => parseDataDictionary('{')).toThrow(DataDictionaryParseError);
+    expect(() => parseDataDictionary('')).toThrow(DataDictionaryParseError);
+    expect(() => parseDataDictionary('[]')).toThrow(DataDictionaryParseError);
+    expect(() => parseDataDictionary('{"tables": {}}')).toThrow(DataDictionaryParseError);
+  });
+});
+
+describe('findTable', () => {
+  const tables = parseDataDictionary(
+    JSON.stringify([
+      { schema: 'audit', name: 'Users', columns: [] },
+      { schema: 'dbo', name: 'Users', columns: [] },
+    ]),
+  );
+
+  it('tells apart tables with the same name in different schemas', () => {
+    expect(findTable(tables, 'dbo.users')?.schema).toBe('dbo');
+    expect(findTable(tables, 'Users', 'dbo')?.schema).toBe('dbo');
+    expect(findTable(tables, 'Users')?.schema).toBe('audit');
+    expect(findTable(tables, 'sales.Users')?.schema).toBe('audit');
+    expect(findTable(tables, 'Roles')).toBeUndefined();
+  });
+});
+
+describe('filterDataDictionary', () => {
+  const tables = parseDataDictionary(
+    JSON.stringify([
+      { schema: 'dbo', name: 'Users', columns: [{ name: 'Id' }, { name: 'UserName' }] },
+      { schema: 'sales', name: 'Orders', columns: [{ name: 'Id' }, { name: 'UserId' }] },
+    ]),
+  );
+
+  it('keeps the tables of a schema and only their matching columns', () => {
+    expect(filterDataDictionary(tables, 'sales', '')).toHaveLength(1);
+    expect(
+      filterDataDictionary(tables, null, ' user ').map(table => [
+        table.name,
+        table.columns.map(column => column.name),
+      ]),
+    ).toEqual([
+      ['Users', ['UserName']],
+      ['Orders', ['UserId']],
+    ]);
+    expect(filterDataDictionary(tables, 'dbo', 'total')).toEqual([]);
+  });
+});
@@ -0,0 +1,219 @@
+import { DataDictionaryColumn, DataDictionaryTable } from '../types';
+
+/*
+ * Parser for DatabaseSchema.dataDictionary. The generator emits JSON, but its shape has
+ * changed between versions: a bare array of tables, `{ tables: [...] }` or an object keyed by
+ * "schema.table". Column keys vary too (type/dataType, nullable/isNullable...), so every
+ * field is read from the known aliases.
+ */
+
+export class DataDictionaryParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataDictionaryParseError';
+  }
+}
+
+export const DEFAULT_SCHEMA = 'dbo';
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pickString = (raw: RawObject, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = raw[key];
+    if (typeof value === 'string' && value.trim() !== '') {
+      return value.trim();
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+  }
+  return undefined;
+};
+
+const pickBoolean = (raw: RawObject, keys: string[]): boolean | undefined => {
+  for (const key of keys) {
+    const value = raw[key];
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'string' && /^(true|false|yes|no)$/i.test(value)) {
+      return /^(true|yes)$/i.test(value);
+    }
+  }
+  return undefined;
+};
+
+// "dbo.Roles.Id", "Roles.Id" or "dbo.Roles(Id)"
+const parseReferenceString = (value: string): DataDictionaryColumn['references'] => {
+  const clean = value.replace(/[\[\]\s]/g, '');
+  const parenthesised = clean.match(/^(.+)\((\w+)\)$/);
+  const parts = (parenthesised?.[1] ?? clean).split('.');
+  // Without parentheses a trailing segment after "table" is the column
+  const column = parenthesised ? parenthesised[2] : parts.length > 1 ? parts.pop() : undefined;
+  const table = parts.pop() ?? clean;
+  const schema = parts.pop();
+  return {
+    table,
+    ...(schema ? { schema } : {}),
+    ...(column ? { column } : {}),
+  };
+};
+
+const parseReference = (raw: RawObject): DataDictionaryColumn['references'] => {
+  const reference = raw.references ?? raw.foreignKey ?? raw.fk;
+  if (typeof reference === 'string' && reference.trim() !== '') {
+    return parseReferenceString(reference.trim());
+  }
+  const source = isObject(reference) ? reference : raw;
+  const table = pickString(source, ['table', 'tableName', 'referencedTable', 'referencesTable']);
+  if (!table) {
+    return undefined;
+  }
+  const schema = pickString(source, ['schema', 'schemaName', 'referencedSchema']);
+  const column = pickString(source, ['column', 'columnName', 'referencedColumn']);
+  return {
+    table,
+    ...(schema ? { schema } : {}),
+    ...(column ? { column } : {}),
+  };
+};
+
+// "nvarchar" with a separate maxLength of 50 becomes "nvarchar(50)", -1 meaning max
+const parseDataType = (raw: RawObject): string => {
+  const baseType = pickString(raw, ['dataType', 'type', 'sqlType']) ?? '';
+  const maxLength = pickString(raw, ['maxLength', 'length']);
+  return maxLength && baseType && !baseType.includes('(')
+    ? `${baseType}(${maxLength === '-1' ? 'max' : maxLength})`
+    : baseType;
+};
+
+const parseColumn = (raw: unknown, fallbackName: string): DataDictionaryColumn | null => {
+  if (!isObject(raw)) {
+    return null;
+  }
+  const name = pickString(raw, ['name', 'columnName', 'column']) ?? fallbackName;
+  if (!name) {
+    return null;
+  }
+  const dataType = parseDataType(raw);
+  const references = parseReference(raw);
+  const defaultValue = pickString(raw, ['defaultValue', 'default']);
+  const description = pickString(raw, ['description', 'comment', 'remarks']);
+
+  return {
+    name,
+    dataType,
+    isNullable: pickBoolean(raw, ['isNullable', 'nullable', 'allowNull']) ?? true,
+    isPrimaryKey: pickBoolean(raw, ['isPrimaryKey', 'primaryKey', 'pk']) ?? false,
+    isForeignKey: (pickBoolean(raw, ['isForeignKey', 'foreignKey', 'fk']) ?? false) || !!references,
+    ...(references ? { references } : {}),
+    ...(defaultValue ? { defaultValue } : {}),
+    ...(description ? { description } : {}),
+  };
+};
+
+const parseColumns = (raw: unknown): DataDictionaryColumn[] => {
+  const entries: [string, unknown][] = Array.isArray(raw)
+    ? raw.map(column => ['', column])
+    : isObject(raw)
+      ? Object.entries(raw)
+      : [];
+  return entries
+    .map(([name, column]) => parseColumn(column, name))
+    .filter((column): column is DataDictionaryColumn => column !== null);
+};
+
+const parseTable = (raw: unknown, fallbackName: string): DataDictionaryTable | null => {
+  if (!isObject(raw)) {
+    return null;
+  }
+  const qualifiedName = pickString(raw, ['name', 'tableName', 'table']) ?? fallbackName;
+  if (!qualifiedName) {
+    return null;
+  }
+  // The object key or the name itself may already be qualified ("sales.Orders")
+  const nameParts = qualifiedName.split('.');
+  const name = nameParts.pop() ?? qualifiedName;
+  const schema = pickString(raw, ['schema', 'schemaName']) ?? nameParts.pop() ?? DEFAULT_SCHEMA;
+  const objectType = /view/i.test(pickString(raw, ['objectType', 'type', 'kind']) ?? '')
+    ? 'View'
+    : 'Table';
+  const description = pickString(raw, ['description', 'comment', 'remarks']);
+
+  return {
+    schema,
+    name,
+    objectType,
+    ...(description ? { description } : {}),
+    columns: parseColumns(raw.columns ?? raw.fields),
+  };
+};
+
+export const parseDataDictionary = (text: string): DataDictionaryTable[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new DataDictionaryParseError('El diccionario de datos no es un JSON válido.');
+  }
+
+  const container =
+    isObject(raw) && (raw.tables ?? raw.objects) ? (raw.tables ?? raw.objects) : raw;
+  const entries: [string, unknown][] = Array.isArray(container)
+    ? container.map(table => ['', table])
+    : isObject(container)
+      ? Object.entries(container)
+      : [];
+  const tables = entries
+    .map(([name, table]) => parseTable(table, name))
+    .filter((table): table is DataDictionaryTable => table !== null);
+
+  if (tables.length === 0) {
+    throw new DataDictionaryParseError('El diccionario de datos no contiene tablas.');
+  }
+  return tables.sort((a, b) => a.schema.localeCompare(b.schema) || a.name.localeCompare(b.name));
+};
+
+export const getTableKey = (table: Pick<DataDictionaryTable, 'schema' | 'name'>): string =>
+  `${table.schema}.${table.name}`;
+
+/**
+ * Finds the table a foreign key or documentation target ("dbo.Users", "Users") refers to.
+ * Unqualified names prefer the given schema, then any schema.
+ */
+export const findTable = (
+  tables: DataDictionaryTable[],
+  target: string,
+  preferredSchema?: string,
+): DataDictionaryTable | undefined => {
+  const parts = target.trim().toLowerCase().split('.');
+  const name = parts.pop() ?? '';
+  const schema = parts.pop() ?? preferredSchema?.toLowerCase();
+  const byName = tables.filter(table => table.name.toLowerCase() === name);
+  return byName.find(table => table.schema.toLowerCase() === schema) ?? byName[0];
+};
+
+/**
+ * Keeps the tables of `schema` (null for all) with a column name containing `columnQuery`,
+ * listing only the matching columns.
+ */
+export const filterDataDictionary = (
+  tables: DataDictionaryTable[],
+  schema: string | null,
+  columnQuery: string,
+): DataDictionaryTable[] => {
+  const query = columnQuery.trim().toLowerCase();
+  return tables
+    .filter(table => schema === null || table.schema === schema)
+    .flatMap(table => {
+      if (!query) {
+        return [table];
+      }
+      const columns = table.columns.filter(column => column.name.toLowerCase().includes(query));
+      return columns.length > 0 ? [{ ...table, columns }] : [];
+    });
+};
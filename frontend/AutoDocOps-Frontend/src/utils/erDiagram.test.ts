@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { ErDiagramParseError, findEntity, parseErDiagram } from './erDiagram';
+
+const DIAGRAM = `
+erDiagram
+  CUSTOMER ||--o{ ORDER : places
+  ORDER }|..|| "dbo_Shipping" : "ships with"
+  CUSTOMER["Customers"] {
+    int id PK
+    string email UK "login"
+  }
+  ORDER {
+    int id PK
+    int customer_id FK, PK
+    decimal(10,2) total
+    not an attribute line
+  }
+  AUDIT_LOG
+`;
+
+describe('parseErDiagram', () => {
+  it('reads relationships with their cardinalities and identifying flag', () => {
+    const { relationships } = parseErDiagram(DIAGRAM);
+
+    expect(relationships).toEqual([
+      {
+        from: 'CUSTOMER',
+        to: 'ORDER',
+        fromCardinality: 'exactly-one',
+        toCardinality: 'zero-or-more',
+        identifying: true,
+        label: 'places',
+      },
+      {
+        from: 'ORDER',
+        to: 'dbo_Shipping',
+        fromCardinality: 'one-or-more',
+        toCardinality: 'exactly-one',
+        identifying: false,
+        label: 'ships with',
+      },
+    ]);
+  });
+
+  it('reads entity attributes, keys, comments and labels', () => {
+    const { entities } = parseErDiagram(DIAGRAM);
+    const customer = entities.find(entity => entity.name === 'CUSTOMER');
+    const order = entities.find(entity => entity.name === 'ORDER');
+
+    expect(customer?.label).toBe('Customers');
+    expect(customer?.attributes).toEqual([
+      { type: 'int', name: 'id', keys: ['PK'] },
+      { type: 'string', name: 'email', keys: ['UK'], comment: 'login' },
+    ]);
+    expect(order?.attributes).toEqual([
+      { type: 'int', name: 'id', keys: ['PK'] },
+      { type: 'int', name: 'customer_id', keys: ['FK', 'PK'] },
+      { type: 'decimal(10,2)', name: 'total', keys: [] },
+    ]);
+  });
+
+  it('declares entities named only in relationships or on their own line', () => {
+    const { entities, skippedLines } = parseErDiagram(DIAGRAM);
+
+    expect(entities.map(entity => entity.name)).toEqual([
+      'CUSTOMER',
+      'ORDER',
+      'dbo_Shipping',
+      'AUDIT_LOG',
+    ]);
+    expect(skippedLines).toEqual(['not an attribute line']);
+  });
+
+  it('strips a mermaid fence and comments', () => {
+    const diagram = parseErDiagram(
+      '```mermaid\nerDiagram\n  %% generated\n  A ||--|| B : has\n```',
+    );
+
+    expect(diagram.relationships).toHaveLength(1);
+    expect(diagram.skippedLines).toEqual([]);
+  });
+
+  it('rejects text that is not an erDiagram', () => {
+    expect(() => parseErDiagram('graph TD\n  A --> B')).toThrow(ErDiagramParseError);
+  });
+});
+
+describe('findEntity', () => {
+  const diagram = parseErDiagram(DIAGRAM);
+
+  it('matches schema qualified targets against underscored or plain names', () => {
+    expect(findEntity(diagram, 'dbo.Shipping')?.name).toBe('dbo_Shipping');
+    expect(findEntity(diagram, 'sales.order')?.name).toBe('ORDER');
+  });
+
+  it('falls back to the entity label', () => {
+    expect(findEntity(diagram, 'dbo.Customers')?.name).toBe('CUSTOMER');
+  });
+});
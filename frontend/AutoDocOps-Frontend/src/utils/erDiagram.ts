@@ -0,0 +1,196 @@
+/*
+ * Parser for Mermaid `erDiagram` text as returned in DatabaseSchema.erDiagram:
+ *
+ *   erDiagram
+ *     CUSTOMER ||--o{ ORDER : places
+ *     CUSTOMER {
+ *       int id PK
+ *       string email UK "login"
+ *     }
+ *
+ * The backend output may come wrapped in a ```mermaid fence; it is stripped before parsing.
+ */
+
+export type ErCardinality = 'zero-or-one' | 'exactly-one' | 'zero-or-more' | 'one-or-more';
+
+export type ErAttributeKey = 'PK' | 'FK' | 'UK';
+
+export interface ErAttribute {
+  type: string;
+  name: string;
+  keys: ErAttributeKey[];
+  comment?: string;
+}
+
+export interface ErEntity {
+  name: string;
+  // Display label from the ENTITY["label"] syntax
+  label?: string;
+  attributes: ErAttribute[];
+}
+
+export interface ErRelationship {
+  from: string;
+  to: string;
+  fromCardinality: ErCardinality;
+  toCardinality: ErCardinality;
+  // "--" (identifying) vs ".." (non-identifying)
+  identifying: boolean;
+  label: string;
+}
+
+export interface ErDiagram {
+  entities: ErEntity[];
+  relationships: ErRelationship[];
+  // Lines that could not be understood, kept for diagnostics
+  skippedLines: string[];
+}
+
+export class ErDiagramParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ErDiagramParseError';
+  }
+}
+
+const LEFT_CARDINALITY: Record<string, ErCardinality> = {
+  '|o': 'zero-or-one',
+  '||': 'exactly-one',
+  '}o': 'zero-or-more',
+  '}|': 'one-or-more',
+};
+
+const RIGHT_CARDINALITY: Record<string, ErCardinality> = {
+  'o|': 'zero-or-one',
+  '||': 'exactly-one',
+  'o{': 'zero-or-more',
+  '|{': 'one-or-more',
+};
+
+export const CARDINALITY_LABELS: Record<ErCardinality, string> = {
+  'zero-or-one': '0..1',
+  'exactly-one': '1',
+  'zero-or-more': '0..*',
+  'one-or-more': '1..*',
+};
+
+const NAME = String.raw`(?:"[^"]+"|[\w.\-]+)`;
+const RELATIONSHIP_PATTERN = new RegExp(
+  String.raw`^(${NAME})\s*(\|o|\|\||\}o|\}\|)(--|\.\.)(o\||\|\||o\{|\|\{)\s*(${NAME})\s*:\s*(.*)$`,
+);
+const ENTITY_START_PATTERN = new RegExp(
+  String.raw`^(${NAME})(?:\s*\[\s*"?([^"\]]*)"?\s*\])?\s*\{\s*(\})?$`,
+);
+const ATTRIBUTE_PATTERN =
+  /^([\w().,\[\]<>-]+)\s+([\w-]+)((?:\s+(?:PK|FK|UK)\s*,?)*)?\s*(?:"([^"]*)")?$/;
+
+const unquote = (value: string): string => value.replace(/^"(.*)"$/, '$1');
+
+const stripFence = (text: string): string => {
+  const fenced = text.match(/```(?:mermaid)?\s*\n([\s\S]*?)```/);
+  return fenced?.[1] ?? text;
+};
+
+export const parseErDiagram = (text: string): ErDiagram => {
+  const lines = stripFence(text)
+    .split('\n')
+    .map(line => line.replace(/%%.*$/, '').trim())
+    .filter(Boolean);
+
+  const headerIndex = lines.findIndex(line => /^erDiagram\b/.test(line));
+  if (headerIndex === -1) {
+    throw new ErDiagramParseError('El diagrama no es un erDiagram de Mermaid.');
+  }
+
+  const entities = new Map<string, ErEntity>();
+  const relationships: ErRelationship[] = [];
+  const skippedLines: string[] = [];
+  let currentEntity: ErEntity | null = null;
+
+  const ensureEntity = (name: string): ErEntity => {
+    const existing = entities.get(name);
+    if (existing) {
+      return existing;
+    }
+    const entity: ErEntity = { name, attributes: [] };
+    entities.set(name, entity);
+    return entity;
+  };
+
+  lines.slice(headerIndex + 1).forEach(line => {
+    if (currentEntity) {
+      if (line === '}') {
+        currentEntity = null;
+        return;
+      }
+      const attribute = line.match(ATTRIBUTE_PATTERN);
+      if (!attribute) {
+        skippedLines.push(line);
+        return;
+      }
+      const [, type = '', name = '', keys = '', comment] = attribute;
+      currentEntity.attributes.push({
+        type,
+        name,
+        keys: (keys.match(/PK|FK|UK/g) ?? []) as ErAttributeKey[],
+        ...(comment ? { comment } : {}),
+      });
+      return;
+    }
+
+    const relationship = line.match(RELATIONSHIP_PATTERN);
+    if (relationship) {
+      const [, from = '', left = '', link = '', right = '', to = '', label = ''] = relationship;
+      const fromName = unquote(from);
+      const toName = unquote(to);
+      ensureEntity(fromName);
+      ensureEntity(toName);
+      relationships.push({
+        from: fromName,
+        to: toName,
+        fromCardinality: LEFT_CARDINALITY[left] ?? 'exactly-one',
+        toCardinality: RIGHT_CARDINALITY[right] ?? 'exactly-one',
+        identifying: link === '--',
+        label: unquote(label.trim()),
+      });
+      return;
+    }
+
+    const entityStart = line.match(ENTITY_START_PATTERN);
+    if (entityStart) {
+      const [, name = '', label, closed] = entityStart;
+      const entity = ensureEntity(unquote(name));
+      if (label) {
+        entity.label = label;
+      }
+      currentEntity = closed ? null : entity;
+      return;
+    }
+
+    if (/^direction\s+/.test(line)) {
+      return;
+    }
+    // A bare entity name declares an entity without attributes
+    if (new RegExp(`^${NAME}$`).test(line)) {
+      ensureEntity(unquote(line));
+      return;
+    }
+    skippedLines.push(line);
+  });
+
+  return { entities: Array.from(entities.values()), relationships, skippedLines };
+};
+
+/**
+ * Finds the entity a documentation target ("dbo.Users", "Users") refers to. Mermaid names
+ * can't contain dots, so "dbo_Users" and the plain table name are accepted as well.
+ */
+export const findEntity = (diagram: ErDiagram, target: string): ErEntity | undefined => {
+  const normalized = target.trim().toLowerCase();
+  const tableName = normalized.split('.').pop() ?? normalized;
+  const candidates = [normalized, normalized.replace(/\./g, '_'), tableName];
+  return (
+    diagram.entities.find(entity => candidates.includes(entity.name.toLowerCase())) ??
+    diagram.entities.find(entity => entity.label?.toLowerCase() === tableName)
+  );
+};
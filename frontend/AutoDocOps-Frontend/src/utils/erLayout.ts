@@ -0,0 +1,175 @@
+import { ErDiagram, ErEntity, ErRelationship } from './erDiagram';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface EntityBox {
+  entity: ErEntity;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RelationshipLine {
+  relationship: ErRelationship;
+  start: Point;
+  end: Point;
+}
+
+export interface ErLayout {
+  boxes: EntityBox[];
+  lines: RelationshipLine[];
+  width: number;
+  height: number;
+}
+
+export const ER_LAYOUT = {
+  HEADER_HEIGHT: 28,
+  ROW_HEIGHT: 18,
+  PADDING: 8,
+  CHAR_WIDTH: 7,
+  MIN_WIDTH: 120,
+  MAX_WIDTH: 280,
+  GAP_X: 80,
+  GAP_Y: 60,
+  MARGIN: 24,
+} as const;
+
+const measureEntity = (entity: ErEntity): { width: number; height: number } => {
+  const longest = Math.max(
+    (entity.label ?? entity.name).length + 2,
+    ...entity.attributes.map(
+      attribute =>
+        attribute.type.length + attribute.name.length + attribute.keys.join(',').length + 3,
+    ),
+  );
+  return {
+    width: Math.min(
+      ER_LAYOUT.MAX_WIDTH,
+      Math.max(ER_LAYOUT.MIN_WIDTH, longest * ER_LAYOUT.CHAR_WIDTH + ER_LAYOUT.PADDING * 2),
+    ),
+    height:
+      ER_LAYOUT.HEADER_HEIGHT +
+      Math.max(1, entity.attributes.length) * ER_LAYOUT.ROW_HEIGHT +
+      ER_LAYOUT.PADDING,
+  };
+};
+
+// Most connected entities first, then their neighbours, so related tables end up close
+const orderEntities = (diagram: ErDiagram): ErEntity[] => {
+  const neighbours = new Map<string, Set<string>>();
+  diagram.entities.forEach(entity => neighbours.set(entity.name, new Set()));
+  diagram.relationships.forEach(({ from, to }) => {
+    neighbours.get(from)?.add(to);
+    neighbours.get(to)?.add(from);
+  });
+
+  const byName = new Map(diagram.entities.map(entity => [entity.name, entity]));
+  const remaining = [...diagram.entities].sort(
+    (a, b) => (neighbours.get(b.name)?.size ?? 0) - (neighbours.get(a.name)?.size ?? 0),
+  );
+  const visited = new Set<string>();
+  const ordered: ErEntity[] = [];
+
+  remaining.forEach(start => {
+    const queue = [start.name];
+    while (queue.length > 0) {
+      const name = queue.shift() as string;
+      if (visited.has(name)) {
+        continue;
+      }
+      visited.add(name);
+      const entity = byName.get(name);
+      if (entity) {
+        ordered.push(entity);
+      }
+      queue.push(...Array.from(neighbours.get(name) ?? []).filter(next => !visited.has(next)));
+    }
+  });
+
+  return ordered;
+};
+
+// Point where the segment from the box centre towards `towards` crosses the box border
+const clipToBox = (box: EntityBox, towards: Point): Point => {
+  const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  const dx = towards.x - center.x;
+  const dy = towards.y - center.y;
+  if (dx === 0 && dy === 0) {
+    return center;
+  }
+  const scale = Math.min(
+    dx !== 0 ? box.width / 2 / Math.abs(dx) : Number.POSITIVE_INFINITY,
+    dy !== 0 ? box.height / 2 / Math.abs(dy) : Number.POSITIVE_INFINITY,
+  );
+  return { x: center.x + dx * scale, y: center.y + dy * scale };
+};
+
+/**
+ * Grid layout: entities are placed row by row in a roughly square grid, each row as tall
+ * as its tallest entity. Relationship lines join the box borders.
+ */
+export const layoutErDiagram = (diagram: ErDiagram): ErLayout => {
+  const ordered = orderEntities(diagram);
+  const columns = Math.max(1, Math.ceil(Math.sqrt(ordered.length)));
+  const sizes = ordered.map(measureEntity);
+  const columnWidth = Math.max(ER_LAYOUT.MIN_WIDTH, ...sizes.map(size => size.width));
+
+  const boxes: EntityBox[] = [];
+  let y = ER_LAYOUT.MARGIN;
+  for (let rowStart = 0; rowStart < ordered.length; rowStart += columns) {
+    const rowSizes = sizes.slice(rowStart, rowStart + columns);
+    ordered.slice(rowStart, rowStart + columns).forEach((entity, column) => {
+      const size = rowSizes[column] ?? { width: ER_LAYOUT.MIN_WIDTH, height: 0 };
+      boxes.push({
+        entity,
+        x: ER_LAYOUT.MARGIN + column * (columnWidth + ER_LAYOUT.GAP_X),
+        y,
+        ...size,
+      });
+    });
+    y += Math.max(...rowSizes.map(size => size.height)) + ER_LAYOUT.GAP_Y;
+  }
+
+  const boxByName = new Map(boxes.map(box => [box.entity.name, box]));
+  const center = (box: EntityBox): Point => ({
+    x: box.x + box.width / 2,
+    y: box.y + box.height / 2,
+  });
+
+  const lines = diagram.relationships.flatMap(relationship => {
+    const fromBox = boxByName.get(relationship.from);
+    const toBox = boxByName.get(relationship.to);
+    if (!fromBox || !toBox) {
+      return [];
+    }
+    // Self references leave and re-enter through the right border, drawn as a loop
+    if (fromBox === toBox) {
+      const x = fromBox.x + fromBox.width;
+      return [
+        {
+          relationship,
+          start: { x, y: fromBox.y + fromBox.height / 3 },
+          end: { x, y: fromBox.y + (fromBox.height * 2) / 3 },
+        },
+      ];
+    }
+    return [
+      {
+        relationship,
+        start: clipToBox(fromBox, center(toBox)),
+        end: clipToBox(toBox, center(fromBox)),
+      },
+    ];
+  });
+
+  return {
+    boxes,
+    lines,
+    width: ER_LAYOUT.MARGIN * 2 + columns * columnWidth + (columns - 1) * ER_LAYOUT.GAP_X,
+    height: y - ER_LAYOUT.GAP_Y + ER_LAYOUT.MARGIN,
+  };
+};
@@ -0,0 +1,8 @@
+// "Órdenes API v2" -> "ordenes-api-v2", safe as a file name on every platform
+export const toFileSlug = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
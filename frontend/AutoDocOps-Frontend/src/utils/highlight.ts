@@ -0,0 +1,66 @@
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Distinct words of the query, longest first so overlapping terms match greedily
+export const getQueryTerms = (query: string): string[] =>
+  Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(term => term.length > 1),
+    ),
+  ).sort((a, b) => b.length - a.length);
+
+/**
+ * Splits text into plain and highlighted segments for every occurrence of the query terms
+ * (case-insensitive).
+ */
+export const highlightTerms = (text: string, query: string): HighlightSegment[] => {
+  const terms = getQueryTerms(query);
+  if (terms.length === 0 || !text) {
+    return [{ text, highlight: false }];
+  }
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, highlight: terms.includes(part.toLowerCase()) }));
+};
+
+/**
+ * Cuts a window of at most maxLength characters around the first query match, so long
+ * documentation chunks show the relevant part, then highlights the terms inside it.
+ */
+export const buildSnippet = (
+  content: string,
+  query: string,
+  maxLength: number,
+): HighlightSegment[] => {
+  const normalized = content.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= maxLength) {
+    return highlightTerms(normalized, query);
+  }
+
+  const lower = normalized.toLowerCase();
+  const firstMatch = getQueryTerms(query)
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0)
+    .reduce((min, index) => Math.min(min, index), Number.POSITIVE_INFINITY);
+
+  // Keep some leading context before the match
+  const start = Number.isFinite(firstMatch)
+    ? Math.max(0, Math.min(firstMatch - Math.floor(maxLength / 4), normalized.length - maxLength))
+    : 0;
+  const end = start + maxLength;
+  const window = `${start > 0 ? '…' : ''}${normalized.slice(start, end).trim()}${
+    end < normalized.length ? '…' : ''
+  }`;
+
+  return highlightTerms(window, query);
+};
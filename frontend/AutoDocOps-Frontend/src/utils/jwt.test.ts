@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { decodeJwtPayload, getTokenExpiry, isTokenExpired } from './jwt';
+
+// Unsigned token with the given claims, encoded the way JWTs are (base64url, no padding)
+const createToken = (claims: object): string => {
+  const encode = (value: object): string =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+};
+
+describe('decodeJwtPayload', () => {
+  it('reads base64url payloads with UTF-8 claims', () => {
+    // The payload's base64 has a '+' and padding, which base64url replaces and drops
+    const claims = { sub: '42', name: 'Íñigo Núñez', note: 'ñó?>' };
+
+    expect(decodeJwtPayload(createToken(claims))).toEqual(claims);
+  });
+
+  it('returns null for opaque tokens and unreadable payloads', () => {
+    expect(decodeJwtPayload('opaque-token')).toBeNull();
+    expect(decodeJwtPayload('header.not-json.signature')).toBeNull();
+    expect(
+      decodeJwtPayload(`header.${Buffer.from('"text"').toString('base64url')}.sig`),
+    ).toBeNull();
+  });
+});
+
+describe('getTokenExpiry', () => {
+  it('converts exp to milliseconds', () => {
+    expect(getTokenExpiry(createToken({ exp: 1700000000 }))).toBe(1700000000000);
+  });
+
+  it('returns null without a numeric exp', () => {
+    expect(getTokenExpiry(createToken({ sub: '42' }))).toBeNull();
+    expect(getTokenExpiry(createToken({ exp: '1700000000' }))).toBeNull();
+    expect(getTokenExpiry('opaque-token')).toBeNull();
+  });
+});
+
+describe('isTokenExpired', () => {
+  const token = createToken({ exp: 1000 });
+
+  it('compares the expiry, minus the margin, with the current time', () => {
+    expect(isTokenExpired(token, 0, 999_999)).toBe(false);
+    expect(isTokenExpired(token, 0, 1_000_000)).toBe(true);
+    expect(isTokenExpired(token, 60_000, 940_000)).toBe(true);
+  });
+
+  it('never considers tokens without a readable expiry expired', () => {
+    expect(isTokenExpired('opaque-token', 0, Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+});
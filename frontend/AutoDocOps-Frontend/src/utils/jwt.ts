@@ -0,0 +1,44 @@
+export interface JwtPayload {
+  // Expiry, in seconds since the epoch
+  exp?: number;
+  iat?: number;
+  sub?: string;
+  [claim: string]: unknown;
+}
+
+// base64url as used by JWT segments: no padding, '-' and '_' instead of '+' and '/'
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+  // Claims are UTF-8; atob gives one char per byte
+  return decodeURIComponent(
+    Array.from(binary, char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join(''),
+  );
+};
+
+// Reads the payload without verifying the signature; only the server can trust its contents
+export const decodeJwtPayload = (token: string): JwtPayload | null => {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return null;
+  }
+  try {
+    const claims: unknown = JSON.parse(decodeBase64Url(payload));
+    return typeof claims === 'object' && claims !== null ? (claims as JwtPayload) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Expiry in milliseconds since the epoch, or null when the token is opaque or has no exp
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+// Tokens without a readable exp are never considered expired; the server has the last word
+export const isTokenExpired = (token: string, marginMs = 0, now = Date.now()): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - marginMs <= now;
+};
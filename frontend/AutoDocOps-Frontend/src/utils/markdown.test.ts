@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown, slugify } from './markdown';
+
+describe('parseInline', () => {
+  it('parses code, links, strong and emphasis', () => {
+    expect(parseInline('Call `GET /users` with **[a token](https://x.io)** or _none_')).toEqual([
+      { type: 'text', text: 'Call ' },
+      { type: 'code', text: 'GET /users' },
+      { type: 'text', text: ' with ' },
+      {
+        type: 'strong',
+        children: [
+          { type: 'link', href: 'https://x.io', children: [{ type: 'text', text: 'a token' }] },
+        ],
+      },
+      { type: 'text', text: ' or ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'none' }] },
+    ]);
+  });
+
+  it('keeps escaped characters and snake_case words as text', () => {
+    expect(parseInline('\\*not bold\\* user_id')).toEqual([
+      { type: 'text', text: '*not bold* user_id' },
+    ]);
+  });
+
+  it('turns two trailing spaces into a hard break', () => {
+    expect(parseInline('one  \ntwo\nthree')).toEqual([
+      { type: 'text', text: 'one' },
+      { type: 'break' },
+      { type: 'text', text: 'two three' },
+    ]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('parses fenced code, lists, quotes, tables and rules', () => {
+    const { blocks } = parseMarkdown(
+      [
+        '```TS',
+        'const a = 1;',
+        '```',
+        '',
+        '3. first',
+        '4. second',
+        '   continued',
+        '',
+        '> quoted',
+        '',
+        '| Name | Type |',
+        '| --- | --- |',
+        '| id | a\\|b |',
+        '',
+        '---',
+      ].join('\n'),
+    );
+
+    expect(blocks.map(block => block.type)).toEqual([
+      'code',
+      'list',
+      'blockquote',
+      'table',
+      'rule',
+    ]);
+    expect(blocks[0]).toEqual({ type: 'code', language: 'ts', code: 'const a = 1;' });
+    expect(blocks[1]).toMatchObject({ ordered: true, start: 3 });
+    expect(blocks[1]?.type === 'list' && blocks[1].items[1]).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: 'second continued' }] },
+    ]);
+    expect(blocks[3]?.type === 'table' && blocks[3].rows[0]?.[1]).toEqual([
+      { type: 'text', text: 'a|b' },
+    ]);
+  });
+
+  it('builds unique heading ids and a table of contents up to the given level', () => {
+    const { blocks, toc } = parseMarkdown('# Setup\n## Setup\n### Install `cli`\n#### Deep', 3);
+
+    expect(blocks.flatMap(block => (block.type === 'heading' ? [block.id] : []))).toEqual([
+      'setup',
+      'setup-1',
+      'install-cli',
+      'deep',
+    ]);
+    expect(toc).toEqual([
+      { id: 'setup', level: 1, text: 'Setup' },
+      { id: 'setup-1', level: 2, text: 'Setup' },
+      { id: 'install-cli', level: 3, text: 'Install cli' },
+    ]);
+  });
+});
+
+describe('slugify', () => {
+  it('keeps accented letters and drops punctuation', () => {
+    expect(slugify(' Configuración: Paso 1! ')).toBe('configuración-paso-1');
+  });
+});
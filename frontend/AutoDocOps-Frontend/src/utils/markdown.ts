@@ -0,0 +1,416 @@
+/*
+ * Markdown parser for the generated usage guides. It covers the CommonMark subset the
+ * generator emits (ATX headings, paragraphs, fenced code, lists, block quotes, pipe tables,
+ * rules and the usual inline markup) and returns a tree the renderer maps to native views,
+ * so the same output works on native and web.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'break' }
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; id: string; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language?: string; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+export interface TocEntry {
+  id: string;
+  level: number;
+  text: string;
+}
+
+export interface MarkdownDocument {
+  blocks: MarkdownBlock[];
+  toc: TocEntry[];
+}
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})\s*([\w#+.-]*)/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^\s{0,3}(?:(?:-\s*){3,}|(?:\*\s*){3,}|(?:_\s*){3,})$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Ordered by precedence; each pattern is anchored at the current position
+const INLINE_RULES: { pattern: RegExp; build: (match: RegExpExecArray) => MarkdownInline }[] = [
+  {
+    pattern: /`+([^`]|[^`][\s\S]*?[^`])`+/y,
+    build: match => ({ type: 'code', text: match[1] ?? '' }),
+  },
+  {
+    pattern: /!?\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)/y,
+    build: match => ({
+      type: 'link',
+      href: match[2] ?? '',
+      children: parseInline(match[1] ?? ''),
+    }),
+  },
+  {
+    pattern: /<(https?:\/\/[^>\s]+)>/y,
+    build: match => ({
+      type: 'link',
+      href: match[1] ?? '',
+      children: [{ type: 'text', text: match[1] ?? '' }],
+    }),
+  },
+  {
+    pattern: /(\*\*|__)(?=\S)([\s\S]*?\S)\1/y,
+    build: match => ({ type: 'strong', children: parseInline(match[2] ?? '') }),
+  },
+  {
+    pattern: /~~(?=\S)([\s\S]*?\S)~~/y,
+    build: match => ({ type: 'strikethrough', children: parseInline(match[1] ?? '') }),
+  },
+  {
+    pattern: /(\*|_)(?=\S)([\s\S]*?\S)\1(?!\w)/y,
+    build: match => ({ type: 'emphasis', children: parseInline(match[2] ?? '') }),
+  },
+];
+
+const SPECIAL_CHARACTERS = /[`!\[<*_~\\\n]/g;
+
+// Appends text to the previous text node so runs of plain text stay one node
+const pushText = (nodes: MarkdownInline[], value: string): void => {
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += value;
+  } else if (value) {
+    nodes.push({ type: 'text', text: value });
+  }
+};
+
+// Two trailing spaces mark a hard break, otherwise the newline is a space
+const pushNewline = (nodes: MarkdownInline[], before: string): void => {
+  if (!/ {2,}$/.test(before)) {
+    pushText(nodes, ' ');
+    return;
+  }
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text = last.text.replace(/ +$/, '');
+  }
+  nodes.push({ type: 'break' });
+};
+
+// Markup starting at the position, with the number of characters it spans
+const matchInlineRule = (
+  text: string,
+  position: number,
+): { node: MarkdownInline; length: number } | null => {
+  for (const rule of INLINE_RULES) {
+    rule.pattern.lastIndex = position;
+    const match = rule.pattern.exec(text);
+    if (match) {
+      return { node: rule.build(match), length: match[0].length };
+    }
+  }
+  return null;
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let position = 0;
+  while (position < text.length) {
+    const char = text[position] ?? '';
+    const escaped = char === '\\' ? (text[position + 1] ?? '') : '';
+    if (/[\\`*_{}\[\]()#+\-.!~|<>]/.test(escaped)) {
+      pushText(nodes, escaped);
+      position += 2;
+      continue;
+    }
+    if (char === '\n') {
+      pushNewline(nodes, text.slice(0, position));
+      position += 1;
+      continue;
+    }
+
+    const markup = matchInlineRule(text, position);
+    if (markup) {
+      nodes.push(markup.node);
+      position += markup.length;
+      continue;
+    }
+
+    // Copy plain text up to the next character that could start markup
+    SPECIAL_CHARACTERS.lastIndex = position + 1;
+    const next = SPECIAL_CHARACTERS.exec(text);
+    const end = next ? next.index : text.length;
+    pushText(nodes, text.slice(position, end));
+    position = end;
+  }
+
+  return nodes;
+};
+
+export const getInlineText = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'break':
+          return ' ';
+        default:
+          return getInlineText(node.children);
+      }
+    })
+    .join('');
+
+// GitHub-style anchor: lower case, punctuation dropped, spaces to hyphens
+export const slugify = (text: string): string =>
+  text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s+/g, '-');
+
+const splitTableRow = (line: string): string[] =>
+  line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const startsBlock = (line: string): boolean =>
+  FENCE_PATTERN.test(line) ||
+  HEADING_PATTERN.test(line) ||
+  RULE_PATTERN.test(line) ||
+  QUOTE_PATTERN.test(line) ||
+  LIST_ITEM_PATTERN.test(line);
+
+// A parsed block and the index of the first line after it
+interface BlockMatch {
+  block: MarkdownBlock;
+  next: number;
+}
+
+// Parses the block starting at lines[index], or returns null when the line doesn't start one
+type BlockParser = (
+  lines: string[],
+  index: number,
+  usedIds: Map<string, number>,
+) => BlockMatch | null;
+
+const parseFence: BlockParser = (lines, index) => {
+  const fence = (lines[index] ?? '').match(FENCE_PATTERN);
+  if (!fence) {
+    return null;
+  }
+  const marker = fence[1] ?? '```';
+  let end = index + 1;
+  while (end < lines.length && !(lines[end] ?? '').trim().startsWith(marker)) {
+    end += 1;
+  }
+  return {
+    block: {
+      type: 'code',
+      ...(fence[2] ? { language: fence[2].toLowerCase() } : {}),
+      code: lines.slice(index + 1, end).join('\n'),
+    },
+    next: end + 1,
+  };
+};
+
+const parseHeading: BlockParser = (lines, index, usedIds) => {
+  const heading = (lines[index] ?? '').match(HEADING_PATTERN);
+  if (!heading) {
+    return null;
+  }
+  const children = parseInline(heading[2] ?? '');
+  const slug = slugify(getInlineText(children)) || 'section';
+  const count = usedIds.get(slug) ?? 0;
+  usedIds.set(slug, count + 1);
+  return {
+    block: {
+      type: 'heading',
+      level: heading[1]?.length ?? 1,
+      id: count === 0 ? slug : `${slug}-${count}`,
+      children,
+    },
+    next: index + 1,
+  };
+};
+
+const parseRule: BlockParser = (lines, index) =>
+  RULE_PATTERN.test(lines[index] ?? '') ? { block: { type: 'rule' }, next: index + 1 } : null;
+
+const parseQuote: BlockParser = (lines, index, usedIds) => {
+  if (!QUOTE_PATTERN.test(lines[index] ?? '')) {
+    return null;
+  }
+  const quoted: string[] = [];
+  let next = index;
+  while (next < lines.length && (lines[next] ?? '').trim() !== '') {
+    const current = lines[next] ?? '';
+    quoted.push(current.match(QUOTE_PATTERN)?.[1] ?? current);
+    next += 1;
+  }
+  return { block: { type: 'blockquote', children: parseBlocks(quoted, usedIds) }, next };
+};
+
+interface ListShape {
+  baseIndent: number;
+  ordered: boolean;
+}
+
+// An item marker at the list's own indentation and of the same kind starts its next item
+const matchSiblingItem = (line: string, list: ListShape): string | null => {
+  const item = line.match(LIST_ITEM_PATTERN);
+  const isSibling =
+    item !== null &&
+    (item[1]?.length ?? 0) <= list.baseIndent + 1 &&
+    /\d/.test(item[2] ?? '') === list.ordered;
+  return isSibling ? (item[3] ?? '') : null;
+};
+
+/**
+ * What a line inside a list is: the start of another item of the same list, a line of the
+ * current item (with the list indentation removed), or the first line after the list.
+ */
+const classifyListLine = (
+  lines: string[],
+  index: number,
+  list: ListShape,
+  inItem: boolean,
+): { kind: 'item' | 'line'; text: string } | { kind: 'end' } => {
+  const current = lines[index] ?? '';
+  const item = matchSiblingItem(current, list);
+  if (item !== null) {
+    return { kind: 'item', text: item };
+  }
+  if (current.trim() === '') {
+    // A blank line ends the list unless the next line is indented or another item
+    const next = lines[index + 1] ?? '';
+    return /^\s{2,}\S/.test(next) || LIST_ITEM_PATTERN.test(next)
+      ? { kind: 'line', text: '' }
+      : { kind: 'end' };
+  }
+  if (/^\s{2,}/.test(current)) {
+    return {
+      kind: 'line',
+      text: current.replace(new RegExp(`^\\s{1,${list.baseIndent + 4}}`), ''),
+    };
+  }
+  // Lazy continuation of the item paragraph
+  return !startsBlock(current) && inItem ? { kind: 'line', text: current } : { kind: 'end' };
+};
+
+const parseList: BlockParser = (lines, index, usedIds) => {
+  const listItem = (lines[index] ?? '').match(LIST_ITEM_PATTERN);
+  if (!listItem) {
+    return null;
+  }
+  const list: ListShape = {
+    baseIndent: listItem[1]?.length ?? 0,
+    ordered: /\d/.test(listItem[2] ?? ''),
+  };
+  const itemLines: string[][] = [];
+  let next = index;
+  for (; next < lines.length; next += 1) {
+    const line = classifyListLine(lines, next, list, itemLines.length > 0);
+    if (line.kind === 'end') {
+      break;
+    }
+    if (line.kind === 'item') {
+      itemLines.push([line.text]);
+    } else {
+      itemLines[itemLines.length - 1]?.push(line.text);
+    }
+  }
+  return {
+    block: {
+      type: 'list',
+      ordered: list.ordered,
+      start: list.ordered ? parseInt(listItem[2] ?? '1', 10) : 1,
+      items: itemLines.map(item => parseBlocks(item, usedIds)),
+    },
+    next,
+  };
+};
+
+const parseTable: BlockParser = (lines, index) => {
+  const line = lines[index] ?? '';
+  if (!line.includes('|') || !TABLE_SEPARATOR_PATTERN.test(lines[index + 1] ?? '')) {
+    return null;
+  }
+  const rows: MarkdownInline[][][] = [];
+  let next = index + 2;
+  while (next < lines.length && (lines[next] ?? '').includes('|')) {
+    rows.push(splitTableRow(lines[next] ?? '').map(parseInline));
+    next += 1;
+  }
+  return { block: { type: 'table', header: splitTableRow(line).map(parseInline), rows }, next };
+};
+
+// Any other non-blank line starts a paragraph, which runs until a blank line or another block
+const parseParagraph = (lines: string[], index: number): BlockMatch => {
+  const paragraph: string[] = [];
+  let next = index;
+  while (next < lines.length) {
+    const current = lines[next] ?? '';
+    if (current.trim() === '' || (paragraph.length > 0 && startsBlock(current))) {
+      break;
+    }
+    paragraph.push(current.replace(/^\s+/, ''));
+    next += 1;
+  }
+  return { block: { type: 'paragraph', children: parseInline(paragraph.join('\n')) }, next };
+};
+
+// Tried in order on each line, so a fence wins over everything it contains
+const BLOCK_PARSERS: BlockParser[] = [
+  parseFence,
+  parseHeading,
+  parseRule,
+  parseQuote,
+  parseList,
+  parseTable,
+];
+
+const parseBlock = (lines: string[], index: number, usedIds: Map<string, number>): BlockMatch => {
+  for (const parser of BLOCK_PARSERS) {
+    const match = parser(lines, index, usedIds);
+    if (match) {
+      return match;
+    }
+  }
+  return parseParagraph(lines, index);
+};
+
+const parseBlocks = (lines: string[], usedIds: Map<string, number>): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if ((lines[index] ?? '').trim() === '') {
+      index += 1;
+      continue;
+    }
+    const { block, next } = parseBlock(lines, index, usedIds);
+    blocks.push(block);
+    index = next;
+  }
+  return blocks;
+};
+
+// Headings nested inside lists or quotes are not part of the table of contents
+const buildToc = (blocks: MarkdownBlock[], maxLevel: number): TocEntry[] =>
+  blocks.flatMap(block =>
+    block.type === 'heading' && block.level <= maxLevel
+      ? [{ id: block.id, level: block.level, text: getInlineText(block.children) }]
+      : [],
+  );
+
+export const parseMarkdown = (markdown: string, tocMaxLevel = 3): MarkdownDocument => {
+  const blocks = parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'), new Map());
+  return { blocks, toc: buildToc(blocks, tocMaxLevel) };
+};
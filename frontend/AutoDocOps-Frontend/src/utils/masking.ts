@@ -0,0 +1,87 @@
+const MASK = '••••••••';
+
+// Connection string keys whose values must never be shown, compared without case, spaces,
+// underscores or dashes ("Api Key", "api_key" and "ApiKey" all match "apikey")
+const SECRET_KEYS = [
+  'password',
+  'pwd',
+  'accesstoken',
+  'token',
+  'apikey',
+  'secret',
+  'clientsecret',
+  // Azure Storage, Service Bus and Event Hubs
+  'accountkey',
+  'sharedaccesskey',
+  'sharedaccesssignature',
+  // Signature of an Azure SAS token, e.g. in a blob container URL
+  'sig',
+];
+
+// Quoted values may contain ';', and end at the matching closing character
+const CLOSING_QUOTES: Record<string, string> = { '"': '"', "'": "'", '{': '}' };
+
+export const maskSecret = (value?: string): string => (value ? MASK : '');
+
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[\s_-]/g, '');
+
+const isSecretKey = (key: string): boolean => SECRET_KEYS.includes(normalizeKey(key));
+
+// Splits on the ';' between pairs, leaving those inside "…", '…' or {…} values alone
+const splitPairs = (connectionString: string): string[] => {
+  const pairs: string[] = [];
+  let start = 0;
+  let inValue = false;
+  let valueStarted = false;
+  let closing: string | null = null;
+
+  for (let index = 0; index < connectionString.length; index++) {
+    const char = connectionString.charAt(index);
+
+    if (closing) {
+      if (char === closing) {
+        // A doubled closing character ("" or }}) is an escaped one
+        if (connectionString.charAt(index + 1) === closing) {
+          index++;
+        } else {
+          closing = null;
+        }
+      }
+    } else if (char === ';') {
+      pairs.push(connectionString.slice(start, index));
+      start = index + 1;
+      inValue = false;
+      valueStarted = false;
+    } else if (!inValue) {
+      inValue = char === '=';
+    } else if (!valueStarted && char.trim() !== '') {
+      valueStarted = true;
+      closing = CLOSING_QUOTES[char] ?? null;
+    }
+  }
+
+  pairs.push(connectionString.slice(start));
+  return pairs;
+};
+
+// Masks `Password=...;` style pairs, and credentials and secret query parameters in URLs
+export const maskConnectionString = (connectionString: string): string => {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(connectionString)) {
+    return connectionString
+      .replace(/\/\/([^:/@]+):([^@]*)@/, `//$1:${MASK}@`)
+      .replace(/([?&])([^=&#]+)=([^&#]*)/g, (pair, separator: string, key: string) =>
+        isSecretKey(key) ? `${separator}${key}=${MASK}` : pair,
+      );
+  }
+
+  return splitPairs(connectionString)
+    .map(pair => {
+      const separatorIndex = pair.indexOf('=');
+      if (separatorIndex === -1) {
+        return pair;
+      }
+      const key = pair.slice(0, separatorIndex);
+      return isSecretKey(key) ? `${key}=${MASK}` : pair;
+    })
+    .join(';');
+};
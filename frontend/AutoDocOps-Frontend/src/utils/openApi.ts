@@ -0,0 +1,347 @@
+import {
+  HttpMethod,
+  MaybeRef,
+  OpenApiDocument,
+  OpenApiMediaType,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiReference,
+  OpenApiRequestBody,
+  OpenApiResponse,
+  OpenApiSchema,
+  ParsedMediaType,
+  ParsedOpenApi,
+  ParsedOperation,
+  ParsedTag,
+} from '../types/openApi';
+
+export class OpenApiParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpenApiParseError';
+  }
+}
+
+export const HTTP_METHODS: HttpMethod[] = [
+  'get',
+  'post',
+  'put',
+  'patch',
+  'delete',
+  'head',
+  'options',
+  'trace',
+];
+
+// Operations without tags are listed under this group
+export const UNTAGGED_GROUP = 'General';
+
+export const isReference = (value: unknown): value is OpenApiReference =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as OpenApiReference).$ref === 'string';
+
+const decodePointerSegment = (segment: string): string =>
+  decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+
+// "#/components/schemas/User" -> "User"
+export const getRefName = (ref: string): string => {
+  const segments = ref.split('/');
+  return decodePointerSegment(segments[segments.length - 1] ?? ref);
+};
+
+/**
+ * Follows a local JSON pointer ("#/components/...") inside the document.
+ * External references are not supported and resolve to undefined.
+ */
+export const resolvePointer = (document: OpenApiDocument, ref: string): unknown => {
+  if (!ref.startsWith('#/')) {
+    return undefined;
+  }
+  return ref
+    .slice(2)
+    .split('/')
+    .map(decodePointerSegment)
+    .reduce<unknown>(
+      (node, segment) =>
+        typeof node === 'object' && node !== null
+          ? (node as Record<string, unknown>)[segment]
+          : undefined,
+      document,
+    );
+};
+
+/**
+ * Resolves a value that may be a $ref (or a chain of them). Returns undefined for
+ * unresolvable or circular reference chains.
+ */
+export const deref = <T>(
+  document: OpenApiDocument,
+  value: MaybeRef<T> | undefined,
+): T | undefined => {
+  const seen = new Set<string>();
+  let current: unknown = value;
+
+  while (isReference(current)) {
+    if (seen.has(current.$ref)) {
+      return undefined;
+    }
+    seen.add(current.$ref);
+    current = resolvePointer(document, current.$ref);
+  }
+
+  return current as T | undefined;
+};
+
+const toMediaTypes = (content: Record<string, OpenApiMediaType> | undefined): ParsedMediaType[] =>
+  Object.entries(content ?? {}).map(([mediaType, media]) => {
+    const example =
+      media.example !== undefined
+        ? media.example
+        : Object.values(media.examples ?? {})
+            .map(entry => (isReference(entry) ? undefined : entry.value))
+            .find(value => value !== undefined);
+    return {
+      mediaType,
+      ...(media.schema ? { schema: media.schema } : {}),
+      ...(example !== undefined ? { example } : {}),
+    };
+  });
+
+// Operation parameters override path-level ones with the same name and location
+const mergeParameters = (
+  document: OpenApiDocument,
+  pathParameters: MaybeRef<OpenApiParameter>[] = [],
+  operationParameters: MaybeRef<OpenApiParameter>[] = [],
+): OpenApiParameter[] => {
+  const merged = new Map<string, OpenApiParameter>();
+  [...pathParameters, ...operationParameters].forEach(entry => {
+    const parameter = deref(document, entry);
+    if (parameter?.name) {
+      merged.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+  });
+  return Array.from(merged.values());
+};
+
+const parseOperation = (
+  document: OpenApiDocument,
+  path: string,
+  method: HttpMethod,
+  operation: OpenApiOperation,
+  pathParameters: MaybeRef<OpenApiParameter>[] | undefined,
+): ParsedOperation => {
+  const requestBody = deref<OpenApiRequestBody>(document, operation.requestBody);
+
+  return {
+    key: `${method.toUpperCase()} ${path}`,
+    method,
+    path,
+    ...(operation.operationId ? { operationId: operation.operationId } : {}),
+    ...(operation.summary ? { summary: operation.summary } : {}),
+    ...(operation.description ? { description: operation.description } : {}),
+    tags: operation.tags?.length ? operation.tags : [UNTAGGED_GROUP],
+    deprecated: operation.deprecated ?? false,
+    parameters: mergeParameters(document, pathParameters, operation.parameters),
+    ...(requestBody
+      ? {
+          requestBody: {
+            ...(requestBody.description ? { description: requestBody.description } : {}),
+            required: requestBody.required ?? false,
+            content: toMediaTypes(requestBody.content),
+          },
+        }
+      : {}),
+    responses: Object.entries(operation.responses ?? {})
+      .map(([status, entry]) => {
+        const response = deref<OpenApiResponse>(document, entry);
+        return {
+          status,
+          description: response?.description ?? '',
+          content: toMediaTypes(response?.content),
+        };
+      })
+      .sort((a, b) => a.status.localeCompare(b.status)),
+    security: operation.security ?? document.security ?? [],
+  };
+};
+
+/**
+ * Parses an OpenAPI 3.x document (JSON string or object) into the explorer view model:
+ * operations with resolved parameters, body and responses, grouped by tag. Schemas keep
+ * their $refs so recursive models can be expanded lazily.
+ */
+export const parseOpenApiSpec = (spec: string | object): ParsedOpenApi => {
+  let document: OpenApiDocument;
+  try {
+    document = (typeof spec === 'string' ? JSON.parse(spec) : spec) as OpenApiDocument;
+  } catch (error) {
+    throw new OpenApiParseError('La especificación OpenAPI no es un JSON válido.');
+  }
+
+  if (typeof document !== 'object' || document === null || !/^3\./.test(document.openapi ?? '')) {
+    throw new OpenApiParseError('Solo se admiten especificaciones OpenAPI 3.x.');
+  }
+
+  const operations: ParsedOperation[] = [];
+  Object.entries(document.paths ?? {}).forEach(([path, pathItem]) => {
+    HTTP_METHODS.forEach(method => {
+      const operation = pathItem[method];
+      if (operation) {
+        operations.push(parseOperation(document, path, method, operation, pathItem.parameters));
+      }
+    });
+  });
+
+  // Declared tags keep their order, tags only used by operations are appended
+  const tags = new Map<string, ParsedTag>();
+  (document.tags ?? []).forEach(tag =>
+    tags.set(tag.name, {
+      name: tag.name,
+      ...(tag.description ? { description: tag.description } : {}),
+      operations: [],
+    }),
+  );
+  operations.forEach(operation =>
+    operation.tags.forEach(tagName => {
+      const tag = tags.get(tagName) ?? { name: tagName, operations: [] };
+      tag.operations.push(operation);
+      tags.set(tagName, tag);
+    }),
+  );
+
+  return {
+    document,
+    info: document.info ?? { title: '', version: '' },
+    servers: document.servers ?? [],
+    tags: Array.from(tags.values()).filter(tag => tag.operations.length > 0),
+    operations,
+    schemaNames: Object.keys(document.components?.schemas ?? {}).sort(),
+  };
+};
+
+// Short type description for a schema: "string (date-time)", "array<User>", "User"
+export const getSchemaTypeLabel = (
+  document: OpenApiDocument,
+  schema: MaybeRef<OpenApiSchema> | undefined,
+): string => {
+  if (!schema) {
+    return 'any';
+  }
+  if (isReference(schema)) {
+    return getRefName(schema.$ref);
+  }
+  if (schema.allOf ?? schema.oneOf ?? schema.anyOf) {
+    const [kind, members] = schema.allOf
+      ? ['allOf', schema.allOf]
+      : schema.oneOf
+        ? ['oneOf', schema.oneOf]
+        : ['anyOf', schema.anyOf ?? []];
+    return members.length === 1
+      ? getSchemaTypeLabel(document, members[0])
+      : `${kind}<${members.map(member => getSchemaTypeLabel(document, member)).join(' | ')}>`;
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
+  if (type === 'array') {
+    return `array<${getSchemaTypeLabel(document, schema.items)}>`;
+  }
+  const label = type ?? (schema.properties ? 'object' : 'any');
+  return schema.format ? `${label} (${schema.format})` : label;
+};
+
+const FORMAT_EXAMPLES: Record<string, unknown> = {
+  'date-time': '2024-01-01T00:00:00Z',
+  date: '2024-01-01',
+  uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+  email: 'user@example.com',
+  uri: 'https://example.com',
+};
+
+// The value the schema itself suggests: its example, default or first enum value
+const getDeclaredExample = (schema: OpenApiSchema): unknown => {
+  if (schema.example !== undefined) {
+    return schema.example;
+  }
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+  return schema.enum?.[0];
+};
+
+// Own and allOf properties, each with its sample value
+const buildObjectExample = (
+  document: OpenApiDocument,
+  schema: OpenApiSchema,
+  ancestors: string[],
+): Record<string, unknown> => {
+  const example: Record<string, unknown> = {};
+  [schema, ...(schema.allOf ?? []).map(member => deref(document, member))].forEach(part =>
+    Object.entries(part?.properties ?? {}).forEach(([name, property]) => {
+      const value = buildSchemaExample(document, property, ancestors);
+      if (value !== undefined) {
+        example[name] = value;
+      }
+    }),
+  );
+  return example;
+};
+
+const buildTypedExample = (
+  document: OpenApiDocument,
+  schema: OpenApiSchema,
+  type: string | undefined,
+  ancestors: string[],
+): unknown => {
+  switch (type) {
+    case 'array': {
+      const item = buildSchemaExample(document, schema.items, ancestors);
+      return item === undefined ? [] : [item];
+    }
+    case 'string':
+      return (schema.format && FORMAT_EXAMPLES[schema.format]) ?? 'string';
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return true;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Builds a sample value for a schema, preferring its example, default or first enum value.
+ * Recursive models stop at the first repetition.
+ */
+export const buildSchemaExample = (
+  document: OpenApiDocument,
+  schema: MaybeRef<OpenApiSchema> | undefined,
+  ancestors: string[] = [],
+): unknown => {
+  const refName = isReference(schema) ? getRefName(schema.$ref) : undefined;
+  if (refName && ancestors.includes(refName)) {
+    return undefined;
+  }
+  const resolved = deref(document, schema);
+  if (!resolved) {
+    return undefined;
+  }
+  const nextAncestors = refName ? [...ancestors, refName] : ancestors;
+
+  const declared = getDeclaredExample(resolved);
+  if (declared !== undefined) {
+    return declared;
+  }
+
+  const composed = resolved.oneOf?.[0] ?? resolved.anyOf?.[0];
+  if (composed) {
+    return buildSchemaExample(document, composed, nextAncestors);
+  }
+
+  const type = Array.isArray(resolved.type) ? resolved.type[0] : resolved.type;
+  if (resolved.allOf !== undefined || resolved.properties !== undefined || type === 'object') {
+    return buildObjectExample(document, resolved, nextAncestors);
+  }
+  return buildTypedExample(document, resolved, type, nextAncestors);
+};
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { OpenApiSchema } from '../types/openApi';
+import { parseOpenApiSpec } from './openApi';
+import { diffOpenApi } from './openApiDiff';
+
+// A spec where NewUser is only sent, User only returned and Role both sent and returned
+const buildSpec = (schemas: {
+  NewUser: OpenApiSchema;
+  User: OpenApiSchema;
+  Role: OpenApiSchema;
+}): ReturnType<typeof parseOpenApiSpec> =>
+  parseOpenApiSpec({
+    openapi: '3.0.3',
+    info: { title: 'Users', version: '1.0.0' },
+    paths: {
+      '/users': {
+        post: {
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: { $ref: '#/components/schemas/NewUser' } },
+            },
+          },
+          responses: {
+            '201': {
+              description: 'Created',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+            },
+          },
+        },
+      },
+    },
+    components: { schemas },
+  });
+
+const ROLE: OpenApiSchema = { type: 'string', enum: ['admin', 'member'] };
+const NEW_USER: OpenApiSchema = {
+  type: 'object',
+  required: ['email'],
+  properties: {
+    email: { type: 'string' },
+    nickname: { type: 'string' },
+    role: { $ref: '#/components/schemas/Role' },
+  },
+};
+const USER: OpenApiSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string' },
+    nickname: { type: 'string' },
+    role: { $ref: '#/components/schemas/Role' },
+    status: { type: 'string', enum: ['active', 'disabled'] },
+  },
+};
+
+const withoutProperty = (schema: OpenApiSchema, name: string): OpenApiSchema => ({
+  ...schema,
+  properties: Object.fromEntries(
+    Object.entries(schema.properties ?? {}).filter(([property]) => property !== name),
+  ),
+});
+
+const base = buildSpec({ NewUser: NEW_USER, User: USER, Role: ROLE });
+
+const findChange = (
+  diff: ReturnType<typeof diffOpenApi>,
+  location: string,
+  subject?: string,
+): ReturnType<typeof diffOpenApi>['changes'][number] | undefined =>
+  diff.changes.find(change => change.location === location && change.subject === subject);
+
+describe('diffOpenApi', () => {
+  it('reports no changes for the same spec', () => {
+    expect(diffOpenApi(base, base)).toEqual({ changes: [], breakingCount: 0 });
+  });
+
+  it('does not flag a new required property on a response-only model', () => {
+    const diff = diffOpenApi(
+      base,
+      buildSpec({
+        NewUser: NEW_USER,
+        User: {
+          ...USER,
+          required: ['id', 'createdAt'],
+          properties: { ...USER.properties, createdAt: { type: 'string' } },
+        },
+        Role: ROLE,
+      }),
+    );
+
+    expect(findChange(diff, 'User', 'createdAt')).toMatchObject({
+      kind: 'added',
+      breaking: false,
+    });
+    expect(diff.breakingCount).toBe(0);
+  });
+
+  it('flags a new required property on a request model', () => {
+    const diff = diffOpenApi(
+      base,
+      buildSpec({
+        NewUser: {
+          ...NEW_USER,
+          required: ['email', 'password'],
+          properties: { ...NEW_USER.properties, password: { type: 'string' } },
+        },
+        User: USER,
+        Role: ROLE,
+      }),
+    );
+
+    expect(findChange(diff, 'NewUser', 'password')).toMatchObject({ breaking: true });
+  });
+
+  it('does not flag removing an optional request property, only a response one', () => {
+    const diff = diffOpenApi(
+      base,
+      buildSpec({
+        NewUser: withoutProperty(NEW_USER, 'nickname'),
+        User: withoutProperty(USER, 'nickname'),
+        Role: ROLE,
+      }),
+    );
+
+    expect(findChange(diff, 'NewUser', 'nickname')).toMatchObject({
+      kind: 'removed',
+      breaking: false,
+    });
+    expect(findChange(diff, 'User', 'nickname')).toMatchObject({
+      kind: 'removed',
+      breaking: true,
+    });
+  });
+
+  it('flags enum values added to a response and removed from a request', () => {
+    const diff = diffOpenApi(
+      base,
+      buildSpec({
+        NewUser: NEW_USER,
+        User: {
+          ...USER,
+          properties: {
+            ...USER.properties,
+            status: { type: 'string', enum: ['active', 'disabled', 'locked'] },
+          },
+        },
+        Role: { type: 'string', enum: ['admin'] },
+      }),
+    );
+
+    expect(findChange(diff, 'User', 'status')).toMatchObject({ breaking: true });
+    expect(findChange(diff, 'Role')).toMatchObject({ breaking: true });
+    expect(diff.breakingCount).toBe(2);
+  });
+
+  it('judges schemas used in both directions by the stricter rule', () => {
+    const diff = diffOpenApi(
+      base,
+      buildSpec({
+        NewUser: NEW_USER,
+        User: USER,
+        Role: { type: 'string', enum: ['admin', 'member', 'guest'] },
+      }),
+    );
+
+    expect(findChange(diff, 'Role')).toMatchObject({
+      description: 'Valores añadidos al enum: "guest".',
+      breaking: true,
+    });
+  });
+});
@@ -0,0 +1,670 @@
+import {
+  ApiChange,
+  ApiDiff,
+  MaybeRef,
+  OpenApiDocument,
+  OpenApiParameter,
+  OpenApiSchema,
+  ParsedMediaType,
+  ParsedOpenApi,
+  ParsedOperation,
+} from '../types/openApi';
+import { deref, getRefName, getSchemaTypeLabel, isReference } from './openApi';
+
+/*
+ * Compares two parsed OpenAPI documents from a client's point of view. A change is breaking
+ * when a client written against the old version can stop working: something it uses is
+ * removed or changes type, or the server starts requiring something it doesn't send.
+ *
+ * Schema changes depend on the direction the schema travels in. Clients send requests, so
+ * new requirements break them there; they read responses, so there losing a guarantee or
+ * getting a value they don't know about does.
+ */
+
+// Inline object properties are followed this deep; named schemas are compared on their own
+const MAX_PROPERTY_DEPTH = 3;
+
+export const CHANGE_KIND_LABELS: Record<ApiChange['kind'], string> = {
+  added: 'Añadido',
+  removed: 'Eliminado',
+  changed: 'Modificado',
+};
+
+const PARAMETER_LOCATION_LABELS: Record<OpenApiParameter['in'], string> = {
+  path: 'de ruta',
+  query: 'de consulta',
+  header: 'de cabecera',
+  cookie: 'de cookie',
+};
+
+const getParameterKey = (parameter: OpenApiParameter): string =>
+  `${parameter.in}:${parameter.name}`;
+
+const isSuccessStatus = (status: string): boolean => /^2/.test(status);
+
+const diffKeys = <T>(
+  before: Map<string, T>,
+  after: Map<string, T>,
+): { added: string[]; removed: string[]; common: string[] } => ({
+  added: Array.from(after.keys()).filter(key => !before.has(key)),
+  removed: Array.from(before.keys()).filter(key => !after.has(key)),
+  common: Array.from(before.keys()).filter(key => after.has(key)),
+});
+
+const toMap = <T>(items: T[], getKey: (item: T) => string): Map<string, T> =>
+  new Map(items.map(item => [getKey(item), item]));
+
+// Whether a schema is sent by clients, returned to them, or both
+interface SchemaUsage {
+  request: boolean;
+  response: boolean;
+}
+
+const REQUEST_USAGE: SchemaUsage = { request: true, response: false };
+const RESPONSE_USAGE: SchemaUsage = { request: false, response: true };
+// Schemas no operation references are judged by the strictest rule
+const UNKNOWN_USAGE: SchemaUsage = { request: true, response: true };
+
+// A change is breaking if it breaks a direction the schema is used in
+const isBreakingFor = (usage: SchemaUsage, breaks: SchemaUsage): boolean =>
+  (usage.request && breaks.request) || (usage.response && breaks.response);
+
+interface DiffContext {
+  before: OpenApiDocument;
+  after: OpenApiDocument;
+  changes: ApiChange[];
+  // Usage of each component schema, by name
+  schemaUsage: Map<string, SchemaUsage>;
+}
+
+// Records the direction of every component schema reachable from the operations
+const collectSchemaUsage = (
+  document: OpenApiDocument,
+  operations: ParsedOperation[],
+  usage: Map<string, SchemaUsage>,
+): void => {
+  const visit = (
+    schema: MaybeRef<OpenApiSchema> | boolean | undefined,
+    direction: keyof SchemaUsage,
+  ): void => {
+    if (!schema || typeof schema === 'boolean') {
+      return;
+    }
+    if (isReference(schema)) {
+      const name = getRefName(schema.$ref);
+      const current = usage.get(name) ?? { request: false, response: false };
+      if (current[direction]) {
+        return;
+      }
+      usage.set(name, { ...current, [direction]: true });
+      visit(deref(document, schema), direction);
+      return;
+    }
+    [
+      ...Object.values(schema.properties ?? {}),
+      schema.items,
+      schema.additionalProperties,
+      ...(schema.allOf ?? []),
+      ...(schema.oneOf ?? []),
+      ...(schema.anyOf ?? []),
+    ].forEach(child => visit(child, direction));
+  };
+
+  operations.forEach(operation => {
+    operation.parameters.forEach(parameter => visit(parameter.schema, 'request'));
+    operation.requestBody?.content.forEach(media => visit(media.schema, 'request'));
+    operation.responses.forEach(response =>
+      response.content.forEach(media => visit(media.schema, 'response')),
+    );
+  });
+};
+
+// Type labels of the same schema slot in the old and new document
+const getTypeLabels = (
+  context: DiffContext,
+  beforeSchema: MaybeRef<OpenApiSchema> | undefined,
+  afterSchema: MaybeRef<OpenApiSchema> | undefined,
+): [string, string] => [
+  getSchemaTypeLabel(context.before, beforeSchema),
+  getSchemaTypeLabel(context.after, afterSchema),
+];
+
+// Where a schema being compared sits: its component or operation, how it travels and,
+// for nested properties, the property path from the top
+interface SchemaSlot {
+  location: string;
+  usage: SchemaUsage;
+  path: string;
+  depth: number;
+}
+
+const diffEnum = (
+  context: DiffContext,
+  slot: SchemaSlot,
+  before: OpenApiSchema,
+  after: OpenApiSchema,
+): void => {
+  const beforeEnum = (before.enum ?? []).map(value => JSON.stringify(value));
+  const afterEnum = (after.enum ?? []).map(value => JSON.stringify(value));
+  const removed = beforeEnum.filter(value => !afterEnum.includes(value));
+  const added = afterEnum.filter(value => !beforeEnum.includes(value));
+  const change = {
+    kind: 'changed',
+    scope: slot.path ? 'property' : 'schema',
+    location: slot.location,
+    ...(slot.path ? { subject: slot.path } : {}),
+  } as const;
+  if (removed.length > 0) {
+    context.changes.push({
+      ...change,
+      // Clients may still send them
+      breaking: isBreakingFor(slot.usage, REQUEST_USAGE),
+      description: `Valores eliminados del enum: ${removed.join(', ')}.`,
+    });
+  }
+  if (added.length > 0) {
+    context.changes.push({
+      ...change,
+      // Clients may not handle them when reading
+      breaking: isBreakingFor(slot.usage, RESPONSE_USAGE),
+      description: `Valores añadidos al enum: ${added.join(', ')}.`,
+    });
+  }
+};
+
+// Inline objects, or arrays of them, are followed into; named schemas are diffed on their own
+const diffInlineProperty = (
+  context: DiffContext,
+  slot: SchemaSlot,
+  beforeProperty: MaybeRef<OpenApiSchema> | undefined,
+  afterProperty: MaybeRef<OpenApiSchema> | undefined,
+): void => {
+  if (isReference(beforeProperty) || isReference(afterProperty)) {
+    return;
+  }
+  const beforeTarget = beforeProperty?.items ?? beforeProperty;
+  const afterTarget = afterProperty?.items ?? afterProperty;
+  if (!isReference(beforeTarget) && !isReference(afterTarget)) {
+    diffSchema(context, { ...slot, depth: slot.depth + 1 }, beforeTarget, afterTarget);
+  }
+};
+
+// Type and required changes of a property both versions have, then its own properties
+const diffProperty = (
+  context: DiffContext,
+  slot: SchemaSlot,
+  beforeProperty: MaybeRef<OpenApiSchema> | undefined,
+  afterProperty: MaybeRef<OpenApiSchema> | undefined,
+  required: { before: boolean; after: boolean },
+): void => {
+  const property = { kind: 'changed', scope: 'property', location: slot.location } as const;
+  const [beforeType, afterType] = getTypeLabels(context, beforeProperty, afterProperty);
+  if (beforeType !== afterType) {
+    context.changes.push({
+      ...property,
+      breaking: true,
+      subject: slot.path,
+      description: `El tipo cambia de ${beforeType} a ${afterType}.`,
+    });
+  }
+  if (required.before !== required.after) {
+    context.changes.push({
+      ...property,
+      breaking: isBreakingFor(slot.usage, required.after ? REQUEST_USAGE : RESPONSE_USAGE),
+      subject: slot.path,
+      description: required.after
+        ? 'La propiedad pasa a ser obligatoria.'
+        : 'La propiedad pasa a ser opcional.',
+    });
+  }
+  if (beforeType === afterType) {
+    diffInlineProperty(context, slot, beforeProperty, afterProperty);
+  }
+};
+
+const diffProperties = (
+  context: DiffContext,
+  slot: SchemaSlot,
+  before: OpenApiSchema,
+  after: OpenApiSchema,
+): void => {
+  const beforeProperties = new Map(Object.entries(before.properties ?? {}));
+  const afterProperties = new Map(Object.entries(after.properties ?? {}));
+  const beforeRequired = new Set(before.required ?? []);
+  const afterRequired = new Set(after.required ?? []);
+  const { added, removed, common } = diffKeys(beforeProperties, afterProperties);
+  const subject = (name: string): string => (slot.path ? `${slot.path}.${name}` : name);
+
+  removed.forEach(name =>
+    context.changes.push({
+      kind: 'removed',
+      scope: 'property',
+      // Servers ignore an optional property they no longer read
+      breaking: isBreakingFor(slot.usage, { request: beforeRequired.has(name), response: true }),
+      location: slot.location,
+      subject: subject(name),
+      description: 'Propiedad eliminada.',
+    }),
+  );
+  added.forEach(name => {
+    const required = afterRequired.has(name);
+    context.changes.push({
+      kind: 'added',
+      scope: 'property',
+      breaking: isBreakingFor(slot.usage, { request: required, response: false }),
+      location: slot.location,
+      subject: subject(name),
+      description: required ? 'Nueva propiedad obligatoria.' : 'Nueva propiedad opcional.',
+    });
+  });
+  common.forEach(name =>
+    diffProperty(
+      context,
+      { ...slot, path: subject(name) },
+      beforeProperties.get(name),
+      afterProperties.get(name),
+      { before: beforeRequired.has(name), after: afterRequired.has(name) },
+    ),
+  );
+};
+
+/**
+ * Property, required and enum changes of a schema used in the given direction. Referenced
+ * schemas are only compared by name here: their content is diffed once, under components,
+ * instead of at every use.
+ */
+const diffSchema = (
+  context: DiffContext,
+  slot: SchemaSlot,
+  beforeRef: MaybeRef<OpenApiSchema> | undefined,
+  afterRef: MaybeRef<OpenApiSchema> | undefined,
+): void => {
+  const before = deref(context.before, beforeRef);
+  const after = deref(context.after, afterRef);
+  if (!before || !after || slot.depth > MAX_PROPERTY_DEPTH) {
+    return;
+  }
+  diffEnum(context, slot, before, after);
+  diffProperties(context, slot, before, after);
+};
+
+// Schema of a media type both versions of a request body or response have
+const diffMediaSchema = (
+  context: DiffContext,
+  media: { location: string; scope: 'requestBody' | 'response'; subject: string },
+  beforeSchema: MaybeRef<OpenApiSchema> | undefined,
+  afterSchema: MaybeRef<OpenApiSchema> | undefined,
+): void => {
+  const [beforeType, afterType] = getTypeLabels(context, beforeSchema, afterSchema);
+  if (beforeType !== afterType) {
+    context.changes.push({
+      kind: 'changed',
+      breaking: true,
+      ...media,
+      description: `El esquema cambia de ${beforeType} a ${afterType}.`,
+    });
+  } else if (!isReference(beforeSchema) && !isReference(afterSchema)) {
+    const usage = media.scope === 'requestBody' ? REQUEST_USAGE : RESPONSE_USAGE;
+    const slot = { location: media.location, usage, path: '', depth: 0 };
+    diffSchema(context, slot, beforeSchema, afterSchema);
+  }
+};
+
+// Media types of a request body or response, plus the type of each shared media type
+const diffContent = (
+  context: DiffContext,
+  location: string,
+  scope: 'requestBody' | 'response',
+  subjectPrefix: string,
+  before: ParsedMediaType[],
+  after: ParsedMediaType[],
+): void => {
+  const beforeMedia = toMap(before, media => media.mediaType);
+  const afterMedia = toMap(after, media => media.mediaType);
+  const { added, removed, common } = diffKeys(beforeMedia, afterMedia);
+  const subject = (mediaType: string): string =>
+    subjectPrefix ? `${subjectPrefix} ${mediaType}` : mediaType;
+
+  removed.forEach(mediaType =>
+    context.changes.push({
+      kind: 'removed',
+      scope,
+      breaking: true,
+      location,
+      subject: subject(mediaType),
+      description: 'Tipo de contenido eliminado.',
+    }),
+  );
+  added.forEach(mediaType =>
+    context.changes.push({
+      kind: 'added',
+      scope,
+      breaking: false,
+      location,
+      subject: subject(mediaType),
+      description: 'Nuevo tipo de contenido.',
+    }),
+  );
+  common.forEach(mediaType =>
+    diffMediaSchema(
+      context,
+      { location, scope, subject: subject(mediaType) },
+      beforeMedia.get(mediaType)?.schema,
+      afterMedia.get(mediaType)?.schema,
+    ),
+  );
+};
+
+// Type and required changes of a parameter both versions have
+const diffParameter = (
+  context: DiffContext,
+  location: string,
+  before: OpenApiParameter,
+  after: OpenApiParameter,
+): void => {
+  const [beforeType, afterType] = getTypeLabels(context, before.schema, after.schema);
+  if (beforeType !== afterType) {
+    context.changes.push({
+      kind: 'changed',
+      scope: 'parameter',
+      breaking: true,
+      location,
+      subject: after.name,
+      description: `El tipo cambia de ${beforeType} a ${afterType}.`,
+    });
+  }
+  if (Boolean(before.required) !== Boolean(after.required)) {
+    context.changes.push({
+      kind: 'changed',
+      scope: 'parameter',
+      breaking: after.required === true,
+      location,
+      subject: after.name,
+      description: after.required
+        ? 'El parámetro pasa a ser obligatorio.'
+        : 'El parámetro pasa a ser opcional.',
+    });
+  }
+};
+
+const diffParameters = (
+  context: DiffContext,
+  before: ParsedOperation,
+  after: ParsedOperation,
+): void => {
+  const beforeParameters = toMap(before.parameters, getParameterKey);
+  const afterParameters = toMap(after.parameters, getParameterKey);
+  const { added, removed, common } = diffKeys(beforeParameters, afterParameters);
+  const describe = (parameter: OpenApiParameter): string =>
+    `Parámetro ${PARAMETER_LOCATION_LABELS[parameter.in] ?? parameter.in}`;
+
+  removed.forEach(key => {
+    const parameter = beforeParameters.get(key);
+    if (parameter) {
+      context.changes.push({
+        kind: 'removed',
+        scope: 'parameter',
+        breaking: true,
+        location: after.key,
+        subject: parameter.name,
+        description: `${describe(parameter)} eliminado.`,
+      });
+    }
+  });
+  added.forEach(key => {
+    const parameter = afterParameters.get(key);
+    if (parameter) {
+      const required = parameter.required === true;
+      context.changes.push({
+        kind: 'added',
+        scope: 'parameter',
+        breaking: required,
+        location: after.key,
+        subject: parameter.name,
+        description: `${describe(parameter)} ${required ? 'obligatorio' : 'opcional'} añadido.`,
+      });
+    }
+  });
+  common.forEach(key => {
+    const beforeParameter = beforeParameters.get(key);
+    const afterParameter = afterParameters.get(key);
+    if (beforeParameter && afterParameter) {
+      diffParameter(context, after.key, beforeParameter, afterParameter);
+    }
+  });
+};
+
+const diffRequestBody = (
+  context: DiffContext,
+  before: ParsedOperation,
+  after: ParsedOperation,
+): void => {
+  const beforeBody = before.requestBody;
+  const afterBody = after.requestBody;
+  if (beforeBody && !afterBody) {
+    context.changes.push({
+      kind: 'removed',
+      scope: 'requestBody',
+      breaking: true,
+      location: after.key,
+      description: 'La operación ya no acepta cuerpo.',
+    });
+  } else if (!beforeBody && afterBody) {
+    context.changes.push({
+      kind: 'added',
+      scope: 'requestBody',
+      breaking: afterBody.required,
+      location: after.key,
+      description: afterBody.required ? 'Nuevo cuerpo obligatorio.' : 'Nuevo cuerpo opcional.',
+    });
+  } else if (beforeBody && afterBody) {
+    if (!beforeBody.required && afterBody.required) {
+      context.changes.push({
+        kind: 'changed',
+        scope: 'requestBody',
+        breaking: true,
+        location: after.key,
+        description: 'El cuerpo pasa a ser obligatorio.',
+      });
+    }
+    diffContent(context, after.key, 'requestBody', '', beforeBody.content, afterBody.content);
+  }
+};
+
+const diffResponses = (
+  context: DiffContext,
+  before: ParsedOperation,
+  after: ParsedOperation,
+): void => {
+  const beforeResponses = toMap(before.responses, response => response.status);
+  const afterResponses = toMap(after.responses, response => response.status);
+  const { added, removed, common } = diffKeys(beforeResponses, afterResponses);
+  removed.forEach(status =>
+    context.changes.push({
+      kind: 'removed',
+      scope: 'response',
+      // Clients may rely on a success response; dropping an error code doesn't affect them
+      breaking: isSuccessStatus(status),
+      location: after.key,
+      subject: status,
+      description: 'Respuesta eliminada.',
+    }),
+  );
+  added.forEach(status =>
+    context.changes.push({
+      kind: 'added',
+      scope: 'response',
+      breaking: false,
+      location: after.key,
+      subject: status,
+      description: 'Nueva respuesta.',
+    }),
+  );
+  common.forEach(status =>
+    diffContent(
+      context,
+      after.key,
+      'response',
+      status,
+      beforeResponses.get(status)?.content ?? [],
+      afterResponses.get(status)?.content ?? [],
+    ),
+  );
+};
+
+const diffOperation = (
+  context: DiffContext,
+  before: ParsedOperation,
+  after: ParsedOperation,
+): void => {
+  if (!before.deprecated && after.deprecated) {
+    context.changes.push({
+      kind: 'changed',
+      scope: 'operation',
+      breaking: false,
+      location: after.key,
+      description: 'La operación se marca como obsoleta.',
+    });
+  }
+  diffParameters(context, before, after);
+  diffRequestBody(context, before, after);
+  diffResponses(context, before, after);
+};
+
+const diffOperations = (
+  context: DiffContext,
+  before: ParsedOperation[],
+  after: ParsedOperation[],
+): void => {
+  const beforeOperations = toMap(before, operation => operation.key);
+  const afterOperations = toMap(after, operation => operation.key);
+  const operations = diffKeys(beforeOperations, afterOperations);
+  operations.removed.forEach(key =>
+    context.changes.push({
+      kind: 'removed',
+      scope: 'operation',
+      breaking: true,
+      location: key,
+      description: 'Operación eliminada.',
+    }),
+  );
+  operations.added.forEach(key =>
+    context.changes.push({
+      kind: 'added',
+      scope: 'operation',
+      breaking: false,
+      location: key,
+      description: afterOperations.get(key)?.summary
+        ? `Nueva operación: ${afterOperations.get(key)?.summary}`
+        : 'Nueva operación.',
+    }),
+  );
+  operations.common.forEach(key => {
+    const beforeOperation = beforeOperations.get(key);
+    const afterOperation = afterOperations.get(key);
+    if (beforeOperation && afterOperation) {
+      diffOperation(context, beforeOperation, afterOperation);
+    }
+  });
+};
+
+// Component schemas are diffed once each, judged by how the operations use them
+const diffComponentSchemas = (context: DiffContext): void => {
+  const beforeSchemas = new Map(Object.entries(context.before.components?.schemas ?? {}));
+  const afterSchemas = new Map(Object.entries(context.after.components?.schemas ?? {}));
+  const schemas = diffKeys(beforeSchemas, afterSchemas);
+  schemas.removed.forEach(name =>
+    context.changes.push({
+      kind: 'removed',
+      scope: 'schema',
+      breaking: true,
+      location: name,
+      description: 'Esquema eliminado.',
+    }),
+  );
+  schemas.added.forEach(name =>
+    context.changes.push({
+      kind: 'added',
+      scope: 'schema',
+      breaking: false,
+      location: name,
+      description: 'Nuevo esquema.',
+    }),
+  );
+  schemas.common.forEach(name =>
+    diffSchema(
+      context,
+      { location: name, usage: context.schemaUsage.get(name) ?? UNKNOWN_USAGE, path: '', depth: 0 },
+      beforeSchemas.get(name),
+      afterSchemas.get(name),
+    ),
+  );
+};
+
+/**
+ * Added, removed and changed operations, parameters, bodies, responses and component
+ * schemas between two versions of a spec, breaking changes first.
+ */
+export const diffOpenApi = (before: ParsedOpenApi, after: ParsedOpenApi): ApiDiff => {
+  const context: DiffContext = {
+    before: before.document,
+    after: after.document,
+    changes: [],
+    schemaUsage: new Map(),
+  };
+  // Both versions count: a schema either of them sends or returns is judged for that use
+  collectSchemaUsage(before.document, before.operations, context.schemaUsage);
+  collectSchemaUsage(after.document, after.operations, context.schemaUsage);
+
+  diffOperations(context, before.operations, after.operations);
+  diffComponentSchemas(context);
+
+  const changes = context.changes.sort(
+    (a, b) => Number(b.breaking) - Number(a.breaking) || a.location.localeCompare(b.location),
+  );
+  return { changes, breakingCount: changes.filter(change => change.breaking).length };
+};
+
+const formatChange = (change: ApiChange): string =>
+  `- \`${change.location}\`${change.subject ? ` · \`${change.subject}\`` : ''}: ${
+    change.description
+  }`;
+
+interface ChangelogOptions {
+  apiName: string;
+  fromVersion: string;
+  toVersion: string;
+}
+
+/**
+ * Markdown changelog of a diff: breaking changes first, then the rest grouped by kind.
+ */
+export const buildChangelogMarkdown = (
+  diff: ApiDiff,
+  { apiName, fromVersion, toVersion }: ChangelogOptions,
+): string => {
+  const lines = [`# ${apiName}: v${fromVersion} → v${toVersion}`, ''];
+
+  if (diff.changes.length === 0) {
+    lines.push('Sin cambios en la especificación.');
+    return `${lines.join('\n')}\n`;
+  }
+
+  lines.push(
+    `${diff.changes.length} cambios, ${diff.breakingCount} incompatibles con la versión anterior.`,
+  );
+
+  const breaking = diff.changes.filter(change => change.breaking);
+  if (breaking.length > 0) {
+    lines.push('', '## Cambios incompatibles', '', ...breaking.map(formatChange));
+  }
+
+  (['added', 'changed', 'removed'] as const).forEach(kind => {
+    const changes = diff.changes.filter(change => !change.breaking && change.kind === kind);
+    if (changes.length > 0) {
+      lines.push('', `## ${CHANGE_KIND_LABELS[kind]}`, '', ...changes.map(formatChange));
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PostmanParseError,
+  buildPostmanEnvironment,
+  getPostmanFileNames,
+  parsePostmanCollection,
+  resolvePostmanUrl,
+} from './postman';
+
+const SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const collection = {
+  info: { _postman_id: 'abc', name: 'Orders API', schema: SCHEMA },
+  auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{accessToken}}' }] },
+  variable: [{ key: 'base_url', value: 'https://old.example.com' }],
+  item: [
+    {
+      name: 'Orders',
+      description: { content: ' Order endpoints ', type: 'text/plain' },
+      item: [
+        {
+          name: 'List orders',
+          request: {
+            method: 'get',
+            url: '{{base_url}}/orders?tenant={{tenant}}',
+            header: [
+              { key: 'X-Trace', value: '{{traceId}}' },
+              { key: 'X-Old', value: '{{unused}}', disabled: true },
+            ],
+          },
+        },
+        {
+          name: 'Public order',
+          request: { url: '{{base_url}}/orders/public', auth: { type: 'noauth' } },
+        },
+      ],
+    },
+    {
+      request: {
+        method: 'POST',
+        url: { protocol: 'https', host: ['api', 'example', 'com'], path: ['login'] },
+        body: {
+          mode: 'urlencoded',
+          urlencoded: [
+            { key: 'user', value: '{{user}}' },
+            { key: 'debug', value: '1', disabled: true },
+          ],
+        },
+      },
+    },
+    {},
+  ],
+};
+
+describe('parsePostmanCollection', () => {
+  it('builds the folder tree with positional ids and inherited auth', () => {
+    const parsed = parsePostmanCollection(JSON.stringify(collection));
+    const [folder, login, unnamed] = parsed.items;
+
+    expect(parsed.name).toBe('Orders API');
+    expect(parsed.requestCount).toBe(4);
+    expect(folder).toMatchObject({ type: 'folder', id: '0', description: 'Order endpoints' });
+    expect(folder?.type === 'folder' && folder.items).toMatchObject([
+      {
+        id: '0.0',
+        method: 'GET',
+        authType: 'bearer',
+        headers: [{ key: 'X-Trace' }],
+        variables: ['base_url', 'tenant', 'traceId', 'accessToken'],
+      },
+      { id: '0.1', method: 'GET', authType: 'noauth' },
+    ]);
+    expect(login).toMatchObject({
+      name: 'https://api.example.com/login',
+      body: 'user={{user}}',
+      variables: ['user', 'accessToken'],
+    });
+    expect(unnamed).toMatchObject({ type: 'request', name: 'Petición sin nombre', url: '' });
+  });
+
+  it('accepts collections wrapped by the Postman API', () => {
+    expect(parsePostmanCollection({ collection }).requestCount).toBe(4);
+  });
+
+  it('rejects invalid JSON, other documents and other schema versions', () => {
+    expect(() => parsePostmanCollection('{')).toThrow(PostmanParseError);
+    expect(() => parsePostmanCollection('')).toThrow(PostmanParseError);
+    expect(() => parsePostmanCollection({ info: { name: 'x' } })).toThrow(
+      'El documento no es una colección de Postman.',
+    );
+    expect(() =>
+      parsePostmanCollection({
+        ...collection,
+        info: { ...collection.info, schema: 'https://schema.getpostman.com/collection/v1' },
+      }),
+    ).toThrow('Solo se admiten colecciones de Postman v2.1.');
+  });
+});
+
+describe('resolvePostmanUrl', () => {
+  it('prefers the raw url and skips disabled query parameters', () => {
+    expect(resolvePostmanUrl({ raw: '{{base_url}}/a', host: ['ignored'] })).toBe('{{base_url}}/a');
+    expect(
+      resolvePostmanUrl({
+        host: '{{base_url}}',
+        path: 'orders',
+        query: [
+          { key: 'page', value: 1 },
+          { key: 'debug', value: true, disabled: true },
+        ],
+      }),
+    ).toBe('{{base_url}}/orders?page=1');
+    expect(resolvePostmanUrl(undefined)).toBe('');
+  });
+});
+
+describe('buildPostmanEnvironment', () => {
+  it('sets the base URL, the credential variable and every undefined variable once', () => {
+    const parsed = parsePostmanCollection(collection);
+    const environment = buildPostmanEnvironment(parsed, {
+      name: 'Orders (dev)',
+      baseUrl: 'https://dev.example.com',
+      authenticationType: 'Bearer',
+    });
+
+    expect(environment.id).toBe('abc-environment');
+    expect(environment.values.map(({ key, value, type }) => [key, value, type])).toEqual([
+      ['base_url', 'https://dev.example.com', 'default'],
+      ['accessToken', '', 'secret'],
+      ['tenant', '', 'default'],
+      ['traceId', '', 'default'],
+      ['user', '', 'default'],
+    ]);
+  });
+
+  it('falls back to default variable names when the collection has none', () => {
+    const parsed = parsePostmanCollection({
+      info: { name: 'Órdenes', schema: SCHEMA },
+      item: [],
+    });
+    const environment = buildPostmanEnvironment(parsed, {
+      name: 'Órdenes',
+      baseUrl: 'https://api.example.com',
+      authenticationType: 'ApiKey',
+    });
+
+    expect(environment.id).toBe('ordenes-environment');
+    expect(environment.values.map(value => value.key)).toEqual(['baseUrl', 'apiKey']);
+  });
+});
+
+describe('getPostmanFileNames', () => {
+  it('names both files after the API, or "api" when the name has nothing usable', () => {
+    expect(getPostmanFileNames('Orders API')).toEqual({
+      collection: 'orders-api.postman_collection.json',
+      environment: 'orders-api.postman_environment.json',
+    });
+    expect(getPostmanFileNames('***').collection).toBe('api.postman_collection.json');
+  });
+});
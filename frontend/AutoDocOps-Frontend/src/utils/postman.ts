@@ -0,0 +1,279 @@
+import {
+  ParsedPostmanCollection,
+  ParsedPostmanNode,
+  PostmanAuth,
+  PostmanBody,
+  PostmanCollection,
+  PostmanEnvironment,
+  PostmanItem,
+  PostmanRequest,
+  PostmanUrl,
+  PostmanVariable,
+} from '../types/postman';
+import { toFileSlug } from './fileNames';
+
+export class PostmanParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PostmanParseError';
+  }
+}
+
+// Variable names the generator may use for the API root
+const BASE_URL_VARIABLE_PATTERN = /^(?:base_?url|api_?url|url|host)$/i;
+const DEFAULT_BASE_URL_VARIABLE = 'baseUrl';
+
+// Variable holding the credential of each project auth type when the collection has none
+const DEFAULT_AUTH_VARIABLES: Record<string, { postmanType: string; variable: string }> = {
+  Bearer: { postmanType: 'bearer', variable: 'bearerToken' },
+  ApiKey: { postmanType: 'apikey', variable: 'apiKey' },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Descriptions are either a string or { content, type }
+const getDescription = (value: unknown): string | undefined => {
+  const text = isObject(value) ? value.content : value;
+  return typeof text === 'string' && text.trim() ? text.trim() : undefined;
+};
+
+const joinUrlPart = (part: string | string[] | undefined, separator: string): string =>
+  Array.isArray(part) ? part.join(separator) : (part ?? '');
+
+// v2.1 urls are either the raw string or its parts; the raw form wins when both are there
+export const resolvePostmanUrl = (url: string | PostmanUrl | undefined): string => {
+  if (!url) {
+    return '';
+  }
+  if (typeof url === 'string') {
+    return url;
+  }
+  if (url.raw) {
+    return url.raw;
+  }
+  const host = joinUrlPart(url.host, '.');
+  const path = joinUrlPart(url.path, '/');
+  const query = (url.query ?? [])
+    .filter(parameter => !parameter.disabled)
+    .map(parameter => `${parameter.key}=${String(parameter.value ?? '')}`)
+    .join('&');
+  return `${url.protocol ? `${url.protocol}://` : ''}${host}${path ? `/${path}` : ''}${
+    query ? `?${query}` : ''
+  }`;
+};
+
+// Names of the {{variables}} referenced in the given strings, in order of appearance
+export const extractPostmanVariables = (values: (string | undefined)[]): string[] => {
+  const names = new Set<string>();
+  values.forEach(value => {
+    Array.from((value ?? '').matchAll(VARIABLE_PATTERN)).forEach(match => {
+      if (match[1]) {
+        names.add(match[1]);
+      }
+    });
+  });
+  return Array.from(names);
+};
+
+const getAuthValues = (auth: PostmanAuth | undefined): PostmanVariable[] => {
+  const values = auth?.[auth.type];
+  return Array.isArray(values) ? values : [];
+};
+
+const getAuthStrings = (auth: PostmanAuth | undefined): string[] =>
+  getAuthValues(auth).map(value => String(value.value ?? ''));
+
+// Raw bodies as they are, form bodies as "key=value" lines
+const getBodyText = (body: PostmanBody | undefined): string | undefined => {
+  if (body?.mode === 'raw') {
+    return body.raw;
+  }
+  if (body?.mode === 'urlencoded' || body?.mode === 'formdata') {
+    return (body[body.mode] ?? [])
+      .filter(field => !field.disabled)
+      .map(field => `${field.key}=${String(field.value ?? '')}`)
+      .join('\n');
+  }
+  return undefined;
+};
+
+const getBodyFields = (body: PostmanBody | undefined): { body?: string; bodyLanguage?: string } => {
+  const text = getBodyText(body);
+  const language = body?.options?.raw?.language;
+  return { ...(text ? { body: text } : {}), ...(language ? { bodyLanguage: language } : {}) };
+};
+
+// Items may give the request as just its URL
+const getItemRequest = (item: PostmanItem): PostmanRequest =>
+  typeof item.request === 'string' ? { url: item.request } : (item.request ?? {});
+
+const parseRequest = (
+  id: string,
+  item: PostmanItem,
+  inheritedAuth: PostmanAuth | undefined,
+): ParsedPostmanNode => {
+  const request = getItemRequest(item);
+  const url = resolvePostmanUrl(request.url);
+  const headers = (request.header ?? []).filter(header => !header.disabled);
+  const auth = request.auth ?? inheritedAuth;
+  const body = getBodyFields(request.body);
+  const description = getDescription(request.description) ?? getDescription(item.description);
+
+  return {
+    type: 'request',
+    id,
+    name: item.name ? item.name : url || 'Petición sin nombre',
+    ...(description ? { description } : {}),
+    method: (request.method ?? 'GET').toUpperCase(),
+    url,
+    headers,
+    ...body,
+    ...(auth ? { authType: auth.type } : {}),
+    variables: extractPostmanVariables([
+      url,
+      ...headers.flatMap(header => [header.key, header.value]),
+      body.body,
+      ...getAuthStrings(auth),
+    ]),
+  };
+};
+
+const parseItems = (
+  items: PostmanItem[],
+  parentId: string,
+  inheritedAuth: PostmanAuth | undefined,
+): ParsedPostmanNode[] =>
+  items
+    .filter((item): item is PostmanItem => isObject(item))
+    .map((item, index) => {
+      const id = parentId ? `${parentId}.${index}` : String(index);
+      if (!Array.isArray(item.item)) {
+        return parseRequest(id, item, inheritedAuth);
+      }
+      const description = getDescription(item.description);
+      return {
+        type: 'folder',
+        id,
+        name: item.name ? item.name : 'Carpeta sin nombre',
+        ...(description ? { description } : {}),
+        items: parseItems(item.item, id, item.auth ?? inheritedAuth),
+      };
+    });
+
+const countRequests = (nodes: ParsedPostmanNode[]): number =>
+  nodes.reduce(
+    (total, node) => total + (node.type === 'folder' ? countRequests(node.items) : 1),
+    0,
+  );
+
+const readCollection = (source: string | object): PostmanCollection => {
+  let raw: unknown;
+  try {
+    raw = typeof source === 'string' ? JSON.parse(source) : source;
+  } catch (error) {
+    throw new PostmanParseError('La colección de Postman no es un JSON válido.');
+  }
+
+  // Exports from the Postman API wrap the collection in { collection: {...} }
+  const collection = (
+    isObject(raw) && isObject(raw.collection) ? raw.collection : raw
+  ) as PostmanCollection;
+  if (!isObject(collection) || !isObject(collection.info) || !Array.isArray(collection.item)) {
+    throw new PostmanParseError('El documento no es una colección de Postman.');
+  }
+  if (collection.info.schema && !/collection\/v2\.[01]/.test(collection.info.schema)) {
+    throw new PostmanParseError('Solo se admiten colecciones de Postman v2.1.');
+  }
+  return collection;
+};
+
+/**
+ * Parses a Postman v2.1 collection (JSON string or object) into a folder/request tree.
+ * Auth is resolved the way Postman does it: a request without its own auth inherits it
+ * from the closest folder, then from the collection.
+ */
+export const parsePostmanCollection = (source: string | object): ParsedPostmanCollection => {
+  const collection = readCollection(source);
+  const items = parseItems(collection.item, '', collection.auth);
+  const description = getDescription(collection.info.description);
+  return {
+    collection,
+    name: collection.info.name || 'Colección',
+    ...(description ? { description } : {}),
+    variables: (collection.variable ?? []).filter(variable => isObject(variable) && variable.key),
+    items,
+    requestCount: countRequests(items),
+  };
+};
+
+const collectRequestVariables = (nodes: ParsedPostmanNode[]): string[] =>
+  nodes.flatMap(node =>
+    node.type === 'folder' ? collectRequestVariables(node.items) : node.variables,
+  );
+
+interface EnvironmentOptions {
+  name: string;
+  baseUrl: string;
+  // Project connection auth type ("Bearer", "ApiKey"...)
+  authenticationType?: string;
+}
+
+/**
+ * Environment to import next to the collection. It sets the collection's base URL variable
+ * to the project's baseUrl and declares, empty and marked secret, the variable holding the
+ * credential of the project's auth type. Variables the requests use but nobody defines are
+ * added empty so they show up in Postman.
+ */
+export const buildPostmanEnvironment = (
+  parsed: ParsedPostmanCollection,
+  { name, baseUrl, authenticationType }: EnvironmentOptions,
+): PostmanEnvironment => {
+  const values: PostmanEnvironment['values'] = [];
+  const addValue = (key: string, value: string, type: 'default' | 'secret'): void => {
+    if (!values.some(entry => entry.key === key)) {
+      values.push({ key, value, type, enabled: true });
+    }
+  };
+
+  const usedVariables = collectRequestVariables(parsed.items);
+  const baseUrlVariable =
+    [...parsed.variables.map(variable => variable.key), ...usedVariables].find(key =>
+      BASE_URL_VARIABLE_PATTERN.test(key),
+    ) ?? DEFAULT_BASE_URL_VARIABLE;
+  addValue(baseUrlVariable, baseUrl, 'default');
+
+  const authDefaults = authenticationType ? DEFAULT_AUTH_VARIABLES[authenticationType] : undefined;
+  if (authDefaults) {
+    const collectionAuth = parsed.collection.auth;
+    const credentialVariable =
+      collectionAuth?.type === authDefaults.postmanType
+        ? extractPostmanVariables(getAuthStrings(collectionAuth))[0]
+        : undefined;
+    addValue(credentialVariable ?? authDefaults.variable, '', 'secret');
+  }
+
+  const definedVariables = new Set(parsed.variables.map(variable => variable.key));
+  usedVariables
+    .filter(key => !definedVariables.has(key))
+    .forEach(key => addValue(key, '', 'default'));
+
+  return {
+    id: `${parsed.collection.info._postman_id ?? toFileSlug(parsed.name)}-environment`,
+    name,
+    values,
+    _postman_variable_scope: 'environment',
+  };
+};
+
+export const getPostmanFileNames = (
+  apiName: string,
+): { collection: string; environment: string } => {
+  const base = toFileSlug(apiName) || 'api';
+  return {
+    collection: `${base}.postman_collection.json`,
+    environment: `${base}.postman_environment.json`,
+  };
+};
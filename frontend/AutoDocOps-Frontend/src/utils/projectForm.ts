@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import {
+  AUTH_TYPES,
+  DIAGRAM_FORMATS,
+  DOCUMENTATION_OUTPUTS,
+  THEMES,
+  VALIDATION,
+} from '../constants';
+import {
+  CreateProjectRequest,
+  DocumentationConfig,
+  Language,
+  Project,
+  ProjectForm,
+  ProjectType,
+  UpdateProjectRequest,
+} from '../types';
+
+export type DocumentationOutputKey = (typeof DOCUMENTATION_OUTPUTS)[number]['key'];
+export type DocumentationOutput = (typeof DOCUMENTATION_OUTPUTS)[number];
+
+export const DEFAULT_CONNECTION_TIMEOUT_SECONDS = 30;
+
+// Auth types that need an access token / a username
+const TOKEN_AUTH_TYPES: readonly string[] = ['Bearer', 'ApiKey'];
+const USERNAME_AUTH_TYPES: readonly string[] = ['SqlServer'];
+
+const authTypeValues = AUTH_TYPES.map(authType => authType.value) as [string, ...string[]];
+
+// Wizard steps
+export const PROJECT_WIZARD_STEPS = [
+  { key: 'basics', label: 'Datos básicos' },
+  { key: 'connection', label: 'Conexión' },
+  { key: 'outputs', label: 'Documentación' },
+  { key: 'review', label: 'Revisión' },
+] as const;
+
+export type ProjectWizardStep = (typeof PROJECT_WIZARD_STEPS)[number]['key'];
+
+export const getAvailableOutputs = (type: ProjectType): DocumentationOutput[] =>
+  DOCUMENTATION_OUTPUTS.filter(output => (output.projectTypes as readonly number[]).includes(type));
+
+export const isOutputAvailable = (key: DocumentationOutputKey, type: ProjectType): boolean =>
+  getAvailableOutputs(type).some(output => output.key === key);
+
+// Step schemas
+export const basicsStepSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(
+      VALIDATION.PROJECT_NAME_MIN_LENGTH,
+      `El nombre debe tener al menos ${VALIDATION.PROJECT_NAME_MIN_LENGTH} caracteres`,
+    )
+    .max(
+      VALIDATION.PROJECT_NAME_MAX_LENGTH,
+      `El nombre no puede superar ${VALIDATION.PROJECT_NAME_MAX_LENGTH} caracteres`,
+    ),
+  description: z
+    .string()
+    .trim()
+    .max(
+      VALIDATION.DESCRIPTION_MAX_LENGTH,
+      `La descripción no puede superar ${VALIDATION.DESCRIPTION_MAX_LENGTH} caracteres`,
+    ),
+  type: z.nativeEnum(ProjectType, { errorMap: () => ({ message: 'Selecciona un tipo' }) }),
+  preferredLanguage: z.nativeEnum(Language, {
+    errorMap: () => ({ message: 'Selecciona un idioma' }),
+  }),
+  repositoryUrl: z
+    .string()
+    .trim()
+    .refine(value => !value || VALIDATION.URL_REGEX.test(value), 'La URL no es válida'),
+  branch: z.string().trim(),
+});
+
+export const connectionStepSchema = z
+  .object({
+    connectionString: z.string().trim().min(1, 'La cadena de conexión es requerida'),
+    authenticationType: z.enum(authTypeValues, {
+      errorMap: () => ({ message: 'Selecciona un tipo de autenticación' }),
+    }),
+    username: z.string().trim(),
+    accessToken: z.string().trim(),
+  })
+  .superRefine((values, ctx) => {
+    if (TOKEN_AUTH_TYPES.includes(values.authenticationType) && !values.accessToken) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['accessToken'],
+        message: 'El token de acceso es requerido para este tipo de autenticación',
+      });
+    }
+    if (USERNAME_AUTH_TYPES.includes(values.authenticationType) && !values.username) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['username'],
+        message: 'El usuario es requerido para este tipo de autenticación',
+      });
+    }
+  });
+
+export const outputsStepSchema = z
+  .object({
+    type: z.nativeEnum(ProjectType),
+    generateOpenApi: z.boolean(),
+    generateSwaggerUI: z.boolean(),
+    generatePostmanCollection: z.boolean(),
+    generateTypeScriptSDK: z.boolean(),
+    generateCSharpSDK: z.boolean(),
+    generateERDiagrams: z.boolean(),
+    generateDataDictionary: z.boolean(),
+    generateUsageGuides: z.boolean(),
+    enableSemanticChat: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    const hasOutput = getAvailableOutputs(values.type).some(output => values[output.key]);
+    if (!hasOutput) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        // Not tied to one checkbox; the resolver maps this path to formState.errors.root
+        path: ['root'],
+        message: 'Selecciona al menos un tipo de documentación',
+      });
+    }
+  });
+
+export const projectFormSchema = basicsStepSchema.and(connectionStepSchema).and(outputsStepSchema);
+
+export type ProjectFormValues = z.infer<typeof projectFormSchema>;
+
+// Schema used to validate each step before moving forward (review has nothing new to check)
+export const PROJECT_WIZARD_STEP_SCHEMAS: Record<ProjectWizardStep, z.ZodTypeAny> = {
+  basics: basicsStepSchema,
+  connection: connectionStepSchema,
+  outputs: outputsStepSchema,
+  review: projectFormSchema,
+};
+
+export const DEFAULT_PROJECT_FORM_VALUES: ProjectFormValues = {
+  name: '',
+  description: '',
+  type: ProjectType.DotNetApi,
+  preferredLanguage: Language.Spanish,
+  repositoryUrl: '',
+  branch: '',
+  connectionString: '',
+  authenticationType: 'Bearer',
+  username: '',
+  accessToken: '',
+  generateOpenApi: true,
+  generateSwaggerUI: true,
+  generatePostmanCollection: false,
+  generateTypeScriptSDK: false,
+  generateCSharpSDK: false,
+  generateERDiagrams: false,
+  generateDataDictionary: false,
+  generateUsageGuides: true,
+  enableSemanticChat: true,
+};
+
+// Outputs that don't apply to the project type are always sent disabled
+export const buildDocumentationConfig = (form: ProjectForm): DocumentationConfig => {
+  const enabled = (key: DocumentationOutputKey): boolean =>
+    form[key] && isOutputAvailable(key, form.type);
+
+  return {
+    generateOpenApi: enabled('generateOpenApi'),
+    generateSwaggerUI: enabled('generateSwaggerUI'),
+    generatePostmanCollection: enabled('generatePostmanCollection'),
+    generateTypeScriptSDK: enabled('generateTypeScriptSDK'),
+    generateCSharpSDK: enabled('generateCSharpSDK'),
+    generateERDiagrams: enabled('generateERDiagrams'),
+    generateDataDictionary: enabled('generateDataDictionary'),
+    generateUsageGuides: enabled('generateUsageGuides'),
+    enableSemanticChat: enabled('enableSemanticChat'),
+    diagramFormat: DIAGRAM_FORMATS[0].value,
+    theme: THEMES[0].value,
+    includeCodeExamples: true,
+    includeVersioning: true,
+  };
+};
+
+export const mapProjectFormToRequest = (form: ProjectForm): CreateProjectRequest => ({
+  name: form.name.trim(),
+  description: form.description.trim(),
+  type: form.type,
+  preferredLanguage: form.preferredLanguage,
+  ...(form.repositoryUrl ? { repositoryUrl: form.repositoryUrl } : {}),
+  ...(form.branch ? { branch: form.branch } : {}),
+  connectionConfig: {
+    connectionString: form.connectionString,
+    authenticationType: form.authenticationType,
+    ...(form.username ? { username: form.username } : {}),
+    ...(form.accessToken ? { accessToken: form.accessToken } : {}),
+    isEnabled: true,
+    timeoutSeconds: DEFAULT_CONNECTION_TIMEOUT_SECONDS,
+  },
+  documentationConfig: buildDocumentationConfig(form),
+});
+
+// Form values of an existing project, for editing it
+export const mapProjectToForm = (project: Project): ProjectFormValues => ({
+  name: project.name,
+  description: project.description,
+  type: project.type,
+  preferredLanguage: project.preferredLanguage,
+  repositoryUrl: project.repositoryUrl ?? '',
+  branch: project.branch ?? '',
+  connectionString: project.connectionConfig.connectionString,
+  authenticationType: project.connectionConfig.authenticationType,
+  username: project.connectionConfig.username ?? '',
+  accessToken: project.connectionConfig.accessToken ?? '',
+  generateOpenApi: project.documentationConfig.generateOpenApi,
+  generateSwaggerUI: project.documentationConfig.generateSwaggerUI,
+  generatePostmanCollection: project.documentationConfig.generatePostmanCollection,
+  generateTypeScriptSDK: project.documentationConfig.generateTypeScriptSDK,
+  generateCSharpSDK: project.documentationConfig.generateCSharpSDK,
+  generateERDiagrams: project.documentationConfig.generateERDiagrams,
+  generateDataDictionary: project.documentationConfig.generateDataDictionary,
+  generateUsageGuides: project.documentationConfig.generateUsageGuides,
+  enableSemanticChat: project.documentationConfig.enableSemanticChat,
+});
+
+// Settings the form doesn't show (timeouts, theme, versioning...) are sent back unchanged
+export const mapProjectFormToUpdateRequest = (
+  form: ProjectFormValues,
+  project: Project,
+): UpdateProjectRequest => {
+  const { connectionConfig, documentationConfig } = project;
+  return {
+    name: form.name.trim(),
+    description: form.description.trim(),
+    repositoryUrl: form.repositoryUrl.trim(),
+    branch: form.branch.trim(),
+    connectionConfig: {
+      connectionString: form.connectionString,
+      authenticationType: form.authenticationType,
+      ...(form.username ? { username: form.username } : {}),
+      ...(form.accessToken ? { accessToken: form.accessToken } : {}),
+      ...(connectionConfig.additionalSettings
+        ? { additionalSettings: connectionConfig.additionalSettings }
+        : {}),
+      isEnabled: connectionConfig.isEnabled,
+      timeoutSeconds: connectionConfig.timeoutSeconds,
+    },
+    documentationConfig: {
+      ...buildDocumentationConfig({ ...form, type: project.type }),
+      diagramFormat: documentationConfig.diagramFormat,
+      theme: documentationConfig.theme,
+      ...(documentationConfig.customSettings
+        ? { customSettings: documentationConfig.customSettings }
+        : {}),
+      includeCodeExamples: documentationConfig.includeCodeExamples,
+      includeVersioning: documentationConfig.includeVersioning,
+    },
+  };
+};
@@ -0,0 +1,72 @@
+import { PROJECT_STATUS } from '../constants';
+import { Project, ProjectStatus, ProjectStatusTransition } from '../types';
+
+export type ProjectStatusInfo = (typeof PROJECT_STATUS)[number];
+
+export interface GenerationAvailability {
+  canGenerate: boolean;
+  canRegenerate: boolean;
+  reason?: string;
+}
+
+// Once reached, no further status changes are expected without user action
+export const TERMINAL_PROJECT_STATUSES: readonly ProjectStatus[] = [
+  ProjectStatus.DocumentationGenerated,
+  ProjectStatus.Error,
+  ProjectStatus.Paused,
+];
+
+export const isTerminalStatus = (status: ProjectStatus): boolean =>
+  TERMINAL_PROJECT_STATUSES.includes(status);
+
+// Statuses worth following live. Analyzed is a resting state until generation is requested,
+// and the backend has no status of its own for a generation in progress
+export const isStatusInProgress = (status: ProjectStatus): boolean =>
+  status === ProjectStatus.Analyzing;
+
+export const getProjectStatusInfo = (status: ProjectStatus): ProjectStatusInfo =>
+  PROJECT_STATUS.find(s => s.value === status) ?? PROJECT_STATUS[0];
+
+// Which generation actions make sense for the current status
+export const getGenerationAvailability = (status: ProjectStatus): GenerationAvailability => {
+  switch (status) {
+    case ProjectStatus.Analyzing:
+      return {
+        canGenerate: false,
+        canRegenerate: false,
+        reason: 'El análisis está en curso. Espera a que finalice.',
+      };
+    case ProjectStatus.Paused:
+      return {
+        canGenerate: false,
+        canRegenerate: false,
+        reason: 'El proyecto está pausado.',
+      };
+    case ProjectStatus.DocumentationGenerated:
+      return { canGenerate: false, canRegenerate: true };
+    case ProjectStatus.Analyzed:
+    case ProjectStatus.Error:
+      return { canGenerate: true, canRegenerate: true };
+    case ProjectStatus.Created:
+    case ProjectStatus.Configured:
+    default:
+      return { canGenerate: true, canRegenerate: false };
+  }
+};
+
+// Used when the backend doesn't return a history: creation plus the current status
+export const buildFallbackTimeline = (project: Project): ProjectStatusTransition[] => {
+  const timeline: ProjectStatusTransition[] = [
+    { status: ProjectStatus.Created, changedAt: project.createdAt, changedBy: project.createdBy },
+  ];
+
+  if (project.status !== ProjectStatus.Created) {
+    timeline.push({
+      status: project.status,
+      changedAt: project.updatedAt,
+      changedBy: project.updatedBy,
+    });
+  }
+
+  return timeline;
+};
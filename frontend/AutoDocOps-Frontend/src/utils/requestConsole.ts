@@ -0,0 +1,126 @@
+import { ConnectionConfig } from '../types';
+import { OpenApiDocument, OpenApiSecurityScheme, ParsedOperation } from '../types/openApi';
+import { buildSchemaExample, deref } from './openApi';
+
+export type ParameterValues = Record<string, string>;
+
+export interface RequestDraft {
+  path: ParameterValues;
+  query: ParameterValues;
+  headers: ParameterValues;
+  body: string;
+  contentType?: string;
+}
+
+const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+
+const stringifyValue = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Initial editor values for an operation: every parameter and the JSON body are
+ * pre-filled from their examples, falling back to a sample built from the schema.
+ */
+export const createRequestDraft = (
+  document: OpenApiDocument,
+  operation: ParsedOperation,
+): RequestDraft => {
+  const draft: RequestDraft = { path: {}, query: {}, headers: {}, body: '' };
+
+  operation.parameters.forEach(parameter => {
+    const value = stringifyValue(
+      parameter.example ?? buildSchemaExample(document, parameter.schema),
+    );
+    if (parameter.in === 'path') {
+      draft.path[parameter.name] = value;
+    }
+    if (parameter.in === 'query') {
+      draft.query[parameter.name] = value;
+    }
+    if (parameter.in === 'header') {
+      draft.headers[parameter.name] = value;
+    }
+  });
+
+  const media =
+    operation.requestBody?.content.find(content => content.mediaType.includes('json')) ??
+    operation.requestBody?.content[0];
+  if (media) {
+    const example = media.example ?? buildSchemaExample(document, media.schema);
+    draft.contentType = media.mediaType;
+    draft.body =
+      example === undefined
+        ? ''
+        : typeof example === 'string'
+          ? example
+          : JSON.stringify(example, null, 2);
+  }
+
+  return draft;
+};
+
+/**
+ * Credentials for the documented API taken from the project's connection config.
+ * ApiKey uses the name and location of the spec's apiKey security scheme when there is one.
+ */
+export const getConnectionAuth = (
+  connection: ConnectionConfig,
+  document: OpenApiDocument,
+): { headers: ParameterValues; query: ParameterValues } => {
+  const token = connection.accessToken;
+  if (!token) {
+    return { headers: {}, query: {} };
+  }
+
+  if (connection.authenticationType === 'Bearer') {
+    return { headers: { Authorization: `Bearer ${token}` }, query: {} };
+  }
+
+  if (connection.authenticationType === 'ApiKey') {
+    const scheme = Object.values(document.components?.securitySchemes ?? {})
+      .map(entry => deref<OpenApiSecurityScheme>(document, entry))
+      .find(entry => entry?.type === 'apiKey' && entry.name);
+    const name = scheme?.name ?? DEFAULT_API_KEY_HEADER;
+    return scheme?.in === 'query'
+      ? { headers: {}, query: { [name]: token } }
+      : { headers: { [name]: token }, query: {} };
+  }
+
+  return { headers: {}, query: {} };
+};
+
+// Substitutes {placeholders} and appends the non-empty query values
+export const buildRequestUrl = (
+  baseUrl: string,
+  path: string,
+  pathValues: ParameterValues,
+  queryValues: ParameterValues,
+): string => {
+  const resolvedPath = path.replace(/\{([^}]+)\}/g, (placeholder, name: string) =>
+    pathValues[name] ? encodeURIComponent(pathValues[name]) : placeholder,
+  );
+  const query = Object.entries(queryValues)
+    .filter(([, value]) => value !== '')
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+  return `${baseUrl.replace(/\/+$/, '')}${resolvedPath}${query ? `?${query}` : ''}`;
+};
+
+export const getMissingPathParameters = (path: string, pathValues: ParameterValues): string[] =>
+  Array.from(path.matchAll(/\{([^}]+)\}/g))
+    .map(match => match[1] ?? '')
+    .filter(name => !pathValues[name]);
+
+// Pretty-prints JSON bodies, anything else is shown as received
+export const formatResponseBody = (body: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch (error) {
+    return body;
+  }
+};
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { getRoutineKey, matchesRoutine, parseRoutineDoc } from './routines';
+
+describe('parseRoutineDoc', () => {
+  it('reads T-SQL parameters, defaults and output parameters from the definition', () => {
+    const [routine] = parseRoutineDoc(
+      `CREATE OR ALTER PROCEDURE [sales].[usp_PlaceOrder]
+  @CustomerId INT,
+  @Total DECIMAL(10, 2) = 0 OUTPUT,
+  @Note NVARCHAR(100) = 'a, b'
+AS
+BEGIN
+  SELECT 1
+END`,
+      'procedure',
+    );
+
+    expect(routine).toMatchObject({
+      kind: 'procedure',
+      schema: 'sales',
+      name: 'usp_PlaceOrder',
+      parameters: [
+        { name: '@CustomerId', dataType: 'INT', direction: 'IN' },
+        { name: '@Total', dataType: 'DECIMAL(10, 2)', direction: 'OUT', defaultValue: '0' },
+        { name: '@Note', dataType: 'NVARCHAR(100)', direction: 'IN', defaultValue: "'a, b'" },
+      ],
+    });
+  });
+
+  it('reads PostgreSQL modes and return types of functions', () => {
+    const [routine] = parseRoutineDoc(
+      `CREATE FUNCTION public.order_total(IN order_id integer, INOUT total numeric DEFAULT 0)
+RETURNS SETOF orders LANGUAGE sql AS $$ SELECT 1 $$;`,
+      'function',
+    );
+
+    expect(routine?.parameters.map(parameter => parameter.direction)).toEqual(['IN', 'INOUT']);
+    expect(routine?.returnType).toBe('SETOF orders');
+  });
+
+  it('reads the table and events of triggers', () => {
+    const [routine] = parseRoutineDoc(
+      'CREATE TRIGGER dbo.trg_Audit ON [dbo].[Orders] AFTER INSERT, UPDATE AS BEGIN END',
+      'trigger',
+    );
+
+    expect(routine).toMatchObject({
+      name: 'trg_Audit',
+      table: 'dbo.Orders',
+      events: ['INSERT', 'UPDATE'],
+      parameters: [],
+    });
+  });
+
+  it('reads JSON docs, preferring their fields over the definition', () => {
+    const routines = parseRoutineDoc(
+      JSON.stringify({
+        procedures: [
+          {
+            procedureName: 'dbo.GetUser',
+            summary: 'Busca un usuario',
+            definition: 'CREATE PROCEDURE dbo.GetUser @Id INT AS SELECT 1',
+            params: [
+              { parameterName: '@Id', type: 'bigint', mode: 'in' },
+              { name: '@Found', dataType: 'bit', isOutput: true },
+              { name: '@Both', dataType: 'int', direction: 'InputOutput' },
+              '@Extra INT = 5',
+              { type: 'int' },
+            ],
+          },
+          { definition: 'CREATE PROCEDURE dbo.Cleanup AS SELECT 1' },
+          { description: 'sin nombre' },
+          'not a routine',
+        ],
+      }),
+      'procedure',
+    );
+
+    expect(routines.map(getRoutineKey)).toEqual(['dbo.Cleanup', 'dbo.GetUser']);
+    expect(routines[1]?.description).toBe('Busca un usuario');
+    expect(
+      routines[1]?.parameters.map(parameter => [
+        parameter.name,
+        parameter.dataType,
+        parameter.direction,
+      ]),
+    ).toEqual([
+      ['@Id', 'bigint', 'IN'],
+      ['@Found', 'bit', 'OUT'],
+      ['@Both', 'int', 'INOUT'],
+      ['@Extra', 'INT', 'IN'],
+    ]);
+  });
+
+  it('reads trigger events given as a JSON string or list', () => {
+    const routines = parseRoutineDoc(
+      JSON.stringify([
+        { name: 'trg_A', tableName: 'Orders', event: 'insert, delete' },
+        { name: 'trg_B', events: ['update'] },
+      ]),
+      'trigger',
+    );
+
+    expect(routines.map(routine => routine.events)).toEqual([['INSERT', 'DELETE'], ['UPDATE']]);
+    expect(routines[0]?.table).toBe('Orders');
+  });
+
+  it('reads Markdown docs with one heading and SQL block per routine', () => {
+    const routines = parseRoutineDoc(
+      `# Procedimientos
+
+## \`dbo.usp_B\`
+Borra pedidos antiguos.
+
+| Parámetro | Tipo |
+|---|---|
+
+\`\`\`sql
+CREATE PROCEDURE dbo.usp_B @Days INT AS DELETE FROM Orders
+\`\`\`
+
+## usp_A
+Sin definición.`,
+      'procedure',
+    );
+
+    expect(routines.map(getRoutineKey)).toEqual(['usp_A', 'dbo.usp_B']);
+    expect(routines[1]?.description).toBe('Borra pedidos antiguos.');
+    expect(routines[1]?.parameters[0]?.name).toBe('@Days');
+    expect(routines[0]?.definition).toBeUndefined();
+  });
+
+  it('splits raw scripts into one routine per CREATE with the comments above it', () => {
+    const routines = parseRoutineDoc(
+      `-- Devuelve los pedidos
+-- de un cliente
+CREATE PROCEDURE dbo.GetOrders @CustomerId INT AS SELECT 1
+GO
+/* Limpia la tabla */
+CREATE PROCEDURE dbo.Clear AS DELETE FROM Orders
+GO`,
+      'procedure',
+    );
+
+    expect(routines.map(routine => [routine.name, routine.description])).toEqual([
+      ['Clear', 'Limpia la tabla'],
+      ['GetOrders', 'Devuelve los pedidos\nde un cliente'],
+    ]);
+    expect(routines[1]?.definition).not.toContain('GO');
+  });
+
+  it('returns nothing for empty input or text without routines', () => {
+    expect(parseRoutineDoc('', 'procedure')).toEqual([]);
+    expect(parseRoutineDoc('   \n', 'function')).toEqual([]);
+    expect(parseRoutineDoc('{}', 'trigger')).toEqual([]);
+    expect(parseRoutineDoc('SELECT 1', 'procedure')).toEqual([]);
+  });
+});
+
+describe('matchesRoutine', () => {
+  const [routine] = parseRoutineDoc(
+    'CREATE PROCEDURE sales.PlaceOrder @CustomerId INT AS SELECT 1',
+    'procedure',
+  );
+
+  it('matches the qualified name and parameter names, ignoring case', () => {
+    expect(routine && matchesRoutine(routine, 'SALES.place')).toBe(true);
+    expect(routine && matchesRoutine(routine, 'customerid')).toBe(true);
+    expect(routine && matchesRoutine(routine, '  ')).toBe(true);
+    expect(routine && matchesRoutine(routine, 'invoice')).toBe(false);
+  });
+});
@@ -0,0 +1,378 @@
+import { DatabaseRoutine, RoutineKind, RoutineParameter } from '../types';
+
+/*
+ * Parser for DatabaseSchema.storedProceduresDoc, functionsDoc and triggersDoc. Depending on
+ * the generator version each doc is JSON (an array of routines or `{ procedures: [...] }`),
+ * Markdown with one heading and a ```sql block per routine, or the raw CREATE scripts.
+ * Parameters, return type and trigger events missing from the doc are read from the SQL.
+ */
+
+export const ROUTINE_KIND_LABELS: Record<RoutineKind, string> = {
+  procedure: 'Procedimientos',
+  function: 'Funciones',
+  trigger: 'Triggers',
+};
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pickString = (raw: RawObject, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = raw[key];
+    if (typeof value === 'string' && value.trim() !== '') {
+      return value.trim();
+    }
+  }
+  return undefined;
+};
+
+const stripBrackets = (name: string): string => name.replace(/[\[\]"`]/g, '');
+
+// Splits on commas outside parentheses and quotes: "@a DECIMAL(10, 2), @b CHAR(3) = 'x,y'"
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let current = '';
+  for (const char of text) {
+    if (char === "'") {
+      // An escaped quote ('') closes and reopens, which leaves the state unchanged
+      inQuotes = !inQuotes;
+    } else if (char === '(' && !inQuotes) {
+      depth += 1;
+    } else if (char === ')' && !inQuotes) {
+      depth -= 1;
+    }
+    if (char === ',' && depth === 0 && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+// "@Total DECIMAL(10,2) = 0 OUTPUT" (T-SQL) or "INOUT total numeric DEFAULT 0" (PostgreSQL)
+const parseSqlParameter = (text: string): RoutineParameter | null => {
+  const match = text.match(
+    /^(?:(IN|OUT|INOUT)\s+)?(@?\w+)\s+(?:AS\s+)?([\w.\[\]]+(?:\s*\([^)]*\))?)(?:\s*(?:=|\bDEFAULT\b)\s*('(?:[^']|'')*'|[^\s,]+))?\s*(OUTPUT|OUT|READONLY)?/i,
+  );
+  if (!match) {
+    return null;
+  }
+  const [, mode, name = '', dataType = '', defaultValue, suffix] = match;
+  const isOutput = /^OUT/i.test(suffix ?? '');
+  const direction =
+    (mode?.toUpperCase() as RoutineParameter['direction'] | undefined) ?? (isOutput ? 'OUT' : 'IN');
+  return {
+    name,
+    dataType: stripBrackets(dataType),
+    direction,
+    ...(defaultValue ? { defaultValue } : {}),
+  };
+};
+
+const removeComments = (sql: string): string =>
+  sql.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/--[^\n]*/g, ' ');
+
+const CREATE_PATTERN =
+  /\b(?:CREATE|ALTER)\s+(?:OR\s+(?:ALTER|REPLACE)\s+)?(PROC(?:EDURE)?|FUNCTION|TRIGGER)\s+([\w.\[\]"]+)/i;
+
+interface SqlHeader {
+  kind?: RoutineKind;
+  schema?: string;
+  name?: string;
+  parameters: RoutineParameter[];
+  returnType?: string;
+  table?: string;
+  events?: string[];
+}
+
+// `rest` is what follows "CREATE TRIGGER name": "ON dbo.Orders AFTER INSERT, UPDATE AS ..."
+const parseTriggerTarget = (rest: string): Pick<SqlHeader, 'table' | 'events'> => {
+  const trigger = rest.match(
+    /^\s*ON\s+([\w.\[\]"]+)\s+(?:AFTER|FOR|INSTEAD\s+OF|BEFORE)\s+([\w\s,]+?)\s+(?:ON\b|AS\b|FOR\b|EXECUTE\b|$)/i,
+  );
+  const events = trigger?.[2]
+    ?.split(/\s*(?:,|\bOR\b)\s*/i)
+    .map(event => event.trim().toUpperCase())
+    .filter(Boolean);
+  return {
+    ...(trigger?.[1] ? { table: stripBrackets(trigger[1]) } : {}),
+    ...(events && events.length > 0 ? { events } : {}),
+  };
+};
+
+// `rest` is what follows "CREATE PROCEDURE name": the parameters, then the body or RETURNS
+const parseSignature = (rest: string): Pick<SqlHeader, 'parameters' | 'returnType'> => {
+  // Parameters end where the body (AS/BEGIN), the options (WITH) or RETURNS start
+  const headerEnd = rest.search(/\b(?:RETURNS|AS|BEGIN|WITH|LANGUAGE)\b/i);
+  let parameterText = (headerEnd === -1 ? rest : rest.slice(0, headerEnd)).trim();
+  if (parameterText.startsWith('(') && parameterText.endsWith(')')) {
+    parameterText = parameterText.slice(1, -1);
+  }
+  const parameters = splitTopLevel(parameterText)
+    .map(parseSqlParameter)
+    .filter((parameter): parameter is RoutineParameter => parameter !== null);
+
+  const returns = rest.match(
+    /\bRETURNS\s+(@?\w+\s+TABLE\b|SETOF\s+\w+|TABLE\b|[\w.\[\]]+(?:\s*\([^)]*\))?)/i,
+  );
+
+  return {
+    parameters,
+    ...(returns?.[1] ? { returnType: stripBrackets(returns[1].replace(/\s+/g, ' ')) } : {}),
+  };
+};
+
+const parseSqlHeader = (definition: string): SqlHeader => {
+  const sql = removeComments(definition);
+  const create = sql.match(CREATE_PATTERN);
+  if (create?.index === undefined) {
+    return { parameters: [] };
+  }
+  const [statement, keyword = '', qualifiedName = ''] = create;
+  const kind: RoutineKind = /^PROC/i.test(keyword)
+    ? 'procedure'
+    : /^FUNCTION/i.test(keyword)
+      ? 'function'
+      : 'trigger';
+  const nameParts = stripBrackets(qualifiedName).split('.');
+  const name = nameParts.pop() ?? qualifiedName;
+  const schema = nameParts.pop();
+  const rest = sql.slice(create.index + statement.length);
+
+  return {
+    kind,
+    name,
+    ...(schema ? { schema } : {}),
+    ...(kind === 'trigger'
+      ? { parameters: [], ...parseTriggerTarget(rest) }
+      : parseSignature(rest)),
+  };
+};
+
+// "InputOutput", "OUTPUT", "out"... or an isOutput flag
+const parseDirection = (
+  mode: string | undefined,
+  isOutput: boolean,
+): RoutineParameter['direction'] => {
+  if (mode === 'INOUT' || mode === 'INPUTOUTPUT') {
+    return 'INOUT';
+  }
+  return (mode?.startsWith('OUT') ?? false) || isOutput ? 'OUT' : 'IN';
+};
+
+const parseJsonParameter = (raw: unknown): RoutineParameter | null => {
+  if (typeof raw === 'string') {
+    return parseSqlParameter(raw);
+  }
+  if (!isObject(raw)) {
+    return null;
+  }
+  const name = pickString(raw, ['name', 'parameterName']);
+  if (!name) {
+    return null;
+  }
+  const mode = pickString(raw, ['direction', 'mode'])?.toUpperCase();
+  const isOutput = raw.isOutput === true || raw.output === true;
+  const defaultValue = pickString(raw, ['defaultValue', 'default']);
+  const description = pickString(raw, ['description', 'comment']);
+  return {
+    name,
+    dataType: pickString(raw, ['dataType', 'type', 'sqlType']) ?? '',
+    direction: parseDirection(mode, isOutput),
+    ...(defaultValue ? { defaultValue } : {}),
+    ...(description ? { description } : {}),
+  };
+};
+
+interface RoutineFields {
+  name?: string;
+  schema?: string;
+  description?: string;
+  definition?: string;
+  parameters?: RoutineParameter[];
+  returnType?: string;
+  table?: string;
+  events?: string[];
+}
+
+const nonEmpty = <T>(items: T[] | undefined): T[] | undefined =>
+  items && items.length > 0 ? items : undefined;
+
+// The doc's name ("dbo.usp_Orders") wins over the one in the definition
+const resolveName = (
+  fields: RoutineFields,
+  header: SqlHeader,
+): { name?: string; schema?: string } => {
+  const nameParts = fields.name ? stripBrackets(fields.name).split('.') : [];
+  const name = nameParts.pop() ?? header.name;
+  const schema = fields.schema ?? nameParts.pop() ?? header.schema;
+  return { ...(name ? { name } : {}), ...(schema ? { schema } : {}) };
+};
+
+const buildRoutine = (kind: RoutineKind, fields: RoutineFields): DatabaseRoutine | null => {
+  const header = fields.definition ? parseSqlHeader(fields.definition) : { parameters: [] };
+  const { name, schema } = resolveName(fields, header);
+  if (!name) {
+    return null;
+  }
+  const parameters = nonEmpty(fields.parameters) ?? header.parameters;
+  const returnType = fields.returnType ?? header.returnType;
+  const table = fields.table ?? header.table;
+  const events = nonEmpty(fields.events) ?? header.events;
+
+  return {
+    kind,
+    name,
+    ...(schema ? { schema } : {}),
+    parameters,
+    ...(returnType ? { returnType } : {}),
+    ...(fields.description ? { description: fields.description } : {}),
+    ...(fields.definition ? { definition: fields.definition.trim() } : {}),
+    ...(table ? { table } : {}),
+    ...(events ? { events } : {}),
+  };
+};
+
+const CONTAINER_KEYS = [
+  'routines',
+  'items',
+  'procedures',
+  'storedProcedures',
+  'functions',
+  'triggers',
+];
+
+const parseJsonRoutine = (item: RawObject, kind: RoutineKind): DatabaseRoutine | null => {
+  const rawParameters = item.parameters ?? item.params;
+  const rawEvents = item.events ?? item.event;
+  const name = pickString(item, ['name', 'routineName', 'procedureName', 'functionName']);
+  const schema = pickString(item, ['schema', 'schemaName']);
+  const description = pickString(item, ['description', 'summary', 'comment']);
+  const definition = pickString(item, ['definition', 'sqlDefinition', 'body', 'sql']);
+  const returnType = pickString(item, ['returnType', 'returns', 'returnsType']);
+  const table = pickString(item, ['table', 'tableName', 'parentTable']);
+  return buildRoutine(kind, {
+    ...(name ? { name } : {}),
+    ...(schema ? { schema } : {}),
+    ...(description ? { description } : {}),
+    ...(definition ? { definition } : {}),
+    ...(returnType ? { returnType } : {}),
+    ...(table ? { table } : {}),
+    parameters: Array.isArray(rawParameters)
+      ? rawParameters
+          .map(parseJsonParameter)
+          .filter((parameter): parameter is RoutineParameter => parameter !== null)
+      : [],
+    events: (Array.isArray(rawEvents) ? rawEvents : [rawEvents])
+      .filter((event): event is string => typeof event === 'string')
+      .flatMap(event => event.split(/\s*,\s*/))
+      .map(event => event.toUpperCase()),
+  });
+};
+
+const parseJsonDoc = (raw: unknown, kind: RoutineKind): DatabaseRoutine[] => {
+  const container = isObject(raw)
+    ? (CONTAINER_KEYS.map(key => raw[key]).find(Array.isArray) ?? [])
+    : raw;
+  if (!Array.isArray(container)) {
+    return [];
+  }
+  return container
+    .map(item => (isObject(item) ? parseJsonRoutine(item, kind) : null))
+    .filter((routine): routine is DatabaseRoutine => routine !== null);
+};
+
+// One heading per routine, the first ```sql block is its definition, the rest is description
+const parseMarkdownDoc = (text: string, kind: RoutineKind): DatabaseRoutine[] => {
+  const sections = text.split(/^#{2,4}\s+/m).slice(1);
+  return sections
+    .map(section => {
+      const [heading = '', ...lines] = section.split('\n');
+      const body = lines.join('\n');
+      const code = body.match(/```(?:sql|tsql|plpgsql)?\s*\n([\s\S]*?)```/i)?.[1];
+      const description = body
+        .replace(/```[\s\S]*?```/g, '')
+        .replace(/^\s*[|>-].*$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+      const name = heading.replace(/[`*]/g, '').trim();
+      return buildRoutine(kind, {
+        ...(name ? { name } : {}),
+        ...(description ? { description } : {}),
+        ...(code ? { definition: code } : {}),
+      });
+    })
+    .filter((routine): routine is DatabaseRoutine => routine !== null);
+};
+
+// Raw scripts: each CREATE statement, with the comment lines right above it as description
+const parseSqlDoc = (text: string, kind: RoutineKind): DatabaseRoutine[] => {
+  const lines = text.split('\n');
+  const isComment = (line: string): boolean => /^\s*(?:--|\/\*|\*)/.test(line);
+  const statements = lines.flatMap((line, index) => {
+    if (!CREATE_PATTERN.test(line) || !/^\s*(?:CREATE|ALTER)\s/i.test(line)) {
+      return [];
+    }
+    let commentStart = index;
+    while (commentStart > 0 && isComment(lines[commentStart - 1] ?? '')) {
+      commentStart -= 1;
+    }
+    return [{ commentStart, start: index }];
+  });
+
+  return statements
+    .map(({ commentStart, start }, position) => {
+      const end = statements[position + 1]?.commentStart ?? lines.length;
+      const description = lines
+        .slice(commentStart, start)
+        .map(line => line.replace(/^\s*(?:--|\/\*+|\*\/|\*)\s?/, '').replace(/\*\/\s*$/, ''))
+        .join('\n')
+        .trim();
+      const definition = lines
+        .slice(start, end)
+        .join('\n')
+        .replace(/^\s*GO\s*$/gim, '');
+      return buildRoutine(kind, {
+        ...(description ? { description } : {}),
+        definition,
+      });
+    })
+    .filter((routine): routine is DatabaseRoutine => routine !== null);
+};
+
+const parseDoc = (text: string, kind: RoutineKind): DatabaseRoutine[] => {
+  if (text.startsWith('[') || text.startsWith('{')) {
+    try {
+      return parseJsonDoc(JSON.parse(text), kind);
+    } catch (error) {
+      // Not JSON after all, try the text formats
+    }
+  }
+  return /^#{2,4}\s+/m.test(text) ? parseMarkdownDoc(text, kind) : parseSqlDoc(text, kind);
+};
+
+export const parseRoutineDoc = (text: string, kind: RoutineKind): DatabaseRoutine[] =>
+  parseDoc(text.trim(), kind).sort((a, b) => a.name.localeCompare(b.name));
+
+export const getRoutineKey = (routine: DatabaseRoutine): string =>
+  routine.schema ? `${routine.schema}.${routine.name}` : routine.name;
+
+export const matchesRoutine = (routine: DatabaseRoutine, query: string): boolean => {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) {
+    return true;
+  }
+  return [
+    getRoutineKey(routine),
+    routine.description,
+    routine.table,
+    ...routine.parameters.map(parameter => parameter.name),
+  ].some(value => value?.toLowerCase().includes(normalized));
+};
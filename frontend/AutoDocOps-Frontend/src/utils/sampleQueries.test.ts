@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  QueryRenderError,
+  parseSampleQueries,
+  renderSampleQuery,
+  toSqlLiteral,
+} from './sampleQueries';
+
+describe('toSqlLiteral', () => {
+  it('turns only an empty value into NULL', () => {
+    expect(toSqlLiteral({ name: 'Name' }, '  ')).toBe('NULL');
+    expect(toSqlLiteral({ name: 'Name', dataType: 'nvarchar(50)' }, 'NULL')).toBe("N'NULL'");
+  });
+
+  it('inlines numbers only for numeric types', () => {
+    expect(toSqlLiteral({ name: 'Id', dataType: 'int' }, '42')).toBe('42');
+    expect(toSqlLiteral({ name: 'Code', dataType: 'varchar(10)' }, '007')).toBe("'007'");
+    expect(toSqlLiteral({ name: 'Code' }, '007')).toBe("'007'");
+    expect(() => toSqlLiteral({ name: 'Id', dataType: 'int' }, '1; DROP TABLE x')).toThrow(
+      QueryRenderError,
+    );
+  });
+
+  it('maps bit values and escapes quotes', () => {
+    expect(toSqlLiteral({ name: 'Active', dataType: 'bit' }, 'true')).toBe('1');
+    expect(toSqlLiteral({ name: 'Name' }, "O'Brien")).toBe("'O''Brien'");
+  });
+});
+
+describe('parseSampleQueries', () => {
+  it('reads JSON docs with declared parameters', () => {
+    const [query] = parseSampleQueries(
+      JSON.stringify([
+        {
+          name: 'By id',
+          query: 'SELECT * FROM Users WHERE Id = @Id AND Name = @Name',
+          parameters: [{ name: '@Id', type: 'int', default: 1 }],
+        },
+      ]),
+    );
+
+    expect(query?.name).toBe('By id');
+    expect(query?.parameters).toEqual([
+      { name: 'Id', dataType: 'int', defaultValue: '1' },
+      { name: 'Name' },
+    ]);
+  });
+
+  it('splits SQL docs on "-- name:" lines and skips declared variables', () => {
+    const queries = parseSampleQueries(
+      [
+        '-- name: Active users',
+        '-- Users that logged in recently',
+        'DECLARE @Since date = GETDATE();',
+        'SELECT * FROM Users WHERE LastLogin > @Since AND Role = @Role;',
+        '-- name: Count',
+        'SELECT @@ROWCOUNT;',
+      ].join('\n'),
+    );
+
+    expect(queries.map(query => query.name)).toEqual(['Active users', 'Count']);
+    expect(queries[0]?.description).toBe('Users that logged in recently');
+    expect(queries[0]?.parameters).toEqual([{ name: 'Role' }]);
+    expect(queries[1]?.parameters).toEqual([]);
+  });
+
+  it('skips every variable of a multi-variable DECLARE, but not the ones used as values', () => {
+    const [query] = parseSampleQueries(
+      [
+        "DECLARE @a int, @b decimal(10, 2) = @Rate, @c nvarchar(10) = 'x, @d';",
+        'SELECT @a, @b, @c, @e;',
+      ].join('\n'),
+    );
+
+    expect(query?.parameters).toEqual([{ name: 'Rate' }, { name: 'e' }]);
+    expect(query && renderSampleQuery(query, { Rate: '2', e: 'y' })).toBe(
+      [
+        "DECLARE @a int, @b decimal(10, 2) = '2', @c nvarchar(10) = 'x, @d';",
+        "SELECT @a, @b, @c, 'y';",
+      ].join('\n'),
+    );
+  });
+});
+
+describe('renderSampleQuery', () => {
+  it('replaces placeholders but not text inside strings or comments', () => {
+    const [query] = parseSampleQueries(
+      "SELECT '@Id' AS label -- @Id\nFROM Users WHERE Id = @Id AND Name = @name",
+    );
+
+    expect(query && renderSampleQuery(query, { Id: '5', name: '5' })).toBe(
+      "SELECT '@Id' AS label -- @Id\nFROM Users WHERE Id = '5' AND Name = '5'",
+    );
+  });
+});
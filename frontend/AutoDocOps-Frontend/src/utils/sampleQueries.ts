@@ -0,0 +1,297 @@
+import { SampleQuery, SampleQueryParameter } from '../types';
+import { SyntaxToken, tokenize } from './syntaxHighlight';
+
+/*
+ * Parser and renderer for DatabaseSchema.sampleQueries. The doc is JSON (an array of
+ * `{ name, description, query }` or `{ queries: [...] }`), Markdown with one heading and a
+ * ```sql block per query, or plain SQL where each query starts with a `-- name: ...` line.
+ *
+ * `@param` placeholders become inputs; variables the query DECLAREs itself and `@@` system
+ * functions are left alone.
+ */
+
+export type ParameterValues = Record<string, string>;
+
+export class QueryRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryRenderError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pickString = (raw: RawObject, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = raw[key];
+    if (typeof value === 'string' && value.trim() !== '') {
+      return value.trim();
+    }
+  }
+  return undefined;
+};
+
+const NUMERIC_TYPE =
+  /^(?:tiny|small|big)?int(?:eger)?$|^(?:decimal|numeric|float|real|money|smallmoney)\b/i;
+const BOOLEAN_TYPE = /^(?:bit|bool(?:ean)?)$/i;
+const NUMBER_VALUE = /^-?\d+(?:\.\d+)?$/;
+
+// Statements that end a DECLARE list not closed by ';'
+const STATEMENT_START =
+  /^(?:SELECT|SET|INSERT|UPDATE|DELETE|MERGE|EXEC|EXECUTE|IF|WHILE|BEGIN|RETURN|WITH)$/i;
+
+interface DeclareListState {
+  inList: boolean;
+  expectName: boolean;
+  depth: number;
+}
+
+// Punctuation inside a DECLARE list: ',' at the top level starts the next variable, ';' ends it
+const scanDeclarePunctuation = (text: string, state: DeclareListState): void => {
+  for (const char of text) {
+    if (char === '(') {
+      state.depth += 1;
+    } else if (char === ')') {
+      state.depth -= 1;
+    } else if (char === ',' && state.depth === 0) {
+      state.expectName = true;
+    } else if (char === ';') {
+      state.inList = false;
+      return;
+    }
+  }
+};
+
+/**
+ * Variables the query declares itself: the "@name" right after DECLARE and after every ','
+ * of that list ("DECLARE @a INT, @b DECIMAL(10, 2) = @Rate"). Commas inside parentheses or
+ * strings don't start a new variable, and `= @Rate` is a value, not a declaration.
+ */
+const findDeclaredVariables = (tokens: SyntaxToken[]): Set<string> => {
+  const declared = new Set<string>();
+  const state: DeclareListState = { inList: false, expectName: false, depth: 0 };
+  tokens.forEach(token => {
+    if (token.type === 'keyword' && /^DECLARE$/i.test(token.text)) {
+      Object.assign(state, { inList: true, expectName: true, depth: 0 });
+    } else if (!state.inList) {
+      return;
+    } else if (token.type === 'variable' && state.expectName) {
+      declared.add(token.text.replace(/^@/, '').toLowerCase());
+      state.expectName = false;
+    } else if (token.type === 'keyword' && state.depth === 0 && STATEMENT_START.test(token.text)) {
+      state.inList = false;
+    } else if (token.type === 'plain') {
+      scanDeclarePunctuation(token.text, state);
+    }
+  });
+  return declared;
+};
+
+// Placeholder tokens: "@Name" variables, string and comment contents are never scanned
+const findPlaceholders = (sql: string): string[] => {
+  const tokens = tokenize(sql, 'sql');
+  const declared = findDeclaredVariables(tokens);
+  const names: string[] = [];
+  tokens.forEach(token => {
+    const name = token.type === 'variable' ? token.text.match(/^@(\w+)$/)?.[1] : undefined;
+    if (
+      name &&
+      !declared.has(name.toLowerCase()) &&
+      !names.some(existing => existing.toLowerCase() === name.toLowerCase())
+    ) {
+      names.push(name);
+    }
+  });
+  return names;
+};
+
+const buildQuery = (
+  fields: { name?: string; description?: string; sql?: string },
+  declaredParameters: SampleQueryParameter[],
+  index: number,
+): SampleQuery | null => {
+  const sql = fields.sql?.trim();
+  if (!sql) {
+    return null;
+  }
+  const declaredByName = new Map(
+    declaredParameters.map(parameter => [parameter.name.toLowerCase(), parameter]),
+  );
+  return {
+    name: fields.name ?? `Consulta ${index + 1}`,
+    ...(fields.description ? { description: fields.description } : {}),
+    sql,
+    parameters: findPlaceholders(sql).map(
+      name => declaredByName.get(name.toLowerCase()) ?? { name },
+    ),
+  };
+};
+
+const parseJsonParameters = (raw: unknown): SampleQueryParameter[] => {
+  const entries: [string, unknown][] = Array.isArray(raw)
+    ? raw.map(parameter => ['', parameter])
+    : isObject(raw)
+      ? Object.entries(raw)
+      : [];
+  return entries.flatMap(([key, value]) => {
+    if (!isObject(value)) {
+      return [];
+    }
+    const name = (pickString(value, ['name']) ?? key).replace(/^@/, '');
+    if (!name) {
+      return [];
+    }
+    const dataType = pickString(value, ['dataType', 'type']);
+    const defaultValue =
+      typeof value.defaultValue === 'number' || typeof value.default === 'number'
+        ? String(value.defaultValue ?? value.default)
+        : pickString(value, ['defaultValue', 'default', 'example']);
+    const description = pickString(value, ['description']);
+    return [
+      {
+        name,
+        ...(dataType ? { dataType } : {}),
+        ...(defaultValue ? { defaultValue } : {}),
+        ...(description ? { description } : {}),
+      },
+    ];
+  });
+};
+
+const parseJsonDoc = (raw: unknown): SampleQuery[] => {
+  const container = isObject(raw) ? (raw.queries ?? raw.sampleQueries ?? raw.items) : raw;
+  if (!Array.isArray(container)) {
+    return [];
+  }
+  return container
+    .map((item, index) => {
+      if (typeof item === 'string') {
+        return buildQuery({ sql: item }, [], index);
+      }
+      if (!isObject(item)) {
+        return null;
+      }
+      const name = pickString(item, ['name', 'title']);
+      const description = pickString(item, ['description', 'summary']);
+      const sql = pickString(item, ['query', 'sql', 'statement']);
+      return buildQuery(
+        {
+          ...(name ? { name } : {}),
+          ...(description ? { description } : {}),
+          ...(sql ? { sql } : {}),
+        },
+        parseJsonParameters(item.parameters),
+        index,
+      );
+    })
+    .filter((query): query is SampleQuery => query !== null);
+};
+
+const parseMarkdownDoc = (text: string): SampleQuery[] =>
+  text
+    .split(/^#{2,4}\s+/m)
+    .slice(1)
+    .map((section, index) => {
+      const [heading = '', ...lines] = section.split('\n');
+      const body = lines.join('\n');
+      const sql = body.match(/```(?:sql|tsql)?\s*\n([\s\S]*?)```/i)?.[1];
+      const description = body.replace(/```[\s\S]*?```/g, '').trim();
+      const name = heading.replace(/[`*]/g, '').trim();
+      return buildQuery(
+        {
+          ...(name ? { name } : {}),
+          ...(description ? { description } : {}),
+          ...(sql ? { sql } : {}),
+        },
+        [],
+        index,
+      );
+    })
+    .filter((query): query is SampleQuery => query !== null);
+
+// "-- name: Active users" starts a query, the following comment lines describe it
+const parseSqlDoc = (text: string): SampleQuery[] => {
+  const blocks = /^\s*--\s*name\s*:/im.test(text)
+    ? text.split(/^(?=\s*--\s*name\s*:)/im)
+    : text.split(/;\s*\n\s*\n/);
+  return blocks
+    .map((block, index) => {
+      const name = block.match(/^\s*--\s*name\s*:\s*(.+)$/im)?.[1]?.trim();
+      const lines = block.split('\n').filter(line => !/^\s*--\s*name\s*:/i.test(line));
+      const firstCode = lines.findIndex(line => line.trim() !== '' && !/^\s*--/.test(line));
+      const description = lines
+        .slice(0, firstCode === -1 ? lines.length : firstCode)
+        .map(line => line.replace(/^\s*--\s?/, ''))
+        .join('\n')
+        .trim();
+      return buildQuery(
+        {
+          ...(name ? { name } : {}),
+          ...(description ? { description } : {}),
+          sql: firstCode === -1 ? '' : lines.slice(firstCode).join('\n'),
+        },
+        [],
+        index,
+      );
+    })
+    .filter((query): query is SampleQuery => query !== null);
+};
+
+export const parseSampleQueries = (text: string): SampleQuery[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      return parseJsonDoc(JSON.parse(trimmed));
+    } catch (error) {
+      // Not JSON after all, try the text formats
+    }
+  }
+  return /^#{2,4}\s+/m.test(trimmed) ? parseMarkdownDoc(trimmed) : parseSqlDoc(trimmed);
+};
+
+/**
+ * SQL literal for a parameter value: only an empty value becomes NULL, numeric and bit
+ * parameters are validated and inlined, everything else (including untyped parameters and
+ * the text "NULL") is quoted with embedded quotes doubled.
+ */
+export const toSqlLiteral = (parameter: SampleQueryParameter, value: string): string => {
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return 'NULL';
+  }
+  const dataType = parameter.dataType ?? '';
+  if (NUMERIC_TYPE.test(dataType)) {
+    if (!NUMBER_VALUE.test(trimmed)) {
+      throw new QueryRenderError(`@${parameter.name} debe ser un número.`);
+    }
+    return trimmed;
+  }
+  if (BOOLEAN_TYPE.test(dataType)) {
+    if (/^(?:1|true|sí|si)$/i.test(trimmed)) {
+      return '1';
+    }
+    if (/^(?:0|false|no)$/i.test(trimmed)) {
+      return '0';
+    }
+    throw new QueryRenderError(`@${parameter.name} debe ser 1 o 0.`);
+  }
+  const escaped = `'${value.replace(/\u0000/g, '').replace(/'/g, "''")}'`;
+  return /^n(?:var)?char|^ntext/i.test(dataType) ? `N${escaped}` : escaped;
+};
+
+// Replaces each placeholder token, so "@Id" inside strings or comments is kept as written
+export const renderSampleQuery = (query: SampleQuery, values: ParameterValues): string => {
+  const byName = new Map(
+    query.parameters.map(parameter => [parameter.name.toLowerCase(), parameter]),
+  );
+  return tokenize(query.sql, 'sql')
+    .map(token => {
+      const name = token.type === 'variable' ? token.text.match(/^@(\w+)$/)?.[1] : undefined;
+      const parameter = name ? byName.get(name.toLowerCase()) : undefined;
+      return parameter ? toSqlLiteral(parameter, values[parameter.name] ?? '') : token.text;
+    })
+    .join('');
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { buildSdkTree, findMatchingLines, getSdkArchiveName, splitSdkFiles } from './sdkFiles';
+
+describe('splitSdkFiles', () => {
+  it('returns no files for empty output', () => {
+    expect(splitSdkFiles('', 'typescript')).toEqual([]);
+    expect(splitSdkFiles('```ts\n```', 'typescript')).toEqual([]);
+  });
+
+  it('names unmarked code after the default entry file of the language', () => {
+    expect(splitSdkFiles('export const a = 1;', 'typescript')).toEqual([
+      { path: 'index.ts', content: 'export const a = 1;\n' },
+    ]);
+    expect(splitSdkFiles('public class Client {}', 'csharp')).toEqual([
+      { path: 'Client.cs', content: 'public class Client {}\n' },
+    ]);
+  });
+
+  it('splits on labelled and decorated marker comments', () => {
+    const files = splitSdkFiles(
+      [
+        '// File: ./src/models.ts',
+        'export interface Order {}',
+        '',
+        '// ===== src\\client.ts =====',
+        'export class Client {}',
+      ].join('\n'),
+      'typescript',
+    );
+
+    expect(files).toEqual([
+      { path: 'src/models.ts', content: 'export interface Order {}\n' },
+      { path: 'src/client.ts', content: 'export class Client {}\n' },
+    ]);
+  });
+
+  it('takes paths from fence labels or the line before the fence, ignoring other prose', () => {
+    const files = splitSdkFiles(
+      [
+        'Here is your SDK.',
+        '```typescript:src/api.ts',
+        'export const api = {};',
+        '```',
+        '### src/models.ts',
+        '```ts',
+        'export type Id = string;',
+        '```',
+        'And a helper:',
+        '```ts',
+        'export const helper = 1;',
+        '```',
+      ].join('\n'),
+      'typescript',
+    );
+
+    expect(files.map(file => file.path)).toEqual(['src/api.ts', 'src/models.ts', 'index.ts']);
+    expect(files[0]?.content).toBe('export const api = {};\n');
+  });
+
+  it('suffixes paths used more than once, ignoring case', () => {
+    const files = splitSdkFiles(
+      ['// File: src/Api.ts', 'a', '// File: src/api.ts', 'b', '// File: src/API.ts', 'c'].join(
+        '\n',
+      ),
+      'typescript',
+    );
+
+    expect(files.map(file => file.path)).toEqual(['src/Api.ts', 'src/api-2.ts', 'src/API-3.ts']);
+  });
+});
+
+describe('buildSdkTree', () => {
+  it('lists folders before files, both in alphabetical order', () => {
+    const tree = buildSdkTree([
+      { path: 'README.md', content: '' },
+      { path: 'src/models/order.ts', content: '' },
+      { path: 'src/client.ts', content: '' },
+      { path: 'index.ts', content: '' },
+    ]);
+
+    expect(tree.map(node => node.path)).toEqual(['src', 'index.ts', 'README.md']);
+    const src = tree[0];
+    expect(src?.type === 'folder' && src.children.map(node => node.path)).toEqual([
+      'src/models',
+      'src/client.ts',
+    ]);
+  });
+
+  it('returns an empty tree for no files', () => {
+    expect(buildSdkTree([])).toEqual([]);
+  });
+});
+
+describe('findMatchingLines', () => {
+  it('finds lines case-insensitively and nothing for a blank query', () => {
+    const lines = ['export class Client {', '  getOrders() {}', '}'];
+
+    expect(findMatchingLines(lines, ' client ')).toEqual([0]);
+    expect(findMatchingLines(lines, 'ORDERS')).toEqual([1]);
+    expect(findMatchingLines(lines, '  ')).toEqual([]);
+  });
+});
+
+describe('getSdkArchiveName', () => {
+  it('falls back to "api" when the name has nothing usable', () => {
+    expect(getSdkArchiveName('Órdenes API', 'csharp')).toBe('ordenes-api-csharp-sdk.zip');
+    expect(getSdkArchiveName('!!!', 'typescript')).toBe('api-typescript-sdk.zip');
+  });
+});
@@ -0,0 +1,210 @@
+/*
+ * The SDK generator returns each SDK as a single string. Files are separated by marker
+ * comments ("// File: src/models.ts", "// ===== Client.cs =====") and the output is often
+ * wrapped in Markdown fences, so both forms are split back into individual files here.
+ */
+
+import { toFileSlug } from './fileNames';
+
+export type SdkLanguage = 'typescript' | 'csharp';
+
+export interface SdkFile {
+  path: string;
+  content: string;
+}
+
+export interface SdkFolderNode {
+  type: 'folder';
+  name: string;
+  path: string;
+  children: SdkTreeNode[];
+}
+
+export interface SdkFileNode {
+  type: 'file';
+  name: string;
+  path: string;
+  file: SdkFile;
+}
+
+export type SdkTreeNode = SdkFolderNode | SdkFileNode;
+
+const FILE_EXTENSIONS = 'ts|tsx|js|mjs|json|cs|csproj|sln|props|md|txt|yml|yaml';
+const PATH = `[\\w@.-]+(?:[/\\\\][\\w@.-]+)*\\.(?:${FILE_EXTENSIONS})(?!\\w)`;
+
+// A comment line holding only a path, optionally labelled and decorated with = or -
+const MARKER_PATTERN = new RegExp(
+  '^\\s*(?:\\/\\/|\\/\\*|#)\\s*[=-]*\\s*(?:(?:file|filename|archivo|path)\\s*:\\s*)?' +
+    `(${PATH})\\s*[=-]*\\s*(?:\\*\\/)?\\s*$`,
+  'i',
+);
+
+// "```typescript:src/api.ts" and "```ts title="src/api.ts""
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([\w#+-]*)(?:[:\s]+(?:title=)?["']?([^"'\s]+)["']?)?/;
+const PATH_PATTERN = new RegExp(PATH, 'gi');
+
+const DEFAULT_FILE_NAMES: Record<SdkLanguage, string> = {
+  typescript: 'index.ts',
+  csharp: 'Client.cs',
+};
+
+const normalizePath = (path: string): string =>
+  path
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/|\/)+/, '');
+
+interface SdkSection {
+  path?: string;
+  code: string;
+}
+
+// Lines of the fenced block opening at lines[index], and the index right after its closing fence
+const readFence = (
+  lines: string[],
+  index: number,
+  closing: string,
+): { body: string[]; next: number } => {
+  let end = index + 1;
+  while (end < lines.length && !(lines[end] ?? '').trim().startsWith(closing)) {
+    end += 1;
+  }
+  return { body: lines.slice(index + 1, end), next: end + 1 };
+};
+
+// Path from the fence label, else the last path mentioned right before the fence
+// ("### src/models.ts", "**Client.cs**")
+const findSectionPath = (label: string | undefined, prose: string[]): string | undefined => {
+  if (label && new RegExp(`^${PATH}$`, 'i').test(label)) {
+    return label;
+  }
+  const proseLines = prose.filter(proseLine => proseLine.trim().length > 0);
+  const headingPaths = (proseLines[proseLines.length - 1] ?? '').match(PATH_PATTERN) ?? [];
+  return headingPaths[headingPaths.length - 1];
+};
+
+const extractFencedSections = (source: string): SdkSection[] => {
+  const lines = source.split('\n');
+  const sections: SdkSection[] = [];
+  let prose: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index] ?? '';
+    const fence = FENCE_PATTERN.exec(line);
+    if (!fence) {
+      prose.push(line);
+      index += 1;
+      continue;
+    }
+
+    const { body, next } = readFence(lines, index, fence[1] ?? '```');
+    const path = findSectionPath(fence[3], prose);
+    sections.push({ ...(path ? { path } : {}), code: body.join('\n') });
+    prose = [];
+    index = next;
+  }
+
+  return sections;
+};
+
+const splitByMarkers = (section: SdkSection): SdkSection[] => {
+  const sections: SdkSection[] = [];
+  let current: SdkSection = { ...section, code: '' };
+  const lines: string[] = [];
+
+  const flush = (): void => {
+    const code = lines
+      .join('\n')
+      .replace(/^\s*\n/, '')
+      .replace(/\s+$/, '');
+    if (code.length > 0) {
+      sections.push({ ...current, code: `${code}\n` });
+    }
+    lines.length = 0;
+  };
+
+  section.code.split('\n').forEach(line => {
+    const marker = MARKER_PATTERN.exec(line);
+    if (marker?.[1]) {
+      flush();
+      current = { path: marker[1], code: '' };
+      return;
+    }
+    lines.push(line);
+  });
+  flush();
+
+  return sections;
+};
+
+/**
+ * Splits a generated SDK into files. Code that comes before any marker keeps the name of
+ * its fence, or a default entry file name for the language; duplicated paths get a suffix.
+ */
+export const splitSdkFiles = (source: string, language: SdkLanguage): SdkFile[] => {
+  const sections = /^\s*(`{3,}|~{3,})/m.test(source)
+    ? extractFencedSections(source)
+    : [{ code: source }];
+
+  const files: SdkFile[] = [];
+  const usedPaths = new Set<string>();
+  const defaultName = DEFAULT_FILE_NAMES[language];
+
+  sections.flatMap(splitByMarkers).forEach(section => {
+    const basePath = normalizePath(section.path ?? defaultName);
+    let path = basePath;
+    for (let copy = 2; usedPaths.has(path.toLowerCase()); copy += 1) {
+      path = basePath.replace(/(\.[^./]+)?$/, extension => `-${copy}${extension}`);
+    }
+    usedPaths.add(path.toLowerCase());
+    files.push({ path, content: section.code });
+  });
+
+  return files;
+};
+
+const sortNodes = (nodes: SdkTreeNode[]): SdkTreeNode[] =>
+  nodes
+    .map(node => (node.type === 'folder' ? { ...node, children: sortNodes(node.children) } : node))
+    .sort((a, b) =>
+      a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1,
+    );
+
+// Folder/file tree of the split files, folders first and both in alphabetical order
+export const buildSdkTree = (files: SdkFile[]): SdkTreeNode[] => {
+  const root: SdkFolderNode = { type: 'folder', name: '', path: '', children: [] };
+
+  files.forEach(file => {
+    const segments = file.path.split('/');
+    const fileName = segments.pop() ?? file.path;
+    let folder = root;
+    segments.forEach(segment => {
+      const path = folder.path ? `${folder.path}/${segment}` : segment;
+      let child = folder.children.find(
+        (node): node is SdkFolderNode => node.type === 'folder' && node.name === segment,
+      );
+      if (!child) {
+        child = { type: 'folder', name: segment, path, children: [] };
+        folder.children.push(child);
+      }
+      folder = child;
+    });
+    folder.children.push({ type: 'file', name: fileName, path: file.path, file });
+  });
+
+  return sortNodes(root.children);
+};
+
+// Indexes of the lines containing the query (case-insensitive)
+export const findMatchingLines = (lines: string[], query: string): number[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return [];
+  }
+  return lines.flatMap((line, index) => (line.toLowerCase().includes(needle) ? [index] : []));
+};
+
+// "Orders API" + csharp -> "orders-api-csharp-sdk.zip"
+export const getSdkArchiveName = (apiName: string, language: SdkLanguage): string =>
+  `${toFileSlug(apiName) || 'api'}-${language}-sdk.zip`;
@@ -0,0 +1,59 @@
+import { SemanticSearchResult } from '../types';
+
+/*
+ * Semantic search metadata as indexed by the backend:
+ *   api      -> method, path, operationId?, tag?
+ *   database -> schema?, table | objectName, objectType?, column?
+ * Results of a search across projects also carry projectId and projectName.
+ */
+
+const readString = (result: SemanticSearchResult, key: string): string | undefined => {
+  const value = result.metadata?.[key];
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+// Key the documentation viewer uses to focus an item: "GET /users/{id}" or "dbo.Users"
+export const getResultTarget = (result: SemanticSearchResult): string | undefined => {
+  if (result.type === 'api') {
+    const method = readString(result, 'method');
+    const path = readString(result, 'path');
+    return method && path ? `${method.toUpperCase()} ${path}` : readString(result, 'operationId');
+  }
+
+  const objectName = readString(result, 'table') ?? readString(result, 'objectName');
+  if (!objectName) {
+    return undefined;
+  }
+  const schema = readString(result, 'schema');
+  return schema ? `${schema}.${objectName}` : objectName;
+};
+
+export const getResultTitle = (result: SemanticSearchResult): string =>
+  getResultTarget(result) ?? (result.type === 'api' ? 'Endpoint' : 'Objeto de base de datos');
+
+// Secondary line: tag/operationId for endpoints, object type/column for database objects
+export const getResultSubtitle = (result: SemanticSearchResult): string | undefined => {
+  const parts =
+    result.type === 'api'
+      ? [readString(result, 'tag'), readString(result, 'operationId')]
+      : [readString(result, 'objectType'), readString(result, 'column')];
+  const subtitle = parts.filter(Boolean).join(' · ');
+  return subtitle || undefined;
+};
+
+export const getResultProjectId = (result: SemanticSearchResult): string | undefined =>
+  readString(result, 'projectId');
+
+export const formatScore = (score: number): string =>
+  `${Math.round(Math.max(0, Math.min(1, score)) * 100)}%`;
+
+// Extra metadata worth showing besides what's already in the title or the project scope
+const TITLE_KEYS = ['method', 'path', 'schema', 'table', 'objectName', 'projectId', 'projectName'];
+
+export const getDisplayMetadata = (result: SemanticSearchResult): [string, string][] =>
+  Object.entries(result.metadata ?? {})
+    .filter(([key, value]) => !TITLE_KEYS.includes(key) && value !== null && value !== undefined)
+    .map(([key, value]) => [
+      key,
+      typeof value === 'object' ? JSON.stringify(value) : String(value),
+    ]);
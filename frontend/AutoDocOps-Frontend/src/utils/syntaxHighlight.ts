@@ -0,0 +1,196 @@
+/*
+ * Small regex tokenizer for the code shown in the documentation viewers. It only needs to
+ * be good enough for colouring, so anything a rule doesn't recognise is kept as plain text.
+ */
+
+export type SyntaxTokenType =
+  'keyword' | 'string' | 'number' | 'comment' | 'variable' | 'type' | 'plain';
+
+export interface SyntaxToken {
+  type: SyntaxTokenType;
+  text: string;
+}
+
+export type CodeLanguage = 'sql' | 'typescript' | 'csharp' | 'json' | 'shell';
+
+interface TokenRule {
+  type: SyntaxTokenType;
+  pattern: RegExp;
+}
+
+const SQL_KEYWORDS = (
+  'ADD AFTER ALL ALTER AND AS ASC BEGIN BETWEEN BY CASE CATCH CLOSE COMMIT CREATE CROSS CURSOR ' +
+  'DECLARE DEFAULT DELETE DESC DISTINCT DROP ELSE END EXEC EXECUTE EXISTS FETCH FOR FROM FULL ' +
+  'FUNCTION GO GROUP HAVING IF IN INNER INSERT INSTEAD INTO IS JOIN LEFT LIKE LIMIT MERGE ' +
+  'NOCOUNT NOT NULL OF OFFSET ON OPEN OR ORDER OUT OUTER OUTPUT OVER PARTITION PROC PROCEDURE ' +
+  'RAISERROR READONLY REPLACE RETURN RETURNS RIGHT ROLLBACK SELECT SET TABLE THEN THROW TOP ' +
+  'TRAN TRANSACTION TRIGGER TRY UNION UPDATE USING VALUES VIEW WHEN WHERE WHILE WITH'
+).split(' ');
+
+const SQL_TYPES = (
+  'BIGINT BINARY BIT BOOLEAN CHAR DATE DATETIME DATETIME2 DATETIMEOFFSET DECIMAL FLOAT INT ' +
+  'INTEGER JSON JSONB MONEY NCHAR NUMERIC NVARCHAR REAL SMALLINT TEXT TIME TIMESTAMP TINYINT ' +
+  'UNIQUEIDENTIFIER UUID VARBINARY VARCHAR XML'
+).split(' ');
+
+const TYPESCRIPT_KEYWORDS = (
+  'abstract as async await break case catch class const continue debugger declare default ' +
+  'delete do else enum export extends false finally for from function get if implements ' +
+  'import in instanceof interface keyof let namespace new null of private protected public ' +
+  'readonly return set static super switch this throw true try type typeof undefined var ' +
+  'void while yield'
+).split(' ');
+
+const TYPESCRIPT_TYPES = 'any boolean never number object string symbol unknown'.split(' ');
+
+const CSHARP_KEYWORDS = (
+  'abstract as async await base break case catch class const continue default delegate do ' +
+  'else enum event explicit extern false finally fixed for foreach get goto if implicit in ' +
+  'init interface internal is lock namespace new null operator out override params partial ' +
+  'private protected public readonly record ref required return sealed set static struct ' +
+  'switch this throw true try typeof using var virtual void volatile when where while yield'
+).split(' ');
+
+const CSHARP_TYPES = (
+  'bool byte char decimal double dynamic float int long object sbyte short string uint ulong ' +
+  'ushort Task List Dictionary IEnumerable DateTime Guid'
+).split(' ');
+
+const SHELL_KEYWORDS = (
+  'if then else elif fi for in do done while case esac function export echo curl npm npx ' +
+  'dotnet yarn'
+).split(' ');
+
+const wordsPattern = (words: string[], ignoreCase = false): RegExp =>
+  new RegExp(`\\b(?:${words.join('|')})\\b`, ignoreCase ? 'iy' : 'y');
+
+const C_STYLE_COMMENT = /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y;
+const NUMBER = /\b(?:0x[\da-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)[mdfl]?\b/iy;
+
+const LANGUAGE_RULES: Record<CodeLanguage, TokenRule[]> = {
+  sql: [
+    { type: 'comment', pattern: /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+    { type: 'string', pattern: /N?'(?:[^']|'')*'?/y },
+    { type: 'variable', pattern: /@@?\w+|:\w+|\$\d+/y },
+    { type: 'number', pattern: /\b\d+(?:\.\d+)?\b/y },
+    { type: 'type', pattern: wordsPattern(SQL_TYPES, true) },
+    { type: 'keyword', pattern: wordsPattern(SQL_KEYWORDS, true) },
+  ],
+  typescript: [
+    { type: 'comment', pattern: C_STYLE_COMMENT },
+    {
+      type: 'string',
+      pattern: /`(?:[^`\\]|\\[\s\S])*`?|'(?:[^'\\\n]|\\.)*'?|"(?:[^"\\\n]|\\.)*"?/y,
+    },
+    { type: 'number', pattern: NUMBER },
+    { type: 'type', pattern: wordsPattern(TYPESCRIPT_TYPES) },
+    { type: 'keyword', pattern: wordsPattern(TYPESCRIPT_KEYWORDS) },
+    { type: 'variable', pattern: /@\w+/y },
+  ],
+  csharp: [
+    { type: 'comment', pattern: C_STYLE_COMMENT },
+    { type: 'string', pattern: /\$?@"(?:[^"]|"")*"?|\$?"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)'/y },
+    { type: 'number', pattern: NUMBER },
+    { type: 'type', pattern: wordsPattern(CSHARP_TYPES) },
+    { type: 'keyword', pattern: wordsPattern(CSHARP_KEYWORDS) },
+    { type: 'variable', pattern: /\[[A-Z][\w.()"= ,]*\](?=\s)/y },
+  ],
+  json: [
+    { type: 'variable', pattern: /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y },
+    { type: 'string', pattern: /"(?:[^"\\\n]|\\.)*"?/y },
+    { type: 'number', pattern: /-?\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/iy },
+    { type: 'keyword', pattern: wordsPattern(['true', 'false', 'null']) },
+  ],
+  shell: [
+    { type: 'comment', pattern: /#[^\n]*/y },
+    { type: 'string', pattern: /'[^']*'?|"(?:[^"\\]|\\[\s\S])*"?/y },
+    { type: 'variable', pattern: /\$\{?\w+\}?|(?<=\s)--?[\w-]+/y },
+    { type: 'keyword', pattern: wordsPattern(SHELL_KEYWORDS) },
+  ],
+};
+
+const LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+  sql: 'sql',
+  tsql: 'sql',
+  plpgsql: 'sql',
+  ts: 'typescript',
+  tsx: 'typescript',
+  typescript: 'typescript',
+  js: 'typescript',
+  jsx: 'typescript',
+  javascript: 'typescript',
+  cs: 'csharp',
+  'c#': 'csharp',
+  csharp: 'csharp',
+  json: 'json',
+  sh: 'shell',
+  bash: 'shell',
+  shell: 'shell',
+  curl: 'shell',
+};
+
+// Language of a fence info string or file extension, undefined when it isn't highlighted
+export const resolveLanguage = (name?: string): CodeLanguage | undefined =>
+  name ? LANGUAGE_ALIASES[name.trim().toLowerCase().replace(/^\./, '')] : undefined;
+
+// Runs of characters no rule can start with are consumed in one go
+const PLAIN_PATTERN = /[\s\S][^\s'"`@:$#\-/\w\[]*/y;
+const WORD_PATTERN = /\w+/y;
+
+export const tokenize = (code: string, language: CodeLanguage): SyntaxToken[] => {
+  const rules = LANGUAGE_RULES[language];
+  const tokens: SyntaxToken[] = [];
+  let position = 0;
+
+  const push = (type: SyntaxTokenType, text: string): void => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  while (position < code.length) {
+    let matched = false;
+    for (const rule of rules) {
+      rule.pattern.lastIndex = position;
+      const match = rule.pattern.exec(code);
+      if (match && match[0].length > 0) {
+        push(rule.type, match[0]);
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      // Whole identifiers stay plain, so keywords inside them are never coloured
+      const pattern = /\w/.test(code[position] ?? '') ? WORD_PATTERN : PLAIN_PATTERN;
+      pattern.lastIndex = position;
+      const text = pattern.exec(code)?.[0] ?? code.slice(position, position + 1);
+      push('plain', text);
+      position += text.length;
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Regroups tokens into one list per source line, cutting tokens that span several lines
+ * (block comments, template strings) so each line can be rendered next to its number.
+ */
+export const splitTokensByLine = (tokens: SyntaxToken[]): SyntaxToken[][] => {
+  const lines: SyntaxToken[][] = [[]];
+  tokens.forEach(token => {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      if (part.length > 0) {
+        lines[lines.length - 1]?.push({ type: token.type, text: part });
+      }
+    });
+  });
+  return lines;
+};